@@ -0,0 +1,165 @@
+import { IndexedDBCacheStore } from './IndexedDBCacheStore';
+import type {
+  AnalysisCacheEntry,
+  AnalysisCacheStats,
+  AnalysisCacheStore,
+  AnalysisResult,
+  LanguageCode
+} from '../types';
+
+export interface AnalysisCacheOptions {
+  version?: string;
+  store?: AnalysisCacheStore | null; // null keeps the cache in memory only
+  memoryLimit?: number;
+  persistentLimit?: number;
+}
+
+/**
+ * AnalysisCache - Two-level cache for analysis results
+ * An in-memory LRU sits in front of an optional persistent store. Keys are
+ * SHA-256 digests of the text, and every entry records the version it was
+ * computed with so results from older analyzers or lexicons are dropped.
+ */
+export class AnalysisCache {
+  private memory = new Map<string, AnalysisCacheEntry>(); // Insertion order = recency
+  private store: AnalysisCacheStore | null;
+  private version: string;
+  private memoryLimit: number;
+  private persistentLimit: number;
+  private hits = { memory: 0, persistent: 0 };
+  private misses = 0;
+  private staleEntries = 0;
+
+  constructor(options: AnalysisCacheOptions = {}) {
+    this.version = options.version ?? '0';
+    this.store = options.store !== undefined
+      ? options.store
+      : IndexedDBCacheStore.isAvailable() ? new IndexedDBCacheStore() : null;
+    this.memoryLimit = options.memoryLimit ?? 100;
+    this.persistentLimit = options.persistentLimit ?? 500;
+  }
+
+  // Content-addressed key; the forced language and incremental mode are
+  // part of the address since they change the result for the same text
+  async createKey(text: string, language?: LanguageCode, incremental = false): Promise<string> {
+    const material = `${language ?? 'auto'}\u0000${incremental ? 'incremental\u0000' : ''}${text}`;
+    const subtle = globalThis.crypto?.subtle;
+
+    // SubtleCrypto is missing outside secure contexts; the raw text is a
+    // longer key but still collision-free
+    if (!subtle) {
+      return `raw:${material}`;
+    }
+
+    const digest = await subtle.digest('SHA-256', new TextEncoder().encode(material));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  async get(key: string): Promise<AnalysisResult | undefined> {
+    const cached = this.memory.get(key);
+    if (cached) {
+      if (cached.version === this.version) {
+        // Move to the most recent end of the LRU order
+        this.memory.delete(key);
+        cached.lastAccess = Date.now();
+        this.memory.set(key, cached);
+        this.hits.memory++;
+        return cached.result;
+      }
+      this.memory.delete(key);
+      this.staleEntries++;
+    }
+
+    const stored = await this.persistent(store => store.get(key), undefined);
+    if (stored) {
+      if (stored.version === this.version) {
+        stored.lastAccess = Date.now();
+        this.remember(stored);
+        await this.persistent(store => store.set(stored), undefined);
+        this.hits.persistent++;
+        return stored.result;
+      }
+      await this.persistent(store => store.delete(key), undefined);
+      this.staleEntries++;
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  async set(key: string, result: AnalysisResult): Promise<void> {
+    const now = Date.now();
+    const entry: AnalysisCacheEntry = { key, version: this.version, result, createdAt: now, lastAccess: now };
+
+    this.remember(entry);
+    await this.persistent(async store => {
+      await store.set(entry);
+      await store.prune(this.persistentLimit);
+    }, undefined);
+  }
+
+  // Entries written under another version are treated as misses from now on
+  setVersion(version: string): void {
+    this.version = version;
+  }
+
+  getVersion(): string {
+    return this.version;
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    await this.persistent(store => store.clear(), undefined);
+  }
+
+  getStats(): AnalysisCacheStats {
+    const hits = this.hits.memory + this.hits.persistent;
+    const lookups = hits + this.misses;
+    const timestamps = Array.from(this.memory.values()).map(entry => entry.result.timestamp);
+
+    return {
+      size: this.memory.size,
+      oldestEntry: timestamps.length > 0 ? Math.min(...timestamps) : 0,
+      newestEntry: timestamps.length > 0 ? Math.max(...timestamps) : 0,
+      hits,
+      misses: this.misses,
+      memoryHits: this.hits.memory,
+      persistentHits: this.hits.persistent,
+      staleEntries: this.staleEntries,
+      hitRate: lookups > 0 ? hits / lookups : 0
+    };
+  }
+
+  private remember(entry: AnalysisCacheEntry): void {
+    this.memory.delete(entry.key);
+    this.memory.set(entry.key, entry);
+
+    // Evict least recently used entries
+    while (this.memory.size > this.memoryLimit) {
+      const oldest = this.memory.keys().next().value as string;
+      this.memory.delete(oldest);
+    }
+  }
+
+  // Run a persistent-store operation; a failing store (quota, private mode)
+  // degrades the cache to memory only
+  private async persistent<T>(operation: (store: AnalysisCacheStore) => Promise<T>, fallback: T): Promise<T> {
+    if (!this.store) {
+      return fallback;
+    }
+
+    try {
+      return await operation(this.store);
+    } catch (error) {
+      // A plugin output that cannot be cloned only affects this entry
+      if (error instanceof Error && error.name === 'DataCloneError') {
+        console.warn('⚠️ Analysis result could not be persisted:', error.message);
+        return fallback;
+      }
+
+      console.warn('⚠️ Persistent analysis cache unavailable, using memory only:', error);
+      this.store = null;
+      return fallback;
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import type { NeuralEchoError } from '../types';
+
+/**
+ * AnalysisCancellation - Abort errors and debouncing shared by
+ * TextAnalyzer and AnalysisWorkerClient
+ */
+export function createAbortError(component: string, reason = 'Text analysis aborted'): NeuralEchoError {
+  const error = new Error(reason) as NeuralEchoError;
+  error.name = 'AbortError';
+  error.code = 'TEXT_ANALYSIS_ABORTED';
+  error.component = component;
+  error.recoverable = true;
+  error.fallbackAction = 'ignore_stale_result';
+  return error;
+}
+
+export function isAnalysisAbortError(error: unknown): error is NeuralEchoError {
+  return error instanceof Error && (error as NeuralEchoError).code === 'TEXT_ANALYSIS_ABORTED';
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined, component: string): void {
+  if (signal?.aborted) {
+    throw createAbortError(component);
+  }
+}
+
+interface PendingDebounce {
+  timeout: ReturnType<typeof setTimeout>;
+  controller: AbortController;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Debounces analysis runs so only the latest call does any work.
+ * A superseded call rejects with an abort error instead of hanging, and
+ * a run that already started has its signal aborted.
+ */
+export class AnalysisDebouncer {
+  private pending: PendingDebounce | null = null;
+  private component: string;
+
+  constructor(component: string) {
+    this.component = component;
+  }
+
+  schedule<T>(
+    delay: number,
+    run: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    this.cancel('Superseded by newer input');
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError(this.component));
+        return;
+      }
+
+      const controller = new AbortController();
+      const onExternalAbort = () => {
+        if (this.pending?.controller === controller) {
+          this.cancel();
+        }
+      };
+      signal?.addEventListener('abort', onExternalAbort, { once: true });
+
+      const timeout = setTimeout(async () => {
+        try {
+          resolve(await run(controller.signal));
+        } catch (error) {
+          reject(error);
+        } finally {
+          signal?.removeEventListener('abort', onExternalAbort);
+          if (this.pending?.controller === controller) {
+            this.pending = null;
+          }
+        }
+      }, delay);
+
+      this.pending = { timeout, controller, reject };
+    });
+  }
+
+  // Abort whatever is waiting or running; its promise rejects with an abort error
+  cancel(reason?: string): void {
+    if (!this.pending) return;
+
+    const { timeout, controller, reject } = this.pending;
+    this.pending = null;
+
+    clearTimeout(timeout);
+    controller.abort();
+    reject(createAbortError(this.component, reason));
+  }
+}
@@ -0,0 +1,85 @@
+// Analysis worker entry point
+// Hosts a TextAnalyzer (and with it the sentiment, concept and complexity
+// analyzers) off the main thread so long texts don't block rendering.
+
+import { TextAnalyzer } from './TextAnalyzer';
+import { serializeAnalysisResult, serializeSnapshot } from '../core/Serialization';
+import { isAnalysisAbortError } from './AnalysisCancellation';
+import type {
+  AnalysisWorkerRequest,
+  AnalysisWorkerResponse
+} from '../types';
+
+// The app compiles against the DOM lib, so describe the worker scope we use
+interface AnalysisWorkerScope {
+  onmessage: ((event: MessageEvent<AnalysisWorkerRequest>) => void) | null;
+  postMessage(message: AnalysisWorkerResponse): void;
+}
+
+const scope = self as unknown as AnalysisWorkerScope;
+const textAnalyzer = new TextAnalyzer();
+const runningAnalyses = new Map<number, AbortController>();
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'analyze': {
+      const controller = new AbortController();
+      runningAnalyses.set(request.id, controller);
+
+      try {
+        const result = await textAnalyzer.analyze(request.text, {
+          useCache: request.useCache,
+          incremental: request.incremental,
+          language: request.language,
+          signal: controller.signal
+        });
+        scope.postMessage({ type: 'result', id: request.id, result: serializeAnalysisResult(result) });
+      } catch (error) {
+        if (isAnalysisAbortError(error)) {
+          scope.postMessage({ type: 'aborted', id: request.id });
+        } else {
+          scope.postMessage({ type: 'error', id: request.id, message: String(error) });
+        }
+      } finally {
+        runningAnalyses.delete(request.id);
+      }
+      break;
+    }
+
+    case 'analyzeStream': {
+      const controller = new AbortController();
+      runningAnalyses.set(request.id, controller);
+
+      try {
+        const stream = textAnalyzer.analyzeStream(request.text, {
+          sentencesPerChunk: request.sentencesPerChunk,
+          language: request.language,
+          signal: controller.signal
+        });
+        for await (const snapshot of stream) {
+          scope.postMessage({ type: 'snapshot', id: request.id, snapshot: serializeSnapshot(snapshot) });
+        }
+      } catch (error) {
+        if (isAnalysisAbortError(error)) {
+          scope.postMessage({ type: 'aborted', id: request.id });
+        } else {
+          scope.postMessage({ type: 'error', id: request.id, message: String(error) });
+        }
+      } finally {
+        runningAnalyses.delete(request.id);
+      }
+      break;
+    }
+
+    case 'cancel':
+      runningAnalyses.get(request.id)?.abort();
+      break;
+
+    case 'clearCache':
+      await textAnalyzer.clearCache();
+      scope.postMessage({ type: 'cleared', id: request.id });
+      break;
+  }
+};
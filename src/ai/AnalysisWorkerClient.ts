@@ -0,0 +1,253 @@
+import { TextAnalyzer } from './TextAnalyzer';
+import { deserializeAnalysisResult, deserializeSnapshot } from '../core/Serialization';
+import { AnalysisDebouncer, createAbortError, throwIfAborted } from './AnalysisCancellation';
+import type {
+  AnalysisResult,
+  AnalysisSnapshot,
+  AnalyzeOptions,
+  StreamOptions,
+  AnalysisWorkerRequest,
+  AnalysisWorkerResponse
+} from '../types';
+
+interface PendingRequest {
+  resolve: (response: AnalysisWorkerResponse) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * AnalysisWorkerClient - Main-thread facade for the analysis worker
+ * Mirrors TextAnalyzer.analyze() but runs the analysis in a Web Worker,
+ * falling back to an in-thread TextAnalyzer where workers are unavailable
+ */
+export class AnalysisWorkerClient {
+  private worker: Worker | null = null;
+  private fallbackAnalyzer: TextAnalyzer | null = null;
+  private pendingRequests = new Map<number, PendingRequest>();
+  private streamListeners = new Map<number, (response: AnalysisWorkerResponse) => void>();
+  private nextRequestId = 1;
+  private debouncer = new AnalysisDebouncer('AnalysisWorkerClient');
+
+  constructor() {
+    if (typeof Worker === 'undefined') {
+      console.warn('⚠️ Web Workers not supported, analyzing on the main thread');
+      this.fallbackAnalyzer = new TextAnalyzer();
+      return;
+    }
+
+    this.worker = new Worker(new URL('./AnalysisWorker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => this.handleResponse(event.data);
+    this.worker.onerror = (event) => this.handleWorkerFailure(event);
+    console.log('🧵 Analysis worker started');
+  }
+
+  async analyze(text: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+    if (this.fallbackAnalyzer) {
+      return this.fallbackAnalyzer.analyze(text, options);
+    }
+
+    const { useCache = true, incremental = false, language, signal } = options;
+    throwIfAborted(signal, 'AnalysisWorkerClient');
+
+    const id = this.nextRequestId++;
+    const onAbort = () => {
+      // Settle locally right away; the worker drops its run at the next stage
+      const pending = this.pendingRequests.get(id);
+      this.pendingRequests.delete(id);
+      const cancelRequest: AnalysisWorkerRequest = { type: 'cancel', id };
+      this.worker?.postMessage(cancelRequest);
+      pending?.reject(createAbortError('AnalysisWorkerClient'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await this.send({ type: 'analyze', id, text, useCache, incremental, language });
+
+      if (response.type === 'aborted') {
+        throw createAbortError('AnalysisWorkerClient');
+      }
+      if (response.type === 'error') {
+        throw new Error(response.message);
+      }
+      if (response.type !== 'result') {
+        throw new Error(`Unexpected worker response: ${response.type}`);
+      }
+
+      return deserializeAnalysisResult(response.result);
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // Debounced analysis for real-time text input.
+  // A call superseded by a newer one rejects with an abort error.
+  async analyzeDebounced(text: string, delay = 500, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+    return this.debouncer.schedule(
+      delay,
+      signal => this.analyze(text, { ...options, signal }),
+      options.signal
+    );
+  }
+
+  // Cancel any pending or running debounced analysis
+  cancelPending(): void {
+    this.debouncer.cancel();
+  }
+
+  // Streaming analysis: yields progressively larger results as the worker
+  // gets through the text
+  async *analyzeStream(text: string, options: StreamOptions = {}): AsyncGenerator<AnalysisSnapshot> {
+    if (this.fallbackAnalyzer) {
+      yield* this.fallbackAnalyzer.analyzeStream(text, options);
+      return;
+    }
+
+    const { sentencesPerChunk, language, signal } = options;
+    throwIfAborted(signal, 'AnalysisWorkerClient');
+
+    const worker = this.worker;
+    if (!worker) {
+      throw new Error('Analysis worker disposed');
+    }
+
+    const id = this.nextRequestId++;
+    const queue: AnalysisWorkerResponse[] = [];
+    let wake: (() => void) | null = null;
+    let finished = false;
+
+    const push = (response: AnalysisWorkerResponse) => {
+      queue.push(response);
+      wake?.();
+    };
+    const onAbort = () => push({ type: 'aborted', id });
+
+    this.streamListeners.set(id, push);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const streamRequest: AnalysisWorkerRequest = { type: 'analyzeStream', id, text, sentencesPerChunk, language };
+    worker.postMessage(streamRequest);
+
+    try {
+      while (!finished) {
+        if (queue.length === 0) {
+          await new Promise<void>(resolve => { wake = resolve; });
+          wake = null;
+          continue;
+        }
+
+        const response = queue.shift()!;
+        switch (response.type) {
+          case 'snapshot': {
+            const snapshot = deserializeSnapshot(response.snapshot);
+            finished = snapshot.done;
+            yield snapshot;
+            break;
+          }
+          case 'aborted':
+            finished = true;
+            throw createAbortError('AnalysisWorkerClient');
+          case 'error':
+            finished = true;
+            throw new Error(response.message);
+        }
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      this.streamListeners.delete(id);
+
+      // Stop the worker if the consumer left early
+      if (!finished) {
+        const cancelRequest: AnalysisWorkerRequest = { type: 'cancel', id };
+        this.worker?.postMessage(cancelRequest);
+      }
+    }
+  }
+
+  // Debounced streaming for long texts being typed or pasted. Every snapshot
+  // goes to onSnapshot; the promise settles with the final result.
+  async streamDebounced(
+    text: string,
+    delay: number,
+    onSnapshot: (snapshot: AnalysisSnapshot) => void,
+    options: StreamOptions = {}
+  ): Promise<AnalysisResult> {
+    return this.debouncer.schedule(delay, async signal => {
+      let finalResult: AnalysisResult | null = null;
+
+      for await (const snapshot of this.analyzeStream(text, { ...options, signal })) {
+        onSnapshot(snapshot);
+        finalResult = snapshot.result;
+      }
+
+      if (!finalResult) {
+        throw new Error('Analysis stream ended without a result');
+      }
+      return finalResult;
+    }, options.signal);
+  }
+
+  async clearCache(): Promise<void> {
+    if (this.fallbackAnalyzer) {
+      await this.fallbackAnalyzer.clearCache();
+      return;
+    }
+
+    await this.send({ type: 'clearCache', id: this.nextRequestId++ });
+  }
+
+  isUsingWorker(): boolean {
+    return this.worker !== null;
+  }
+
+  private send(request: AnalysisWorkerRequest): Promise<AnalysisWorkerResponse> {
+    return new Promise((resolve, reject) => {
+      if (!this.worker) {
+        reject(new Error('Analysis worker disposed'));
+        return;
+      }
+
+      this.pendingRequests.set(request.id, { resolve, reject });
+      this.worker.postMessage(request);
+    });
+  }
+
+  private handleResponse(response: AnalysisWorkerResponse): void {
+    const streamListener = this.streamListeners.get(response.id);
+    if (streamListener) {
+      streamListener(response);
+      return;
+    }
+
+    const pending = this.pendingRequests.get(response.id);
+    if (!pending) return;
+
+    this.pendingRequests.delete(response.id);
+    pending.resolve(response);
+  }
+
+  private handleWorkerFailure(event: ErrorEvent): void {
+    console.error('💥 Analysis worker failed, falling back to main thread:', event.message);
+
+    this.worker?.terminate();
+    this.worker = null;
+    this.fallbackAnalyzer = new TextAnalyzer();
+
+    const error = new Error(`Analysis worker failed: ${event.message}`);
+    this.pendingRequests.forEach(pending => pending.reject(error));
+    this.pendingRequests.clear();
+    this.streamListeners.forEach((listener, id) => listener({ type: 'error', id, message: error.message }));
+  }
+
+  // Cleanup
+  dispose(): void {
+    this.debouncer.cancel();
+    this.fallbackAnalyzer?.cancelPending();
+
+    this.worker?.terminate();
+    this.worker = null;
+
+    const error = new Error('Analysis worker disposed');
+    this.pendingRequests.forEach(pending => pending.reject(error));
+    this.pendingRequests.clear();
+    this.streamListeners.forEach((listener, id) => listener({ type: 'error', id, message: error.message }));
+  }
+}
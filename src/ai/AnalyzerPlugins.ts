@@ -0,0 +1,16 @@
+import { AnalyzerRegistry } from './AnalyzerRegistry';
+import type { AnalyzerPlugin } from '../types';
+
+/**
+ * Project-wide analyzer plugins.
+ * The analysis worker and the main thread each build their registry from
+ * this list, so a plugin added here runs in the worker and gets its node
+ * hook called by NodeSystem.
+ */
+export const ANALYZER_PLUGINS: AnalyzerPlugin[] = [];
+
+export function createAnalyzerRegistry(plugins: AnalyzerPlugin[] = ANALYZER_PLUGINS): AnalyzerRegistry {
+  const registry = new AnalyzerRegistry();
+  plugins.forEach(plugin => registry.register(plugin));
+  return registry;
+}
@@ -0,0 +1,141 @@
+import type {
+  AnalysisResult,
+  AnalyzerPlugin,
+  AnalyzerPluginContext,
+  NeuralEchoError,
+  PluginNodeSpec
+} from '../types';
+
+export interface ContributedNodeSpec extends PluginNodeSpec {
+  source: string; // Name of the plugin that produced the spec
+}
+
+/**
+ * AnalyzerRegistry - Custom analysis stages that run after the core analyzers
+ * Plugins declare the plugins they depend on and run in dependency order;
+ * each output lands in AnalysisResult.extensions under the plugin's name.
+ */
+export class AnalyzerRegistry {
+  private plugins = new Map<string, AnalyzerPlugin>();
+  private executionOrder: AnalyzerPlugin[] | null = null;
+
+  register<TOutput>(plugin: AnalyzerPlugin<TOutput>): this {
+    if (!plugin.name || plugin.name.trim().length === 0) {
+      throw this.createError('Analyzer plugins need a non-empty name');
+    }
+    if (this.plugins.has(plugin.name)) {
+      throw this.createError(`Analyzer plugin "${plugin.name}" is already registered`);
+    }
+
+    this.plugins.set(plugin.name, plugin as AnalyzerPlugin);
+    this.executionOrder = null;
+    console.log(`🧩 Registered analyzer plugin: ${plugin.name}`);
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    const removed = this.plugins.delete(name);
+    if (removed) {
+      this.executionOrder = null;
+    }
+    return removed;
+  }
+
+  has(name: string): boolean {
+    return this.plugins.has(name);
+  }
+
+  getPluginNames(): string[] {
+    return Array.from(this.plugins.keys());
+  }
+
+  // Topological order; throws on missing dependencies and cycles
+  getExecutionOrder(): AnalyzerPlugin[] {
+    if (this.executionOrder) {
+      return this.executionOrder;
+    }
+
+    const order: AnalyzerPlugin[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+
+    const visit = (plugin: AnalyzerPlugin, path: string[]) => {
+      const current = state.get(plugin.name);
+      if (current === 'done') return;
+      if (current === 'visiting') {
+        throw this.createError(`Analyzer plugin dependency cycle: ${[...path, plugin.name].join(' → ')}`);
+      }
+
+      state.set(plugin.name, 'visiting');
+      (plugin.dependencies ?? []).forEach(dependencyName => {
+        const dependency = this.plugins.get(dependencyName);
+        if (!dependency) {
+          throw this.createError(`Analyzer plugin "${plugin.name}" depends on unknown plugin "${dependencyName}"`);
+        }
+        visit(dependency, [...path, plugin.name]);
+      });
+      state.set(plugin.name, 'done');
+      order.push(plugin);
+    };
+
+    this.plugins.forEach(plugin => visit(plugin, []));
+
+    this.executionOrder = order;
+    return order;
+  }
+
+  /**
+   * Run every plugin against the core analysis results.
+   * A plugin that throws is left out of the outputs, and so are the
+   * plugins that depend on it; the rest of the analysis is unaffected.
+   */
+  run(context: Omit<AnalyzerPluginContext, 'outputs'>): Record<string, unknown> {
+    const outputs: Record<string, unknown> = {};
+    const failed = new Set<string>();
+
+    this.getExecutionOrder().forEach(plugin => {
+      const missing = (plugin.dependencies ?? []).filter(name => failed.has(name));
+      if (missing.length > 0) {
+        console.warn(`⚠️ Skipping analyzer plugin ${plugin.name}: dependency ${missing.join(', ')} failed`);
+        failed.add(plugin.name);
+        return;
+      }
+
+      try {
+        outputs[plugin.name] = plugin.analyze({ ...context, outputs: { ...outputs } });
+      } catch (error) {
+        console.error(`💥 Analyzer plugin ${plugin.name} failed:`, error);
+        failed.add(plugin.name);
+      }
+    });
+
+    return outputs;
+  }
+
+  // NodeSystem hook: node specs contributed by plugins with output in the result
+  createNodeSpecs(result: AnalysisResult): ContributedNodeSpec[] {
+    const specs: ContributedNodeSpec[] = [];
+    const extensions = result.extensions ?? {};
+
+    this.plugins.forEach(plugin => {
+      if (!plugin.createNodes || !(plugin.name in extensions)) return;
+
+      try {
+        plugin.createNodes(extensions[plugin.name], result).forEach(spec => {
+          specs.push({ ...spec, source: plugin.name });
+        });
+      } catch (error) {
+        console.error(`💥 Node hook of analyzer plugin ${plugin.name} failed:`, error);
+      }
+    });
+
+    return specs;
+  }
+
+  private createError(message: string): NeuralEchoError {
+    const error = new Error(message) as NeuralEchoError;
+    error.code = 'ANALYZER_PLUGIN_INVALID';
+    error.component = 'AnalyzerRegistry';
+    error.recoverable = false;
+    return error;
+  }
+}
@@ -1,60 +1,119 @@
-import type { ComplexityAnalysis } from '../types';
+import type { ComplexityAnalysis, ComplexityTally, LanguageCode, LanguagePack } from '../types';
+import { Tokenizer } from './Tokenizer';
+import { DEFAULT_LANGUAGE, getLanguagePack } from './languages';
+
+// Add (sign 1) or remove (sign -1) counts, dropping keys that reach zero
+function mergeCounts(target: Map<string, number>, source: Map<string, number>, sign: 1 | -1): void {
+  source.forEach((count, key) => {
+    const merged = (target.get(key) || 0) + count * sign;
+    if (merged > 0) {
+      target.set(key, merged);
+    } else {
+      target.delete(key);
+    }
+  });
+}
+
+interface ComplexityLexicon {
+  pack: LanguagePack;
+  commonWords: Set<string>;
+  complexWords: Set<string>;
+  subordinators: Set<string>;
+  emotionWords: Set<string>;
+  complexEmotionWords: Set<string>;
+  intensifiers: Set<string>;
+}
 
 export class ComplexityAnalyzer {
-  private commonWords: Set<string>;
-  private complexWords: Set<string>;
+  private tokenizer: Tokenizer;
+  private lexicons = new Map<LanguageCode, ComplexityLexicon>();
 
-  constructor() {
-    this.commonWords = new Set();
-    this.complexWords = new Set();
-    this.initializeWordLists();
+  constructor(tokenizer: Tokenizer = new Tokenizer()) {
+    this.tokenizer = tokenizer;
   }
 
-  private initializeWordLists(): void {
-    // Most common 1000 English words (simplified list)
-    const common = [
-      'the', 'a', 'to', 'and', 'of', 'in', 'i', 'you', 'it', 'have', 'be', 'on', 'for', 'do', 'say',
-      'this', 'they', 'is', 'an', 'at', 'but', 'we', 'his', 'from', 'that', 'not', 'by', 'she', 'or',
-      'as', 'what', 'go', 'their', 'can', 'who', 'get', 'if', 'would', 'her', 'all', 'my', 'make',
-      'about', 'know', 'will', 'as', 'up', 'one', 'time', 'has', 'been', 'there', 'year', 'so',
-      'think', 'when', 'which', 'them', 'some', 'me', 'people', 'take', 'out', 'into', 'just', 'see',
-      'him', 'your', 'come', 'could', 'now', 'than', 'like', 'other', 'how', 'then', 'its', 'our',
-      'two', 'more', 'these', 'want', 'way', 'look', 'first', 'also', 'new', 'because', 'day', 'more',
-      'use', 'no', 'man', 'find', 'here', 'thing', 'give', 'many', 'well', 'only', 'those', 'tell',
-      'very', 'her', 'even', 'back', 'any', 'good', 'woman', 'through', 'us', 'life', 'child', 'work',
-      'down', 'may', 'after', 'should', 'call', 'world', 'over', 'school', 'still', 'try', 'in', 'as',
-      'last', 'ask', 'need', 'too', 'feel', 'three', 'when', 'state', 'never', 'become', 'between',
-      'high', 'really', 'something', 'most', 'another', 'much', 'family', 'own', 'out', 'leave'
-    ];
-
-    common.forEach(word => this.commonWords.add(word));
-
-    // Complex/sophisticated words
-    const complex = [
-      'sophisticated', 'implementation', 'consideration', 'fundamental', 'comprehensive', 'significance',
-      'extraordinary', 'revolutionary', 'unprecedented', 'phenomenal', 'magnificent', 'consequently',
-      'nevertheless', 'furthermore', 'elaborate', 'intricate', 'meticulous', 'substantial', 'considerable',
-      'remarkable', 'exceptional', 'outstanding', 'distinguished', 'prominent', 'inevitable', 'essential',
-      'critical', 'crucial', 'significant', 'substantial', 'extensive', 'comprehensive', 'thorough',
-      'elaborate', 'sophisticated', 'advanced', 'complex', 'intricate', 'detailed', 'specific',
-      'particular', 'individual', 'unique', 'distinct', 'separate', 'independent', 'autonomous',
-      'contemporary', 'modern', 'current', 'recent', 'latest', 'updated', 'revised', 'modified',
-      'alternative', 'optional', 'additional', 'supplementary', 'complementary', 'corresponding',
-      'equivalent', 'similar', 'comparable', 'analogous', 'parallel', 'related', 'associated',
-      'connected', 'linked', 'attached', 'combined', 'integrated', 'unified', 'consolidated'
-    ];
-
-    complex.forEach(word => this.complexWords.add(word));
+  // Word lists are compiled from the language pack on first use
+  private getLexicon(language: LanguageCode): ComplexityLexicon {
+    let lexicon = this.lexicons.get(language);
+    if (lexicon) return lexicon;
+
+    const pack = getLanguagePack(language);
+    const { complexity } = pack;
+    lexicon = {
+      pack,
+      commonWords: new Set(complexity.commonWords),
+      complexWords: new Set(complexity.complexWords),
+      subordinators: new Set(complexity.subordinators),
+      emotionWords: new Set(complexity.emotionWords),
+      complexEmotionWords: new Set(complexity.complexEmotionWords),
+      intensifiers: new Set(complexity.intensifiers)
+    };
+    this.lexicons.set(language, lexicon);
+    return lexicon;
   }
 
-  analyze(text: string): ComplexityAnalysis {
-    const words = this.tokenizeText(text);
-    const sentences = this.splitIntoSentences(text);
-    
-    const vocabularyDiversity = this.calculateVocabularyDiversity(words);
-    const sentenceComplexity = this.calculateSentenceComplexity(sentences);
-    const conceptDensity = this.calculateConceptDensity(words);
-    const emotionalComplexity = this.calculateEmotionalComplexity(text, words);
+  analyze(text: string, language: LanguageCode = DEFAULT_LANGUAGE): ComplexityAnalysis {
+    return this.analyzeTally(this.tally(text, language), language);
+  }
+
+  // Countable complexity signals for a piece of text; tallies of separate
+  // paragraphs can be merged and scored as one document
+  tally(text: string, language: LanguageCode = DEFAULT_LANGUAGE): ComplexityTally {
+    const lexicon = this.getLexicon(language);
+    const tokenized = this.tokenizer.tokenize(text);
+    const words = tokenized.tokens.map(token => token.normalized);
+    const sentences = tokenized.sentences.map(sentence => ({
+      text: text.slice(sentence.start, sentence.end),
+      words: words.slice(sentence.tokenStart, sentence.tokenEnd)
+    }));
+
+    const wordCounts = new Map<string, number>();
+    words.forEach(word => wordCounts.set(word, (wordCounts.get(word) || 0) + 1));
+
+    const nuanceIndicators = new Map<string, number>();
+    const lowerText = text.toLowerCase();
+    lexicon.pack.complexity.contrastMarkers.forEach(indicator => {
+      if (lowerText.includes(indicator)) {
+        nuanceIndicators.set(indicator, 1);
+      }
+    });
+
+    return {
+      totalWords: words.length,
+      wordCounts,
+      sentenceCount: sentences.length,
+      sentenceComplexitySum: sentences.reduce(
+        (sum, sentence) => sum + this.calculateSingleSentenceComplexity(sentence.text, sentence.words, lexicon), 0
+      ),
+      conceptCounts: this.countConceptWords(words, lexicon),
+      emotionCounts: this.countEmotionWords(words, lexicon),
+      nuanceIndicators
+    };
+  }
+
+  mergeTallies(target: ComplexityTally, source: ComplexityTally, sign: 1 | -1 = 1): void {
+    target.totalWords += source.totalWords * sign;
+    target.sentenceCount += source.sentenceCount * sign;
+    target.sentenceComplexitySum += source.sentenceComplexitySum * sign;
+
+    mergeCounts(target.wordCounts, source.wordCounts, sign);
+    mergeCounts(target.nuanceIndicators, source.nuanceIndicators, sign);
+
+    (Object.keys(target.conceptCounts) as (keyof ComplexityTally['conceptCounts'])[]).forEach(key => {
+      target.conceptCounts[key] += source.conceptCounts[key] * sign;
+    });
+    (Object.keys(target.emotionCounts) as (keyof ComplexityTally['emotionCounts'])[]).forEach(key => {
+      target.emotionCounts[key] += source.emotionCounts[key] * sign;
+    });
+  }
+
+  analyzeTally(tally: ComplexityTally, language: LanguageCode = DEFAULT_LANGUAGE): ComplexityAnalysis {
+    const vocabularyDiversity = this.calculateVocabularyDiversity(tally, this.getLexicon(language));
+    const sentenceComplexity = tally.sentenceCount > 0
+      ? tally.sentenceComplexitySum / tally.sentenceCount
+      : 0;
+    const conceptDensity = this.calculateConceptDensity(tally);
+    const emotionalComplexity = this.calculateEmotionalComplexity(tally);
     
     // Overall complexity is a weighted combination
     const overallComplexity = (
@@ -73,35 +132,20 @@ export class ComplexityAnalyzer {
     };
   }
 
-  private tokenizeText(text: string): string[] {
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter(word => word.length > 0);
-  }
-
-  private splitIntoSentences(text: string): string[] {
-    return text
-      .split(/[.!?]+/)
-      .map(sentence => sentence.trim())
-      .filter(sentence => sentence.length > 0);
-  }
-
-  private calculateVocabularyDiversity(words: string[]): number {
-    if (words.length === 0) return 0;
+  private calculateVocabularyDiversity(tally: ComplexityTally, lexicon: ComplexityLexicon): number {
+    if (tally.totalWords === 0) return 0;
 
-    const uniqueWords = new Set(words);
-    const typeTokenRatio = uniqueWords.size / words.length;
+    const uniqueWords = tally.wordCounts;
+    const typeTokenRatio = uniqueWords.size / tally.totalWords;
     
     // Count sophisticated vocabulary
     let sophisticatedCount = 0;
     let commonCount = 0;
     
-    uniqueWords.forEach(word => {
-      if (this.complexWords.has(word) || word.length > 8) {
+    uniqueWords.forEach((_, word) => {
+      if (lexicon.complexWords.has(word) || word.length > 8) {
         sophisticatedCount++;
-      } else if (this.commonWords.has(word)) {
+      } else if (lexicon.commonWords.has(word)) {
         commonCount++;
       }
     });
@@ -115,50 +159,45 @@ export class ComplexityAnalyzer {
     return Math.min(1, diversityScore * 2); // Scale up for better distribution
   }
 
-  private calculateSentenceComplexity(sentences: string[]): number {
-    if (sentences.length === 0) return 0;
-
-    let totalComplexity = 0;
+  private calculateSingleSentenceComplexity(
+    sentence: string,
+    sentenceWords: string[],
+    lexicon: ComplexityLexicon
+  ): number {
+    const wordCount = sentenceWords.length;
     
-    sentences.forEach(sentence => {
-      const sentenceWords = sentence.split(/\s+/).filter(word => word.length > 0);
-      const wordCount = sentenceWords.length;
-      
-      // Length complexity
-      let lengthComplexity = 0;
-      if (wordCount <= 10) lengthComplexity = 0.2;
-      else if (wordCount <= 20) lengthComplexity = 0.5;
-      else if (wordCount <= 30) lengthComplexity = 0.8;
-      else lengthComplexity = 1.0;
-      
-      // Punctuation complexity (commas, semicolons indicate complex structure)
-      const commaCount = (sentence.match(/,/g) || []).length;
-      const semicolonCount = (sentence.match(/;/g) || []).length;
-      const colonCount = (sentence.match(/:/g) || []).length;
-      const punctuationComplexity = Math.min(1, (commaCount * 0.1) + (semicolonCount * 0.2) + (colonCount * 0.15));
-      
-      // Subordinate clause indicators
-      const subordinateIndicators = [
-        'because', 'since', 'although', 'while', 'whereas', 'if', 'unless', 'until',
-        'before', 'after', 'when', 'where', 'which', 'that', 'who', 'whom'
-      ];
-      
-      const subordinateCount = subordinateIndicators.reduce((count, indicator) => {
-        return count + (sentence.toLowerCase().split(indicator).length - 1);
-      }, 0);
-      
-      const subordinateComplexity = Math.min(1, subordinateCount * 0.3);
-      
-      // Combine factors for sentence complexity
-      const sentenceComplexity = (lengthComplexity * 0.4) + (punctuationComplexity * 0.3) + (subordinateComplexity * 0.3);
-      totalComplexity += sentenceComplexity;
-    });
-
-    return totalComplexity / sentences.length;
+    // Length complexity
+    let lengthComplexity = 0;
+    if (wordCount <= 10) lengthComplexity = 0.2;
+    else if (wordCount <= 20) lengthComplexity = 0.5;
+    else if (wordCount <= 30) lengthComplexity = 0.8;
+    else lengthComplexity = 1.0;
+    
+    // Punctuation complexity (commas, semicolons indicate complex structure)
+    const commaCount = (sentence.match(/,/g) || []).length;
+    const semicolonCount = (sentence.match(/;/g) || []).length;
+    const colonCount = (sentence.match(/:/g) || []).length;
+    const punctuationComplexity = Math.min(1, (commaCount * 0.1) + (semicolonCount * 0.2) + (colonCount * 0.15));
+    
+    // Subordinate clause indicators
+    const subordinateCount = sentenceWords.filter(word => lexicon.subordinators.has(word)).length;
+    
+    const subordinateComplexity = Math.min(1, subordinateCount * 0.3);
+    
+    // Combine factors for sentence complexity
+    return (lengthComplexity * 0.4) + (punctuationComplexity * 0.3) + (subordinateComplexity * 0.3);
   }
 
-  private calculateConceptDensity(words: string[]): number {
-    if (words.length === 0) return 0;
+  private countConceptWords(words: string[], lexicon: ComplexityLexicon): ComplexityTally['conceptCounts'] {
+    const {
+      abstractIndicators,
+      technicalIndicators,
+      abstractSuffixes,
+      technicalSuffixes,
+      actionSuffixes,
+      descriptiveSuffixes
+    } = lexicon.pack.complexity;
+    const endsWithAny = (word: string, suffixes: string[]) => suffixes.some(suffix => word.endsWith(suffix));
 
     // Count different types of concepts
     let abstractConcepts = 0;
@@ -166,124 +205,89 @@ export class ComplexityAnalyzer {
     let actionWords = 0;
     let descriptiveWords = 0;
 
-    // Abstract concept indicators
-    const abstractIndicators = [
-      'concept', 'idea', 'theory', 'principle', 'philosophy', 'belief', 'thought', 'notion',
-      'understanding', 'knowledge', 'wisdom', 'meaning', 'purpose', 'significance', 'importance',
-      'value', 'quality', 'characteristic', 'nature', 'essence', 'reality', 'truth', 'fact',
-      'assumption', 'hypothesis', 'conclusion', 'inference', 'implication', 'consequence'
-    ];
-
-    // Technical/domain-specific indicators
-    const technicalIndicators = [
-      'system', 'process', 'method', 'approach', 'technique', 'procedure', 'mechanism',
-      'function', 'operation', 'performance', 'efficiency', 'optimization', 'analysis',
-      'evaluation', 'assessment', 'measurement', 'calculation', 'computation', 'algorithm',
-      'structure', 'framework', 'architecture', 'design', 'implementation', 'development'
-    ];
-
     words.forEach(word => {
       // Check for abstract concepts
       if (abstractIndicators.some(indicator => word.includes(indicator)) ||
-          word.endsWith('ness') || word.endsWith('ity') || word.endsWith('ism')) {
+          endsWithAny(word, abstractSuffixes)) {
         abstractConcepts++;
       }
       
       // Check for technical terms
       if (technicalIndicators.some(indicator => word.includes(indicator)) ||
-          word.endsWith('tion') || word.endsWith('sion') || word.endsWith('ment')) {
+          endsWithAny(word, technicalSuffixes)) {
         technicalTerms++;
       }
       
       // Check for action words (verbs)
-      if (word.endsWith('ing') || word.endsWith('ed') || word.endsWith('en')) {
+      if (endsWithAny(word, actionSuffixes)) {
         actionWords++;
       }
       
       // Check for descriptive words (adjectives/adverbs)
-      if (word.endsWith('ly') || word.endsWith('ful') || word.endsWith('less') ||
-          word.endsWith('ous') || word.endsWith('ive') || word.endsWith('able')) {
+      if (endsWithAny(word, descriptiveSuffixes)) {
         descriptiveWords++;
       }
     });
 
-    const totalConceptualWords = abstractConcepts + technicalTerms + actionWords + descriptiveWords;
-    const conceptDensity = totalConceptualWords / words.length;
+    return {
+      abstract: abstractConcepts,
+      technical: technicalTerms,
+      action: actionWords,
+      descriptive: descriptiveWords
+    };
+  }
+
+  private calculateConceptDensity(tally: ComplexityTally): number {
+    const totalWords = tally.totalWords;
+    if (totalWords === 0) return 0;
+
+    const { abstract, technical, action, descriptive } = tally.conceptCounts;
     
     // Weight different types of concepts
     const weightedDensity = (
-      (abstractConcepts / words.length) * 0.4 +
-      (technicalTerms / words.length) * 0.3 +
-      (actionWords / words.length) * 0.2 +
-      (descriptiveWords / words.length) * 0.1
+      (abstract / totalWords) * 0.4 +
+      (technical / totalWords) * 0.3 +
+      (action / totalWords) * 0.2 +
+      (descriptive / totalWords) * 0.1
     );
 
-    // Use conceptDensity for potential future enhancements
-    void conceptDensity;
-
     return Math.min(1, weightedDensity * 3); // Scale for better distribution
   }
 
-  private calculateEmotionalComplexity(text: string, words: string[]): number {
-    // Emotional indicators
-    const emotionWords = new Set([
-      'happy', 'sad', 'angry', 'fear', 'joy', 'love', 'hate', 'excited', 'nervous',
-      'calm', 'stressed', 'peaceful', 'worried', 'confident', 'anxious', 'hopeful',
-      'disappointed', 'frustrated', 'content', 'lonely', 'grateful', 'proud',
-      'embarrassed', 'ashamed', 'guilty', 'relieved', 'surprised', 'shocked',
-      'amazed', 'confused', 'curious', 'interested', 'bored', 'tired', 'energetic'
-    ]);
-
-    // Emotional complexity indicators
-    const complexEmotions = new Set([
-      'melancholy', 'euphoric', 'despondent', 'elated', 'apprehensive', 'contemplative',
-      'nostalgic', 'bittersweet', 'ambivalent', 'conflicted', 'overwhelmed', 'underwhelmed',
-      'disillusioned', 'enlightened', 'empowered', 'vulnerable', 'resilient', 'determined'
-    ]);
-
-    // Emotional intensity words
-    const intensifiers = new Set([
-      'extremely', 'incredibly', 'absolutely', 'completely', 'utterly', 'deeply',
-      'profoundly', 'intensely', 'overwhelmingly', 'exceptionally', 'remarkably'
-    ]);
-
-    let simpleEmotions = 0;
-    let complexEmotionCount = 0;
-    let intensifierCount = 0;
-    let emotionalNuance = 0;
+  private countEmotionWords(words: string[], lexicon: ComplexityLexicon): ComplexityTally['emotionCounts'] {
+    const counts = { simple: 0, complex: 0, intensifiers: 0 };
 
     words.forEach(word => {
-      if (emotionWords.has(word)) simpleEmotions++;
-      if (complexEmotions.has(word)) complexEmotionCount++;
-      if (intensifiers.has(word)) intensifierCount++;
+      if (lexicon.emotionWords.has(word)) counts.simple++;
+      if (lexicon.complexEmotionWords.has(word)) counts.complex++;
+      if (lexicon.intensifiers.has(word)) counts.intensifiers++;
     });
 
-    // Check for emotional nuance (contradictions, mixed feelings)
-    const nuanceIndicators = [
-      'but', 'however', 'although', 'despite', 'nevertheless', 'yet', 'still',
-      'on the other hand', 'at the same time', 'mixed feelings', 'torn between'
-    ];
+    return counts;
+  }
+
+  private calculateEmotionalComplexity(tally: ComplexityTally): number {
+    const { simple, complex, intensifiers } = tally.emotionCounts;
+    const wordCount = tally.totalWords;
 
-    nuanceIndicators.forEach(indicator => {
-      if (text.toLowerCase().includes(indicator)) {
+    // Check for emotional nuance (contradictions, mixed feelings)
+    let emotionalNuance = 0;
+    tally.nuanceIndicators.forEach(count => {
+      if (count > 0) {
         emotionalNuance += 0.2;
       }
     });
 
-    const totalEmotionalWords = simpleEmotions + complexEmotionCount;
-    const emotionalDensity = totalEmotionalWords / words.length;
+    const totalEmotionalWords = simple + complex;
+    const emotionalDensity = totalEmotionalWords / wordCount;
     
     // Complex emotions and nuance indicate higher emotional complexity
     const complexityScore = (
       (emotionalDensity * 0.3) +
-      (complexEmotionCount / words.length * 0.4) +
-      (intensifierCount / words.length * 0.2) +
+      (complex / wordCount * 0.4) +
+      (intensifiers / wordCount * 0.2) +
       (Math.min(1, emotionalNuance) * 0.1)
     );
-    
-    // Use conceptDensity if needed for future enhancements
-    const conceptDensity = totalEmotionalWords / words.length;
-    void conceptDensity;
 
     return Math.min(1, complexityScore * 4); // Scale for better distribution
   }
@@ -0,0 +1,223 @@
+import { Lemmatizer } from './Lemmatizer';
+import { DEFAULT_LANGUAGE, getLanguagePack } from './languages';
+import type {
+  CategoryAssignment,
+  ConceptCategory,
+  LanguageCode,
+  PartOfSpeech,
+  WordEmbeddings
+} from '../types';
+
+// What a part of speech says about a word no list names
+const PART_OF_SPEECH_CATEGORIES: Record<PartOfSpeech, ConceptCategory> = {
+  noun: 'objects',
+  verb: 'actions',
+  adj: 'abstract', // Qualities: "curious", "hopeless"
+  adv: 'actions',  // Manners of doing: "quickly"
+  interj: 'emotion'
+};
+
+interface ClassifierLexicon {
+  keywords: Map<string, ConceptCategory[]>; // Word -> the categories listing it, in pack order
+  stems: Map<string, ConceptCategory[]>;    // The same by lemma: "friends" finds "friend"
+  emotionWords: Set<string>;                // Single words of the emotion lexicon
+  categorySuffixes: [string, ConceptCategory][]; // Longest first
+  partOfSpeechSuffixes: [string, PartOfSpeech][]; // Longest first
+  keywordsByCategory: [ConceptCategory, string[]][];
+}
+
+/**
+ * ConceptClassifier - Assigns a concept word its category
+ * Whole words only, in order of trust: the pack's category lists, the
+ * emotion lexicon, the lists again by lemma, category suffixes ("kindness"),
+ * part-of-speech suffixes ("quickly"), and, when word embeddings are set,
+ * the category whose keywords lie nearest. Anything left is an object. The
+ * confidence says which of these decided, and is lower when a word is
+ * listed under several categories.
+ */
+export class ConceptClassifier {
+  private static readonly LEXICON_CONFIDENCE = 0.95;
+  private static readonly AMBIGUOUS_CONFIDENCE = 0.6; // Listed under several categories; the first wins
+  private static readonly EMOTION_LEXICON_CONFIDENCE = 0.8;
+  private static readonly STEM_CONFIDENCE = 0.85;
+  private static readonly SUFFIX_CONFIDENCE = 0.6;
+  private static readonly PART_OF_SPEECH_CONFIDENCE = 0.45;
+  private static readonly EMBEDDING_CONFIDENCE = 0.5;  // Scaled by the cosine similarity
+  private static readonly MIN_EMBEDDING_SIMILARITY = 0.3;
+  private static readonly DEFAULT_CONFIDENCE = 0.2;
+  private static readonly MIN_STEM_LENGTH = 3;         // What must be left once a suffix is removed
+
+  private lemmatizer: Lemmatizer;
+  private embeddings: WordEmbeddings | null = null;
+  private lexicons = new Map<LanguageCode, ClassifierLexicon>();
+  private centroids = new Map<LanguageCode, Map<ConceptCategory, number[]>>();
+  private cache = new Map<LanguageCode, Map<string, CategoryAssignment>>();
+
+  constructor(lemmatizer: Lemmatizer = new Lemmatizer()) {
+    this.lemmatizer = lemmatizer;
+  }
+
+  // Fall back on the nearest category in this vector space; null turns the fallback off
+  setEmbeddings(embeddings: WordEmbeddings | null): void {
+    this.embeddings = embeddings;
+    this.centroids.clear();
+    this.cache.clear();
+  }
+
+  getEmbeddings(): WordEmbeddings | null {
+    return this.embeddings;
+  }
+
+  // The category of a normalized single word
+  classify(word: string, language: LanguageCode = DEFAULT_LANGUAGE): CategoryAssignment {
+    let cache = this.cache.get(language);
+    if (!cache) {
+      cache = new Map();
+      this.cache.set(language, cache);
+    }
+
+    let assignment = cache.get(word);
+    if (!assignment) {
+      assignment = this.assign(word, language);
+      cache.set(word, assignment);
+    }
+    return assignment;
+  }
+
+  private assign(word: string, language: LanguageCode): CategoryAssignment {
+    const lexicon = this.getLexicon(language);
+
+    const listed = lexicon.keywords.get(word);
+    if (listed) return this.fromList(listed, ConceptClassifier.LEXICON_CONFIDENCE, 'lexicon');
+
+    if (lexicon.emotionWords.has(word)) {
+      return { category: 'emotion', confidence: ConceptClassifier.EMOTION_LEXICON_CONFIDENCE, source: 'emotion-lexicon' };
+    }
+
+    const stemmed = lexicon.stems.get(this.lemmatizer.lemmatize(word, language));
+    if (stemmed) return this.fromList(stemmed, ConceptClassifier.STEM_CONFIDENCE, 'stem');
+
+    const suffix = lexicon.categorySuffixes.find(([ending]) => this.hasSuffix(word, ending));
+    if (suffix) return { category: suffix[1], confidence: ConceptClassifier.SUFFIX_CONFIDENCE, source: 'suffix' };
+
+    const partOfSpeech = lexicon.partOfSpeechSuffixes.find(([ending]) => this.hasSuffix(word, ending));
+    if (partOfSpeech) {
+      return {
+        category: PART_OF_SPEECH_CATEGORIES[partOfSpeech[1]],
+        confidence: ConceptClassifier.PART_OF_SPEECH_CONFIDENCE,
+        source: 'part-of-speech'
+      };
+    }
+
+    return this.nearestCategory(word, language, lexicon) ??
+      { category: 'objects', confidence: ConceptClassifier.DEFAULT_CONFIDENCE, source: 'default' };
+  }
+
+  private fromList(categories: ConceptCategory[], confidence: number, source: CategoryAssignment['source']): CategoryAssignment {
+    return {
+      category: categories[0],
+      confidence: categories.length > 1 ? Math.min(confidence, ConceptClassifier.AMBIGUOUS_CONFIDENCE) : confidence,
+      source
+    };
+  }
+
+  // "kindness" ends in "ness", "less" does not
+  private hasSuffix(word: string, suffix: string): boolean {
+    return word.endsWith(suffix) && word.length - suffix.length >= ConceptClassifier.MIN_STEM_LENGTH;
+  }
+
+  // The category whose keywords' mean direction is closest to the word's
+  private nearestCategory(word: string, language: LanguageCode, lexicon: ClassifierLexicon): CategoryAssignment | null {
+    const vector = this.embeddings?.vector(word, language);
+    if (!vector) return null;
+
+    let best: CategoryAssignment | null = null;
+    let bestSimilarity = ConceptClassifier.MIN_EMBEDDING_SIMILARITY;
+    for (const [category, centroid] of this.getCentroids(language, lexicon)) {
+      const similarity = this.cosine(vector, centroid);
+      if (similarity >= bestSimilarity) {
+        bestSimilarity = similarity;
+        best = { category, confidence: ConceptClassifier.EMBEDDING_CONFIDENCE * similarity, source: 'embedding' };
+      }
+    }
+    return best;
+  }
+
+  private getCentroids(language: LanguageCode, lexicon: ClassifierLexicon): Map<ConceptCategory, number[]> {
+    let centroids = this.centroids.get(language);
+    if (centroids) return centroids;
+
+    centroids = new Map();
+    for (const [category, keywords] of lexicon.keywordsByCategory) {
+      let centroid: number[] | null = null;
+      for (const keyword of keywords) {
+        const vector = this.embeddings?.vector(keyword, language);
+        if (!vector || (centroid && vector.length !== centroid.length)) continue;
+
+        const norm = Math.hypot(...Array.from(vector));
+        if (norm === 0) continue;
+        centroid ??= new Array<number>(vector.length).fill(0);
+        for (let i = 0; i < vector.length; i++) centroid[i] += vector[i] / norm;
+      }
+      if (centroid) centroids.set(category, centroid);
+    }
+
+    this.centroids.set(language, centroids);
+    return centroids;
+  }
+
+  private cosine(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    if (a.length !== b.length) return 0;
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
+  // Lookups are compiled from the language pack on first use
+  private getLexicon(language: LanguageCode): ClassifierLexicon {
+    let lexicon = this.lexicons.get(language);
+    if (lexicon) return lexicon;
+
+    const pack = getLanguagePack(language);
+    const keywords = new Map<string, ConceptCategory[]>();
+    const stems = new Map<string, ConceptCategory[]>();
+    const add = (index: Map<string, ConceptCategory[]>, key: string, category: ConceptCategory) => {
+      const categories = index.get(key) ?? [];
+      if (!categories.includes(category)) categories.push(category);
+      index.set(key, categories);
+    };
+
+    const keywordsByCategory = Object.entries(pack.categoryKeywords) as [ConceptCategory, string[]][];
+    keywordsByCategory.forEach(([category, words]) => {
+      words.forEach(word => {
+        add(keywords, word, category);
+        add(stems, this.lemmatizer.lemmatize(word, language), category);
+      });
+    });
+
+    const longestFirst = <T>(suffixes: Partial<Record<string, string[]>>) =>
+      Object.entries(suffixes)
+        .flatMap(([key, endings]) => (endings ?? []).map(ending => [ending, key] as [string, T]))
+        .sort((a, b) => b[0].length - a[0].length);
+
+    lexicon = {
+      keywords,
+      stems,
+      emotionWords: new Set(
+        Object.values(pack.emotionLexicon).flatMap(terms => Object.keys(terms)).filter(term => !term.includes(' '))
+      ),
+      categorySuffixes: longestFirst<ConceptCategory>(pack.categorySuffixes),
+      partOfSpeechSuffixes: longestFirst<PartOfSpeech>(pack.partOfSpeechSuffixes),
+      keywordsByCategory
+    };
+    this.lexicons.set(language, lexicon);
+    return lexicon;
+  }
+}
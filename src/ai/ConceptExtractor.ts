@@ -1,222 +1,461 @@
 import type {
+  CategoryAssignment,
   Concept,
   ConceptCategory,
+  ConceptForm,
   SemanticGraph,
   ConceptNode,
   SemanticEdge,
   ConceptCluster,
-  RelationshipType
+  ConceptStatistics,
+  ConceptUnit,
+  EntityType,
+  RelationshipType,
+  LanguageCode,
+  LanguagePack,
+  NeuralEchoError,
+  Token,
+  KeySentence,
+  WeightedGraph
 } from '../types';
+import { Tokenizer } from './Tokenizer';
+import { Lemmatizer } from './Lemmatizer';
+import { ConceptClassifier } from './ConceptClassifier';
+import { KeynessScorer } from './KeynessScorer';
+import { TextRank } from './TextRank';
+import { EntityRecognizer, ENTITY_CATEGORIES } from './EntityRecognizer';
+import { DEFAULT_LANGUAGE, getLanguagePack, splitClitics } from './languages';
+
+export function createConfigError(message: string): NeuralEchoError {
+  const error = new Error(message) as NeuralEchoError;
+  error.code = 'AI_CONFIG_INVALID';
+  error.component = 'ConceptExtractor';
+  error.recoverable = true; // The previous setting stays in force
+  return error;
+}
+
+interface ConceptLexicon {
+  pack: LanguagePack;
+  stopWords: Set<string>;
+}
 
 export class ConceptExtractor {
-  private categoryPatterns: Map<ConceptCategory, RegExp>;
-  private stopWords: Set<string>;
-  private categoryKeywords: Map<ConceptCategory, string[]>;
-
-  constructor() {
-    this.categoryPatterns = new Map();
-    this.stopWords = new Set();
-    this.categoryKeywords = new Map();
-    this.initializePatterns();
-    this.initializeStopWords();
-    this.initializeCategoryKeywords();
-  }
-
-  private initializePatterns(): void {
-    this.categoryPatterns.set('emotion', 
-      /emotional|feeling|mood|happy|sad|angry|fear|joy|love|hate|excited|nervous|calm|stressed|peaceful|worried|confident|anxious|hopeful|disappointed/i
-    );
-    
-    this.categoryPatterns.set('time', 
-      /time|day|night|morning|evening|afternoon|yesterday|today|tomorrow|now|then|when|before|after|during|while|moment|hour|minute|second|week|month|year|future|past|present|recently|soon|later|early|late/i
-    );
-    
-    this.categoryPatterns.set('people', 
-      /person|people|friend|family|someone|everyone|nobody|mother|father|parent|child|son|daughter|brother|sister|colleague|teammate|neighbor|stranger|community|group|individual|human|man|woman|boy|girl|adult|baby|elder/i
-    );
-    
-    this.categoryPatterns.set('places', 
-      /place|home|house|school|work|office|city|town|country|world|room|kitchen|bedroom|bathroom|garden|park|street|road|building|store|restaurant|hospital|church|library|museum|beach|mountain|forest|lake|river|university|college/i
-    );
-    
-    this.categoryPatterns.set('actions', 
-      /do|did|doing|done|run|walk|think|create|build|make|write|read|speak|listen|see|watch|look|go|come|move|stop|start|finish|begin|end|work|play|learn|teach|help|give|take|bring|send|receive|buy|sell|eat|drink|sleep|wake/i
-    );
-    
-    this.categoryPatterns.set('abstract', 
-      /idea|concept|thought|dream|hope|belief|philosophy|theory|principle|value|meaning|purpose|goal|plan|strategy|solution|problem|challenge|opportunity|success|failure|progress|change|growth|development|improvement|achievement|experience|memory|knowledge|wisdom|understanding|truth|justice|freedom|creativity|innovation|inspiration|motivation|determination/i
-    );
-    
-    this.categoryPatterns.set('objects', 
-      /thing|object|item|tool|car|bike|phone|computer|laptop|book|paper|pen|table|chair|bed|door|window|light|food|water|money|clothes|shoes|bag|camera|music|movie|game|toy|gift|key|lock|box|bottle|cup|plate|spoon|fork|knife/i
+  private static readonly MIN_TARGET_SCORE = 0.1;     // Weaker emotion profiles get no edge
+  private static readonly MIN_COLLOCATION_COUNT = 2;  // A pair seen once is no collocation
+  private static readonly MIN_COLLOCATION_DICE = 0.5; // How often the words occur as the pair
+  private static readonly LEADING_SHARE = 0.2;        // First used this early in the text...
+  private static readonly LEADING_BONUS = 1.2;        // ...a concept counts this much more
+  private static readonly MAX_CONNECTIONS = 10;
+  static readonly DEFAULT_EXTRACTION_THRESHOLD = 0.1;
+  static readonly EMOTION_ENDPOINT_PREFIX = 'emotion:'; // "emotion:joy" never collides with a concept "joy"
+
+  private tokenizer: Tokenizer;
+  private lemmatizer: Lemmatizer;
+  private entityRecognizer: EntityRecognizer;
+  private classifier: ConceptClassifier;
+  private keyness: KeynessScorer;
+  private textRank: TextRank;
+  private extractionThreshold = ConceptExtractor.DEFAULT_EXTRACTION_THRESHOLD;
+  private lexicons = new Map<LanguageCode, ConceptLexicon>();
+
+  constructor(
+    tokenizer: Tokenizer = new Tokenizer(),
+    lemmatizer: Lemmatizer = new Lemmatizer(),
+    entityRecognizer: EntityRecognizer = new EntityRecognizer(tokenizer),
+    classifier: ConceptClassifier = new ConceptClassifier(lemmatizer),
+    keyness: KeynessScorer = new KeynessScorer(lemmatizer),
+    textRank: TextRank = new TextRank()
+  ) {
+    this.tokenizer = tokenizer;
+    this.lemmatizer = lemmatizer;
+    this.entityRecognizer = entityRecognizer;
+    this.classifier = classifier;
+    this.keyness = keyness;
+    this.textRank = textRank;
+  }
+
+  getLemmatizer(): Lemmatizer {
+    return this.lemmatizer;
+  }
+
+  getClassifier(): ConceptClassifier {
+    return this.classifier;
+  }
+
+  // Concepts whose relevance (keyness relative to the text's keyest concept)
+  // is at or below this are left out; AIConfig.conceptExtractionThreshold
+  setExtractionThreshold(threshold: number): void {
+    if (!(threshold >= 0 && threshold < 1)) {
+      throw createConfigError(`Invalid concept extraction threshold ${threshold}: expected a number from 0 up to 1`);
+    }
+    this.extractionThreshold = threshold;
+  }
+
+  getExtractionThreshold(): number {
+    return this.extractionThreshold;
+  }
+
+  // Lexicons are compiled from the language pack on first use
+  private getLexicon(language: LanguageCode): ConceptLexicon {
+    let lexicon = this.lexicons.get(language);
+    if (lexicon) return lexicon;
+
+    const pack = getLanguagePack(language);
+    lexicon = { pack, stopWords: new Set(pack.stopwords) };
+    this.lexicons.set(language, lexicon);
+    return lexicon;
+  }
+
+  extract(text: string, language: LanguageCode = DEFAULT_LANGUAGE): Concept[] {
+    const statistics = this.collectStatistics(text, language);
+    return this.extractFromStatistics(
+      statistics,
+      text,
+      word => statistics.wordPositions.get(word) || [],
+      language
     );
   }
 
-  private initializeStopWords(): void {
-    const stopWords = [
-      'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with',
-      'by', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had',
-      'will', 'would', 'could', 'should', 'may', 'might', 'must', 'can', 'shall',
-      'this', 'that', 'these', 'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they',
-      'me', 'him', 'her', 'us', 'them', 'my', 'your', 'his', 'her', 'its', 'our', 'their',
-      'what', 'which', 'who', 'whom', 'whose', 'where', 'when', 'why', 'how',
-      'if', 'then', 'else', 'so', 'as', 'than', 'too', 'very', 'much', 'many',
-      'some', 'any', 'all', 'each', 'every', 'both', 'either', 'neither'
-    ];
-
-    stopWords.forEach(word => this.stopWords.add(word));
-  }
-
-  private initializeCategoryKeywords(): void {
-    this.categoryKeywords.set('emotion', [
-      'happiness', 'sadness', 'anger', 'fear', 'surprise', 'disgust', 'joy', 'love',
-      'excitement', 'nervousness', 'anxiety', 'peace', 'stress', 'worry', 'confidence',
-      'hope', 'disappointment', 'frustration', 'contentment', 'loneliness', 'gratitude'
-    ]);
-
-    this.categoryKeywords.set('time', [
-      'morning', 'afternoon', 'evening', 'night', 'yesterday', 'today', 'tomorrow',
-      'moment', 'instant', 'period', 'duration', 'schedule', 'deadline', 'appointment',
-      'meeting', 'event', 'occasion', 'anniversary', 'birthday', 'holiday', 'vacation'
-    ]);
-
-    this.categoryKeywords.set('people', [
-      'relationship', 'friendship', 'partnership', 'marriage', 'romance', 'dating',
-      'conversation', 'communication', 'interaction', 'connection', 'bond', 'trust',
-      'support', 'care', 'love', 'respect', 'understanding', 'empathy', 'kindness'
-    ]);
-
-    this.categoryKeywords.set('places', [
-      'location', 'destination', 'journey', 'travel', 'exploration', 'adventure',
-      'environment', 'atmosphere', 'scenery', 'landscape', 'architecture', 'design',
-      'space', 'area', 'region', 'territory', 'boundary', 'distance', 'proximity'
-    ]);
-
-    this.categoryKeywords.set('actions', [
-      'activity', 'behavior', 'performance', 'execution', 'implementation', 'practice',
-      'exercise', 'training', 'skill', 'ability', 'talent', 'expertise', 'experience',
-      'effort', 'attempt', 'try', 'struggle', 'fight', 'compete', 'collaborate'
-    ]);
-
-    this.categoryKeywords.set('abstract', [
-      'concept', 'principle', 'theory', 'hypothesis', 'assumption', 'belief', 'opinion',
-      'perspective', 'viewpoint', 'attitude', 'approach', 'method', 'strategy', 'plan',
-      'goal', 'objective', 'purpose', 'meaning', 'significance', 'importance', 'value'
-    ]);
-
-    this.categoryKeywords.set('objects', [
-      'device', 'equipment', 'instrument', 'machine', 'appliance', 'gadget', 'technology',
-      'material', 'substance', 'product', 'creation', 'invention', 'design', 'structure',
-      'system', 'component', 'element', 'feature', 'characteristic', 'property'
-    ]);
-  }
-
-  extract(text: string): Concept[] {
-    const words = this.tokenizeText(text);
-    const concepts: Concept[] = [];
+  // Word frequencies, positions and co-occurrence windows for a piece of text.
+  // Counts and co-occurrences of separate paragraphs merge with mergeStatistics.
+  // Words are kept as they appear; extractFromStatistics groups them by lemma.
+  // First uses are token indices, so punctuation and spacing do not move them.
+  collectStatistics(text: string, language: LanguageCode = DEFAULT_LANGUAGE): ConceptStatistics {
+    const tokens = this.tokenizer.tokenize(text).tokens;
+    const units = this.conceptUnits(text, tokens, language);
     const wordCounts = new Map<string, number>();
     const wordPositions = new Map<string, number[]>();
+    const cooccurrences = new Map<string, Map<string, number>>();
+    const entities = new Map<string, Map<EntityType, number>>();
+    const bigrams = new Map<string, number>();
+    const firstIndices = new Map<string, number>();
+    const windowSize = 3; // Look 3 words before and after
+
+    const addPosition = (word: string, unit: ConceptUnit) => {
+      if (!wordPositions.has(word)) {
+        wordPositions.set(word, []);
+        firstIndices.set(word, unit.first);
+      }
+      wordPositions.get(word)!.push(unit.start);
+    };
 
     // Count word frequencies and track positions
-    words.forEach((word, index) => {
-      if (!this.stopWords.has(word) && word.length > 2) {
-        wordCounts.set(word, (wordCounts.get(word) || 0) + 1);
-        
-        if (!wordPositions.has(word)) {
-          wordPositions.set(word, []);
-        }
-        wordPositions.get(word)!.push(index);
+    units.forEach((unit, index) => {
+      const { word } = unit;
+      wordCounts.set(word, (wordCounts.get(word) || 0) + 1);
+      addPosition(word, unit);
+
+      if (unit.entity) {
+        this.increment(entities, word, unit.entity);
+      }
+
+      // Record significant neighbours inside the window
+      for (let i = index - 1; i >= 0 && units[i].last >= unit.first - windowSize; i--) {
+        this.increment(cooccurrences, word, units[i].word);
+      }
+      for (let i = index + 1; i < units.length && units[i].first <= unit.last + windowSize; i++) {
+        this.increment(cooccurrences, word, units[i].word);
+      }
+
+      // Adjacent plain words are collocation candidates
+      const next = units[index + 1];
+      if (next && this.isBigram(text, tokens, unit, next)) {
+        const bigram = `${word} ${next.word}`;
+        bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+        addPosition(bigram, unit);
       }
     });
 
-    // Extract concepts from significant words
-    wordCounts.forEach((frequency, word) => {
-      const category = this.classifyWord(word);
-      const relevance = this.calculateRelevance(word, frequency, words.length, text);
-      const connections = this.findConnectedWords(word, words, wordCounts);
-
-      if (relevance > 0.1) { // Only include words with significant relevance
-        concepts.push({
-          word,
-          category,
-          relevance,
-          frequency,
-          position: wordPositions.get(word) || [],
-          connections
-        });
+    return {
+      totalWords: tokens.length,
+      wordCounts,
+      wordPositions,
+      cooccurrences,
+      entities,
+      bigrams,
+      firstIndices
+    };
+  }
+
+  // Add (sign 1) or remove (sign -1) one set of statistics from another.
+  // Positions and first uses are per-segment and are left to the caller.
+  mergeStatistics(target: ConceptStatistics, source: ConceptStatistics, sign: 1 | -1 = 1): void {
+    target.totalWords += source.totalWords * sign;
+
+    this.mergeCounts(target.wordCounts, source.wordCounts, sign);
+    this.mergeCounts(target.bigrams, source.bigrams, sign);
+
+    this.mergeNestedCounts(target.cooccurrences, source.cooccurrences, sign);
+    this.mergeNestedCounts(target.entities, source.entities, sign);
+  }
+
+  extractFromStatistics(
+    statistics: ConceptStatistics,
+    text: string,
+    positionsOf: (word: string) => number[],
+    language: LanguageCode = DEFAULT_LANGUAGE
+  ): Concept[] {
+    const concepts: Concept[] = [];
+
+    // Word pairs that mostly occur together become one concept
+    const counts = new Map(statistics.wordCounts);
+    const collocations = this.promoteCollocations(statistics, counts);
+
+    // "run", "runs" and "running" are one concept; names and phrases are kept whole
+    const lemmas = new Map<string, ConceptForm[]>();
+    const lemmaOf = new Map<string, string>();
+    counts.forEach((frequency, word) => {
+      const lemma = word.includes(' ') || statistics.entities.has(word)
+        ? word
+        : this.lemmatizer.lemmatize(word, language);
+      lemmaOf.set(word, lemma);
+      if (!lemmas.has(lemma)) {
+        lemmas.set(lemma, []);
       }
+      lemmas.get(lemma)!.push({ form: word, frequency, positions: [] });
     });
 
-    // Sort by relevance and return top concepts
-    return concepts
-      .sort((a, b) => b.relevance - a.relevance)
+    const lemmaCounts = new Map<string, number>();
+    lemmas.forEach((forms, lemma) => {
+      lemmaCounts.set(lemma, forms.reduce((sum, form) => sum + form.frequency, 0));
+    });
+
+    // Score every lemma, then keep those near the keyest one
+    const firstIndexOf = new Map<string, number>();
+    lemmas.forEach((forms, lemma) => {
+      forms.sort((a, b) => b.frequency - a.frequency || a.form.localeCompare(b.form));
+      const frequency = lemmaCounts.get(lemma)!;
+      const entity = this.entityOf(forms, frequency, statistics);
+      const head = forms[0].form.split(' ').pop()!; // "climate change" is a kind of change
+      const { category, confidence } = entity ?? this.classifier.classify(head, language);
+      const firstIndex = Math.min(...forms.map(({ form }) => statistics.firstIndices.get(form) ?? Infinity));
+      firstIndexOf.set(lemma, firstIndex);
+
+      concepts.push({
+        word: forms[0].form,
+        lemma,
+        category,
+        categoryConfidence: confidence,
+        relevance: this.calculateRelevance(forms, category, frequency, firstIndex, statistics.totalWords, language),
+        centrality: 0,
+        frequency,
+        position: [],
+        forms,
+        connections: [],
+        ...(entity && { entity: entity.entity })
+      });
+    });
+
+    // Centrality is ranked over every lemma, kept or not
+    const graph = this.buildCooccurrenceGraph(lemmas, statistics, collocations, lemmaOf);
+    const centrality = this.textRank.rank(graph);
+    const topRelevance = Math.max(0, ...concepts.map(concept => concept.relevance));
+    const topCentrality = Math.max(0, ...centrality.values());
+    concepts.forEach(concept => {
+      concept.relevance = topRelevance > 0 ? concept.relevance / topRelevance : 0;
+      concept.centrality = topCentrality > 0 ? centrality.get(concept.lemma)! / topCentrality : 0;
+    });
+
+    // Sort by relevance, equally relevant concepts in text order, and return top concepts
+    const topConcepts = concepts
+      .filter(concept => concept.relevance > this.extractionThreshold)
+      .sort((a, b) => b.relevance - a.relevance ||
+        firstIndexOf.get(a.lemma)! - firstIndexOf.get(b.lemma)! ||
+        a.lemma.localeCompare(b.lemma))
       .slice(0, Math.min(50, concepts.length)); // Limit to top 50 concepts
-  }
 
-  private tokenizeText(text: string): string[] {
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter(word => word.length > 0);
+    // Resolve positions only for the concepts we keep. Occurrences inside a
+    // collocation belong to it rather than to its words.
+    const positionsOfForm = (form: string): number[] => {
+      const claimed = new Set<number>();
+      collocations.forEach(([first, second], collocation) => {
+        if (form !== first && form !== second) return;
+        positionsOf(collocation).forEach(start => {
+          claimed.add(form === first ? start : this.secondWordStart(text, start));
+        });
+      });
+      return positionsOf(form).filter(position => !claimed.has(position));
+    };
+
+    const kept = new Map(topConcepts.map(concept => [concept.lemma, concept.word]));
+    topConcepts.forEach(concept => {
+      concept.connections = this.findConnectedWords(concept.lemma, graph, kept);
+      concept.forms.forEach(form => {
+        form.positions = positionsOfForm(form.form);
+      });
+      concept.position = concept.forms.flatMap(form => form.positions).sort((a, b) => a - b);
+    });
+
+    return topConcepts;
   }
 
-  private classifyWord(word: string): ConceptCategory {
-    // First check direct keyword matches
-    for (const [category, keywords] of this.categoryKeywords) {
-      if (keywords.includes(word)) {
-        return category;
+  // The concept words of a text in order: single words, names, dates and
+  // collocations. Tokens that are not part of a concept are left out.
+  conceptUnits(text: string, tokens: Token[], language: LanguageCode = DEFAULT_LANGUAGE): ConceptUnit[] {
+    const lexicon = this.getLexicon(language);
+    const chunks = this.entityRecognizer.chunk(text, tokens, language);
+    const units: ConceptUnit[] = [];
+
+    let next = 0;
+    for (let i = 0; i < tokens.length; i++) {
+      const chunk = chunks[next];
+      if (chunk?.first === i) {
+        if (chunk.first < chunk.last || this.isSignificantName(chunk.word, lexicon)) units.push(chunk);
+        next++;
+        i = chunk.last;
+        continue;
       }
-    }
 
-    // Then check pattern matches
-    for (const [category, pattern] of this.categoryPatterns) {
-      if (pattern.test(word)) {
-        return category;
+      const { word } = splitClitics(tokens[i].normalized, lexicon.pack);
+      if (this.isSignificantWord(word, lexicon)) {
+        units.push({ word, first: i, last: i, start: tokens[i].start });
       }
     }
 
-    // Default classification based on common patterns
-    if (word.endsWith('ing') || word.endsWith('ed')) {
-      return 'actions';
-    }
-    
-    if (word.endsWith('ness') || word.endsWith('ity') || word.endsWith('ism')) {
-      return 'abstract';
-    }
-    
-    if (word.endsWith('er') || word.endsWith('or') || word.endsWith('ian')) {
-      return 'people';
+    return units;
+  }
+
+  // Words are compared after clitics are split off: "juliet's" counts as
+  // "juliet", "it's" as the stopword "it" and "l'amour" as "amour"
+  private isSignificantWord(word: string, lexicon: ConceptLexicon): boolean {
+    return !lexicon.stopWords.has(word) &&
+      !lexicon.pack.negationSuffixes.some(suffix => word.endsWith(suffix)) &&
+      word.length > 2;
+  }
+
+  // Short names still count: "Al", "Ed"
+  private isSignificantName(word: string, lexicon: ConceptLexicon): boolean {
+    return !lexicon.stopWords.has(word) && word.length > 1;
+  }
+
+  // Two single plain words with only whitespace between them
+  private isBigram(text: string, tokens: Token[], unit: ConceptUnit, next: ConceptUnit): boolean {
+    return unit.first === unit.last && next.first === next.last &&
+      !unit.entity && !next.entity &&
+      next.first === unit.last + 1 &&
+      unit.word !== next.word &&
+      tokens[unit.first].normalized === unit.word &&
+      tokens[next.first].normalized === next.word &&
+      tokens[unit.first].sentence === tokens[next.first].sentence &&
+      /^\s+$/.test(text.slice(tokens[unit.first].end, tokens[next.first].start));
+  }
+
+  // Move the counts of strongly associated pairs (Dice coefficient) from
+  // their words to the pair; returns each promoted pair's words
+  private promoteCollocations(statistics: ConceptStatistics, counts: Map<string, number>): Map<string, [string, string]> {
+    const collocations = new Map<string, [string, string]>();
+    const claimed = new Set<string>();
+
+    Array.from(statistics.bigrams)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .forEach(([bigram, count]) => {
+        const [first, second] = bigram.split(' ') as [string, string];
+        if (count < ConceptExtractor.MIN_COLLOCATION_COUNT || claimed.has(first) || claimed.has(second)) return;
+
+        const dice = 2 * count / ((counts.get(first) || 0) + (counts.get(second) || 0));
+        if (dice < ConceptExtractor.MIN_COLLOCATION_DICE) return;
+
+        counts.set(bigram, (counts.get(bigram) || 0) + count);
+        [first, second].forEach(word => {
+          const rest = (counts.get(word) || 0) - count;
+          if (rest > 0) {
+            counts.set(word, rest);
+          } else {
+            counts.delete(word);
+          }
+          claimed.add(word);
+        });
+        collocations.set(bigram, [first, second]);
+      });
+
+    return collocations;
+  }
+
+  // Where the second word of a collocation starting at `start` begins
+  private secondWordStart(text: string, start: number): number {
+    const firstWord = /\S+\s+/y;
+    firstWord.lastIndex = start;
+    return firstWord.exec(text) ? firstWord.lastIndex : start;
+  }
+
+  // The entity type most occurrences were read as, if most were read as one:
+  // "Hope" once does not make every "hope" a person. The share of the votes
+  // is the confidence in the category it maps onto.
+  private entityOf(
+    forms: ConceptForm[],
+    frequency: number,
+    statistics: ConceptStatistics
+  ): (CategoryAssignment & { entity: EntityType }) | undefined {
+    const votes = new Map<EntityType, number>();
+    forms.forEach(({ form }) => {
+      statistics.entities.get(form)?.forEach((count, entity) => {
+        votes.set(entity, (votes.get(entity) || 0) + count);
+      });
+    });
+
+    let best: EntityType | undefined;
+    let bestVotes = 0;
+    votes.forEach((count, entity) => {
+      if (count > bestVotes || (count === bestVotes && best !== undefined && entity < best)) {
+        best = entity;
+        bestVotes = count;
+      }
+    });
+
+    if (!best || bestVotes * 2 < frequency) return undefined;
+    return { entity: best, category: ENTITY_CATEGORIES[best], confidence: Math.min(1, bestVotes / frequency), source: 'entity' };
+  }
+
+  private increment<K>(counts: Map<string, Map<K, number>>, word: string, key: K): void {
+    if (!counts.has(word)) {
+      counts.set(word, new Map());
     }
+    const inner = counts.get(word)!;
+    inner.set(key, (inner.get(key) || 0) + 1);
+  }
+
+  private mergeCounts<K>(target: Map<K, number>, source: Map<K, number>, sign: 1 | -1): void {
+    source.forEach((count, key) => {
+      const merged = (target.get(key) || 0) + count * sign;
+      if (merged > 0) {
+        target.set(key, merged);
+      } else {
+        target.delete(key);
+      }
+    });
+  }
+
+  private mergeNestedCounts<K>(target: Map<string, Map<K, number>>, source: Map<string, Map<K, number>>, sign: 1 | -1): void {
+    source.forEach((inner, word) => {
+      if (!target.has(word)) {
+        target.set(word, new Map());
+      }
+      const targetInner = target.get(word)!;
+      this.mergeCounts(targetInner, inner, sign);
 
-    // Default to objects for concrete nouns
-    return 'objects';
+      if (targetInner.size === 0) {
+        target.delete(word);
+      }
+    });
   }
 
+  // Keyness against the reference corpus, weighted by category and by how
+  // early in the text the concept first comes up; relative until normalized
   private calculateRelevance(
-    word: string, 
-    frequency: number, 
-    totalWords: number, 
-    originalText: string
+    forms: ConceptForm[],
+    category: ConceptCategory,
+    frequency: number,
+    firstIndex: number,
+    totalWords: number,
+    language: LanguageCode
   ): number {
-    // Term frequency
-    const tf = frequency / totalWords;
-    
-    // Word length bonus (longer words often more meaningful)
-    const lengthBonus = Math.min(1, word.length / 10);
-    
-    // Position bonus (words at beginning/end more important)
-    const positions = originalText.toLowerCase().indexOf(word);
-    const positionBonus = positions < originalText.length * 0.2 ? 0.2 : 0;
-    
-    // Category importance multiplier
-    const categoryMultiplier = this.getCategoryImportance(this.classifyWord(word));
-    
-    // Combine factors
-    let relevance = (tf * 2) + lengthBonus + positionBonus;
-    relevance *= categoryMultiplier;
-    
-    return Math.min(1, relevance);
+    // A concept is as common as its commonest form
+    const rate = Math.max(...forms.map(({ form }) => this.keyness.referenceRate(form, language)));
+    const keyness = this.keyness.score(frequency, totalWords, rate);
+    if (keyness <= 0) return 0;
+
+    const positionWeight = firstIndex < totalWords * ConceptExtractor.LEADING_SHARE ? ConceptExtractor.LEADING_BONUS : 1;
+    return keyness * positionWeight * this.getCategoryImportance(category);
   }
 
   private getCategoryImportance(category: ConceptCategory): number {
@@ -233,42 +472,52 @@ export class ConceptExtractor {
     return importance[category] || 1.0;
   }
 
-  private findConnectedWords(
-    targetWord: string, 
-    allWords: string[], 
-    wordCounts: Map<string, number>
-  ): string[] {
-    const connections: string[] = [];
-    const windowSize = 3; // Look 3 words before and after
-    
-    // Find all positions of the target word
-    const targetPositions: number[] = [];
-    allWords.forEach((word, index) => {
-      if (word === targetWord) {
-        targetPositions.push(index);
-      }
+  // The graph's nodes are lemmas, weighted by how often their words fall in
+  // each other's window. A word inside a promoted collocation also stands
+  // for the collocation, which gets the neighbours of its words.
+  private buildCooccurrenceGraph(
+    lemmas: Map<string, ConceptForm[]>,
+    statistics: ConceptStatistics,
+    collocations: Map<string, [string, string]>,
+    lemmaOf: Map<string, string>
+  ): WeightedGraph {
+    const nodesOf = new Map<string, string[]>();
+    lemmaOf.forEach((lemma, word) => nodesOf.set(word, [lemma]));
+    collocations.forEach((words, collocation) => {
+      words.forEach(word => nodesOf.set(word, [...(nodesOf.get(word) ?? []), lemmaOf.get(collocation)!]));
     });
 
-    // For each occurrence, check nearby words
-    targetPositions.forEach(position => {
-      const start = Math.max(0, position - windowSize);
-      const end = Math.min(allWords.length, position + windowSize + 1);
-      
-      for (let i = start; i < end; i++) {
-        if (i !== position) {
-          const nearbyWord = allWords[i];
-          if (!this.stopWords.has(nearbyWord) && 
-              nearbyWord.length > 2 && 
-              (wordCounts.get(nearbyWord) || 0) > 1) {
-            if (!connections.includes(nearbyWord)) {
-              connections.push(nearbyWord);
-            }
-          }
-        }
-      }
+    const graph: WeightedGraph = new Map();
+    lemmas.forEach((_, lemma) => graph.set(lemma, new Map()));
+
+    // Co-occurrences are counted from both sides, so the graph comes out symmetric
+    statistics.cooccurrences.forEach((neighbours, word) => {
+      nodesOf.get(word)?.forEach(source => {
+        neighbours.forEach((count, nearbyWord) => {
+          nodesOf.get(nearbyWord)?.forEach(target => {
+            if (source === target) return;
+            const edges = graph.get(source)!;
+            edges.set(target, (edges.get(target) || 0) + count);
+          });
+        });
+      });
     });
 
-    return connections.slice(0, 10); // Limit connections
+    return graph;
+  }
+
+  // The words of the kept concepts (by lemma) a concept co-occurs with most
+  private findConnectedWords(lemma: string, graph: WeightedGraph, kept: Map<string, string>): string[] {
+    return Array.from(graph.get(lemma) ?? [])
+      .filter(([neighbour]) => kept.has(neighbour))
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, ConceptExtractor.MAX_CONNECTIONS)
+      .map(([neighbour]) => kept.get(neighbour)!);
+  }
+
+  // The key sentences of a text: TextRank over the concepts they share
+  rankSentences(text: string, concepts: Concept[], sentences: { index: number; start: number; end: number }[]): KeySentence[] {
+    return this.textRank.rankSentences(text, concepts, sentences);
   }
 
   buildSemanticGraph(concepts: Concept[]): SemanticGraph {
@@ -280,7 +529,7 @@ export class ConceptExtractor {
       nodes.set(concept.word, {
         id: concept.word,
         concept,
-        importance: concept.relevance * concept.frequency,
+        importance: concept.centrality,
         connections: concept.connections
       });
     });
@@ -305,6 +554,24 @@ export class ConceptExtractor {
       });
     });
 
+    // Emotional edges run from an emotion (not a concept node) to the
+    // concepts it is about
+    concepts.forEach(concept => {
+      Object.entries(concept.emotionProfile ?? {}).forEach(([emotion, score]) => {
+        if (score < ConceptExtractor.MIN_TARGET_SCORE) return;
+
+        const source = `${ConceptExtractor.EMOTION_ENDPOINT_PREFIX}${emotion}`;
+        const edgeId = `${source}-${concept.word}`;
+        edges.set(edgeId, {
+          id: edgeId,
+          source,
+          target: concept.word,
+          weight: Math.min(1, score),
+          relationship: 'emotional'
+        });
+      });
+    });
+
     // Create clusters using simple category-based clustering
     const clusters = this.createConceptClusters(concepts);
 
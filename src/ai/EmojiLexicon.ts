@@ -0,0 +1,137 @@
+import type { EmotionScores } from '../types';
+
+/**
+ * EmojiLexicon - Emotion readings for emoji and ASCII emoticons
+ * Tables list base forms; skin tones and emoji-style variation selectors
+ * are stripped before lookup, and ZWJ sequences fall back to their
+ * gender-neutral form and then to their first component ("😶‍🌫️" reads as
+ * "😶"). Pictographs with no emotional reading (🚗, 📎, flags) have no entry.
+ */
+
+export interface EmojiEmotion {
+  emotion: keyof EmotionScores;
+  intensity: number;
+}
+
+// emoji -> intensity 0-1, grouped like LanguagePack.emotionLexicon
+export const EMOJI_LEXICON: Record<keyof EmotionScores, Record<string, number>> = {
+  joy: {
+    '😀': 0.7, '😃': 0.8, '😄': 0.8, '😁': 0.8, '😆': 0.8, '😅': 0.5, '🤣': 0.9, '😂': 0.9,
+    '🙂': 0.5, '🙃': 0.3, '😉': 0.5, '😊': 0.8, '😇': 0.7, '🥰': 0.9, '😍': 0.9, '🤩': 0.9,
+    '😘': 0.8, '😗': 0.5, '☺': 0.7, '😚': 0.6, '😙': 0.6, '😋': 0.6, '😛': 0.5, '😜': 0.6,
+    '🤪': 0.6, '😝': 0.6, '🤑': 0.5, '😌': 0.6, '😎': 0.6, '🥳': 0.9,
+    '😺': 0.7, '😸': 0.7, '😹': 0.8, '😻': 0.9, '😽': 0.6,
+    // Hearts
+    '❤': 0.8, '🧡': 0.7, '💛': 0.7, '💚': 0.7, '💙': 0.7, '💜': 0.7, '🤎': 0.6, '🤍': 0.6,
+    '🩷': 0.7, '🩵': 0.7, '💕': 0.8, '💞': 0.8, '💓': 0.8, '💗': 0.8, '💖': 0.8, '💘': 0.8,
+    '💝': 0.8, '💟': 0.6, '❣': 0.7, '💋': 0.6, '❤\u200D🔥': 0.9,
+    // Celebration and gestures
+    '🎉': 0.8, '🎊': 0.8, '🥂': 0.7, '🍾': 0.7, '🎈': 0.6, '🎁': 0.6, '✨': 0.5, '🌈': 0.6,
+    '☀': 0.5, '🌞': 0.6, '🌻': 0.5, '💐': 0.6, '🙌': 0.8, '👏': 0.7, '🕺': 0.8, '💃': 0.8
+  },
+  sadness: {
+    '😢': 0.8, '😭': 0.9, '😞': 0.7, '😔': 0.7, '😟': 0.6, '🙁': 0.6, '☹': 0.7, '😕': 0.5,
+    '😥': 0.6, '😪': 0.5, '🥺': 0.6, '😩': 0.7, '😫': 0.7, '😓': 0.5, '🥲': 0.4, '😿': 0.8,
+    '💔': 0.9, '🥀': 0.6
+  },
+  anger: {
+    '😠': 0.8, '😡': 0.9, '🤬': 1.0, '😤': 0.7, '👿': 0.8, '💢': 0.7, '🖕': 0.9, '😾': 0.7,
+    '🗯': 0.5
+  },
+  fear: {
+    '😨': 0.8, '😱': 0.9, '😰': 0.8, '😧': 0.6, '😦': 0.5, '🫨': 0.6, '😬': 0.5
+  },
+  surprise: {
+    '😲': 0.7, '😳': 0.6, '🤯': 0.9, '😵': 0.6, '🫢': 0.6, '😮': 0.6, '😯': 0.5, '🙀': 0.7
+  },
+  anticipation: {
+    '🤞': 0.7, '⏳': 0.5, '⌛': 0.4, '🤔': 0.4, '👀': 0.5, '🔜': 0.6, '🚀': 0.6, '🤤': 0.5,
+    '🫣': 0.5, '🧐': 0.4
+  },
+  trust: {
+    '🤝': 0.8, '🙏': 0.7, '🫶': 0.8, '🤗': 0.7, '🫡': 0.7, '👍': 0.6, '👌': 0.5, '💪': 0.5,
+    '🫂': 0.8, '🤲': 0.5, '✅': 0.4
+  },
+  disgust: {
+    '🤢': 0.9, '🤮': 1.0, '😖': 0.6, '😒': 0.6, '🙄': 0.6, '😑': 0.4, '👎': 0.6, '💩': 0.6,
+    '🤦': 0.4
+  }
+};
+
+// ASCII emoticons, matched case-sensitively between spaces or punctuation
+export const EMOTICON_LEXICON: Record<keyof EmotionScores, Record<string, number>> = {
+  joy: {
+    ':)': 0.6, ':-)': 0.6, ':]': 0.5, '=)': 0.6, ':D': 0.8, ':-D': 0.8, '=D': 0.8, 'xD': 0.8,
+    'XD': 0.8, ';)': 0.5, ';-)': 0.5, ':P': 0.5, ':-P': 0.5, ':p': 0.5, '^_^': 0.7, '^^': 0.6,
+    '<3': 0.8
+  },
+  sadness: {
+    ':(': 0.6, ':-(': 0.6, ':[': 0.5, '=(': 0.6, ":'(": 0.8, ":'-(": 0.8, 'T_T': 0.8, ';_;': 0.8,
+    '</3': 0.8, ':/': 0.3, ':-/': 0.3
+  },
+  anger: {
+    '>:(': 0.8, '>:-(': 0.8, '>:[': 0.8, ':@': 0.7
+  },
+  fear: {},
+  surprise: {
+    ':O': 0.6, ':o': 0.5, ':-O': 0.6, ':-o': 0.5, 'O_O': 0.7, 'o_O': 0.5, 'O_o': 0.5
+  },
+  anticipation: {},
+  trust: {},
+  disgust: {
+    '-_-': 0.4, '>_<': 0.5
+  }
+};
+
+const SKIN_TONE = /[\u{1F3FB}-\u{1F3FF}]/gu;
+const VARIATION_SELECTOR = /\uFE0F/g;
+const GENDER_SUFFIX = /\u200D[\u2640\u2642]$/;
+
+// Skin tones and emoji-style variation selectors do not change the reading
+export function normalizeEmoji(emoji: string): string {
+  return emoji.replace(SKIN_TONE, '').replace(VARIATION_SELECTOR, '');
+}
+
+const emojiTable = buildTable(EMOJI_LEXICON, normalizeEmoji);
+const emoticonTable = buildTable(EMOTICON_LEXICON, emoticon => emoticon);
+
+// The emotion of an emoji grapheme, or null for pictographs with no reading
+export function lookupEmoji(emoji: string): EmojiEmotion | null {
+  const normalized = normalizeEmoji(emoji);
+  const candidates = [
+    normalized,
+    normalized.replace(GENDER_SUFFIX, ''), // "🤦‍♀️" reads as "🤦"
+    normalized.split('\u200D')[0]     // "😶‍🌫️" reads as "😶"
+  ];
+
+  for (const candidate of candidates) {
+    const entry = emojiTable.get(candidate);
+    if (entry) return entry;
+  }
+  return null;
+}
+
+export function lookupEmoticon(emoticon: string): EmojiEmotion | null {
+  return emoticonTable.get(emoticon) ?? null;
+}
+
+// Longest first so ">:(" wins over ":("; an emoticon must stand on its own,
+// which keeps "http://" and "10:30" out
+const EMOTICON_ALTERNATIVES = Array.from(emoticonTable.keys())
+  .sort((a, b) => b.length - a.length)
+  .map(emoticon => emoticon.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  .join('|');
+export const EMOTICON_PATTERN = new RegExp(`(?<=^|[\\s("'])(?:${EMOTICON_ALTERNATIVES})(?=$|[\\s.,!?;)"'])`, 'g');
+
+function buildTable(
+  lexicon: Record<keyof EmotionScores, Record<string, number>>,
+  normalize: (key: string) => string
+): Map<string, EmojiEmotion> {
+  const table = new Map<string, EmojiEmotion>();
+  (Object.keys(lexicon) as (keyof EmotionScores)[]).forEach(emotion => {
+    Object.entries(lexicon[emotion]).forEach(([key, intensity]) => {
+      table.set(normalize(key), { emotion, intensity });
+    });
+  });
+  return table;
+}
@@ -0,0 +1,180 @@
+import { Tokenizer } from './Tokenizer';
+import { ConceptExtractor } from './ConceptExtractor';
+import { CLAUSE_BREAK } from './SentimentAnalyzer';
+import { DEFAULT_LANGUAGE, getLanguagePack, splitClitics } from './languages';
+import type {
+  Concept,
+  ConceptUnit,
+  EmotionMention,
+  EmotionScores,
+  EmotionTargetTally,
+  LanguageCode,
+  Token
+} from '../types';
+
+interface Candidate {
+  word: string;
+  weight: number;
+}
+
+/**
+ * EmotionAttributor - Which concepts each emotion is about
+ * Spreads the mass of every emotion mention over the concept words of its
+ * clause (or its sentence, when the clause has none): nearer words get more,
+ * and a word linked by a target marker ("angry at the boss", "peur de
+ * l'orage") gets a larger share. Tallies of separate paragraphs merge like
+ * the other analyzers' tallies.
+ */
+export class EmotionAttributor {
+  private static readonly LINK_BOOST = 3; // Share of a marker-linked word relative to its distance weight
+
+  private conceptExtractor: ConceptExtractor;
+  private tokenizer: Tokenizer;
+
+  constructor(conceptExtractor: ConceptExtractor = new ConceptExtractor(), tokenizer: Tokenizer = new Tokenizer()) {
+    this.conceptExtractor = conceptExtractor;
+    this.tokenizer = tokenizer;
+  }
+
+  // Emotion mass per concept word for a piece of text and the mentions
+  // SentimentAnalyzer found in it
+  tally(text: string, mentions: EmotionMention[], language: LanguageCode = DEFAULT_LANGUAGE): EmotionTargetTally {
+    const { tokens, sentences } = this.tokenizer.tokenize(text);
+    const pack = getLanguagePack(language);
+    const markers = new Set(pack.targetMarkers);
+    const targets: EmotionTargetTally = new Map();
+
+    const tokenAt = new Map(tokens.map(token => [token.start, token.index]));
+    const unitAt = new Map<number, ConceptUnit>();
+    this.conceptExtractor.conceptUnits(text, tokens, language).forEach(unit => {
+      for (let i = unit.first; i <= unit.last; i++) unitAt.set(i, unit);
+    });
+    const spans = mentions
+      .filter(mention => tokenAt.has(mention.start))
+      .map(mention => {
+        const first = tokenAt.get(mention.start)!;
+        let last = first;
+        while (last + 1 < tokens.length && tokens[last + 1].start < mention.end) last++;
+        return { mention, first, last };
+      });
+
+    // Emotion words are never the target of another emotion
+    const emotional = new Set<number>();
+    spans.forEach(({ first, last }) => {
+      for (let i = first; i <= last; i++) emotional.add(i);
+    });
+
+    const isMarker = (token: Token | undefined): boolean => {
+      if (!token) return false;
+      const { word, prefix } = splitClitics(token.normalized, pack);
+      return markers.has(word) || (prefix !== null && markers.has(prefix));
+    };
+
+    const collect = (from: number, to: number, first: number, last: number) => {
+      const candidates: (Candidate & { index: number })[] = [];
+      const seen = new Set<ConceptUnit>();
+
+      for (let i = from; i < to; i++) {
+        if (emotional.has(i) || markers.has(tokens[i].normalized)) continue;
+
+        // A name or collocation is one candidate, at its nearest end
+        const unit = unitAt.get(i);
+        if (!unit || seen.has(unit)) continue;
+        seen.add(unit);
+
+        const distance = Math.max(1, unit.last < first ? first - unit.last : unit.first - last);
+        candidates.push({ word: unit.word, index: unit.first, weight: 1 / distance });
+      }
+
+      return candidates;
+    };
+
+    spans.forEach(({ mention, first, last }) => {
+      const sentence = sentences[tokens[first].sentence];
+
+      let clauseStart = first;
+      while (clauseStart > sentence.tokenStart && !this.breaksClause(text, tokens[clauseStart - 1], tokens[clauseStart])) {
+        clauseStart--;
+      }
+      let clauseEnd = last + 1;
+      while (clauseEnd < sentence.tokenEnd && !this.breaksClause(text, tokens[clauseEnd - 1], tokens[clauseEnd])) {
+        clauseEnd++;
+      }
+
+      let candidates = collect(clauseStart, clauseEnd, first, last);
+      if (candidates.length === 0) {
+        candidates = collect(sentence.tokenStart, sentence.tokenEnd, first, last);
+      }
+
+      // "angry at my boss": the first concept word after the marker
+      if (isMarker(tokens[last + 1])) {
+        const linked = candidates.find(candidate => candidate.index > last);
+        if (linked) linked.weight *= EmotionAttributor.LINK_BOOST;
+      }
+
+      const total = candidates.reduce((sum, candidate) => sum + candidate.weight, 0);
+      candidates.forEach(({ word, weight }) => {
+        const mass = targets.get(word) ?? this.emptyScores();
+        (Object.entries(mention.scores) as [keyof EmotionScores, number][]).forEach(([emotion, value]) => {
+          mass[emotion] += value * weight / total;
+        });
+        targets.set(word, mass);
+      });
+    });
+
+    return targets;
+  }
+
+  // Add (sign 1) or remove (sign -1) one tally from another
+  mergeTallies(target: EmotionTargetTally, source: EmotionTargetTally, sign: 1 | -1 = 1): void {
+    source.forEach((mass, word) => {
+      const merged = target.get(word) ?? this.emptyScores();
+      (Object.keys(merged) as (keyof EmotionScores)[]).forEach(emotion => {
+        merged[emotion] += mass[emotion] * sign;
+      });
+
+      if (Object.values(merged).every(value => Math.abs(value) < 1e-9)) {
+        target.delete(word);
+      } else {
+        target.set(word, merged);
+      }
+    });
+  }
+
+  // Set each concept's emotionProfile: the attributed mass per occurrence,
+  // keeping only emotions that end up positive. Mass is tallied per surface
+  // form and summed over the concept's forms.
+  attribute(concepts: Concept[], targets: EmotionTargetTally): Concept[] {
+    concepts.forEach(concept => {
+      const masses = concept.forms.map(({ form }) => targets.get(form)).filter(mass => mass !== undefined);
+      if (masses.length === 0) return;
+
+      const mass = this.emptyScores();
+      masses.forEach(formMass => {
+        (Object.keys(mass) as (keyof EmotionScores)[]).forEach(emotion => {
+          mass[emotion] += formMass[emotion];
+        });
+      });
+
+      const profile: Partial<EmotionScores> = {};
+      (Object.entries(mass) as [keyof EmotionScores, number][]).forEach(([emotion, value]) => {
+        const score = Math.min(1, value / Math.max(1, concept.frequency));
+        if (score > 0) profile[emotion] = score;
+      });
+
+      if (Object.keys(profile).length > 0) {
+        concept.emotionProfile = profile;
+      }
+    });
+
+    return concepts;
+  }
+
+  private breaksClause(text: string, previous: Token, next: Token): boolean {
+    return CLAUSE_BREAK.test(text.slice(previous.end, next.start));
+  }
+
+  private emptyScores(): EmotionScores {
+    return { joy: 0, sadness: 0, anger: 0, fear: 0, surprise: 0, anticipation: 0, trust: 0, disgust: 0 };
+  }
+}
@@ -0,0 +1,234 @@
+import type {
+  EmotionLexiconDocument,
+  EmotionLexiconEntry,
+  EmotionScores,
+  LanguageCode,
+  LanguagePack,
+  LexiconFormat,
+  NeuralEchoError,
+  PartOfSpeech
+} from '../types';
+
+/**
+ * EmotionLexicon - Graded emotion lexicons in JSON or TSV
+ * A lexicon is a list of terms with per-emotion intensities and optional
+ * part-of-speech tags. Sources are validated on load, and override lexicons
+ * are merged on top of a base term by term. The format is described in
+ * docs/LEXICON_FORMAT.md.
+ */
+
+export const LEXICON_FORMAT = 'neural-echo-lexicon';
+export const LEXICON_FORMAT_VERSION = 1;
+
+const EMOTIONS: (keyof EmotionScores)[] = [
+  'joy', 'sadness', 'anger', 'fear', 'surprise', 'anticipation', 'trust', 'disgust'
+];
+const PARTS_OF_SPEECH: PartOfSpeech[] = ['noun', 'verb', 'adj', 'adv', 'interj'];
+
+export interface ParseLexiconOptions {
+  format?: LexiconFormat;   // Sniffed when omitted: JSON if the source starts with "{"
+  language?: LanguageCode;  // Reject JSON documents declared for another language
+}
+
+// Parse and validate a lexicon source
+export function parseLexicon(source: string | EmotionLexiconDocument, options: ParseLexiconOptions = {}): EmotionLexiconEntry[] {
+  if (typeof source !== 'string') {
+    return parseDocument(source, options.language);
+  }
+
+  if ((options.format ?? (source.trimStart().startsWith('{') ? 'json' : 'tsv')) === 'tsv') {
+    return parseTsv(source);
+  }
+
+  let document: unknown;
+  try {
+    document = JSON.parse(source);
+  } catch (error) {
+    throw createLexiconError(`Invalid lexicon: not valid JSON (${error})`);
+  }
+  return parseDocument(document, options.language);
+}
+
+// Later lexicons win: an entry replaces the base entry for the same term,
+// and a removal drops it
+export function mergeLexicons(base: EmotionLexiconEntry[], ...overrides: EmotionLexiconEntry[][]): EmotionLexiconEntry[] {
+  const merged = new Map(base.map(entry => [entry.term, entry]));
+
+  overrides.forEach(override => {
+    override.forEach(entry => {
+      if (entry.remove) {
+        merged.delete(entry.term);
+      } else {
+        merged.set(entry.term, entry);
+      }
+    });
+  });
+
+  return Array.from(merged.values());
+}
+
+// The built-in lexicon of a language pack, one entry per term
+export function lexiconFromPack(pack: LanguagePack): EmotionLexiconEntry[] {
+  const entries = new Map<string, EmotionLexiconEntry>();
+
+  EMOTIONS.forEach(emotion => {
+    Object.entries(pack.emotionLexicon[emotion]).forEach(([term, intensity]) => {
+      const entry = entries.get(term) ?? { term, emotions: {} };
+      entry.emotions[emotion] = intensity;
+      entries.set(term, entry);
+    });
+  });
+
+  return Array.from(entries.values());
+}
+
+export function createLexiconError(message: string): NeuralEchoError {
+  const error = new Error(message) as NeuralEchoError;
+  error.code = 'LEXICON_INVALID';
+  error.component = 'EmotionLexicon';
+  error.recoverable = true; // The analyzer keeps its current lexicon
+  return error;
+}
+
+function parseDocument(document: unknown, language?: LanguageCode): EmotionLexiconEntry[] {
+  if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+    throw createLexiconError('Invalid lexicon: expected an object');
+  }
+
+  const { format, version, entries, language: declared } = document as Record<string, unknown>;
+  if (format !== LEXICON_FORMAT) {
+    throw createLexiconError(`Invalid lexicon: format must be "${LEXICON_FORMAT}"`);
+  }
+  if (!Number.isInteger(version) || (version as number) < 1 || (version as number) > LEXICON_FORMAT_VERSION) {
+    throw createLexiconError(`Invalid lexicon: unsupported version ${String(version)}`);
+  }
+  if (declared !== undefined && language !== undefined && declared !== language) {
+    throw createLexiconError(`Invalid lexicon: written for "${String(declared)}", not "${language}"`);
+  }
+  if (!Array.isArray(entries)) {
+    throw createLexiconError('Invalid lexicon: entries must be an array');
+  }
+
+  return checkEntries(entries.map((raw, index) => {
+    const where = `entries[${index}]`;
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw createLexiconError(`Invalid lexicon: ${where} must be an object`);
+    }
+
+    const { term, emotions, pos, remove } = raw as Record<string, unknown>;
+    if (remove !== undefined && typeof remove !== 'boolean') {
+      throw createLexiconError(`Invalid lexicon: ${where}.remove must be a boolean`);
+    }
+    if (emotions !== undefined && (typeof emotions !== 'object' || emotions === null || Array.isArray(emotions))) {
+      throw createLexiconError(`Invalid lexicon: ${where}.emotions must be an object`);
+    }
+    if (pos !== undefined && !Array.isArray(pos)) {
+      throw createLexiconError(`Invalid lexicon: ${where}.pos must be an array`);
+    }
+
+    return {
+      where,
+      term,
+      emotions: Object.entries(emotions ?? {}),
+      pos,
+      remove: remove === true
+    };
+  }));
+}
+
+// One entry per line: term<TAB>emotion:intensity,...[<TAB>pos,...]
+// "-" in place of the emotions removes the term; "#" starts a comment line
+function parseTsv(source: string): EmotionLexiconEntry[] {
+  const rows: RawEntry[] = [];
+
+  source.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '' || line.trimStart().startsWith('#')) return;
+
+    const where = `line ${index + 1}`;
+    const columns = line.split('\t');
+    if (columns.length < 2 || columns.length > 3) {
+      throw createLexiconError(`Invalid lexicon: ${where} must have 2 or 3 tab-separated columns`);
+    }
+
+    const [term, emotions, pos] = columns.map(column => column.trim());
+    const remove = emotions === '-';
+    rows.push({
+      where,
+      term,
+      emotions: remove ? [] : emotions.split(',').map(pair => {
+        const [emotion, intensity, ...rest] = pair.split(':').map(part => part.trim());
+        if (intensity === undefined || intensity === '' || rest.length > 0) {
+          throw createLexiconError(`Invalid lexicon: ${where} has a malformed emotion "${pair}" (expected emotion:intensity)`);
+        }
+        return [emotion, Number(intensity)];
+      }),
+      pos: pos ? pos.split(',').map(tag => tag.trim()) : undefined,
+      remove
+    });
+  });
+
+  return checkEntries(rows);
+}
+
+interface RawEntry {
+  where: string;
+  term: unknown;
+  emotions: [string, unknown][];
+  pos: unknown[] | undefined;
+  remove: boolean;
+}
+
+// Shared validation for both formats
+function checkEntries(rows: RawEntry[]): EmotionLexiconEntry[] {
+  const seen = new Set<string>();
+
+  return rows.map(({ where, term, emotions, pos, remove }) => {
+    if (typeof term !== 'string' || term.trim() === '') {
+      throw createLexiconError(`Invalid lexicon: ${where} needs a term`);
+    }
+
+    const normalized = normalizeTerm(term);
+    if (seen.has(normalized)) {
+      throw createLexiconError(`Invalid lexicon: ${where} repeats the term "${normalized}"`);
+    }
+    seen.add(normalized);
+
+    if (remove) {
+      return { term: normalized, emotions: {}, remove: true };
+    }
+
+    if (emotions.length === 0) {
+      throw createLexiconError(`Invalid lexicon: ${where} ("${normalized}") needs at least one emotion`);
+    }
+
+    const entry: EmotionLexiconEntry = { term: normalized, emotions: {} };
+    emotions.forEach(([emotion, intensity]) => {
+      if (!EMOTIONS.includes(emotion as keyof EmotionScores)) {
+        throw createLexiconError(`Invalid lexicon: ${where} has an unknown emotion "${emotion}"`);
+      }
+      if (typeof intensity !== 'number' || !Number.isFinite(intensity) || intensity < 0 || intensity > 1) {
+        throw createLexiconError(`Invalid lexicon: ${where} intensity for ${emotion} must be a number from 0 to 1`);
+      }
+      entry.emotions[emotion as keyof EmotionScores] = intensity;
+    });
+
+    // Checked and kept as metadata; matching does not look at parts of speech
+    if (pos !== undefined) {
+      pos.forEach(tag => {
+        if (!PARTS_OF_SPEECH.includes(tag as PartOfSpeech)) {
+          throw createLexiconError(
+            `Invalid lexicon: ${where} has an unknown part of speech "${String(tag)}" (expected ${PARTS_OF_SPEECH.join(', ')})`
+          );
+        }
+      });
+      entry.pos = pos as PartOfSpeech[];
+    }
+
+    return entry;
+  });
+}
+
+// Same normalization as Tokenizer.normalize, with phrase spacing collapsed
+function normalizeTerm(term: string): string {
+  return term.normalize('NFC').toLowerCase().replace(/[’ʼ]/g, "'").trim().split(/\s+/).join(' ');
+}
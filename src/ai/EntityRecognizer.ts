@@ -0,0 +1,306 @@
+import { Tokenizer } from './Tokenizer';
+import { DEFAULT_LANGUAGE, getLanguagePack, splitClitics } from './languages';
+import type { ConceptCategory, ConceptUnit, EntityType, LanguageCode, LanguagePack, Token } from '../types';
+
+export const ENTITY_CATEGORIES: Record<EntityType, ConceptCategory> = {
+  PERSON: 'people',
+  PLACE: 'places',
+  ORG: 'people', // Organizations act through the people in them
+  DATE: 'time'
+};
+
+interface Phrase {
+  words: string[];
+  entity?: EntityType; // Collocations have none
+}
+
+interface EntityLexicon {
+  pack: LanguagePack;
+  phrases: Map<string, Phrase[]>; // First word -> gazetteer names and collocations, longest first
+  names: Map<string, EntityType>; // Whole gazetteer name -> type
+  stopwords: Set<string>;
+  titles: Set<string>;
+  organizationWords: Set<string>;
+  placeWords: Set<string>;
+  placePrepositions: Set<string>;
+  nameConnectors: Set<string>;
+  commonWords: Set<string>;       // A capital on these at the start of a sentence marks nothing
+}
+
+interface Match {
+  first: number;
+  last: number;
+  entity?: EntityType;
+}
+
+/**
+ * EntityRecognizer - Multi-word concepts and named entities
+ * Finds gazetteer names and listed collocations, runs of capitalized words
+ * ("Juliet Capulet", "Bank of England") and dates ("5 June 2024"). Every
+ * decision is local to a paragraph, so paragraphs analyzed one at a time
+ * chunk exactly like the whole text. A name is typed by the gazetteer, then
+ * by the words in it ("University", "Lake"), then by a title or a place
+ * preposition before it, and is otherwise taken to be a PERSON.
+ */
+export class EntityRecognizer {
+  private static readonly DAY = /^\d{1,2}(?:st|nd|rd|th)?$/;
+  private static readonly YEAR = /^\d{4}$/;
+  private static readonly NAME_GAP = /^[\s\-‐]*$/;  // Between the words of one name
+  private static readonly DATE_GAP = /^[\s,]*$/;    // "June 5, 2024"
+
+  private tokenizer: Tokenizer;
+  private lexicons = new Map<LanguageCode, EntityLexicon>();
+
+  constructor(tokenizer: Tokenizer = new Tokenizer()) {
+    this.tokenizer = tokenizer;
+  }
+
+  // Names, dates and collocations in token order; every other token is left to the caller
+  chunk(text: string, tokens: Token[], language: LanguageCode = DEFAULT_LANGUAGE): ConceptUnit[] {
+    const lexicon = this.getLexicon(language);
+    const namedWords = this.namedWords(tokens, lexicon);
+    const units: ConceptUnit[] = [];
+
+    let i = 0;
+    while (i < tokens.length) {
+      const match = this.matchAt(text, tokens, i, lexicon, namedWords);
+      if (match) {
+        units.push(this.toUnit(tokens, match, lexicon.pack));
+        i = match.last + 1;
+      } else {
+        i++;
+      }
+    }
+
+    return units;
+  }
+
+  private matchAt(
+    text: string,
+    tokens: Token[],
+    i: number,
+    lexicon: EntityLexicon,
+    namedWords: Map<number, Set<string>>
+  ): Match | null {
+    const dayFirst = this.matchDayFirst(text, tokens, i, lexicon);
+    if (dayFirst) return this.extendDate(text, tokens, dayFirst, lexicon);
+
+    const phrase = this.matchPhrase(text, tokens, i, lexicon);
+    const name = this.matchName(text, tokens, i, lexicon, namedWords);
+
+    let match = phrase;
+    if (name && (!phrase || name.last > phrase.last)) {
+      match = { ...name, entity: this.classifyName(text, tokens, name, phrase, lexicon) };
+    }
+
+    return match?.entity === 'DATE' ? this.extendDate(text, tokens, match, lexicon) : match;
+  }
+
+  // "5 June": a day number only counts in front of a date
+  private matchDayFirst(text: string, tokens: Token[], i: number, lexicon: EntityLexicon): Match | null {
+    if (!EntityRecognizer.DAY.test(tokens[i].normalized) || !this.joined(text, tokens, i, EntityRecognizer.DATE_GAP)) {
+      return null;
+    }
+    const date = this.matchPhrase(text, tokens, i + 1, lexicon);
+    return date?.entity === 'DATE' ? { ...date, first: i } : null;
+  }
+
+  // The longest gazetteer name or collocation starting at token i
+  private matchPhrase(text: string, tokens: Token[], i: number, lexicon: EntityLexicon): Match | null {
+    const candidates = lexicon.phrases.get(this.wordOf(tokens[i], lexicon.pack)) ?? [];
+
+    for (const phrase of candidates) {
+      // Names need their capital; collocations and (in some languages) dates do not
+      const caseFree = !phrase.entity || (phrase.entity === 'DATE' && lexicon.pack.entities.lowercaseDates);
+      if (!caseFree && !this.isCapitalized(tokens[i], lexicon.pack)) continue;
+
+      let last = i;
+      const matches = phrase.words.every((word, offset) => {
+        if (offset === 0) return true;
+        if (!this.joined(text, tokens, last, EntityRecognizer.NAME_GAP)) return false;
+        last++;
+        return tokens[last].normalized === word || this.wordOf(tokens[last], lexicon.pack) === word;
+      });
+      if (matches) return { first: i, last, entity: phrase.entity };
+    }
+
+    return null;
+  }
+
+  // A run of capitalized words, possibly joined by "of", "de", "von"...
+  private matchName(
+    text: string,
+    tokens: Token[],
+    i: number,
+    lexicon: EntityLexicon,
+    namedWords: Map<number, Set<string>>
+  ): Match | null {
+    const { pack } = lexicon;
+    const word = this.wordOf(tokens[i], pack);
+    if (!this.isCapitalized(tokens[i], pack) || lexicon.stopwords.has(word) || lexicon.titles.has(word)) return null;
+
+    const afterTitle = this.isTitle(text, tokens, i, lexicon);
+    // Every German noun is capitalized; only a title marks a name there
+    if (pack.entities.capitalizedNouns && !afterTitle) return null;
+
+    // At the start of a sentence the capital may only be grammar: ordinary
+    // words never open a name there, and others need a capitalized neighbour
+    // or a capitalized use inside a sentence of the same paragraph
+    const sentenceStart = this.isSentenceStart(tokens, i) && !afterTitle;
+    if (sentenceStart && lexicon.commonWords.has(word)) return null;
+
+    let last = i;
+    while (this.joined(text, tokens, last, EntityRecognizer.NAME_GAP)) {
+      if (this.isCapitalized(tokens[last + 1], pack)) {
+        last++;
+      } else if (
+        lexicon.nameConnectors.has(tokens[last + 1].normalized) &&
+        this.joined(text, tokens, last + 1, EntityRecognizer.NAME_GAP) &&
+        this.isCapitalized(tokens[last + 2], pack)
+      ) {
+        last += 2;
+      } else {
+        break;
+      }
+    }
+
+    if (last === i && sentenceStart && !namedWords.get(tokens[i].paragraph)?.has(word)) return null;
+
+    return { first: i, last };
+  }
+
+  private classifyName(text: string, tokens: Token[], name: Match, prefix: Match | null, lexicon: EntityLexicon): EntityType {
+    const words = tokens.slice(name.first, name.last + 1).map(token => this.wordOf(token, lexicon.pack));
+    const known = lexicon.names.get(words.join(' '));
+    if (known) return known;
+
+    if (words.some(word => lexicon.organizationWords.has(word))) return 'ORG';
+    if (words.some(word => lexicon.placeWords.has(word))) return 'PLACE';
+    if (this.isTitle(text, tokens, name.first, lexicon)) return 'PERSON';
+    if (prefix?.entity) return prefix.entity; // "New York City" starts with a known place
+
+    const previous = tokens[name.first - 1];
+    if (previous && previous.sentence === tokens[name.first].sentence && lexicon.placePrepositions.has(previous.normalized)) {
+      return 'PLACE';
+    }
+    return 'PERSON';
+  }
+
+  // "June 5, 2024": take up to two day or year numbers after a date word,
+  // but not a day that starts a date of its own ("Monday, 5 March 2021")
+  private extendDate(text: string, tokens: Token[], match: Match, lexicon: EntityLexicon): Match {
+    let last = match.last;
+    for (let taken = 0; taken < 2 && this.joined(text, tokens, last, EntityRecognizer.DATE_GAP); taken++) {
+      const next = tokens[last + 1].normalized;
+      const isDay = EntityRecognizer.DAY.test(next) && !this.matchDayFirst(text, tokens, last + 1, lexicon);
+      if (!isDay && !EntityRecognizer.YEAR.test(next)) break;
+      last++;
+    }
+    return { ...match, last };
+  }
+
+  // Words capitalized inside a sentence, by paragraph
+  private namedWords(tokens: Token[], lexicon: EntityLexicon): Map<number, Set<string>> {
+    const named = new Map<number, Set<string>>();
+    tokens.forEach((token, i) => {
+      if (this.isSentenceStart(tokens, i) || !this.isCapitalized(token, lexicon.pack)) return;
+      if (!named.has(token.paragraph)) {
+        named.set(token.paragraph, new Set());
+      }
+      named.get(token.paragraph)!.add(this.wordOf(token, lexicon.pack));
+    });
+    return named;
+  }
+
+  private toUnit(tokens: Token[], match: Match, pack: LanguagePack): ConceptUnit {
+    const words = tokens.slice(match.first, match.last + 1).map((token, offset, run) =>
+      // Only the ends can carry clitics: "l'Europe", "Juliet's"
+      offset === 0 || offset === run.length - 1 ? this.wordOf(token, pack) : token.normalized
+    );
+
+    return {
+      word: words.join(' '),
+      first: match.first,
+      last: match.last,
+      start: tokens[match.first].start,
+      ...(match.entity && { entity: match.entity })
+    };
+  }
+
+  // Whether token i is followed by token i + 1 of the same sentence with only `gap` between
+  private joined(text: string, tokens: Token[], i: number, gap: RegExp): boolean {
+    const next = tokens[i + 1];
+    return next !== undefined &&
+      next.sentence === tokens[i].sentence &&
+      gap.test(text.slice(tokens[i].end, next.start));
+  }
+
+  private isSentenceStart(tokens: Token[], i: number): boolean {
+    return i === 0 || tokens[i - 1].sentence !== tokens[i].sentence;
+  }
+
+  // "Dr Watson", and "Dr. Watson" even where the period ended the sentence
+  private isTitle(text: string, tokens: Token[], i: number, lexicon: EntityLexicon): boolean {
+    const previous = tokens[i - 1];
+    return previous !== undefined &&
+      lexicon.titles.has(previous.normalized) &&
+      /^\.?\s+$/.test(text.slice(previous.end, tokens[i].start));
+  }
+
+  // Title case after any elided article: "Juliet", "l'Europe"; not "I" or "NOW"
+  private isCapitalized(token: Token | undefined, pack: LanguagePack): boolean {
+    if (!token) return false;
+    const { prefix } = splitClitics(token.normalized, pack);
+    const surface = prefix ? token.text.slice(prefix.length) : token.text;
+    return /^\p{Lu}/u.test(surface) && surface !== surface.toUpperCase();
+  }
+
+  private wordOf(token: Token, pack: LanguagePack): string {
+    return splitClitics(token.normalized, pack).word;
+  }
+
+  // Lookups are compiled from the language pack on first use
+  private getLexicon(language: LanguageCode): EntityLexicon {
+    let lexicon = this.lexicons.get(language);
+    if (lexicon) return lexicon;
+
+    const pack = getLanguagePack(language);
+    const phrases = new Map<string, Phrase[]>();
+    const names = new Map<string, EntityType>();
+    const addPhrase = (source: string, entity?: EntityType) => {
+      const words = this.tokenizer.words(source);
+      if (words.length === 0) return;
+      if (!phrases.has(words[0])) phrases.set(words[0], []);
+      phrases.get(words[0])!.push({ words, entity });
+      if (entity) names.set(words.join(' '), entity);
+    };
+
+    (Object.entries(pack.entities.gazetteer) as [EntityType, string[]][]).forEach(([entity, entries]) => {
+      entries.forEach(entry => addPhrase(entry, entity));
+    });
+    pack.collocations.forEach(collocation => addPhrase(collocation));
+    phrases.forEach(candidates => candidates.sort((a, b) => b.words.length - a.words.length));
+
+    const commonWords = new Set([
+      ...pack.stopwords,
+      ...pack.complexity.commonWords,
+      ...Object.values(pack.categoryKeywords).flat(),
+      ...Object.values(pack.emotionLexicon).flatMap(terms => Object.keys(terms))
+    ]);
+
+    lexicon = {
+      pack,
+      phrases,
+      names,
+      stopwords: new Set(pack.stopwords),
+      titles: new Set(pack.entities.titles),
+      organizationWords: new Set(pack.entities.organizationWords),
+      placeWords: new Set(pack.entities.placeWords),
+      placePrepositions: new Set(pack.entities.placePrepositions),
+      nameConnectors: new Set(pack.entities.nameConnectors),
+      commonWords
+    };
+    this.lexicons.set(language, lexicon);
+    return lexicon;
+  }
+}
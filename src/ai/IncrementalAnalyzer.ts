@@ -0,0 +1,282 @@
+import type { SentimentAnalyzer } from './SentimentAnalyzer';
+import type { ConceptExtractor } from './ConceptExtractor';
+import type { ComplexityAnalyzer } from './ComplexityAnalyzer';
+import type { EmotionAttributor } from './EmotionAttributor';
+import type { Tokenizer } from './Tokenizer';
+import { DEFAULT_LANGUAGE } from './languages';
+import type {
+  ComplexityTally,
+  ConceptStatistics,
+  EmojiData,
+  EmotionMention,
+  EmotionPhraseMatch,
+  EmotionTally,
+  EmotionTargetTally,
+  LanguageCode,
+  SegmentTally,
+  SentenceTally
+} from '../types';
+
+export interface IncrementalSnapshot {
+  words: string[];
+  emojis: EmojiData[];
+  emotions: EmotionTally;
+  targets: EmotionTargetTally;
+  concepts: ConceptStatistics;
+  complexity: ComplexityTally;
+  positionsOf: (word: string) => number[];
+}
+
+export interface IncrementalUpdateStats {
+  reused: number;
+  recomputed: number;
+  removed: number;
+}
+
+export interface TextSegment {
+  text: string;
+  start: number;
+}
+
+/**
+ * IncrementalAnalyzer - Diff-aware re-analysis for text that is being typed
+ * Keeps per-paragraph tallies and running totals; an edit only re-tallies
+ * the paragraphs between the unchanged prefix and suffix.
+ *
+ * Co-occurrence windows do not cross paragraph boundaries in this mode.
+ */
+export class IncrementalAnalyzer {
+  private sentimentAnalyzer: SentimentAnalyzer;
+  private conceptExtractor: ConceptExtractor;
+  private complexityAnalyzer: ComplexityAnalyzer;
+  private emotionAttributor: EmotionAttributor;
+  private tokenizer: Tokenizer;
+
+  private language: LanguageCode = DEFAULT_LANGUAGE;
+  private segments: SegmentTally[] = [];
+  private emotions!: EmotionTally;
+  private targets!: EmotionTargetTally;
+  private concepts!: ConceptStatistics;
+  private complexity!: ComplexityTally;
+  private lastUpdate: IncrementalUpdateStats = { reused: 0, recomputed: 0, removed: 0 };
+
+  constructor(
+    sentimentAnalyzer: SentimentAnalyzer,
+    conceptExtractor: ConceptExtractor,
+    complexityAnalyzer: ComplexityAnalyzer,
+    emotionAttributor: EmotionAttributor,
+    tokenizer: Tokenizer
+  ) {
+    this.sentimentAnalyzer = sentimentAnalyzer;
+    this.conceptExtractor = conceptExtractor;
+    this.complexityAnalyzer = complexityAnalyzer;
+    this.emotionAttributor = emotionAttributor;
+    this.tokenizer = tokenizer;
+    this.reset();
+  }
+
+  update(text: string, language: LanguageCode = DEFAULT_LANGUAGE): IncrementalSnapshot {
+    return this.updateSegments(this.splitIntoSegments(text), language);
+  }
+
+  // Diff against an explicit segmentation, e.g. the growing prefix of a stream
+  updateSegments(nextSegments: TextSegment[], language: LanguageCode = DEFAULT_LANGUAGE): IncrementalSnapshot {
+    // Tallies of another language's lexicons can't be reused
+    if (language !== this.language) {
+      this.reset();
+      this.language = language;
+    }
+
+    // Unchanged paragraphs at either end keep their tallies
+    let prefix = 0;
+    while (
+      prefix < this.segments.length &&
+      prefix < nextSegments.length &&
+      this.segments[prefix].text === nextSegments[prefix].text
+    ) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    while (
+      suffix < this.segments.length - prefix &&
+      suffix < nextSegments.length - prefix &&
+      this.segments[this.segments.length - 1 - suffix].text === nextSegments[nextSegments.length - 1 - suffix].text
+    ) {
+      suffix++;
+    }
+
+    const removed = this.segments.slice(prefix, this.segments.length - suffix);
+    const added = nextSegments
+      .slice(prefix, nextSegments.length - suffix)
+      .map(segment => this.tallySegment(segment.text, language));
+
+    removed.forEach(segment => this.applySegment(segment, -1));
+    added.forEach(segment => this.applySegment(segment, 1));
+
+    this.segments = [
+      ...this.segments.slice(0, prefix),
+      ...added,
+      ...this.segments.slice(this.segments.length - suffix)
+    ];
+
+    this.lastUpdate = {
+      reused: prefix + suffix,
+      recomputed: added.length,
+      removed: removed.length
+    };
+
+    return this.createSnapshot(nextSegments);
+  }
+
+  reset(): void {
+    this.segments = [];
+    this.emotions = this.sentimentAnalyzer.tally('');
+    this.targets = new Map();
+    this.concepts = this.conceptExtractor.collectStatistics('');
+    this.complexity = this.complexityAnalyzer.tally('');
+    this.lastUpdate = { reused: 0, recomputed: 0, removed: 0 };
+  }
+
+  getLastUpdateStats(): IncrementalUpdateStats {
+    return { ...this.lastUpdate };
+  }
+
+  private tallySegment(text: string, language: LanguageCode): SegmentTally {
+    const emotions = this.sentimentAnalyzer.tally(text, language);
+
+    return {
+      text,
+      words: this.tokenizer.words(text),
+      emojis: this.sentimentAnalyzer.extractEmojiData(text),
+      emotions,
+      targets: this.emotionAttributor.tally(text, emotions.mentions, language),
+      concepts: this.conceptExtractor.collectStatistics(text, language),
+      complexity: this.complexityAnalyzer.tally(text, language)
+    };
+  }
+
+  private applySegment(segment: SegmentTally, sign: 1 | -1): void {
+    this.sentimentAnalyzer.mergeTallies(this.emotions, segment.emotions, sign);
+    this.emotionAttributor.mergeTallies(this.targets, segment.targets, sign);
+    this.conceptExtractor.mergeStatistics(this.concepts, segment.concepts, sign);
+    this.complexityAnalyzer.mergeTallies(this.complexity, segment.complexity, sign);
+  }
+
+  private createSnapshot(layout: TextSegment[]): IncrementalSnapshot {
+    const segments = this.segments;
+    const words: string[] = [];
+    const emojis: EmojiData[] = [];
+    const phrases: EmotionPhraseMatch[] = [];
+    const sentences: SentenceTally[] = [];
+    const mentions: EmotionMention[] = [];
+    let paragraph = 0;
+
+    segments.forEach((segment, index) => {
+      const offset = layout[index].start;
+      const previous = layout[index - 1];
+      // Paragraphs split by splitIntoSegments leave a gap; sentence chunks
+      // continue the paragraph unless they end on a blank line
+      const paragraphBase = previous && previous.start + previous.text.length === offset && !/\n\s*\n\s*$/.test(previous.text)
+        ? paragraph
+        : paragraph + (index > 0 ? 1 : 0);
+
+      words.push(...segment.words);
+      segment.emojis.forEach(emoji => {
+        emojis.push({ ...emoji, position: emoji.position + offset });
+      });
+      segment.emotions.phrases.forEach(match => {
+        phrases.push({ ...match, start: match.start + offset, end: match.end + offset });
+      });
+      segment.emotions.sentences.forEach(sentence => {
+        paragraph = paragraphBase + sentence.paragraph;
+        sentences.push({ ...sentence, paragraph, start: sentence.start + offset, end: sentence.end + offset });
+      });
+      segment.emotions.mentions.forEach(mention => {
+        mentions.push({ ...mention, start: mention.start + offset, end: mention.end + offset });
+      });
+    });
+
+    // Positions are only resolved for the concepts the extractor keeps
+    const positionsOf = (word: string): number[] => {
+      const positions: number[] = [];
+
+      segments.forEach((segment, index) => {
+        segment.concepts.wordPositions.get(word)?.forEach(position => {
+          positions.push(position + layout[index].start);
+        });
+      });
+
+      return positions;
+    };
+
+    // First uses are per-segment token indices; the earliest segment wins
+    const firstIndices = new Map<string, number>();
+    let tokenOffset = 0;
+    segments.forEach(segment => {
+      segment.concepts.firstIndices.forEach((index, word) => {
+        if (!firstIndices.has(word)) {
+          firstIndices.set(word, index + tokenOffset);
+        }
+      });
+      tokenOffset += segment.concepts.totalWords;
+    });
+
+    return {
+      words,
+      emojis,
+      emotions: { ...this.emotions, phrases, sentences, mentions },
+      targets: this.targets,
+      concepts: { ...this.concepts, firstIndices },
+      complexity: this.complexity,
+      positionsOf
+    };
+  }
+
+  // Group sentences into chunks; boundaries always fall on whitespace so
+  // the chunks tokenize exactly like the whole text
+  chunkBySentences(text: string, sentencesPerChunk: number): TextSegment[] {
+    const chunks: TextSegment[] = [];
+    const sentenceEnd = /[.!?]+["')\]]*\s+|\n\s*\n/g;
+    let start = 0;
+    let sentences = 0;
+    let match;
+
+    while ((match = sentenceEnd.exec(text)) !== null) {
+      sentences++;
+      if (sentences >= sentencesPerChunk) {
+        const end = match.index + match[0].length;
+        chunks.push({ text: text.slice(start, end), start });
+        start = end;
+        sentences = 0;
+      }
+    }
+
+    if (start < text.length) {
+      chunks.push({ text: text.slice(start), start });
+    }
+
+    return chunks;
+  }
+
+  // Paragraphs separated by blank lines, with their offsets into the text
+  splitIntoSegments(text: string): TextSegment[] {
+    const segments: TextSegment[] = [];
+    const paragraphBreak = /\n\s*\n/g;
+    let start = 0;
+    let match;
+
+    while ((match = paragraphBreak.exec(text)) !== null) {
+      if (match.index > start) {
+        segments.push({ text: text.slice(start, match.index), start });
+      }
+      start = match.index + match[0].length;
+    }
+
+    if (start < text.length) {
+      segments.push({ text: text.slice(start), start });
+    }
+
+    return segments;
+  }
+}
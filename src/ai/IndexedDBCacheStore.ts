@@ -0,0 +1,123 @@
+import type { AnalysisCacheEntry, AnalysisCacheStore } from '../types';
+
+/**
+ * IndexedDBCacheStore - Persistent analysis cache layer
+ * Entries survive reloads; the factory is injectable so tests can run
+ * against fake-indexeddb.
+ */
+export class IndexedDBCacheStore implements AnalysisCacheStore {
+  private static readonly STORE_NAME = 'analyses';
+  private static readonly ACCESS_INDEX = 'lastAccess';
+  private static readonly SCHEMA_VERSION = 1;
+
+  private factory: IDBFactory;
+  private databaseName: string;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(factory: IDBFactory = indexedDB, databaseName = 'neural-echo-analysis-cache') {
+    this.factory = factory;
+    this.databaseName = databaseName;
+  }
+
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async get(key: string): Promise<AnalysisCacheEntry | undefined> {
+    const store = await this.objectStore('readonly');
+    return this.request<AnalysisCacheEntry | undefined>(store.get(key));
+  }
+
+  async set(entry: AnalysisCacheEntry): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await this.request(store.put(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await this.request(store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await this.request(store.clear());
+  }
+
+  async count(): Promise<number> {
+    const store = await this.objectStore('readonly');
+    return this.request(store.count());
+  }
+
+  async prune(maxEntries: number): Promise<number> {
+    const store = await this.objectStore('readwrite');
+    const excess = (await this.request(store.count())) - maxEntries;
+    if (excess <= 0) {
+      return 0;
+    }
+
+    // Walk from the least recently used entry and delete until under the limit
+    const cursorRequest = store.index(IndexedDBCacheStore.ACCESS_INDEX).openCursor();
+    return new Promise((resolve, reject) => {
+      let removed = 0;
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || removed >= excess) {
+          resolve(removed);
+          return;
+        }
+        cursor.delete();
+        removed++;
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+  }
+
+  // Close the connection; the next call reopens it
+  async close(): Promise<void> {
+    if (this.database) {
+      const database = await this.database;
+      database.close();
+      this.database = null;
+    }
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database
+      .transaction(IndexedDBCacheStore.STORE_NAME, mode)
+      .objectStore(IndexedDBCacheStore.STORE_NAME);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const openRequest = this.factory.open(this.databaseName, IndexedDBCacheStore.SCHEMA_VERSION);
+
+        openRequest.onupgradeneeded = () => {
+          const database = openRequest.result;
+          if (!database.objectStoreNames.contains(IndexedDBCacheStore.STORE_NAME)) {
+            const store = database.createObjectStore(IndexedDBCacheStore.STORE_NAME, { keyPath: 'key' });
+            store.createIndex(IndexedDBCacheStore.ACCESS_INDEX, 'lastAccess');
+          }
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => reject(openRequest.error);
+        openRequest.onblocked = () => reject(new Error('Analysis cache database is blocked by another connection'));
+      });
+
+      // Let a later call retry after a failed open
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
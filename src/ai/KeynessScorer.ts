@@ -0,0 +1,70 @@
+import { Lemmatizer } from './Lemmatizer';
+import { DEFAULT_LANGUAGE, getLanguagePack } from './languages';
+import type { LanguageCode } from '../types';
+
+interface ReferenceTable {
+  words: Map<string, number>;  // Word -> Zipf value
+  lemmas: Map<string, number>; // Lemma -> the highest Zipf value of its listed words
+}
+
+/**
+ * KeynessScorer - How much more a text uses a word than the language does
+ * Compares a word's count with the count the pack's reference frequencies
+ * predict, by Dunning's log-likelihood (G2). Reference frequencies are
+ * banded Zipf values (log10 of uses per billion words); a word not listed
+ * in any inflection counts as rare, and a phrase is as common as its rarest
+ * word. The reference corpus dwarfs any text, so its own term drops out.
+ */
+export class KeynessScorer {
+  private static readonly UNLISTED_ZIPF = 3; // About one use per million words
+
+  private lemmatizer: Lemmatizer;
+  private tables = new Map<LanguageCode, ReferenceTable>();
+
+  constructor(lemmatizer: Lemmatizer = new Lemmatizer()) {
+    this.lemmatizer = lemmatizer;
+  }
+
+  // The share of running words a word or phrase takes in the reference corpus
+  referenceRate(word: string, language: LanguageCode = DEFAULT_LANGUAGE): number {
+    const zipf = Math.min(...word.split(' ').map(part => this.zipfOf(part, language)));
+    return Math.pow(10, zipf - 9);
+  }
+
+  // G2 of `count` uses in `totalWords` running words against the reference
+  // rate; negative for words the text uses less than expected
+  score(count: number, totalWords: number, rate: number): number {
+    if (count <= 0 || totalWords <= 0 || rate <= 0) return 0;
+
+    const expected = totalWords * rate;
+    const g2 = 2 * (count * Math.log(count / expected) - (count - expected));
+    return count >= expected ? g2 : -g2;
+  }
+
+  private zipfOf(word: string, language: LanguageCode): number {
+    const table = this.getTable(language);
+    return table.words.get(word) ??
+      table.lemmas.get(this.lemmatizer.lemmatize(word, language)) ??
+      KeynessScorer.UNLISTED_ZIPF;
+  }
+
+  // Tables are compiled from the language pack on first use
+  private getTable(language: LanguageCode): ReferenceTable {
+    let table = this.tables.get(language);
+    if (table) return table;
+
+    const words = new Map<string, number>();
+    const lemmas = new Map<string, number>();
+    getLanguagePack(language).referenceFrequencies.forEach(([zipf, band]) => {
+      band.forEach(word => {
+        words.set(word, Math.max(zipf, words.get(word) ?? -Infinity));
+        const lemma = this.lemmatizer.lemmatize(word, language);
+        lemmas.set(lemma, Math.max(zipf, lemmas.get(lemma) ?? -Infinity));
+      });
+    });
+
+    table = { words, lemmas };
+    this.tables.set(language, table);
+    return table;
+  }
+}
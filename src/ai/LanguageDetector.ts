@@ -0,0 +1,103 @@
+import { DEFAULT_LANGUAGE, LANGUAGE_PACKS } from './languages';
+import type { LanguageCode, LanguageDetection } from '../types';
+
+type NgramProfile = Map<string, number>;
+
+/**
+ * LanguageDetector - Local character trigram model
+ * Each language pack's profile text and word lists are turned into a
+ * trigram frequency profile; input text goes to the most similar profile.
+ */
+export class LanguageDetector {
+  private static readonly SAMPLE_LENGTH = 2000;  // Characters looked at for long texts
+  private static readonly MIN_LETTERS = 12;      // Below this, stay with the default language
+  private static readonly DEFAULT_BIAS = 1.1;    // Another language must beat the default by 10%
+
+  private profiles = new Map<LanguageCode, NgramProfile>();
+
+  constructor() {
+    (Object.keys(LANGUAGE_PACKS) as LanguageCode[]).forEach(code => {
+      const pack = LANGUAGE_PACKS[code];
+      const vocabulary = [
+        ...pack.stopwords,
+        ...Object.values(pack.emotionLexicon).flatMap(terms => Object.keys(terms)),
+        ...Object.values(pack.categoryKeywords).flat(),
+        ...pack.complexity.commonWords,
+        ...pack.complexity.complexWords,
+        ...pack.complexity.abstractIndicators,
+        ...pack.complexity.technicalIndicators
+      ];
+      this.profiles.set(code, this.buildProfile(`${pack.profileText} ${vocabulary.join(' ')}`));
+    });
+  }
+
+  detect(text: string): LanguageDetection {
+    const sample = text.slice(0, LanguageDetector.SAMPLE_LENGTH);
+    const letters = sample.match(/\p{L}/gu)?.length ?? 0;
+
+    if (letters < LanguageDetector.MIN_LETTERS) {
+      return this.fixed(DEFAULT_LANGUAGE, 0);
+    }
+
+    const profile = this.buildProfile(sample);
+    const scores = {} as Record<LanguageCode, number>;
+    this.profiles.forEach((languageProfile, code) => {
+      scores[code] = this.cosineSimilarity(profile, languageProfile);
+    });
+
+    const ranked = (Object.keys(scores) as LanguageCode[]).sort((a, b) => scores[b] - scores[a]);
+    const best = scores[ranked[0]];
+    const runnerUp = scores[ranked[1]] ?? 0;
+
+    // Short or unusual text scores low everywhere; only leave the default
+    // language on a clear lead
+    const language = best > scores[DEFAULT_LANGUAGE] * LanguageDetector.DEFAULT_BIAS
+      ? ranked[0]
+      : DEFAULT_LANGUAGE;
+    const confidence = scores[language] > 0
+      ? Math.max(0, (scores[language] - (language === ranked[0] ? runnerUp : best)) / scores[language])
+      : 0;
+
+    return { language, confidence, scores };
+  }
+
+  // Detection result for a caller-chosen language
+  fixed(language: LanguageCode, confidence = 1): LanguageDetection {
+    const scores = {} as Record<LanguageCode, number>;
+    (Object.keys(LANGUAGE_PACKS) as LanguageCode[]).forEach(code => {
+      scores[code] = code === language ? confidence : 0;
+    });
+    return { language, confidence, scores };
+  }
+
+  private buildProfile(text: string): NgramProfile {
+    const profile: NgramProfile = new Map();
+    const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+
+    words.forEach(word => {
+      const padded = ` ${word} `;
+      for (let i = 0; i < padded.length - 2; i++) {
+        const trigram = padded.slice(i, i + 3);
+        profile.set(trigram, (profile.get(trigram) || 0) + 1);
+      }
+    });
+
+    return profile;
+  }
+
+  private cosineSimilarity(a: NgramProfile, b: NgramProfile): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+
+    a.forEach((count, trigram) => {
+      dot += count * (b.get(trigram) || 0);
+      normA += count * count;
+    });
+    b.forEach(count => {
+      normB += count * count;
+    });
+
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+}
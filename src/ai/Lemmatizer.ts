@@ -0,0 +1,69 @@
+import { porterStem } from './PorterStemmer';
+import { DEFAULT_LANGUAGE } from './languages';
+import type { LanguageCode, Stemmer } from '../types';
+
+/**
+ * Lemmatizer - Groups the inflections of a word under one key
+ * English uses the Porter stemmer; Spanish, French and German only fold
+ * plurals, which is safe without a dictionary. Any language's stemmer can
+ * be replaced with register(). Keys are for grouping: ConceptExtractor
+ * keeps the surface forms for display.
+ */
+
+// "familias" -> "familia", "canciones" -> "cancion"
+function stemSpanish(word: string): string {
+  if (word.length > 4 && word.endsWith('es') && !/[aeiouáéíóú]es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && /[aeiouáéíóú]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+// "chevaux" -> "cheval", "amours" -> "amour"
+function stemFrench(word: string): string {
+  if (word.length > 4 && word.endsWith('aux')) return word.slice(0, -3) + 'al';
+  if (word.length > 3 && /[^s][sx]$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+// "Freundinnen" -> "freundin", "Blumen" -> "blum"; short words are left alone
+function stemGerman(word: string): string {
+  if (word.length > 7 && word.endsWith('innen')) return word.slice(0, -3);
+  for (const suffix of ['en', 'er', 'e', 'n', 's']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 4) return word.slice(0, -suffix.length);
+  }
+  return word;
+}
+
+const DEFAULT_STEMMERS: Record<LanguageCode, Stemmer> = {
+  en: porterStem,
+  es: stemSpanish,
+  fr: stemFrench,
+  de: stemGerman
+};
+
+export class Lemmatizer {
+  private stemmers = new Map<LanguageCode, Stemmer>(Object.entries(DEFAULT_STEMMERS) as [LanguageCode, Stemmer][]);
+  private cache = new Map<LanguageCode, Map<string, string>>();
+
+  // Use a different stemmer for a language (identity turns grouping off)
+  register(language: LanguageCode, stemmer: Stemmer): void {
+    this.stemmers.set(language, stemmer);
+    this.cache.delete(language);
+  }
+
+  // The key a normalized word is grouped under
+  lemmatize(word: string, language: LanguageCode = DEFAULT_LANGUAGE): string {
+    let cache = this.cache.get(language);
+    if (!cache) {
+      cache = new Map();
+      this.cache.set(language, cache);
+    }
+
+    let lemma = cache.get(word);
+    if (lemma === undefined) {
+      const stemmer = this.stemmers.get(language) ?? this.stemmers.get(DEFAULT_LANGUAGE)!;
+      lemma = stemmer(word);
+      cache.set(word, lemma);
+    }
+    return lemma;
+  }
+}
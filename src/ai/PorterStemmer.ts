@@ -0,0 +1,144 @@
+/**
+ * PorterStemmer - The English suffix stripper of Porter (1980)
+ * "run", "runs" and "running" all become "run"; "happiness" becomes
+ * "happi". Stems are keys for grouping, not words to show. Words with
+ * letters outside a-z are returned unchanged.
+ */
+
+const STEP2: [string, string][] = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['bli', 'ble'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'],
+  ['logi', 'log']
+];
+
+const STEP3: [string, string][] = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', '']
+];
+
+const STEP4 = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent', 'ion', 'ou',
+  'ism', 'ate', 'iti', 'ous', 'ive', 'ize'
+];
+
+export function porterStem(word: string): string {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) return word;
+
+  // A leading y is a consonant; mark it so the vowel tests treat it as one
+  let w = word[0] === 'y' ? 'Y' + word.slice(1) : word;
+
+  w = step1a(w);
+  w = step1b(w);
+  w = step1c(w);
+  w = replaceSuffix(w, STEP2, 0);
+  w = replaceSuffix(w, STEP3, 0);
+  w = step4(w);
+  w = step5(w);
+
+  return w.replace(/^Y/, 'y');
+}
+
+function isConsonant(w: string, i: number): boolean {
+  const c = w[i];
+  if ('aeiou'.includes(c)) return false;
+  if (c === 'y') return i === 0 || !isConsonant(w, i - 1);
+  return true;
+}
+
+// m: the number of vowel-consonant sequences in the stem
+function measure(stem: string): number {
+  let m = 0;
+  let i = 0;
+  while (i < stem.length && isConsonant(stem, i)) i++;
+  while (i < stem.length) {
+    while (i < stem.length && !isConsonant(stem, i)) i++;
+    if (i >= stem.length) break;
+    while (i < stem.length && isConsonant(stem, i)) i++;
+    m++;
+  }
+  return m;
+}
+
+function hasVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(w: string): boolean {
+  const n = w.length;
+  return n >= 2 && w[n - 1] === w[n - 2] && isConsonant(w, n - 1);
+}
+
+// Consonant-vowel-consonant, where the last consonant is not w, x or y ("hop", not "bow")
+function endsWithCvc(w: string): boolean {
+  const n = w.length;
+  return n >= 3 &&
+    isConsonant(w, n - 3) && !isConsonant(w, n - 2) && isConsonant(w, n - 1) &&
+    !'wxy'.includes(w[n - 1]);
+}
+
+// Replace the first matching suffix when the remaining stem measures more than minMeasure
+function replaceSuffix(w: string, rules: [string, string][], minMeasure: number): string {
+  for (const [suffix, replacement] of rules) {
+    if (w.endsWith(suffix)) {
+      const stem = w.slice(0, -suffix.length);
+      return measure(stem) > minMeasure ? stem + replacement : w;
+    }
+  }
+  return w;
+}
+
+function step1a(w: string): string {
+  if (w.endsWith('sses')) return w.slice(0, -2);
+  if (w.endsWith('ies')) return w.slice(0, -2);
+  if (w.endsWith('ss')) return w;
+  if (w.endsWith('s')) return w.slice(0, -1);
+  return w;
+}
+
+function step1b(w: string): string {
+  if (w.endsWith('eed')) {
+    return measure(w.slice(0, -3)) > 0 ? w.slice(0, -1) : w;
+  }
+
+  let stem: string | null = null;
+  if (w.endsWith('ed') && hasVowel(w.slice(0, -2))) stem = w.slice(0, -2);
+  else if (w.endsWith('ing') && hasVowel(w.slice(0, -3))) stem = w.slice(0, -3);
+  if (stem === null) return w;
+
+  // "hoped" -> "hope", "hopping" -> "hop", "filing" -> "file"
+  if (stem.endsWith('at') || stem.endsWith('bl') || stem.endsWith('iz')) return stem + 'e';
+  if (endsWithDoubleConsonant(stem) && !'lsz'.includes(stem[stem.length - 1])) return stem.slice(0, -1);
+  if (measure(stem) === 1 && endsWithCvc(stem)) return stem + 'e';
+  return stem;
+}
+
+function step1c(w: string): string {
+  return w.endsWith('y') && hasVowel(w.slice(0, -1)) ? w.slice(0, -1) + 'i' : w;
+}
+
+function step4(w: string): string {
+  // Longest suffix first so "ement" is tried before "ment" and "ent"
+  const suffix = STEP4
+    .filter(candidate => w.endsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!suffix) return w;
+
+  const stem = w.slice(0, -suffix.length);
+  if (measure(stem) <= 1) return w;
+  if (suffix === 'ion' && !/[st]$/.test(stem)) return w;
+  return stem;
+}
+
+function step5(w: string): string {
+  if (w.endsWith('e')) {
+    const stem = w.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsWithCvc(stem))) w = stem;
+  }
+  if (w.endsWith('ll') && measure(w) > 1) w = w.slice(0, -1);
+  return w;
+}
@@ -0,0 +1,71 @@
+import { DEFAULT_LANGUAGE, getLanguagePack } from './languages';
+import type { LanguageCode, SarcasmContext } from '../types';
+
+/**
+ * SarcasmDetector - How likely a sentence means the opposite of what it says
+ * Each cue is weak on its own and they are combined with a noisy-or, so a
+ * sentence needs several ("Oh great, another Monday 🙄") or one strong one
+ * before SentimentAnalyzer turns its positive emotions around.
+ */
+export class SarcasmDetector {
+  // Probability each cue alone gives the sentence
+  private static readonly CUES = {
+    marker: 0.55,      // A set phrase: "yeah right", "na toll", "tu parles"
+    eyeRoll: 0.6,      // 🙄 😒 😏 🙃
+    scareQuotes: 0.5,  // A positive word in quotes: so "helpful"
+    emojiClash: 0.4,   // Positive words next to a negative emoji
+    contextClash: 0.3, // Positive words in an otherwise negative sentence
+    punctuation: 0.2   // "Great...", "Wonderful?!"
+  };
+
+  private static readonly EYE_ROLLS = new Set(['🙄', '😒', '😏', '🙃']);
+  private static readonly OPENING_QUOTES = new Set(['"', "'", '“', '‘', '«', '„']);
+  private static readonly CLOSING_QUOTES = new Set(['"', "'", '”', '’', '»', '“']);
+  private static readonly EXCESSIVE_PUNCTUATION = /[!?]*(?:\?!|!\?)|[!?]{3,}|\.{3,}|…/;
+
+  private markers = new Map<LanguageCode, string[][]>();
+
+  // Probability (0-1) that the sentence is sarcastic
+  score(context: SarcasmContext, language: LanguageCode = DEFAULT_LANGUAGE): number {
+    const { marker, eyeRoll, scareQuotes, emojiClash, contextClash, punctuation } = SarcasmDetector.CUES;
+    const cues: number[] = [];
+
+    if (this.getMarkers(language).some(phrase => this.containsPhrase(context.words, phrase))) {
+      cues.push(marker);
+    }
+    if (context.emojis.some(emoji => SarcasmDetector.EYE_ROLLS.has(emoji))) {
+      cues.push(eyeRoll);
+    }
+    if (SarcasmDetector.EXCESSIVE_PUNCTUATION.test(context.text)) {
+      cues.push(punctuation);
+    }
+
+    if (context.positive > 0) {
+      const quoted = context.positiveSpans.some(([start, end]) =>
+        SarcasmDetector.OPENING_QUOTES.has(context.text[start - 1]) && SarcasmDetector.CLOSING_QUOTES.has(context.text[end])
+      );
+      if (quoted) cues.push(scareQuotes);
+      if (context.negativeEmojis > 0) cues.push(emojiClash);
+      if (context.negative >= context.positive) cues.push(contextClash);
+    }
+
+    return 1 - cues.reduce((unlikely, cue) => unlikely * (1 - cue), 1);
+  }
+
+  // Marker phrases as word sequences, compiled from the language pack on first use
+  private getMarkers(language: LanguageCode): string[][] {
+    let markers = this.markers.get(language);
+    if (!markers) {
+      markers = getLanguagePack(language).sarcasmMarkers.map(phrase => phrase.split(/\s+/));
+      this.markers.set(language, markers);
+    }
+    return markers;
+  }
+
+  private containsPhrase(words: string[], phrase: string[]): boolean {
+    for (let i = 0; i + phrase.length <= words.length; i++) {
+      if (phrase.every((word, offset) => words[i + offset] === word)) return true;
+    }
+    return false;
+  }
+}
@@ -2,133 +2,231 @@ import type {
   SentimentAnalysis,
   EmotionScores,
   DominantEmotion,
-  EmojiData
+  DyadScores,
+  EmojiData,
+  EmotionLexiconDocument,
+  EmotionLexiconEntry,
+  EmotionMention,
+  EmotionPhraseMatch,
+  EmotionTally,
+  EmotionTimeline,
+  EmotionTimelinePoint,
+  EmotionTurningPoint,
+  LanguageCode,
+  LanguagePack,
+  SarcasmContext,
+  SentenceTally,
+  SentimentConfidence,
+  SentimentModifier,
+  Token,
+  TokenizedText
 } from '../types';
+import { Tokenizer } from './Tokenizer';
+import { SarcasmDetector } from './SarcasmDetector';
+import { DEFAULT_LANGUAGE, getLanguagePack, splitClitics } from './languages';
+import { lexiconFromPack, mergeLexicons, parseLexicon } from './EmotionLexicon';
+import { EMOTICON_PATTERN, lookupEmoji, lookupEmoticon } from './EmojiLexicon';
+
+// Emotion -> intensity pairs of one lexicon term
+interface LexiconEntry {
+  emotions: [keyof EmotionScores, number][];
+}
+
+interface SentimentLexicon {
+  pack: LanguagePack;
+  emotions: Map<string, LexiconEntry>;
+  // Multi-word entries ("looking forward"), longest first for greedy matching
+  emotionPhrases: (LexiconEntry & { words: string[] })[];
+  negations: Set<string>;
+  intensifiers: Map<string, number>;
+  // Phrases as word sequences, longest first so "even though" wins over "though"
+  adversatives: string[][];
+  concessives: string[][];
+  additivePairs: [string[], string[]][];
+}
+
+// One scored lexicon term; contrast markers re-weight hits after the fact
+interface EmotionHit {
+  emotions: [keyof EmotionScores, number][];
+  weight: number;
+  modifiers: SentimentModifier[];
+  phrase: boolean;
+  sentence: number;
+  paragraph: number;
+  start: number;
+  end: number;
+}
+
+// Punctuation between two tokens that closes a clause
+export const CLAUSE_BREAK = /[,;:()–—]|\s-\s/;
 
 export class SentimentAnalyzer {
-  private emotionLexicon: Map<string, { emotion: keyof EmotionScores; intensity: number }>;
-  private negationWords: Set<string>;
-  private intensifierWords: Map<string, number>;
-
-  constructor() {
-    this.emotionLexicon = new Map();
-    this.negationWords = new Set();
-    this.intensifierWords = new Map();
-    this.initializeLexicons();
+  // Valence shifters
+  private static readonly NEGATION_FACTOR = -0.5;      // Negated emotion: reduced and inverted
+  private static readonly INTENSIFIER_DECAY = 0.5;     // Per word between intensifier and emotion
+  private static readonly INTENSIFIER_REACH = 3;       // Words an intensifier can reach across
+  private static readonly INTENSIFIER_RANGE = [0.2, 3.0];
+  private static readonly BEFORE_CONTRAST = 0.5;       // "X but Y": X counts half...
+  private static readonly AFTER_CONTRAST = 1.5;        // ...and Y counts more
+  private static readonly CONCESSIVE_CLAUSE = 0.5;     // "although X": X counts half
+
+  // Sarcasm
+  private static readonly SARCASM_THRESHOLD = 0.5;     // Sentences this likely sarcastic are turned around
+  private static readonly SARCASM_FLIPS: (keyof EmotionScores)[] = ['joy', 'trust', 'anticipation'];
+  private static readonly SARCASM_TARGET: keyof EmotionScores = 'disgust';
+
+  // Confidence
+  private static readonly EXPECTED_DENSITY = 0.05;     // One emotional word in twenty is full coverage
+  private static readonly NEGATION_DOUBT = 0.5;        // Confidence lost when every reading is negated
+  private static readonly INTERVAL_Z = 1.96;           // ~95% interval
+
+  // Timeline
+  private static readonly ARC_RADIUS = 1;              // Neighbours on each side averaged into the arc
+  private static readonly NEUTRAL_VALENCE = 0.1;       // Sentences closer to 0 cannot turn the arc
+
+  // Primary dyads and the two emotions each one blends
+  private static readonly DYADS: Record<keyof DyadScores, [keyof EmotionScores, keyof EmotionScores]> = {
+    love: ['joy', 'trust'],
+    submission: ['trust', 'fear'],
+    awe: ['fear', 'surprise'],
+    disapproval: ['surprise', 'sadness'],
+    remorse: ['sadness', 'disgust'],
+    contempt: ['disgust', 'anger'],
+    aggressiveness: ['anger', 'anticipation'],
+    optimism: ['anticipation', 'joy']
+  };
+
+  private tokenizer: Tokenizer;
+  private sarcasmDetector: SarcasmDetector;
+  private lexicons = new Map<LanguageCode, SentimentLexicon>();
+  private customLexicons = new Map<LanguageCode, EmotionLexiconEntry[]>();
+
+  constructor(tokenizer: Tokenizer = new Tokenizer(), sarcasmDetector: SarcasmDetector = new SarcasmDetector()) {
+    this.tokenizer = tokenizer;
+    this.sarcasmDetector = sarcasmDetector;
   }
 
-  private initializeLexicons(): void {
-    // Joy/Happiness lexicon
-    const joyWords = [
-      'happy', 'joy', 'excited', 'wonderful', 'amazing', 'brilliant', 'delighted', 'ecstatic',
-      'joyful', 'cheerful', 'elated', 'euphoric', 'blissful', 'content', 'pleased', 'satisfied',
-      'thrilled', 'overjoyed', 'gleeful', 'merry', 'upbeat', 'optimistic', 'positive', 'bright',
-      'fantastic', 'great', 'excellent', 'perfect', 'beautiful', 'love', 'adore', 'celebrate',
-      'triumph', 'victory', 'success', 'achievement', 'accomplishment', 'pride', 'confident',
-      'hope', 'hopeful', 'inspiring', 'motivated', 'energetic', 'vibrant', 'alive'
-    ];
-
-    joyWords.forEach(word => {
-      this.emotionLexicon.set(word, { emotion: 'joy', intensity: 0.8 });
-    });
-
-    // Sadness lexicon
-    const sadnessWords = [
-      'sad', 'depressed', 'gloomy', 'melancholy', 'disappointed', 'sorrowful', 'grief',
-      'heartbroken', 'devastated', 'dejected', 'despondent', 'downhearted', 'miserable',
-      'unhappy', 'blue', 'down', 'low', 'morose', 'mournful', 'woeful', 'tearful',
-      'crying', 'weeping', 'sobbing', 'lonely', 'isolated', 'abandoned', 'lost',
-      'hopeless', 'helpless', 'despair', 'anguish', 'pain', 'hurt', 'suffering',
-      'regret', 'remorse', 'guilt', 'shame', 'burden', 'heavy', 'dark'
-    ];
-
-    sadnessWords.forEach(word => {
-      this.emotionLexicon.set(word, { emotion: 'sadness', intensity: 0.8 });
-    });
+  // Merge an override lexicon (JSON or TSV, see docs/LEXICON_FORMAT.md) on
+  // top of the current one, or replace it. Invalid sources throw a
+  // LEXICON_INVALID error and leave the current lexicon in place.
+  loadLexicon(
+    language: LanguageCode,
+    source: string | EmotionLexiconDocument,
+    options: { replace?: boolean } = {}
+  ): void {
+    const entries = parseLexicon(source, { language });
+    const base = options.replace ? [] : this.getLexiconEntries(language);
+
+    this.customLexicons.set(language, mergeLexicons(base, entries));
+    this.lexicons.delete(language);
+  }
 
-    // Anger lexicon
-    const angerWords = [
-      'angry', 'furious', 'rage', 'hostile', 'irritated', 'annoyed', 'outraged',
-      'mad', 'livid', 'enraged', 'irate', 'incensed', 'wrathful', 'fuming',
-      'aggravated', 'frustrated', 'exasperated', 'indignant', 'resentful', 'bitter',
-      'hatred', 'hate', 'loathe', 'despise', 'disgusted', 'revolted', 'appalled',
-      'offended', 'insulted', 'provoked', 'triggered', 'agitated', 'upset',
-      'pissed', 'ticked', 'steamed', 'boiling', 'seething', 'explosive'
-    ];
-
-    angerWords.forEach(word => {
-      this.emotionLexicon.set(word, { emotion: 'anger', intensity: 0.8 });
-    });
+  // Back to the language pack's built-in lexicon (all languages by default)
+  resetLexicon(language?: LanguageCode): void {
+    if (language) {
+      this.customLexicons.delete(language);
+      this.lexicons.delete(language);
+    } else {
+      this.customLexicons.clear();
+      this.lexicons.clear();
+    }
+  }
 
-    // Fear lexicon
-    const fearWords = [
-      'afraid', 'terrified', 'anxious', 'worried', 'nervous', 'scared', 'frightened',
-      'fearful', 'panicked', 'horrified', 'petrified', 'trembling', 'shaking',
-      'paranoid', 'concerned', 'uneasy', 'apprehensive', 'dreadful', 'ominous',
-      'threatening', 'dangerous', 'risky', 'uncertain', 'insecure', 'vulnerable',
-      'stressed', 'tense', 'overwhelmed', 'panic', 'terror', 'horror', 'nightmare',
-      'phobia', 'anxiety', 'stress', 'pressure', 'burden', 'threat'
-    ];
-
-    fearWords.forEach(word => {
-      this.emotionLexicon.set(word, { emotion: 'fear', intensity: 0.8 });
-    });
+  getLexiconEntries(language: LanguageCode = DEFAULT_LANGUAGE): EmotionLexiconEntry[] {
+    return this.customLexicons.get(language) ?? lexiconFromPack(getLanguagePack(language));
+  }
 
-    // Surprise lexicon
-    const surpriseWords = [
-      'surprised', 'shocked', 'astonished', 'amazed', 'stunned', 'startled',
-      'bewildered', 'perplexed', 'confused', 'puzzled', 'baffled', 'mystified',
-      'unexpected', 'sudden', 'abrupt', 'unforeseen', 'remarkable', 'extraordinary',
-      'incredible', 'unbelievable', 'astounding', 'mind-blowing', 'wow', 'whoa',
-      'gasped', 'speechless', 'thunderstruck', 'flabbergasted', 'dumbfounded'
-    ];
-
-    surpriseWords.forEach(word => {
-      this.emotionLexicon.set(word, { emotion: 'surprise', intensity: 0.7 });
-    });
+  // Languages whose lexicon was loaded or overridden, with their entries
+  getCustomLexicons(): Map<LanguageCode, EmotionLexiconEntry[]> {
+    return new Map(this.customLexicons);
+  }
 
-    // Anticipation lexicon
-    const anticipationWords = [
-      'excited', 'eager', 'hopeful', 'optimistic', 'expecting', 'anticipating',
-      'looking forward', 'awaiting', 'prepared', 'ready', 'planning', 'future',
-      'tomorrow', 'soon', 'upcoming', 'approaching', 'imminent', 'pending',
-      'prospect', 'possibility', 'potential', 'opportunity', 'chance', 'maybe',
-      'curious', 'interested', 'intrigued', 'wondering', 'expectant'
-    ];
-
-    anticipationWords.forEach(word => {
-      this.emotionLexicon.set(word, { emotion: 'anticipation', intensity: 0.6 });
+  // Lexicons are compiled from the language pack (or a loaded lexicon) on first use
+  private getLexicon(language: LanguageCode): SentimentLexicon {
+    let lexicon = this.lexicons.get(language);
+    if (lexicon) return lexicon;
+
+    const pack = getLanguagePack(language);
+    const emotions = new Map<string, LexiconEntry>();
+    const emotionPhrases: SentimentLexicon['emotionPhrases'] = [];
+
+    this.getLexiconEntries(language).forEach(entry => {
+      const words = entry.term.split(' ');
+      const weights = Object.entries(entry.emotions) as [keyof EmotionScores, number][];
+      if (words.length > 1) {
+        emotionPhrases.push({ words, emotions: weights });
+      } else {
+        emotions.set(entry.term, { emotions: weights });
+      }
     });
+    emotionPhrases.sort((a, b) => b.words.length - a.words.length);
+
+    const phrases = (list: string[]) => list
+      .map(phrase => phrase.split(/\s+/))
+      .sort((a, b) => b.length - a.length);
+
+    lexicon = {
+      pack,
+      emotions,
+      emotionPhrases,
+      negations: new Set(pack.negations),
+      intensifiers: new Map(Object.entries(pack.intensifiers)),
+      adversatives: phrases(pack.adversatives),
+      concessives: phrases(pack.concessives),
+      additivePairs: pack.additivePairs.map(([first, second]) => [first.split(/\s+/), second.split(/\s+/)])
+    };
+    this.lexicons.set(language, lexicon);
+    return lexicon;
+  }
 
-    // Negation words
-    const negations = [
-      'not', 'no', 'never', 'none', 'nothing', 'nobody', 'nowhere',
-      'neither', 'nor', 'without', 'barely', 'hardly', 'scarcely', 'seldom'
-    ];
-
-    negations.forEach(word => this.negationWords.add(word));
+  analyze(text: string, emojiInfluence: number = 0, language: LanguageCode = DEFAULT_LANGUAGE): SentimentAnalysis {
+    return this.analyzeTally(this.tally(text, language), emojiInfluence, this.extractEmojiData(text));
+  }
 
-    // Intensifier words with their multiplier values
-    const intensifiers = new Map([
-      ['very', 1.5], ['extremely', 2.0], ['incredibly', 1.8], ['absolutely', 1.7],
-      ['completely', 1.6], ['totally', 1.5], ['really', 1.3], ['quite', 1.2],
-      ['rather', 1.1], ['somewhat', 0.8], ['slightly', 0.6], ['barely', 0.4],
-      ['utterly', 1.9], ['exceptionally', 1.8], ['remarkably', 1.6], ['particularly', 1.4]
-    ]);
+  // Raw (unnormalized) emotion sums for a piece of text; tallies of
+  // separate paragraphs can be merged and analyzed as one document
+  tally(text: string, language: LanguageCode = DEFAULT_LANGUAGE): EmotionTally {
+    const tokenized = this.tokenizer.tokenize(text);
+    const tally = this.calculateEmotionTally(tokenized, this.getLexicon(language));
+    this.applySarcasm(tally, tokenized, language);
+
+    // Final mention scores, so the spread includes sarcasm
+    tally.mentions.forEach(mention => {
+      (Object.entries(mention.scores) as [keyof EmotionScores, number][]).forEach(([emotion, value]) => {
+        tally.squares[emotion] += value * value;
+      });
+    });
+    return tally;
+  }
 
-    this.intensifierWords = intensifiers;
+  // Phrase, sentence and mention spans are segment-local and left to the caller to collect
+  mergeTallies(target: EmotionTally, source: EmotionTally, sign: 1 | -1 = 1): void {
+    (Object.keys(target.sums) as (keyof EmotionScores)[]).forEach(emotion => {
+      target.sums[emotion] += source.sums[emotion] * sign;
+    });
+    target.emotionalWords += source.emotionalWords * sign;
+    target.sarcasm += source.sarcasm * sign;
+    target.totalWords += source.totalWords * sign;
+    target.negatedWords += source.negatedWords * sign;
+    (Object.keys(target.squares) as (keyof EmotionScores)[]).forEach(emotion => {
+      target.squares[emotion] += source.squares[emotion] * sign;
+    });
   }
 
-  analyze(text: string, emojiInfluence: number = 0): SentimentAnalysis {
-    const words = this.tokenizeText(text);
-    const emotionScores = this.calculateEmotionScores(words);
+  // Emojis add to the evidence and coverage; their positions must share the
+  // tally's coordinates
+  analyzeTally(tally: EmotionTally, emojiInfluence: number = 0, emojis: EmojiData[] = []): SentimentAnalysis {
+    const emotionScores = this.normalizeTally(tally);
     
     // Apply emoji influence if present
     if (emojiInfluence > 0) {
       this.applyEmojiInfluence(emotionScores, emojiInfluence);
     }
 
+    const sarcasmProbability = tally.emotionalWords > 0 ? Math.min(1, tally.sarcasm / tally.emotionalWords) : 0;
     const dominant = this.findDominantEmotion(emotionScores);
+    const confidence = this.calculateConfidence(tally, emotionScores, dominant, emojis.length, sarcasmProbability);
+    dominant.confidence = this.combineConfidence(confidence);
     const { valence, arousal } = this.calculateDimensions(emotionScores);
     const intensity = this.calculateIntensity(emotionScores, dominant);
 
@@ -137,71 +235,403 @@ export class SentimentAnalyzer {
       dominant,
       intensity,
       valence,
-      arousal
+      arousal,
+      phrases: tally.phrases,
+      dyads: this.calculateDyads(emotionScores),
+      timeline: this.buildTimeline(tally.sentences),
+      sarcasmProbability,
+      confidence,
+      evidence: this.collectEvidence(tally.mentions, emojis)
+    };
+  }
+
+  // The same analysis with scores from another sentiment backend: what
+  // derives from the scores is recomputed, what derives from the tally is
+  // kept, and the interval keeps the lexicon's margin
+  withScores(analysis: SentimentAnalysis, scores: EmotionScores): SentimentAnalysis {
+    const dominant = this.findDominantEmotion(scores);
+    const [low, high] = analysis.confidence.interval;
+    const margin = (high - low) / 2;
+    const confidence: SentimentConfidence = {
+      ...analysis.confidence,
+      separation: dominant.confidence,
+      agreement: this.calculateAgreement(scores, dominant),
+      interval: [Math.max(0, dominant.score - margin), Math.min(1, dominant.score + margin)]
+    };
+    dominant.confidence = this.combineConfidence(confidence);
+
+    return {
+      ...analysis,
+      scores,
+      dominant,
+      intensity: this.calculateIntensity(scores, dominant),
+      ...this.calculateDimensions(scores),
+      dyads: this.calculateDyads(scores),
+      confidence
+    };
+  }
+
+  // Valence-shifter model:
+  // - negation covers the rest of its clause; a second negator in the same
+  //   clause does not flip it back ("no estoy nada feliz", "ne ... pas")
+  // - adjacent intensifiers stack; their effect decays with distance
+  // - "X but Y" weakens X and strengthens Y; a sentence-initial "However"
+  //   weakens the previous sentence of the same paragraph
+  // - "although X, Y" weakens X
+  // - "not only X but also Y" keeps both at full weight
+  // Multi-word entries are matched greedily, longest first, and count as
+  // a single emotional word.
+  private calculateEmotionTally(tokenized: TokenizedText, lexicon: SentimentLexicon): EmotionTally {
+    const { text, tokens, sentences } = tokenized;
+    const hits: EmotionHit[] = [];
+    const phrases: EmotionPhraseMatch[] = [];
+
+    let clause = 0;
+    let negated = false;
+    let intensifier: { factor: number; distance: number } | null = null;
+    let emphasis = 1;              // Weight after an adversative, for the rest of the sentence
+    let concessiveClause = -1;     // Clause opened by a concessive marker
+    let additive: string[] | null = null; // Second half of a pending "not only ... but also"
+
+    const startClause = () => {
+      clause++;
+      negated = false;
+      intensifier = null;
+    };
+
+    // Apply the valence shifters in effect to a lexicon hit
+    const score = (entry: LexiconEntry, token: Token, last: Token = token) => {
+      const modifiers: SentimentModifier[] = [];
+      if (intensifier) {
+        const factor = 1 + (intensifier.factor - 1) * Math.pow(SentimentAnalyzer.INTENSIFIER_DECAY, intensifier.distance);
+        modifiers.push({ kind: 'intensifier', factor });
+        intensifier = null;
+      }
+      if (negated) {
+        modifiers.push({ kind: 'negation', factor: SentimentAnalyzer.NEGATION_FACTOR });
+      }
+      if (emphasis !== 1) {
+        modifiers.push({ kind: 'emphasis', factor: emphasis });
+      }
+      if (clause === concessiveClause) {
+        modifiers.push({ kind: 'concession', factor: SentimentAnalyzer.CONCESSIVE_CLAUSE });
+      }
+
+      hits.push({
+        emotions: entry.emotions,
+        weight: modifiers.reduce((weight, modifier) => weight * modifier.factor, 1),
+        modifiers,
+        phrase: last !== token,
+        sentence: token.sentence,
+        paragraph: token.paragraph,
+        start: token.start,
+        end: last.end
+      });
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const previous = tokens[i - 1];
+
+      if (previous && previous.sentence !== token.sentence) {
+        startClause();
+        emphasis = 1;
+        additive = null;
+      } else if (previous && CLAUSE_BREAK.test(text.slice(previous.end, token.start))) {
+        startClause();
+      }
+
+      // "not only" is not a negation, and its "but (also)" is not a contrast
+      const pair = lexicon.additivePairs.find(([first]) => this.matchPhrase(tokens, i, first));
+      if (pair) {
+        additive = pair[1];
+        i += pair[0].length - 1;
+        continue;
+      }
+      if (additive && this.matchPhrase(tokens, i, additive.slice(0, 1))) {
+        i += this.matchPhrase(tokens, i, additive) ? additive.length - 1 : 0;
+        additive = null;
+        startClause();
+        continue;
+      }
+
+      const adversative = lexicon.adversatives.find(phrase => this.matchPhrase(tokens, i, phrase));
+      if (adversative) {
+        // At the start of a sentence the contrast is with the previous sentence
+        const target = i === sentences[token.sentence]?.tokenStart ? token.sentence - 1 : token.sentence;
+        hits.forEach(hit => {
+          if (hit.sentence === target && hit.paragraph === token.paragraph) {
+            hit.weight *= SentimentAnalyzer.BEFORE_CONTRAST;
+            hit.modifiers.push({ kind: 'contrast', factor: SentimentAnalyzer.BEFORE_CONTRAST });
+          }
+        });
+        emphasis = SentimentAnalyzer.AFTER_CONTRAST;
+        i += adversative.length - 1;
+        startClause();
+        continue;
+      }
+
+      const concessive = lexicon.concessives.find(phrase => this.matchPhrase(tokens, i, phrase));
+      if (concessive) {
+        i += concessive.length - 1;
+        startClause();
+        concessiveClause = clause;
+        continue;
+      }
+
+      // Idioms win over their parts ("fed up" is not "fed")
+      const phrase = lexicon.emotionPhrases.find(candidate => this.matchPhrase(tokens, i, candidate.words));
+      if (phrase) {
+        const last = tokens[i + phrase.words.length - 1];
+        // Reported under its strongest emotion
+        const [emotion] = phrase.emotions.reduce((strongest, pair) => pair[1] > strongest[1] ? pair : strongest);
+        phrases.push({ phrase: phrase.words.join(' '), emotion, start: token.start, end: last.end });
+        i += phrase.words.length - 1;
+        score(phrase, token, last);
+        continue;
+      }
+
+      const { word, prefix } = splitClitics(token.normalized, lexicon.pack);
+
+      // An elided negation ("n'aime") negates the rest of the token
+      if (prefix && lexicon.negations.has(prefix)) {
+        negated = true;
+      }
+
+      // Check for negation (contractions like "don't" are single tokens)
+      if (lexicon.negations.has(word) || lexicon.pack.negationSuffixes.some(suffix => word.endsWith(suffix))) {
+        negated = true;
+        continue;
+      }
+
+      // Adjacent intensifiers stack ("really very happy")
+      const multiplier = lexicon.intensifiers.get(word);
+      if (multiplier !== undefined) {
+        const stacked: number = intensifier && intensifier.distance === 0 ? intensifier.factor * multiplier : multiplier;
+        const [min, max] = SentimentAnalyzer.INTENSIFIER_RANGE;
+        intensifier = { factor: Math.max(min, Math.min(max, stacked)), distance: 0 };
+        continue;
+      }
+
+      const emotionData = lexicon.emotions.get(word);
+      if (!emotionData) {
+        if (intensifier) {
+          intensifier.distance++;
+          if (intensifier.distance > SentimentAnalyzer.INTENSIFIER_REACH) {
+            intensifier = null;
+          }
+        }
+        continue;
+      }
+
+      score(emotionData, token);
+    }
+
+    const scores = this.emptyScores();
+    const mentions: EmotionMention[] = [];
+    const sentenceTallies: SentenceTally[] = sentences.map(sentence => ({
+      paragraph: sentence.paragraph,
+      start: sentence.start,
+      end: sentence.end,
+      sums: this.emptyScores(),
+      emotionalWords: 0
+    }));
+    hits.forEach(hit => {
+      const sentence = sentenceTallies[hit.sentence];
+      const mention: EmotionMention = {
+        kind: hit.phrase ? 'phrase' : 'word',
+        text: text.slice(hit.start, hit.end),
+        start: hit.start,
+        end: hit.end,
+        scores: {},
+        modifiers: hit.modifiers
+      };
+      sentence.emotionalWords++;
+      hit.emotions.forEach(([emotion, intensity]) => {
+        scores[emotion] += intensity * hit.weight;
+        sentence.sums[emotion] += intensity * hit.weight;
+        mention.scores[emotion] = intensity * hit.weight;
+      });
+      mentions.push(mention);
+    });
+
+    return {
+      sums: scores,
+      emotionalWords: hits.length,
+      phrases,
+      sentences: sentenceTallies,
+      mentions,
+      sarcasm: 0,
+      totalWords: tokens.length,
+      negatedWords: hits.filter(hit => hit.modifiers.some(modifier => modifier.kind === 'negation')).length,
+      squares: this.emptyScores()
     };
   }
 
-  private tokenizeText(text: string): string[] {
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter(word => word.length > 0);
+  // Score every sentence for sarcasm; in likely sarcastic ones the positive
+  // emotions of each mention move to disgust in proportion to the probability
+  private applySarcasm(tally: EmotionTally, tokenized: TokenizedText, language: LanguageCode): void {
+    const { text, tokens, sentences } = tokenized;
+    const { SARCASM_THRESHOLD, SARCASM_FLIPS, SARCASM_TARGET } = SentimentAnalyzer;
+    const emojis = this.extractEmojiData(text);
+
+    // Mentions and emojis are in text order; walk them alongside the sentences.
+    // Emoji before the first word of a sentence react to the previous one.
+    let nextMention = 0;
+    let nextEmoji = 0;
+    sentences.forEach((sentence, index) => {
+      const start = sentence.start;
+      const next = sentences[index + 1];
+      const end = next ? tokens[next.tokenStart].start : text.length;
+
+      const mentions: EmotionMention[] = [];
+      while (nextMention < tally.mentions.length && tally.mentions[nextMention].start < end) {
+        mentions.push(tally.mentions[nextMention++]);
+      }
+      const sentenceEmojis: EmojiData[] = [];
+      while (nextEmoji < emojis.length && emojis[nextEmoji].position < end) {
+        sentenceEmojis.push(emojis[nextEmoji++]);
+      }
+
+      const context: SarcasmContext = {
+        text: text.slice(start, end),
+        words: tokens.slice(sentence.tokenStart, sentence.tokenEnd).map(token => token.normalized),
+        positive: 0,
+        negative: 0,
+        positiveSpans: [],
+        emojis: sentenceEmojis.map(emoji => emoji.emoji),
+        negativeEmojis: sentenceEmojis.filter(emoji => this.getEmotionPolarity(emoji.emotion) < 0).length
+      };
+      mentions.forEach(mention => {
+        const polarity = (Object.entries(mention.scores) as [keyof EmotionScores, number][])
+          .reduce((sum, [emotion, value]) => sum + this.getEmotionPolarity(emotion) * value, 0);
+        if (polarity > 0) {
+          context.positive += polarity;
+          context.positiveSpans.push([mention.start - start, mention.end - start]);
+        } else {
+          context.negative -= polarity;
+        }
+      });
+
+      const probability = this.sarcasmDetector.score(context, language);
+      tally.sarcasm += probability * mentions.length;
+      if (probability < SARCASM_THRESHOLD) return;
+
+      const sentenceTally = tally.sentences[index];
+      mentions.forEach(mention => {
+        mention.modifiers.push({ kind: 'sarcasm', factor: probability });
+        SARCASM_FLIPS.forEach(emotion => {
+          const value = mention.scores[emotion];
+          if (value === undefined || value <= 0) return;
+
+          const moved = value * probability;
+          mention.scores[emotion] = value - moved;
+          mention.scores[SARCASM_TARGET] = (mention.scores[SARCASM_TARGET] ?? 0) + moved;
+          [tally.sums, sentenceTally.sums].forEach(sums => {
+            sums[emotion] -= moved;
+            sums[SARCASM_TARGET] += moved;
+          });
+        });
+      });
+    });
   }
 
-  private calculateEmotionScores(words: string[]): EmotionScores {
-    const scores: EmotionScores = {
+  private emptyScores(): EmotionScores {
+    return {
       joy: 0,
       sadness: 0,
       anger: 0,
       fear: 0,
       surprise: 0,
-      anticipation: 0
+      anticipation: 0,
+      trust: 0,
+      disgust: 0
     };
+  }
 
-    let totalEmotionalWords = 0;
-    let negationActive = false;
-    let currentIntensifier = 1.0;
+  // Whether the normalized tokens starting at `start` spell out `phrase`;
+  // a phrase word ending in an apostrophe matches an elided token ("qu'il")
+  private matchPhrase(tokens: Token[], start: number, phrase: string[]): boolean {
+    if (start + phrase.length > tokens.length) return false;
 
-    for (let i = 0; i < words.length; i++) {
-      const word = words[i];
+    return phrase.every((word, offset) => {
+      const normalized = tokens[start + offset].normalized;
+      return normalized === word || (word.endsWith("'") && normalized.startsWith(word));
+    });
+  }
 
-      // Check for negation
-      if (this.negationWords.has(word)) {
-        negationActive = true;
-        continue;
+  // Sentences and paragraphs are scored like small documents; emoji
+  // influence only applies to the document as a whole
+  private buildTimeline(sentences: SentenceTally[]): EmotionTimeline {
+    const paragraphs: SentenceTally[] = [];
+    sentences.forEach(sentence => {
+      const current = paragraphs[paragraphs.length - 1];
+      if (current && current.paragraph === sentence.paragraph) {
+        current.end = sentence.end;
+        current.emotionalWords += sentence.emotionalWords;
+        (Object.keys(current.sums) as (keyof EmotionScores)[]).forEach(emotion => {
+          current.sums[emotion] += sentence.sums[emotion];
+        });
+      } else {
+        paragraphs.push({ ...sentence, sums: { ...sentence.sums } });
       }
+    });
 
-      // Check for intensifiers
-      if (this.intensifierWords.has(word)) {
-        currentIntensifier = this.intensifierWords.get(word) || 1.0;
-        continue;
+    const sentencePoints = this.timelinePoints(sentences.map((sentence, index) => ({ ...sentence, index })));
+    const paragraphPoints = this.timelinePoints(paragraphs.map(paragraph => ({ ...paragraph, index: paragraph.paragraph })));
+
+    // Neutral sentences sit between the two sides of a turn without causing one
+    const turningPoints: EmotionTurningPoint[] = [];
+    let previous: EmotionTimelinePoint | null = null;
+    sentencePoints.forEach(point => {
+      if (Math.abs(point.valence) < SentimentAnalyzer.NEUTRAL_VALENCE) return;
+      if (previous && Math.sign(point.valence) !== Math.sign(previous.valence)) {
+        turningPoints.push({
+          sentence: point.index,
+          position: point.start,
+          direction: point.valence > 0 ? 'rise' : 'fall',
+          from: previous.valence,
+          to: point.valence
+        });
       }
+      previous = point;
+    });
 
-      // Check for emotional content
-      const emotionData = this.emotionLexicon.get(word);
-      if (emotionData) {
-        let intensity = emotionData.intensity * currentIntensifier;
-        
-        // Apply negation by inverting the emotion
-        if (negationActive) {
-          intensity *= -0.5; // Reduce and invert
-          negationActive = false;
-        }
+    return { sentences: sentencePoints, paragraphs: paragraphPoints, turningPoints };
+  }
 
-        scores[emotionData.emotion] += intensity;
-        totalEmotionalWords++;
-      }
+  private timelinePoints(spans: (SentenceTally & { index: number })[]): EmotionTimelinePoint[] {
+    const points = spans.map(span => {
+      const scores = this.normalizeTally(span);
+      return {
+        index: span.index,
+        start: span.start,
+        end: span.end,
+        scores,
+        dominant: this.findDominantEmotion(scores),
+        ...this.calculateDimensions(scores),
+        arc: 0
+      };
+    });
 
-      // Reset intensifier after processing word
-      currentIntensifier = 1.0;
-    }
+    // Centered moving average of the valence
+    const radius = SentimentAnalyzer.ARC_RADIUS;
+    points.forEach((point, i) => {
+      const window = points.slice(Math.max(0, i - radius), i + radius + 1);
+      point.arc = window.reduce((sum, neighbour) => sum + neighbour.valence, 0) / window.length;
+    });
+
+    return points;
+  }
+
+  private normalizeTally(tally: Pick<EmotionTally, 'sums' | 'emotionalWords'>): EmotionScores {
+    const scores: EmotionScores = { ...tally.sums };
 
     // Normalize scores
-    if (totalEmotionalWords > 0) {
+    if (tally.emotionalWords > 0) {
       Object.keys(scores).forEach(emotion => {
         scores[emotion as keyof EmotionScores] = Math.max(0, 
-          scores[emotion as keyof EmotionScores] / totalEmotionalWords
+          scores[emotion as keyof EmotionScores] / tally.emotionalWords
         );
       });
     }
@@ -221,6 +651,74 @@ export class SentimentAnalyzer {
     }
   }
 
+  // How far the dominant emotion can be trusted: the score gap alone says
+  // nothing about how much evidence there was, or how consistent it was
+  private calculateConfidence(
+    tally: EmotionTally,
+    scores: EmotionScores,
+    dominant: DominantEmotion,
+    emojiCount: number,
+    sarcasmProbability: number
+  ): SentimentConfidence {
+    const evidence = tally.emotionalWords + emojiCount;
+    const expected = tally.totalWords * SentimentAnalyzer.EXPECTED_DENSITY;
+    const coverage = evidence === 0 ? 0 : Math.min(1, evidence / Math.max(expected, 1));
+
+    const negatedShare = tally.emotionalWords > 0 ? tally.negatedWords / tally.emotionalWords : 0;
+
+    return {
+      separation: dominant.confidence,
+      coverage,
+      agreement: this.calculateAgreement(scores, dominant),
+      negation: 1 - SentimentAnalyzer.NEGATION_DOUBT * negatedShare,
+      sarcasm: 1 - sarcasmProbability,
+      interval: this.calculateInterval(tally, dominant)
+    };
+  }
+
+  // Mass on the dominant emotion's side of the valence axis
+  private calculateAgreement(scores: EmotionScores, dominant: DominantEmotion): number {
+    const side = Math.sign(this.getEmotionPolarity(dominant.emotion));
+    let agreeing = 0;
+    let total = 0;
+    (Object.entries(scores) as [keyof EmotionScores, number][]).forEach(([emotion, score]) => {
+      total += score;
+      if (Math.sign(this.getEmotionPolarity(emotion)) === side) agreeing += score;
+    });
+    return total > 0 ? agreeing / total : 0;
+  }
+
+  private combineConfidence(confidence: SentimentConfidence): number {
+    return confidence.separation * confidence.coverage * confidence.agreement * confidence.negation * confidence.sarcasm;
+  }
+
+  // Normal interval from the spread of the dominant emotion over the
+  // emotional words; a single word says nothing about the spread
+  private calculateInterval(tally: EmotionTally, dominant: DominantEmotion): [number, number] {
+    const n = tally.emotionalWords;
+    if (n < 2) return [0, 1];
+
+    const mean = tally.sums[dominant.emotion] / n;
+    const variance = Math.max(0, (tally.squares[dominant.emotion] - n * mean * mean) / (n - 1));
+    const margin = SentimentAnalyzer.INTERVAL_Z * Math.sqrt(variance / n);
+
+    return [Math.max(0, dominant.score - margin), Math.min(1, dominant.score + margin)];
+  }
+
+  // Lexicon mentions and emoji, in text order
+  private collectEvidence(mentions: EmotionMention[], emojis: EmojiData[]): EmotionMention[] {
+    const evidence: EmotionMention[] = emojis.map(emoji => ({
+      kind: 'emoji',
+      text: emoji.emoji,
+      start: emoji.position,
+      end: emoji.position + emoji.emoji.length,
+      scores: { [emoji.emotion]: emoji.intensity },
+      modifiers: []
+    }));
+
+    return [...mentions, ...evidence].sort((a, b) => a.start - b.start);
+  }
+
   findDominantEmotion(scores: EmotionScores): DominantEmotion {
     let maxScore = 0;
     let dominantEmotion: keyof EmotionScores = 'joy';
@@ -246,13 +744,13 @@ export class SentimentAnalyzer {
 
   private calculateDimensions(scores: EmotionScores): { valence: number; arousal: number } {
     // Valence: how positive/negative (-1 to +1)
-    const positive = scores.joy + scores.anticipation + scores.surprise * 0.5;
-    const negative = scores.sadness + scores.anger + scores.fear;
+    const positive = scores.joy + scores.trust + scores.anticipation + scores.surprise * 0.5;
+    const negative = scores.sadness + scores.anger + scores.fear + scores.disgust;
     const valence = (positive - negative) / Math.max(positive + negative, 1);
 
     // Arousal: how activated/calm (0 to 1)
-    const highArousal = scores.anger + scores.fear + scores.surprise + scores.joy * 0.7;
-    const lowArousal = scores.sadness + scores.anticipation * 0.3;
+    const highArousal = scores.anger + scores.fear + scores.surprise + scores.joy * 0.7 + scores.disgust * 0.5;
+    const lowArousal = scores.sadness + scores.anticipation * 0.3 + scores.trust * 0.5;
     const arousal = highArousal / Math.max(highArousal + lowArousal, 1);
 
     return {
@@ -261,6 +759,16 @@ export class SentimentAnalyzer {
     };
   }
 
+  // A blend is only as strong as the weaker of its two emotions
+  private calculateDyads(scores: EmotionScores): DyadScores {
+    const dyads = {} as DyadScores;
+    (Object.keys(SentimentAnalyzer.DYADS) as (keyof DyadScores)[]).forEach(dyad => {
+      const [first, second] = SentimentAnalyzer.DYADS[dyad];
+      dyads[dyad] = Math.min(scores[first], scores[second]);
+    });
+    return dyads;
+  }
+
   private calculateIntensity(scores: EmotionScores, dominant: DominantEmotion): number {
     // Calculate overall emotional intensity
     const totalEmotionalContent = Object.values(scores).reduce((sum, score) => sum + score, 0);
@@ -269,44 +777,26 @@ export class SentimentAnalyzer {
     return Math.min(1, (totalEmotionalContent + dominantWeight) / 3);
   }
 
-  // Extract and analyze emoji emotions
+  // Emoji graphemes and ASCII emoticons with their emotions, in text order.
+  // Emoji with no emotional reading are left out.
   extractEmojiData(text: string): EmojiData[] {
-    const emojiRegex = /[\u{1F600}-\u{1F64F}]|[\u{1F300}-\u{1F5FF}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]/gu;
     const emojis: EmojiData[] = [];
-    let match;
-
-    while ((match = emojiRegex.exec(text)) !== null) {
-      const emoji = match[0];
-      const position = match.index;
-      const emotionData = this.getEmojiEmotion(emoji);
-      
-      emojis.push({
-        emoji,
-        position,
-        emotion: emotionData.emotion,
-        intensity: emotionData.intensity
-      });
-    }
 
-    return emojis;
-  }
+    this.tokenizer.graphemes(text, /\p{Extended_Pictographic}|\p{RI}/u).forEach(grapheme => {
+      const reading = lookupEmoji(grapheme.text);
+      if (reading) {
+        emojis.push({ emoji: grapheme.text, position: grapheme.start, ...reading });
+      }
+    });
 
-  private getEmojiEmotion(emoji: string): { emotion: keyof EmotionScores; intensity: number } {
-    // Basic emoji emotion mapping
-    const joyEmojis = ['😊', '😄', '😃', '😀', '🙂', '😌', '😍', '🥰', '😘', '😆', '😂', '🤣', '😇'];
-    const sadnessEmojis = ['😢', '😭', '😞', '😔', '😟', '🙁', '☹️', '😕', '😿', '💔'];
-    const angerEmojis = ['😠', '😡', '🤬', '😤', '👿', '💢'];
-    const fearEmojis = ['😨', '😱', '😰', '😧', '😦', '😮', '😯', '🫨'];
-    const surpriseEmojis = ['😲', '😳', '🤯', '😵', '🫢'];
-
-    if (joyEmojis.includes(emoji)) return { emotion: 'joy', intensity: 0.8 };
-    if (sadnessEmojis.includes(emoji)) return { emotion: 'sadness', intensity: 0.8 };
-    if (angerEmojis.includes(emoji)) return { emotion: 'anger', intensity: 0.9 };
-    if (fearEmojis.includes(emoji)) return { emotion: 'fear', intensity: 0.7 };
-    if (surpriseEmojis.includes(emoji)) return { emotion: 'surprise', intensity: 0.6 };
-    
-    // Default to mild anticipation for unknown emojis
-    return { emotion: 'anticipation', intensity: 0.3 };
+    for (const match of text.matchAll(EMOTICON_PATTERN)) {
+      const reading = lookupEmoticon(match[0]);
+      if (reading) {
+        emojis.push({ emoji: match[0], position: match.index ?? 0, ...reading });
+      }
+    }
+
+    return emojis.sort((a, b) => a.position - b.position);
   }
 
   // Calculate overall emoji influence on sentiment
@@ -332,6 +822,8 @@ export class SentimentAnalyzer {
       case 'sadness': return -0.8;
       case 'anger': return -0.9;
       case 'fear': return -0.7;
+      case 'trust': return 0.6;
+      case 'disgust': return -0.8;
       default: return 0;
     }
   }
@@ -0,0 +1,57 @@
+import type { EmotionScores, NeuralEchoError, SentimentBackend, SentimentBackendInput } from '../types';
+
+/**
+ * SentimentBackends - The lexicon scorer and the ensemble of several backends
+ * The model backend lives in TfjsSentimentBackend so that TensorFlow.js is
+ * only loaded by callers that ask for it.
+ */
+
+export function createBackendError(message: string, component: string): NeuralEchoError {
+  const error = new Error(message) as NeuralEchoError;
+  error.code = 'SENTIMENT_BACKEND_INVALID';
+  error.component = component;
+  error.recoverable = true; // The lexicon backend still works
+  return error;
+}
+
+// The built-in lexicon scores, as computed by SentimentAnalyzer
+export class LexiconSentimentBackend implements SentimentBackend {
+  readonly name = 'lexicon';
+
+  async score(input: SentimentBackendInput): Promise<EmotionScores> {
+    return { ...input.lexicon.scores };
+  }
+}
+
+export interface EnsembleMember {
+  backend: SentimentBackend;
+  weight: number;
+}
+
+// Weighted mean of the members' scores, emotion by emotion
+export class EnsembleSentimentBackend implements SentimentBackend {
+  readonly name: string;
+  private members: EnsembleMember[];
+
+  constructor(members: EnsembleMember[]) {
+    if (members.length === 0 || members.some(member => !(member.weight >= 0))) {
+      throw createBackendError('An ensemble needs at least one member, and weights must not be negative', 'EnsembleSentimentBackend');
+    }
+    this.members = members;
+    this.name = `ensemble(${members.map(member => `${member.backend.name}*${member.weight}`).join(',')})`;
+  }
+
+  async score(input: SentimentBackendInput): Promise<EmotionScores> {
+    const results = await Promise.all(this.members.map(member => member.backend.score(input)));
+    const totalWeight = this.members.reduce((sum, member) => sum + member.weight, 0);
+    const blended = { ...input.lexicon.scores };
+
+    (Object.keys(blended) as (keyof EmotionScores)[]).forEach(emotion => {
+      blended[emotion] = totalWeight > 0
+        ? results.reduce((sum, scores, i) => sum + scores[emotion] * this.members[i].weight, 0) / totalWeight
+        : 0;
+    });
+
+    return blended;
+  }
+}
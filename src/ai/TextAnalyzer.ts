@@ -1,83 +1,126 @@
 import { SentimentAnalyzer } from './SentimentAnalyzer';
 import { ConceptExtractor } from './ConceptExtractor';
 import { ComplexityAnalyzer } from './ComplexityAnalyzer';
+import { EmotionAttributor } from './EmotionAttributor';
+import { IncrementalAnalyzer } from './IncrementalAnalyzer';
+import { Tokenizer } from './Tokenizer';
+import { LanguageDetector } from './LanguageDetector';
+import { AnalysisCache } from './AnalysisCache';
+import { LEXICON_VERSION } from './languages';
+import type { AnalyzerRegistry } from './AnalyzerRegistry';
+import { createAnalyzerRegistry } from './AnalyzerPlugins';
+import { AnalysisDebouncer, isAnalysisAbortError, throwIfAborted } from './AnalysisCancellation';
 import type {
+  AIConfig,
   AnalysisResult,
+  AnalyzeOptions,
+  AnalysisSnapshot,
+  AnalysisCacheStats,
+  AnalyzerPlugin,
+  StreamOptions,
   SentimentAnalysis,
   Concept,
   ComplexityAnalysis,
+  EmojiData,
+  EmotionLexiconDocument,
+  EmotionTally,
+  LanguageCode,
+  LanguageDetection,
   ScalingStrategy,
-  ScalingType
+  SentimentBackend,
+  ScalingType,
+  WordEmbeddings
 } from '../types';
 import { SCALING_THRESHOLDS } from '../types';
 
+interface AnalysisStages {
+  text: string;
+  language: LanguageDetection;
+  words: string[];
+  emojiData: EmojiData[];
+  sentiment: SentimentAnalysis;
+  concepts: Concept[];
+  complexity: ComplexityAnalysis;
+}
+
+// Bump when analysis output changes for the same input; cached analyses are keyed to it
+export const ANALYZER_VERSION = 16;
+
 export class TextAnalyzer {
+  private tokenizer: Tokenizer;
+  private languageDetector: LanguageDetector;
   private sentimentAnalyzer: SentimentAnalyzer;
   private conceptExtractor: ConceptExtractor;
   private complexityAnalyzer: ComplexityAnalyzer;
-  private analysisCache = new Map<string, AnalysisResult>();
-  private debounceTimeout: number | null = null;
+  private emotionAttributor: EmotionAttributor;
+  private incrementalAnalyzer: IncrementalAnalyzer;
+  private analyzerRegistry: AnalyzerRegistry;
+  private analysisCache: AnalysisCache;
+  private sentimentBackend: SentimentBackend | null = null; // null: the lexicon scores as they are
+  private debouncer = new AnalysisDebouncer('TextAnalyzer');
+
+  constructor(
+    analyzerRegistry: AnalyzerRegistry = createAnalyzerRegistry(),
+    analysisCache: AnalysisCache = new AnalysisCache(),
+    config: Partial<AIConfig> = {}
+  ) {
+    this.analyzerRegistry = analyzerRegistry;
+    this.analysisCache = analysisCache;
+    // One tokenizer for every stage, so word counts and offsets agree
+    this.tokenizer = new Tokenizer();
+    this.languageDetector = new LanguageDetector();
+    this.sentimentAnalyzer = new SentimentAnalyzer(this.tokenizer);
+    this.conceptExtractor = new ConceptExtractor(this.tokenizer);
+    this.complexityAnalyzer = new ComplexityAnalyzer(this.tokenizer);
+    this.emotionAttributor = new EmotionAttributor(this.conceptExtractor, this.tokenizer);
+    this.incrementalAnalyzer = new IncrementalAnalyzer(
+      this.sentimentAnalyzer,
+      this.conceptExtractor,
+      this.complexityAnalyzer,
+      this.emotionAttributor,
+      this.tokenizer
+    );
+    this.configure(config);
+  }
 
-  constructor() {
-    this.sentimentAnalyzer = new SentimentAnalyzer();
-    this.conceptExtractor = new ConceptExtractor();
-    this.complexityAnalyzer = new ComplexityAnalyzer();
+  // Apply the analysis settings of AIConfig; settings left out keep their
+  // current values. Part of the cache version.
+  configure(config: Partial<AIConfig>): void {
+    if (config.conceptExtractionThreshold !== undefined) {
+      this.conceptExtractor.setExtractionThreshold(config.conceptExtractionThreshold);
+    }
+    this.analysisCache.setVersion(this.cacheVersion());
   }
 
-  async analyze(text: string, useCache = true): Promise<AnalysisResult> {
-    const textHash = this.hashText(text);
-    
+  async analyze(text: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+    const { useCache = true, signal } = options;
+    throwIfAborted(signal, 'TextAnalyzer');
+
     // Check cache first
-    if (useCache && this.analysisCache.has(textHash)) {
-      console.log('📋 Using cached analysis result');
-      return this.analysisCache.get(textHash)!;
+    const cacheKey = useCache ? await this.analysisCache.createKey(text, options.language, options.incremental) : null;
+    if (cacheKey) {
+      const cached = await this.analysisCache.get(cacheKey);
+      if (cached) {
+        console.log('📋 Using cached analysis result');
+        return this.applyStrategyOverride(cached, options.strategy);
+      }
     }
 
     console.log('🧠 Starting comprehensive text analysis...');
     const startTime = Date.now();
 
     try {
-      // Parallel analysis of different components
-      const [
-        words,
-        emojiData,
-        sentiment,
-        concepts,
-        complexity
-      ] = await Promise.all([
-        Promise.resolve(this.tokenizeText(text)),
-        Promise.resolve(this.sentimentAnalyzer.extractEmojiData(text)),
-        Promise.resolve(this.analyzeSentiment(text)),
-        Promise.resolve(this.extractConcepts(text)),
-        Promise.resolve(this.analyzeComplexity(text))
-      ]);
-
-      // Build semantic graph from concepts
-      const semanticGraph = this.conceptExtractor.buildSemanticGraph(concepts);
-      
-      // Calculate emoji influence
-      const emojiInfluence = this.sentimentAnalyzer.calculateEmojiInfluence(emojiData);
-      
-      // Determine scaling strategy based on word count and complexity
-      const scalingStrategy = this.determineScalingStrategy(words.length, complexity, sentiment);
-      
-      // Create final analysis result
-      const result: AnalysisResult = {
-        words,
-        sentiment,
-        concepts,
-        semanticGraph,
-        complexity,
-        scalingStrategy,
-        emojis: emojiData,
-        emojiInfluence,
-        timestamp: Date.now()
-      };
+      const language = await this.runStage(() => this.detectLanguage(text, options.language), signal);
+      const stages = await this.applySentimentBackend(options.incremental
+        ? await this.runIncrementalStages(text, language, signal)
+        : await this.runStages(text, language, signal));
+      throwIfAborted(signal, 'TextAnalyzer');
+      const result = this.assembleResult(stages);
+      const { words, sentiment, concepts, complexity, scalingStrategy } = result;
 
       // Cache the result
-      if (useCache) {
-        this.analysisCache.set(textHash, result);
-        this.cleanupCache(); // Remove old entries
+      if (cacheKey) {
+        await this.analysisCache.set(cacheKey, result);
       }
 
       const processingTime = Date.now() - startTime;
@@ -85,71 +128,269 @@ export class TextAnalyzer {
       console.log(`📊 Analysis summary:`, {
         wordCount: words.length,
         conceptCount: concepts.length,
+        language: result.language.language,
         dominantEmotion: sentiment.dominant.emotion,
         complexity: complexity.overallComplexity.toFixed(2),
         scalingStrategy: scalingStrategy.type
       });
 
-      return result;
+      return this.applyStrategyOverride(result, options.strategy);
 
     } catch (error) {
+      if (isAnalysisAbortError(error)) {
+        console.log('🛑 Text analysis aborted');
+        throw error;
+      }
+
       console.error('💥 Text analysis failed:', error);
       throw new Error(`Text analysis failed: ${error}`);
     }
   }
 
-  // Debounced analysis for real-time text input
-  async analyzeDebounced(text: string, delay = 500): Promise<Promise<AnalysisResult>> {
-    return new Promise((resolve, reject) => {
-      // Clear existing timeout
-      if (this.debounceTimeout) {
-        window.clearTimeout(this.debounceTimeout);
-      }
+  // Streaming analysis for long texts: yields a growing result every few
+  // sentences so the first nodes can render before the whole text is done
+  async *analyzeStream(text: string, options: StreamOptions = {}): AsyncGenerator<AnalysisSnapshot> {
+    const { sentencesPerChunk = 20, signal } = options;
+    const language = this.detectLanguage(text, options.language);
+    const streamId = `stream_${this.hashText(text)}_${Date.now().toString(36)}`;
+
+    // A private accumulator keeps the typing session's incremental state intact
+    const accumulator = new IncrementalAnalyzer(
+      this.sentimentAnalyzer,
+      this.conceptExtractor,
+      this.complexityAnalyzer,
+      this.emotionAttributor,
+      this.tokenizer
+    );
+    const chunks = accumulator.chunkBySentences(text, Math.max(1, sentencesPerChunk));
+
+    console.log(`🌊 Streaming analysis over ${chunks.length} chunks`);
+
+    if (chunks.length === 0) {
+      const result = await this.analyze(text, { signal, language: options.language });
+      yield { streamId, sequence: 0, progress: 1, done: true, result };
+      return;
+    }
+
+    for (let i = 0; i < chunks.length; i++) {
+      const processed = chunks.slice(0, i + 1);
+
+      // Always yield between chunks so the caller can render the previous snapshot
+      await this.yieldToEventLoop();
+      throwIfAborted(signal, 'TextAnalyzer');
+
+      const snapshot = accumulator.updateSegments(processed, language.language);
+      const lastChunk = processed[processed.length - 1];
+      const processedText = text.slice(0, lastChunk.start + lastChunk.text.length);
+      const emojiInfluence = this.sentimentAnalyzer.calculateEmojiInfluence(snapshot.emojis);
+
+      const result = this.assembleResult(await this.applySentimentBackend({
+        text: processedText,
+        language,
+        words: snapshot.words,
+        emojiData: snapshot.emojis,
+        sentiment: this.sentimentAnalyzer.analyzeTally(snapshot.emotions, emojiInfluence, snapshot.emojis),
+        concepts: this.emotionAttributor.attribute(
+          this.conceptExtractor.extractFromStatistics(
+            snapshot.concepts,
+            processedText,
+            snapshot.positionsOf,
+            language.language
+          ),
+          snapshot.targets
+        ),
+        complexity: this.complexityAnalyzer.analyzeTally(snapshot.complexity, language.language)
+      }));
+      throwIfAborted(signal, 'TextAnalyzer');
+
+      // Chunks are tallied apart, so even the last snapshot is not cached as
+      // the text's full analysis
+      yield {
+        streamId,
+        sequence: i,
+        progress: processedText.length / text.length,
+        done: i === chunks.length - 1,
+        result
+      };
+    }
+  }
+
+  // Debounced analysis for real-time text input.
+  // A call superseded by a newer one rejects with an abort error.
+  async analyzeDebounced(text: string, delay = 500, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+    return this.debouncer.schedule(
+      delay,
+      signal => this.analyze(text, { ...options, signal }),
+      options.signal
+    );
+  }
 
-      // Set new timeout
-      this.debounceTimeout = window.setTimeout(async () => {
-        try {
-          const result = await this.analyze(text);
-          resolve(result);
-        } catch (error) {
-          reject(error);
-        }
-      }, delay);
+  // Cancel any pending or running debounced analysis
+  cancelPending(): void {
+    this.debouncer.cancel();
+  }
+
+  private assembleResult(stages: AnalysisStages): AnalysisResult {
+    const { language, words, emojiData, sentiment, concepts, complexity } = stages;
+
+    // Custom analyzer plugins see the core results
+    const extensions = this.analyzerRegistry.run({
+      text: stages.text,
+      words,
+      language: language.language,
+      sentiment,
+      concepts,
+      complexity
     });
+
+    // Build semantic graph from concepts
+    const semanticGraph = this.conceptExtractor.buildSemanticGraph(concepts);
+
+    // Rank the sentences by the concepts they share
+    const keySentences = this.conceptExtractor.rankSentences(stages.text, concepts, sentiment.timeline.sentences);
+    
+    // Calculate emoji influence
+    const emojiInfluence = this.sentimentAnalyzer.calculateEmojiInfluence(emojiData);
+    
+    // Determine scaling strategy based on word count and complexity
+    const scalingStrategy = this.determineScalingStrategy(words.length, complexity, sentiment);
+    
+    return {
+      words,
+      sentiment,
+      concepts,
+      semanticGraph,
+      keySentences,
+      complexity,
+      scalingStrategy,
+      emojis: emojiData,
+      emojiInfluence,
+      language,
+      extensions,
+      timestamp: Date.now()
+    };
+  }
+
+  private async runStages(
+    text: string,
+    language: LanguageDetection,
+    signal?: AbortSignal
+  ): Promise<AnalysisStages> {
+    const code = language.language;
+
+    // Run each stage in turn, giving an abort a chance to land in between
+    const words = await this.runStage(() => this.tokenizeText(text), signal);
+    const emojiData = await this.runStage(() => this.sentimentAnalyzer.extractEmojiData(text), signal);
+    const emotions = await this.runStage(() => this.sentimentAnalyzer.tally(text, code), signal);
+    const sentiment = await this.runStage(() => this.analyzeSentiment(emotions, emojiData), signal);
+    const concepts = await this.runStage(() => this.extractConcepts(text, code, emotions), signal);
+    const complexity = await this.runStage(() => this.analyzeComplexity(text, code), signal);
+
+    return { text, language, words, emojiData, sentiment, concepts, complexity };
+  }
+
+  private async runIncrementalStages(
+    text: string,
+    language: LanguageDetection,
+    signal?: AbortSignal
+  ): Promise<AnalysisStages> {
+    const code = language.language;
+
+    // Only paragraphs that changed since the previous call are re-tallied
+    const snapshot = await this.runStage(() => this.incrementalAnalyzer.update(text, code), signal);
+    const emojiInfluence = this.sentimentAnalyzer.calculateEmojiInfluence(snapshot.emojis);
+
+    return {
+      text,
+      language,
+      words: snapshot.words,
+      emojiData: snapshot.emojis,
+      sentiment: this.sentimentAnalyzer.analyzeTally(snapshot.emotions, emojiInfluence, snapshot.emojis),
+      concepts: this.emotionAttributor.attribute(
+        this.conceptExtractor.extractFromStatistics(snapshot.concepts, text, snapshot.positionsOf, code),
+        snapshot.targets
+      ),
+      complexity: this.complexityAnalyzer.analyzeTally(snapshot.complexity, code)
+    };
+  }
+
+  // A backend scores the whole text; the lexicon analysis keeps everything else
+  private async applySentimentBackend(stages: AnalysisStages): Promise<AnalysisStages> {
+    if (!this.sentimentBackend) return stages;
+
+    const scores = await this.sentimentBackend.score({
+      text: stages.text,
+      language: stages.language.language,
+      lexicon: stages.sentiment
+    });
+    return { ...stages, sentiment: this.sentimentAnalyzer.withScores(stages.sentiment, scores) };
+  }
+
+  private detectLanguage(text: string, forced?: LanguageCode): LanguageDetection {
+    return forced ? this.languageDetector.fixed(forced) : this.languageDetector.detect(text);
+  }
+
+  private async runStage<T>(stage: () => T, signal?: AbortSignal): Promise<T> {
+    if (signal) {
+      // Yield to the event loop so abort events can be delivered
+      await this.yieldToEventLoop();
+      throwIfAborted(signal, 'TextAnalyzer');
+    }
+    return stage();
+  }
+
+  private yieldToEventLoop(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
   }
 
   private tokenizeText(text: string): string[] {
-    return text
-      .trim()
-      .split(/\s+/)
-      .filter(word => word.length > 0);
+    return this.tokenizer.words(text);
   }
 
-  private analyzeSentiment(text: string): SentimentAnalysis {
-    const emojiData = this.sentimentAnalyzer.extractEmojiData(text);
+  private analyzeSentiment(emotions: EmotionTally, emojiData: EmojiData[]): SentimentAnalysis {
     const emojiInfluence = this.sentimentAnalyzer.calculateEmojiInfluence(emojiData);
     
-    return this.sentimentAnalyzer.analyze(text, emojiInfluence);
+    return this.sentimentAnalyzer.analyzeTally(emotions, emojiInfluence, emojiData);
   }
 
-  private extractConcepts(text: string): Concept[] {
-    return this.conceptExtractor.extract(text);
+  // Concepts carry the emotions attributed to them
+  private extractConcepts(text: string, language: LanguageCode, emotions: EmotionTally): Concept[] {
+    return this.emotionAttributor.attribute(
+      this.conceptExtractor.extract(text, language),
+      this.emotionAttributor.tally(text, emotions.mentions, language)
+    );
   }
 
-  private analyzeComplexity(text: string): ComplexityAnalysis {
-    return this.complexityAnalyzer.analyze(text);
+  private analyzeComplexity(text: string, language: LanguageCode): ComplexityAnalysis {
+    return this.complexityAnalyzer.analyze(text, language);
+  }
+
+  // The cache keeps the natural strategy; an override is applied on the way out
+  private applyStrategyOverride(result: AnalysisResult, strategy?: ScalingType): AnalysisResult {
+    if (!strategy || strategy === result.scalingStrategy.type) {
+      return result;
+    }
+
+    return {
+      ...result,
+      scalingStrategy: this.determineScalingStrategy(result.words.length, result.complexity, result.sentiment, strategy)
+    };
   }
 
   private determineScalingStrategy(
     wordCount: number, 
     complexity: ComplexityAnalysis, 
-    sentiment: SentimentAnalysis
+    sentiment: SentimentAnalysis,
+    override?: ScalingType
   ): ScalingStrategy {
-    // Find appropriate threshold based on word count
+    // Find appropriate threshold based on word count (or the forced strategy)
     let threshold: any = SCALING_THRESHOLDS.MICRO_TINY;
     
     for (const [, config] of Object.entries(SCALING_THRESHOLDS)) {
-      if (wordCount >= config.min && wordCount <= config.max) {
+      const matches = override
+        ? config.strategy === override
+        : wordCount >= config.min && wordCount <= config.max;
+      if (matches) {
         threshold = config;
         break;
       }
@@ -306,7 +547,7 @@ export class TextAnalyzer {
   }
 
   private hashText(text: string): string {
-    // Simple hash function for caching
+    // Short non-cryptographic hash, used for stream ids and lexicon fingerprints
     let hash = 0;
     for (let i = 0; i < text.length; i++) {
       const char = text.charCodeAt(i);
@@ -316,30 +557,6 @@ export class TextAnalyzer {
     return hash.toString(36);
   }
 
-  private cleanupCache(): void {
-    // Remove cache entries older than 10 minutes
-    const maxAge = 10 * 60 * 1000;
-    const cutoffTime = Date.now() - maxAge;
-    
-    for (const [key, result] of this.analysisCache.entries()) {
-      if (result.timestamp < cutoffTime) {
-        this.analysisCache.delete(key);
-      }
-    }
-
-    // Limit cache size to 100 entries
-    if (this.analysisCache.size > 100) {
-      const entries = Array.from(this.analysisCache.entries());
-      entries.sort((a, b) => b[1].timestamp - a[1].timestamp);
-      
-      // Keep only the 50 most recent entries
-      this.analysisCache.clear();
-      entries.slice(0, 50).forEach(([key, value]) => {
-        this.analysisCache.set(key, value);
-      });
-    }
-  }
-
   // Helper methods for accessing analysis components
   getSentimentAnalyzer(): SentimentAnalyzer {
     return this.sentimentAnalyzer;
@@ -353,23 +570,106 @@ export class TextAnalyzer {
     return this.complexityAnalyzer;
   }
 
-  // Clear analysis cache
-  clearCache(): void {
-    this.analysisCache.clear();
+  getEmotionAttributor(): EmotionAttributor {
+    return this.emotionAttributor;
   }
 
-  // Get cache statistics
-  getCacheStats(): { size: number; oldestEntry: number; newestEntry: number } {
-    if (this.analysisCache.size === 0) {
-      return { size: 0, oldestEntry: 0, newestEntry: 0 };
+  getLanguageDetector(): LanguageDetector {
+    return this.languageDetector;
+  }
+
+  getTokenizer(): Tokenizer {
+    return this.tokenizer;
+  }
+
+  getIncrementalAnalyzer(): IncrementalAnalyzer {
+    return this.incrementalAnalyzer;
+  }
+
+  getAnalyzerRegistry(): AnalyzerRegistry {
+    return this.analyzerRegistry;
+  }
+
+  getAnalysisCache(): AnalysisCache {
+    return this.analysisCache;
+  }
+
+  // Register a custom analysis stage; the plugin set is part of the cache
+  // version, so results computed without it are no longer served
+  registerAnalyzer<TOutput>(plugin: AnalyzerPlugin<TOutput>): void {
+    this.analyzerRegistry.register(plugin);
+    this.analysisCache.setVersion(this.cacheVersion());
+  }
+
+  unregisterAnalyzer(name: string): boolean {
+    const removed = this.analyzerRegistry.unregister(name);
+    if (removed) {
+      this.analysisCache.setVersion(this.cacheVersion());
     }
+    return removed;
+  }
 
-    const timestamps = Array.from(this.analysisCache.values()).map(result => result.timestamp);
-    
-    return {
-      size: this.analysisCache.size,
-      oldestEntry: Math.min(...timestamps),
-      newestEntry: Math.max(...timestamps)
-    };
+  // Score sentiment with another backend (a model, or an ensemble with the
+  // lexicon); null goes back to the lexicon. Part of the cache version.
+  setSentimentBackend(backend: SentimentBackend | null): void {
+    this.sentimentBackend = backend;
+    this.analysisCache.setVersion(this.cacheVersion());
+  }
+
+  getSentimentBackend(): SentimentBackend | null {
+    return this.sentimentBackend;
+  }
+
+  // Classify concepts no word list or suffix places by the nearest category
+  // in these vectors; null turns the fallback off. Part of the cache version.
+  setWordEmbeddings(embeddings: WordEmbeddings | null): void {
+    this.conceptExtractor.getClassifier().setEmbeddings(embeddings);
+    this.analysisCache.setVersion(this.cacheVersion());
+  }
+
+  getWordEmbeddings(): WordEmbeddings | null {
+    return this.conceptExtractor.getClassifier().getEmbeddings();
+  }
+
+
+  // Load a graded emotion lexicon (JSON or TSV) over the built-in one for a
+  // language; like plugins, loaded lexicons are part of the cache version
+  loadLexicon(
+    language: LanguageCode,
+    source: string | EmotionLexiconDocument,
+    options: { replace?: boolean } = {}
+  ): void {
+    this.sentimentAnalyzer.loadLexicon(language, source, options);
+    this.incrementalAnalyzer.reset();
+    this.analysisCache.setVersion(this.cacheVersion());
+  }
+
+  resetLexicon(language?: LanguageCode): void {
+    this.sentimentAnalyzer.resetLexicon(language);
+    this.incrementalAnalyzer.reset();
+    this.analysisCache.setVersion(this.cacheVersion());
+  }
+
+  // Clear analysis cache (memory and persistent layers)
+  async clearCache(): Promise<void> {
+    this.incrementalAnalyzer.reset();
+    await this.analysisCache.clear();
+  }
+
+  // Get cache statistics
+  getCacheStats(): AnalysisCacheStats {
+    return this.analysisCache.getStats();
+  }
+
+  private cacheVersion(): string {
+    const plugins = [...this.analyzerRegistry.getPluginNames()].sort().join(',');
+    const lexicons = this.sentimentAnalyzer.getCustomLexicons();
+    const lexicon = lexicons.size > 0 ? `~${this.hashText(JSON.stringify([...lexicons]))}` : '';
+    const backend = this.sentimentBackend ? `@${this.sentimentBackend.name}` : '';
+    const embeddings = this.conceptExtractor.getClassifier().getEmbeddings();
+    const vectors = embeddings ? `#${embeddings.name}` : '';
+    const threshold = this.conceptExtractor.getExtractionThreshold();
+    const settings = threshold !== ConceptExtractor.DEFAULT_EXTRACTION_THRESHOLD ? `%${threshold}` : '';
+    return `${ANALYZER_VERSION}.${LEXICON_VERSION}${lexicon}${backend}${vectors}${settings}${plugins ? `+${plugins}` : ''}`;
   }
 }
\ No newline at end of file
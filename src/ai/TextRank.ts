@@ -0,0 +1,151 @@
+import type { Concept, KeySentence, WeightedGraph } from '../types';
+
+interface SentenceBounds {
+  index: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * TextRank - PageRank over weighted graphs of words and sentences
+ * A node is as central as the share of their weight its neighbours pass on
+ * to it, so a concept that co-occurs with many central concepts outranks
+ * one that is merely frequent. Nodes without edges spread their score over
+ * the whole graph. Nodes are visited in sorted order, so the same graph
+ * always gets the same scores, however it was built up.
+ */
+export class TextRank {
+  private static readonly DAMPING = 0.85;
+  private static readonly TOLERANCE = 1e-6;
+  private static readonly MAX_ITERATIONS = 100;
+  static readonly MAX_KEY_SENTENCES = 10;
+
+  // Scores sum to 1 over the graph
+  rank(graph: WeightedGraph): Map<string, number> {
+    const nodes = Array.from(graph.keys()).sort((a, b) => a.localeCompare(b));
+    const count = nodes.length;
+    if (count === 0) return new Map();
+
+    const indexOf = new Map(nodes.map((node, index) => [node, index]));
+    const links = nodes.map(node => Array.from(graph.get(node)!)
+      .filter(([neighbour, weight]) => neighbour !== node && weight > 0 && indexOf.has(neighbour))
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([neighbour, weight]) => [indexOf.get(neighbour)!, weight] as const));
+    const outWeights = links.map(edges => edges.reduce((sum, [, weight]) => sum + weight, 0));
+
+    const { DAMPING, TOLERANCE, MAX_ITERATIONS } = TextRank;
+    let scores = new Float64Array(count).fill(1 / count);
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      let dangling = 0;
+      outWeights.forEach((weight, index) => {
+        if (weight === 0) dangling += scores[index];
+      });
+
+      const next = new Float64Array(count).fill((1 - DAMPING + DAMPING * dangling) / count);
+      links.forEach((edges, index) => {
+        edges.forEach(([neighbour, weight]) => {
+          next[neighbour] += DAMPING * scores[index] * weight / outWeights[index];
+        });
+      });
+
+      let change = 0;
+      next.forEach((score, index) => {
+        change += Math.abs(score - scores[index]);
+      });
+      scores = next;
+      if (change < TOLERANCE) break;
+    }
+
+    return new Map(nodes.map((node, index) => [node, scores[index]]));
+  }
+
+  // Sentences are linked by the concepts they share, normalized by how many
+  // each holds (Mihalcea and Tarau's overlap, over concepts instead of
+  // words). Sentences without a concept are never key.
+  rankSentences(
+    text: string,
+    concepts: Concept[],
+    sentences: SentenceBounds[],
+    limit = TextRank.MAX_KEY_SENTENCES
+  ): KeySentence[] {
+    const ordered = [...sentences].sort((a, b) => a.start - b.start);
+    const members = new Map<number, Set<string>>();
+
+    concepts.forEach(concept => {
+      concept.position.forEach(position => {
+        const sentence = this.sentenceAt(ordered, position);
+        if (!sentence) return;
+        if (!members.has(sentence.index)) {
+          members.set(sentence.index, new Set());
+        }
+        members.get(sentence.index)!.add(concept.word);
+      });
+    });
+
+    // Count shared concepts through the sentences each concept occurs in
+    const shared = new Map<string, Map<string, number>>();
+    const sentencesOf = new Map<string, number[]>();
+    members.forEach((words, index) => {
+      words.forEach(word => {
+        if (!sentencesOf.has(word)) {
+          sentencesOf.set(word, []);
+        }
+        sentencesOf.get(word)!.push(index);
+      });
+    });
+    sentencesOf.forEach(indices => {
+      indices.forEach(a => {
+        indices.forEach(b => {
+          if (a === b) return;
+          const inner = shared.get(String(a)) ?? new Map<string, number>();
+          inner.set(String(b), (inner.get(String(b)) || 0) + 1);
+          shared.set(String(a), inner);
+        });
+      });
+    });
+
+    const graph: WeightedGraph = new Map();
+    members.forEach((words, index) => {
+      const edges = new Map<string, number>();
+      shared.get(String(index))?.forEach((overlap, other) => {
+        const size = members.get(Number(other))!.size;
+        edges.set(other, overlap / (Math.log(1 + words.size) + Math.log(1 + size)));
+      });
+      graph.set(String(index), edges);
+    });
+
+    const scores = this.rank(graph);
+    const top = Math.max(0, ...scores.values());
+    const byIndex = new Map(sentences.map(sentence => [sentence.index, sentence]));
+
+    return Array.from(scores)
+      .map(([index, score]) => ({ sentence: byIndex.get(Number(index))!, score: top > 0 ? score / top : 0 }))
+      .sort((a, b) => b.score - a.score || a.sentence.index - b.sentence.index)
+      .slice(0, limit)
+      .map(({ sentence: { index, start, end }, score }) => ({
+        index,
+        start,
+        end,
+        text: text.slice(start, end).trim(),
+        score
+      }));
+  }
+
+  // The sentence whose span holds a character offset (spans sorted by start)
+  private sentenceAt(sentences: SentenceBounds[], position: number): SentenceBounds | undefined {
+    let low = 0;
+    let high = sentences.length - 1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      if (sentences[middle].start > position) {
+        high = middle - 1;
+      } else if (sentences[middle].end <= position) {
+        low = middle + 1;
+      } else {
+        return sentences[middle];
+      }
+    }
+    return undefined;
+  }
+}
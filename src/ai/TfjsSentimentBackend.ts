@@ -0,0 +1,191 @@
+import { Tokenizer } from './Tokenizer';
+import { createBackendError } from './SentimentBackends';
+import type {
+  EmotionScores,
+  ModelFileReader,
+  SentimentBackend,
+  SentimentBackendInput,
+  SentimentModelMetadata
+} from '../types';
+import type { LayersModel, io } from '@tensorflow/tfjs';
+
+export const SENTIMENT_MODEL_FORMAT = 'neural-echo-sentiment-model';
+export const SENTIMENT_MODEL_FORMAT_VERSION = 1;
+
+const EMOTIONS: (keyof EmotionScores)[] = [
+  'joy', 'sadness', 'anger', 'fear', 'surprise', 'anticipation', 'trust', 'disgust'
+];
+
+export interface TfjsSentimentBackendOptions {
+  modelDir: string;            // Directory (or URL) with model.json, its weights and metadata.json
+  readFile?: ModelFileReader;  // Defaults to fetching `${modelDir}/${file}`
+}
+
+interface LoadedModel {
+  model: LayersModel;
+  metadata: SentimentModelMetadata;
+  vocabulary: Map<string, number>;
+}
+
+/**
+ * TfjsSentimentBackend - Emotion scores from a small TensorFlow.js model
+ * The model reads token ids and outputs one sigmoid per emotion; the
+ * directory layout is described in docs/SENTIMENT_MODEL_FORMAT.md.
+ * TensorFlow.js is imported on first use and runs on its CPU backend, so
+ * the default bundle does not grow and the model works headless.
+ */
+export class TfjsSentimentBackend implements SentimentBackend {
+  readonly name: string;
+  private modelDir: string;
+  private readFile: ModelFileReader;
+  private tokenizer: Tokenizer;
+  private loading: Promise<LoadedModel> | null = null;
+
+  constructor(options: TfjsSentimentBackendOptions, tokenizer: Tokenizer = new Tokenizer()) {
+    this.modelDir = options.modelDir.replace(/\/+$/, '');
+    this.readFile = options.readFile ?? (file => this.fetchFile(file));
+    this.tokenizer = tokenizer;
+    this.name = `tfjs(${this.modelDir})`;
+  }
+
+  // Load the model ahead of the first analysis; safe to call repeatedly
+  async load(): Promise<void> {
+    await this.getModel();
+  }
+
+  async score(input: SentimentBackendInput): Promise<EmotionScores> {
+    const { model, metadata, vocabulary } = await this.getModel();
+    const tf = await import('@tensorflow/tfjs');
+
+    const ids = this.tokenizer.words(input.text)
+      .slice(0, metadata.sequenceLength)
+      .map(word => vocabulary.get(word) ?? 1);
+    while (ids.length < metadata.sequenceLength) ids.push(0);
+
+    const output = tf.tidy(() => {
+      const prediction = model.predict(tf.tensor2d([ids], [1, metadata.sequenceLength], 'int32'));
+      return (Array.isArray(prediction) ? prediction[0] : prediction).dataSync();
+    });
+
+    const scores: EmotionScores = {
+      joy: 0, sadness: 0, anger: 0, fear: 0, surprise: 0, anticipation: 0, trust: 0, disgust: 0
+    };
+    metadata.emotions.forEach((emotion, i) => {
+      scores[emotion] = Math.max(0, Math.min(1, output[i]));
+    });
+    return scores;
+  }
+
+  // A failed load is forgotten so that a later call can retry
+  private getModel(): Promise<LoadedModel> {
+    if (!this.loading) {
+      this.loading = this.loadModel().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadModel(): Promise<LoadedModel> {
+    const tf = await import('@tensorflow/tfjs');
+    await tf.setBackend('cpu');
+    await tf.ready();
+
+    const metadata = this.parseMetadata(await this.readText('metadata.json'));
+    const modelJson = JSON.parse(await this.readText('model.json')) as {
+      modelTopology: object;
+      format?: string;
+      weightsManifest: { paths: string[]; weights: io.WeightsManifestEntry[] }[];
+    };
+
+    const model = await tf.loadLayersModel({
+      load: async () => {
+        const buffers: ArrayBuffer[] = [];
+        const weightSpecs: io.WeightsManifestEntry[] = [];
+        for (const group of modelJson.weightsManifest ?? []) {
+          weightSpecs.push(...group.weights);
+          for (const path of group.paths) {
+            buffers.push(await this.readFile(path));
+          }
+        }
+        return {
+          modelTopology: modelJson.modelTopology,
+          format: modelJson.format,
+          weightSpecs,
+          weightData: this.concatenate(buffers)
+        };
+      }
+    });
+
+    const outputs = model.outputs[0]?.shape[model.outputs[0].shape.length - 1];
+    if (outputs !== metadata.emotions.length) {
+      throw createBackendError(
+        `Invalid sentiment model: ${outputs} outputs for ${metadata.emotions.length} emotions`,
+        'TfjsSentimentBackend'
+      );
+    }
+
+    console.log(`🧮 Sentiment model loaded from ${this.modelDir} (${metadata.vocabulary.length} tokens)`);
+    return {
+      model,
+      metadata,
+      vocabulary: new Map(metadata.vocabulary.map((word, id) => [word, id]))
+    };
+  }
+
+  private parseMetadata(source: string): SentimentModelMetadata {
+    const invalid = (reason: string) => createBackendError(`Invalid sentiment model metadata: ${reason}`, 'TfjsSentimentBackend');
+
+    let metadata: Partial<SentimentModelMetadata>;
+    try {
+      metadata = JSON.parse(source);
+    } catch (error) {
+      throw invalid(`not valid JSON (${error})`);
+    }
+
+    if (metadata.format !== SENTIMENT_MODEL_FORMAT) {
+      throw invalid(`format must be "${SENTIMENT_MODEL_FORMAT}"`);
+    }
+    if (metadata.version !== SENTIMENT_MODEL_FORMAT_VERSION) {
+      throw invalid(`unsupported version ${String(metadata.version)}`);
+    }
+    if (!Array.isArray(metadata.emotions) || metadata.emotions.some(emotion => !EMOTIONS.includes(emotion))) {
+      throw invalid(`emotions must be a list of ${EMOTIONS.join(', ')}`);
+    }
+    if (!Array.isArray(metadata.vocabulary) || metadata.vocabulary.length < 2) {
+      throw invalid('vocabulary must list the padding and unknown tokens first');
+    }
+    if (!Number.isInteger(metadata.sequenceLength) || (metadata.sequenceLength as number) < 1) {
+      throw invalid('sequenceLength must be a positive integer');
+    }
+
+    return metadata as SentimentModelMetadata;
+  }
+
+  private async readText(file: string): Promise<string> {
+    try {
+      return new TextDecoder().decode(await this.readFile(file));
+    } catch (error) {
+      throw createBackendError(`Cannot read ${file} from ${this.modelDir}: ${error}`, 'TfjsSentimentBackend');
+    }
+  }
+
+  private async fetchFile(file: string): Promise<ArrayBuffer> {
+    const response = await fetch(`${this.modelDir}/${file}`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return response.arrayBuffer();
+  }
+
+  private concatenate(buffers: ArrayBuffer[]): ArrayBuffer {
+    const bytes = new Uint8Array(buffers.reduce((sum, buffer) => sum + buffer.byteLength, 0));
+    let offset = 0;
+    buffers.forEach(buffer => {
+      bytes.set(new Uint8Array(buffer), offset);
+      offset += buffer.byteLength;
+    });
+    return bytes.buffer;
+  }
+}
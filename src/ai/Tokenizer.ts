@@ -0,0 +1,193 @@
+import type { SentenceSpan, Token, TokenizedText } from '../types';
+
+interface RawSpan {
+  text: string;
+  start: number;
+}
+
+/**
+ * Tokenizer - Unicode-aware word and sentence segmentation shared by all analyzers
+ * Built on Intl.Segmenter, with a regex fallback for runtimes without it.
+ * Token offsets are UTF-16 character offsets into the tokenized text, the
+ * coordinate system of Concept.position and EmojiData.position.
+ */
+export class Tokenizer {
+  private static readonly PARAGRAPH_BREAK = /\n\s*\n/g;
+  private static readonly FALLBACK_WORD = /[\p{L}\p{N}\p{M}_]+(?:['’.][\p{L}\p{N}\p{M}_]+)*/gu;
+  private static readonly FALLBACK_SENTENCE = /[^.!?\n]*(?:[.!?]+["')\]]*\s*|\n+|$)/g;
+  // Emoji clusters (flags, modifiers, ZWJ sequences, keycaps), else one code point
+  private static readonly FALLBACK_GRAPHEME =
+    /\p{RI}\p{RI}|\p{Extended_Pictographic}(?:\p{EMod}|\uFE0F|\u20E3)*(?:\u200D\p{Extended_Pictographic}(?:\p{EMod}|\uFE0F)*)*|[\s\S]/gu;
+
+  private wordSegmenter: Intl.Segmenter | null = null;
+  private sentenceSegmenter: Intl.Segmenter | null = null;
+  private graphemeSegmenter: Intl.Segmenter | null = null;
+
+  // The analysis stages tokenize the same text back to back
+  private lastText: string | null = null;
+  private lastResult: TokenizedText | null = null;
+
+  constructor(locale?: string) {
+    if (typeof Intl !== 'undefined' && typeof Intl.Segmenter === 'function') {
+      this.wordSegmenter = new Intl.Segmenter(locale, { granularity: 'word' });
+      this.sentenceSegmenter = new Intl.Segmenter(locale, { granularity: 'sentence' });
+      this.graphemeSegmenter = new Intl.Segmenter(locale, { granularity: 'grapheme' });
+    } else {
+      console.warn('⚠️ Intl.Segmenter not supported, using regex tokenization');
+    }
+  }
+
+  tokenize(text: string): TokenizedText {
+    if (text === this.lastText && this.lastResult) {
+      return this.lastResult;
+    }
+
+    const paragraphStarts = this.findParagraphStarts(text);
+    const tokens: Token[] = [];
+    const sentences: SentenceSpan[] = [];
+    let paragraph = 0;
+
+    this.segmentSentences(text).forEach(sentenceSpan => {
+      while (paragraph + 1 < paragraphStarts.length && paragraphStarts[paragraph + 1] <= sentenceSpan.start) {
+        paragraph++;
+      }
+
+      const tokenStart = tokens.length;
+      this.segmentWords(sentenceSpan.text).forEach(wordSpan => {
+        const start = sentenceSpan.start + wordSpan.start;
+        tokens.push({
+          text: wordSpan.text,
+          normalized: this.normalize(wordSpan.text),
+          start,
+          end: start + wordSpan.text.length,
+          index: tokens.length,
+          sentence: sentences.length,
+          paragraph
+        });
+      });
+
+      // Whitespace- or punctuation-only runs are not sentences
+      if (tokens.length === tokenStart) return;
+
+      sentences.push({
+        index: sentences.length,
+        paragraph,
+        start: sentenceSpan.start,
+        end: sentenceSpan.start + sentenceSpan.text.trimEnd().length,
+        tokenStart,
+        tokenEnd: tokens.length
+      });
+    });
+
+    const result: TokenizedText = {
+      text,
+      tokens,
+      sentences,
+      paragraphCount: tokens.length > 0 ? tokens[tokens.length - 1].paragraph + 1 : 0
+    };
+
+    this.lastText = text;
+    this.lastResult = result;
+    return result;
+  }
+
+  // Normalized word forms, the input most lexicon lookups need
+  words(text: string): string[] {
+    return this.tokenize(text).tokens.map(token => token.normalized);
+  }
+
+  // User-perceived characters with their offsets; an emoji ZWJ sequence,
+  // flag or skin-toned emoji is one grapheme. With a pattern, only the
+  // graphemes that contain a match are returned, and long prose without
+  // matches is never segmented.
+  graphemes(text: string, pattern?: RegExp): { text: string; start: number }[] {
+    if (!pattern) {
+      return this.segmentGraphemes(text);
+    }
+
+    const flags = pattern.flags.replace('g', '');
+    const matches = Array.from(text.matchAll(new RegExp(pattern.source, `${flags}g`)));
+    if (matches.length === 0) return [];
+
+    if (!this.graphemeSegmenter) {
+      const matcher = new RegExp(pattern.source, flags);
+      return this.segmentGraphemes(text).filter(span => matcher.test(span.text));
+    }
+
+    const segments = this.graphemeSegmenter.segment(text);
+    const spans: RawSpan[] = [];
+    let end = 0;
+    matches.forEach(match => {
+      const index = match.index ?? 0;
+      if (index < end) return;
+
+      const segment = segments.containing(index);
+      if (!segment) return;
+      spans.push({ text: segment.segment, start: segment.index });
+      end = segment.index + segment.segment.length;
+    });
+    return spans;
+  }
+
+  normalize(word: string): string {
+    return word.normalize('NFC').toLowerCase().replace(/[’ʼ]/g, "'");
+  }
+
+  private segmentSentences(text: string): RawSpan[] {
+    if (this.sentenceSegmenter) {
+      return Array.from(this.sentenceSegmenter.segment(text), segment => ({
+        text: segment.segment,
+        start: segment.index
+      }));
+    }
+
+    const spans: RawSpan[] = [];
+    const pattern = new RegExp(Tokenizer.FALLBACK_SENTENCE.source, 'g');
+    let match;
+    while ((match = pattern.exec(text)) !== null && match[0].length > 0) {
+      spans.push({ text: match[0], start: match.index });
+    }
+    return spans;
+  }
+
+  private segmentWords(text: string): RawSpan[] {
+    if (this.wordSegmenter) {
+      const spans: RawSpan[] = [];
+      for (const segment of this.wordSegmenter.segment(text)) {
+        if (segment.isWordLike) {
+          spans.push({ text: segment.segment, start: segment.index });
+        }
+      }
+      return spans;
+    }
+
+    return Array.from(text.matchAll(new RegExp(Tokenizer.FALLBACK_WORD.source, 'gu')), match => ({
+      text: match[0],
+      start: match.index ?? 0
+    }));
+  }
+
+  private segmentGraphemes(text: string): RawSpan[] {
+    if (this.graphemeSegmenter) {
+      return Array.from(this.graphemeSegmenter.segment(text), segment => ({
+        text: segment.segment,
+        start: segment.index
+      }));
+    }
+
+    return Array.from(text.matchAll(new RegExp(Tokenizer.FALLBACK_GRAPHEME.source, 'gu')), match => ({
+      text: match[0],
+      start: match.index ?? 0
+    }));
+  }
+
+  private findParagraphStarts(text: string): number[] {
+    const starts = [0];
+    const pattern = new RegExp(Tokenizer.PARAGRAPH_BREAK.source, 'g');
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+      starts.push(match.index + match[0].length);
+    }
+    return starts;
+  }
+}
@@ -0,0 +1,62 @@
+import type { LanguageCode, NeuralEchoError, WordEmbeddings } from '../types';
+
+/**
+ * WordEmbeddings - Word vectors held in memory
+ * Read from the plain text format of GloVe and word2vec (one word and its
+ * numbers per line; a word2vec "count dimensions" header is skipped) or
+ * built from a record of vectors. A set of vectors is for the languages it
+ * was trained on and knows no word of any other.
+ */
+
+export function createEmbeddingsError(message: string): NeuralEchoError {
+  const error = new Error(message) as NeuralEchoError;
+  error.code = 'EMBEDDINGS_INVALID';
+  error.component = 'WordEmbeddings';
+  error.recoverable = true; // Concepts are still classified without them
+  return error;
+}
+
+export class StaticWordEmbeddings implements WordEmbeddings {
+  readonly name: string;
+  readonly dimensions: number;
+  private vectors = new Map<string, Float32Array>();
+  private languages: Set<LanguageCode>;
+
+  constructor(name: string, vectors: Record<string, ArrayLike<number>>, languages: LanguageCode[] = ['en']) {
+    const entries = Object.entries(vectors);
+    if (entries.length === 0) {
+      throw createEmbeddingsError('Invalid embeddings: no vectors');
+    }
+
+    this.name = name;
+    this.dimensions = entries[0][1].length;
+    this.languages = new Set(languages);
+
+    entries.forEach(([word, vector]) => {
+      if (vector.length !== this.dimensions || this.dimensions === 0) {
+        throw createEmbeddingsError(`Invalid embeddings: "${word}" has ${vector.length} dimensions, expected ${this.dimensions}`);
+      }
+      if (!Array.from(vector).every(Number.isFinite)) {
+        throw createEmbeddingsError(`Invalid embeddings: "${word}" has a component that is not a number`);
+      }
+      this.vectors.set(word.toLowerCase(), Float32Array.from(vector));
+    });
+  }
+
+  static fromText(name: string, text: string, languages?: LanguageCode[]): StaticWordEmbeddings {
+    const vectors: Record<string, number[]> = {};
+
+    text.split(/\r?\n/).forEach((line, index) => {
+      const [word, ...components] = line.trim().split(/\s+/);
+      if (!word) return;
+      if (index === 0 && components.length === 1 && /^\d+$/.test(word)) return; // word2vec header
+      vectors[word] = components.map(Number);
+    });
+
+    return new StaticWordEmbeddings(name, vectors, languages);
+  }
+
+  vector(word: string, language: LanguageCode): Float32Array | null {
+    return this.languages.has(language) ? this.vectors.get(word) ?? null : null;
+  }
+}
@@ -0,0 +1,271 @@
+import type { LanguagePack } from '../../types';
+
+export const GERMAN: LanguagePack = {
+  code: 'de',
+  name: 'Deutsch',
+
+  profileText: `
+    Der Morgen war ruhig und die Stadt schlief noch, als sie zum Fluss hinunterging.
+    Sie hatte darüber nachgedacht, was ihr Vater gesagt hatte, dass die Dinge, die wir lieben,
+    die Dinge sind, die wir am meisten fürchten zu verlieren. Es war nicht das erste Mal, dass
+    sie es hörte, aber diesmal schien es ihr wahr zu sein. Es würde andere Tage und andere
+    Gelegenheiten geben, und sie wusste, dass sie dankbar sein sollte für das, was sie hatte.
+    Als das Licht über das Wasser kam, lächelte sie und ging nach Hause. Viele Menschen glauben,
+    dass das Glück etwas ist, das man findet, obwohl es eher eine Gewohnheit ist, die man jeden
+    Tag mit den Menschen um sich herum üben muss.
+  `,
+
+  stopwords: [
+    'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einer', 'eines', 'einem', 'einen',
+    'und', 'oder', 'aber', 'doch', 'in', 'im', 'an', 'am', 'auf', 'aus', 'bei', 'mit', 'nach',
+    'von', 'vom', 'zu', 'zum', 'zur', 'für', 'über', 'unter', 'ist', 'sind', 'war', 'waren',
+    'sein', 'bin', 'bist', 'hat', 'haben', 'hatte', 'hatten', 'wird', 'werden', 'wurde',
+    'ich', 'du', 'er', 'sie', 'es', 'wir', 'ihr', 'mich', 'dich', 'sich', 'uns', 'euch',
+    'mein', 'meine', 'dein', 'deine', 'seine', 'ihre', 'unser', 'unsere', 'dass', 'wenn',
+    'als', 'wie', 'was', 'wer', 'wo', 'auch', 'noch', 'nur', 'schon', 'sehr', 'so', 'dann',
+    'man', 'diese', 'dieser', 'dieses', 'alle', 'alles', 'viel', 'viele', 'etwas', 'um', 'ob',
+    'weil', 'denn', 'sondern', 'obwohl', 'während', 'damit', 'bevor', 'nachdem', 'seit', 'bis',
+    'falls', 'deshalb', 'darum', 'also', 'jedoch', 'trotzdem', 'seid', 'wäre', 'wären', 'gewesen',
+    'habe', 'hast', 'habt', 'hätte', 'hätten', 'gehabt', 'werde', 'wirst', 'werdet', 'wurden',
+    'worden', 'kann', 'kannst', 'können', 'konnte', 'muss', 'musst', 'müssen', 'musste', 'will',
+    'willst', 'wollen', 'wollte', 'soll', 'sollen', 'sollte', 'darf', 'dürfen', 'möchte', 'ihm',
+    'ihn', 'ihnen', 'ihrer', 'seiner', 'seinem', 'seinen', 'meinem', 'meinen', 'meiner', 'jeder',
+    'jede', 'jedes', 'hier', 'dort', 'da', 'dies', 'durch', 'gegen', 'vor', 'zwischen', 'nun'
+  ],
+
+  negations: ['nicht', 'kein', 'keine', 'keinen', 'keinem', 'keiner', 'nie', 'niemals', 'nichts', 'niemand', 'ohne', 'kaum', 'weder'],
+  negationSuffixes: [],
+
+  intensifiers: {
+    sehr: 1.5, extrem: 2.0, unglaublich: 1.8, absolut: 1.7, völlig: 1.6, total: 1.5,
+    wirklich: 1.3, ziemlich: 1.2, echt: 1.3, besonders: 1.4, etwas: 0.8, leicht: 0.6,
+    kaum: 0.4, äußerst: 1.9, zutiefst: 1.8
+  },
+
+  adversatives: ['aber', 'jedoch', 'doch', 'trotzdem', 'dennoch', 'allerdings'],
+  concessives: ['obwohl', 'obgleich', 'wenngleich', 'trotz'],
+  additivePairs: [['nicht nur', 'sondern auch']],
+  targetMarkers: ['auf', 'über', 'vor', 'mit', 'von', 'vom', 'wegen', 'gegenüber'],
+  sarcasmMarkers: [
+    'ja klar', 'na toll', 'na super', 'na prima', 'na großartig', 'danke auch', 'wer es glaubt',
+    'was für eine überraschung'
+  ],
+  collocations: [
+    'künstliche intelligenz', 'maschinelles lernen', 'soziale medien', 'erneuerbare energie',
+    'psychische gesundheit', 'beste freundin', 'bester freund'
+  ],
+  entities: {
+    gazetteer: {
+      PERSON: ['goethe', 'schiller', 'beethoven', 'bach', 'mozart', 'einstein', 'kant', 'luther'],
+      PLACE: [
+        'berlin', 'hamburg', 'münchen', 'köln', 'frankfurt', 'stuttgart', 'dresden', 'leipzig', 'wien',
+        'zürich', 'deutschland', 'österreich', 'schweiz', 'europa', 'frankreich', 'italien', 'spanien',
+        'amerika', 'vereinigte staaten'
+      ],
+      ORG: ['vereinte nationen', 'europäische union', 'rotes kreuz', 'deutsche bahn', 'google', 'microsoft'],
+      DATE: [
+        'januar', 'februar', 'märz', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober',
+        'november', 'dezember', 'montag', 'dienstag', 'mittwoch', 'donnerstag', 'freitag', 'samstag', 'sonntag',
+        'weihnachten', 'ostern', 'silvester', 'neujahr'
+      ]
+    },
+    titles: ['herr', 'frau', 'dr', 'prof', 'professor', 'professorin', 'doktor', 'könig', 'königin', 'sankt'],
+    organizationWords: ['universität', 'hochschule', 'gmbh', 'ag', 'bank', 'stiftung', 'verein', 'institut', 'ministerium', 'partei'],
+    placeWords: ['stadt', 'see', 'fluss', 'berg', 'insel', 'strand', 'straße', 'platz', 'park', 'brücke', 'bahnhof'],
+    placePrepositions: ['in', 'nach', 'aus'],
+    nameConnectors: ['von', 'van', 'zu', 'der', 'am'],
+    capitalizedNouns: true,
+    lowercaseDates: false
+  },
+
+  emotionLexicon: {
+    joy: {
+      glücklich: 0.8, froh: 0.6, fröhlich: 0.8, freude: 0.9, freue: 0.8, zufrieden: 0.6,
+      begeistert: 0.9, wunderbar: 0.9, wundervoll: 0.9, toll: 0.8, großartig: 0.9, fantastisch: 0.9,
+      perfekt: 0.8, schön: 0.8, herrlich: 0.9, liebe: 0.9, lieben: 0.9, liebt: 0.9, feiern: 0.8,
+      erfolg: 0.8, sieg: 0.8, stolz: 0.8, hoffnung: 0.6, optimistisch: 0.6, glück: 0.9,
+      lächeln: 0.6, lächelte: 0.6, dankbar: 0.6,
+      // Idioms
+      'im siebten himmel': 1.0, 'auf wolke sieben': 1.0, 'gute laune': 0.6
+    },
+    sadness: {
+      traurig: 0.8, trauer: 0.9, traurigkeit: 0.8, deprimiert: 0.9, melancholisch: 0.8,
+      enttäuscht: 0.6, schmerz: 0.8, kummer: 0.9, weinen: 0.8, weinte: 0.8, tränen: 0.8,
+      einsam: 0.6, einsamkeit: 0.8, verlassen: 0.6, verloren: 0.6, verzweiflung: 1.0,
+      verzweifelt: 1.0, leiden: 0.8, leid: 0.8, schuld: 0.8, scham: 0.8, reue: 0.8,
+      unglücklich: 0.6, hoffnungslos: 0.9,
+      // Idioms
+      'am boden zerstört': 1.0, 'gebrochenes herz': 1.0
+    },
+    anger: {
+      wütend: 1.0, wut: 1.0, zorn: 1.0, zornig: 1.0, ärger: 0.8, ärgerlich: 0.6, verärgert: 0.6,
+      hass: 1.0, hasse: 1.0, hassen: 1.0, genervt: 0.6, gereizt: 0.6, empört: 0.9, frustriert: 0.6,
+      bitter: 0.8, sauer: 0.6, aufgebracht: 0.9,
+      // Idioms
+      'die nase voll': 0.9, 'auf hundertachtzig': 1.0, 'außer sich': 1.0
+    },
+    fear: {
+      angst: 0.8, ängstlich: 0.8, furcht: 0.8, fürchten: 0.8, erschrocken: 0.9, verängstigt: 1.0,
+      besorgt: 0.6, sorge: 0.6, sorgen: 0.6, nervös: 0.6, panik: 1.0, schrecken: 1.0, horror: 1.0,
+      gefahr: 0.8, gefährlich: 0.8, unsicher: 0.6, bedroht: 0.8, bedrohung: 0.8, albtraum: 1.0,
+      stress: 0.6, gestresst: 0.6, beunruhigt: 0.6,
+      // Idioms
+      'angst und bange': 0.9, 'kalte füße': 0.6
+    },
+    surprise: {
+      überrascht: 0.7, überraschung: 0.7, erstaunt: 0.7, staunen: 0.7, schockiert: 0.9,
+      verblüfft: 0.9, unerwartet: 0.7, plötzlich: 0.5, unglaublich: 0.7, außergewöhnlich: 0.7,
+      verwirrt: 0.5, fassungslos: 0.9, sprachlos: 0.9, wow: 0.7,
+      // Idioms
+      'aus allen wolken': 0.9, 'mit offenem mund': 0.9
+    },
+    anticipation: {
+      gespannt: 0.8, ungeduldig: 0.9, erwarten: 0.6, erwarte: 0.6, hoffe: 0.6, hoffen: 0.6,
+      bereit: 0.6, vorbereitet: 0.6, zukunft: 0.4, morgen: 0.4, bald: 0.4, nächste: 0.6,
+      nächsten: 0.6, möglichkeit: 0.4, gelegenheit: 0.4, chance: 0.4, vielleicht: 0.4,
+      neugierig: 0.6, interessiert: 0.6, plan: 0.6, pläne: 0.6, vorfreude: 0.9,
+      // Idioms
+      'freue mich auf': 0.8, 'kann es kaum erwarten': 0.9
+    },
+    trust: {
+      vertrauen: 0.8, vertraue: 0.8, treu: 0.8, loyal: 0.8, loyalität: 0.8, ehrlich: 0.6,
+      zuverlässig: 0.6, verlässlich: 0.6, respekt: 0.7, bewundere: 0.7, unterstützung: 0.6,
+      // Idioms
+      'in guten händen': 0.8
+    },
+    disgust: {
+      ekel: 0.9, angewidert: 0.9, eklig: 0.8, widerlich: 0.9, ekelhaft: 0.9, abstoßend: 0.9,
+      abscheulich: 0.9, igitt: 0.7,
+      // Idioms
+      'zum kotzen': 0.8
+    }
+  },
+
+  clitics: { prefixes: [], suffixes: [] },
+
+  categoryKeywords: {
+    emotion: [
+      'glück', 'trauer', 'wut', 'angst', 'überraschung', 'ekel', 'freude', 'liebe', 'gefühl',
+      'gefühle', 'emotion', 'frieden', 'stress', 'hoffnung', 'dankbarkeit', 'einsamkeit', 'hass'
+    ],
+    time: [
+      'morgen', 'nachmittag', 'abend', 'nacht', 'tag', 'tage', 'gestern', 'heute', 'moment',
+      'augenblick', 'stunde', 'stunden', 'woche', 'monat', 'jahr', 'jahre', 'zukunft',
+      'vergangenheit', 'gegenwart', 'zeit', 'geburtstag', 'urlaub', 'ferien', 'immer', 'jetzt'
+    ],
+    people: [
+      'person', 'menschen', 'mensch', 'leute', 'freund', 'freundin', 'freunde', 'familie',
+      'mutter', 'vater', 'eltern', 'sohn', 'tochter', 'kind', 'kinder', 'bruder', 'schwester',
+      'mann', 'frau', 'nachbar', 'kollege', 'kollegin', 'paar', 'beziehung', 'freundschaft',
+      'vertrauen'
+    ],
+    places: [
+      'haus', 'hause', 'zuhause', 'schule', 'arbeit', 'büro', 'stadt', 'dorf', 'land', 'welt',
+      'zimmer', 'küche', 'garten', 'park', 'straße', 'weg', 'gebäude', 'laden', 'krankenhaus',
+      'kirche', 'strand', 'berg', 'wald', 'see', 'fluss', 'meer', 'reise', 'ort'
+    ],
+    actions: [
+      'machen', 'laufen', 'gehen', 'denken', 'schaffen', 'bauen', 'schreiben', 'lesen', 'sprechen',
+      'hören', 'sehen', 'kommen', 'arbeiten', 'spielen', 'lernen', 'lehren', 'helfen', 'geben',
+      'nehmen', 'essen', 'trinken', 'schlafen', 'kämpfen', 'versuchen', 'üben', 'anstrengung'
+    ],
+    abstract: [
+      'idee', 'konzept', 'gedanke', 'traum', 'glaube', 'philosophie', 'theorie', 'prinzip',
+      'wert', 'sinn', 'zweck', 'ziel', 'plan', 'strategie', 'lösung', 'problem', 'veränderung',
+      'wahrheit', 'gerechtigkeit', 'freiheit', 'wissen', 'weisheit', 'erinnerung', 'gewohnheit'
+    ],
+    objects: [
+      'ding', 'dinge', 'objekt', 'werkzeug', 'auto', 'telefon', 'handy', 'computer', 'buch',
+      'papier', 'tisch', 'stuhl', 'bett', 'tür', 'fenster', 'licht', 'essen', 'wasser', 'geld',
+      'kleidung', 'musik', 'film', 'spiel', 'geschenk', 'schlüssel', 'kiste', 'flasche', 'maschine'
+    ]
+  },
+
+  categorySuffixes: {
+    abstract: ['heit', 'keit', 'ung', 'ismus', 'schaft', 'tät'],
+    people: ['erin', 'ist', 'ling']
+  },
+
+  partOfSpeechSuffixes: {
+    verb: ['ieren'],
+    adj: ['lich', 'ig', 'isch', 'bar', 'los', 'sam', 'end']
+  },
+
+  referenceFrequencies: [
+    [6.5, [
+      'sein', 'haben', 'werden', 'können', 'müssen', 'sagen', 'machen', 'gehen', 'sehen',
+      'kommen', 'geben', 'wissen', 'gut', 'jahr', 'jahre', 'zeit', 'tag', 'mal'
+    ]],
+    [6, [
+      'leben', 'ding', 'haus', 'welt', 'mann', 'frau', 'leute', 'mensch', 'menschen', 'freund',
+      'freunde', 'familie', 'arbeit', 'teil', 'ort', 'moment', 'nacht', 'morgen', 'abend', 'land',
+      'stadt', 'kind', 'kinder', 'sohn', 'tochter', 'vater', 'mutter', 'liebe', 'neu', 'besser',
+      'groß'
+    ]],
+    [5.5, [
+      'wasser', 'geschichte', 'woche', 'stunde', 'stunden', 'problem', 'idee', 'wahrheit',
+      'krieg', 'buch', 'musik', 'schule', 'name', 'straße', 'hand', 'kopf', 'herz', 'augen',
+      'wort', 'worte', 'geld', 'auto', 'tür', 'fenster', 'dorf', 'bruder', 'schwester',
+      'hoffnung', 'angst', 'freude', 'trauer', 'glück', 'frieden'
+    ]],
+    [5, [
+      'garten', 'wald', 'berg', 'strand', 'fluss', 'meer', 'see', 'reise', 'traum', 'träume',
+      'erinnerung', 'freiheit', 'gerechtigkeit', 'schönheit', 'einsamkeit', 'stille',
+      'veränderung', 'zukunft', 'vergangenheit', 'gegenwart', 'natur', 'wissenschaft', 'technik'
+    ]],
+    [4.5, [
+      'sehnsucht', 'wehmut', 'zärtlichkeit', 'dankbarkeit', 'gelassenheit', 'kreativität',
+      'weisheit', 'abenteuer', 'landschaft', 'horizont', 'dichtung', 'philosophie'
+    ]]
+  ],
+
+  complexity: {
+    commonWords: [
+      'der', 'die', 'und', 'in', 'den', 'von', 'zu', 'das', 'mit', 'sich', 'des', 'auf', 'für',
+      'ist', 'im', 'dem', 'nicht', 'ein', 'eine', 'als', 'auch', 'es', 'an', 'werden', 'aus',
+      'er', 'hat', 'dass', 'sie', 'nach', 'wird', 'bei', 'einer', 'um', 'am', 'sind', 'noch',
+      'wie', 'einem', 'über', 'einen', 'so', 'zum', 'war', 'haben', 'nur', 'oder', 'aber',
+      'vor', 'zur', 'bis', 'mehr', 'durch', 'man', 'sein', 'wurde', 'sei', 'ich', 'wir', 'du',
+      'gut', 'tag', 'zeit', 'jahr', 'mann', 'frau', 'kind', 'leben', 'welt', 'haus', 'machen',
+      'gehen', 'sagen', 'sehen', 'kommen', 'wissen', 'geben', 'finden', 'denken', 'immer'
+    ],
+    complexWords: [
+      'anspruchsvoll', 'grundlegend', 'umfassend', 'außergewöhnlich', 'revolutionär',
+      'folglich', 'nichtsdestotrotz', 'darüber', 'sorgfältig', 'erheblich', 'unvermeidlich',
+      'wesentlich', 'entscheidend', 'bedeutsam', 'komplex', 'zeitgenössisch', 'alternativ'
+    ],
+    subordinators: [
+      'weil', 'da', 'obwohl', 'während', 'wenn', 'falls', 'bis', 'bevor', 'nachdem', 'als',
+      'dass', 'ob', 'wo', 'welche', 'welcher', 'damit'
+    ],
+    contrastMarkers: [
+      'aber', 'jedoch', 'obwohl', 'trotz', 'trotzdem', 'dennoch', 'allerdings',
+      'andererseits', 'gleichzeitig', 'gemischte gefühle', 'hin- und hergerissen'
+    ],
+    emotionWords: [
+      'glücklich', 'traurig', 'wütend', 'angst', 'freude', 'liebe', 'hass', 'nervös', 'ruhig',
+      'besorgt', 'ängstlich', 'enttäuscht', 'frustriert', 'zufrieden', 'einsam', 'dankbar',
+      'stolz', 'beschämt', 'überrascht', 'verwirrt', 'neugierig', 'gelangweilt', 'müde'
+    ],
+    complexEmotionWords: [
+      'melancholisch', 'euphorisch', 'nostalgisch', 'bittersüß', 'ambivalent', 'überwältigt',
+      'desillusioniert', 'verletzlich', 'widerstandsfähig', 'entschlossen', 'wehmütig'
+    ],
+    intensifiers: [
+      'extrem', 'unglaublich', 'absolut', 'völlig', 'zutiefst', 'äußerst', 'intensiv',
+      'überwältigend', 'außerordentlich'
+    ],
+    abstractIndicators: [
+      'konzept', 'idee', 'theorie', 'prinzip', 'philosophie', 'glaube', 'gedanke', 'wissen',
+      'weisheit', 'bedeutung', 'zweck', 'wert', 'wahrheit', 'wirklichkeit'
+    ],
+    technicalIndicators: [
+      'system', 'prozess', 'methode', 'technik', 'verfahren', 'mechanismus', 'funktion',
+      'analyse', 'bewertung', 'struktur', 'algorithmus', 'entwurf', 'entwicklung'
+    ],
+    abstractSuffixes: ['heit', 'keit', 'ismus', 'schaft'],
+    technicalSuffixes: ['ung', 'tion', 'ität'],
+    actionSuffixes: ['ieren', 'iert', 'end'],
+    descriptiveSuffixes: ['lich', 'ig', 'isch', 'bar', 'sam', 'los']
+  }
+};
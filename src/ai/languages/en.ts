@@ -0,0 +1,387 @@
+import type { LanguagePack } from '../../types';
+
+export const ENGLISH: LanguagePack = {
+  code: 'en',
+  name: 'English',
+
+  profileText: `
+    The morning was quiet and the city was still asleep when she walked down to the river.
+    She had been thinking about what her father said, that the things we love are the things
+    we are most afraid to lose. It was not the first time she had heard it, but this time it
+    felt true. There would be other days and other chances, and she knew that she should be
+    grateful for what she had. When the light came over the water, she smiled and went home.
+    People often think that happiness is something you find, although it is more like a habit
+    which you have to practise every day with the people around you.
+  `,
+
+  stopwords: [
+    'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with',
+    'by', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had',
+    'will', 'would', 'could', 'should', 'may', 'might', 'must', 'can', 'shall',
+    'this', 'that', 'these', 'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they',
+    'me', 'him', 'her', 'us', 'them', 'my', 'your', 'his', 'her', 'its', 'our', 'their',
+    'what', 'which', 'who', 'whom', 'whose', 'where', 'when', 'why', 'how',
+    'if', 'then', 'else', 'so', 'as', 'than', 'too', 'very', 'much', 'many',
+    'some', 'any', 'all', 'each', 'every', 'both', 'either', 'neither',
+    // Contractions stay whole tokens; possessive 's is stripped before lookup
+    "i'm", "i've", "i'll", "i'd", "you're", "you've", "you'll", "you'd", "we're", "we've",
+    "we'll", "we'd", "they're", "they've", "they'll", "they'd", "he'd", "she'd", "let"
+  ],
+
+  negations: [
+    'not', 'no', 'never', 'none', 'nothing', 'nobody', 'nowhere',
+    'neither', 'nor', 'without', 'barely', 'hardly', 'scarcely', 'seldom', 'cannot'
+  ],
+  negationSuffixes: ["n't"],
+
+  intensifiers: {
+    very: 1.5, extremely: 2.0, incredibly: 1.8, absolutely: 1.7,
+    completely: 1.6, totally: 1.5, really: 1.3, quite: 1.2,
+    rather: 1.1, somewhat: 0.8, slightly: 0.6, barely: 0.4,
+    utterly: 1.9, exceptionally: 1.8, remarkably: 1.6, particularly: 1.4
+  },
+
+  adversatives: ['but', 'however', 'yet', 'nevertheless', 'nonetheless'],
+  concessives: ['although', 'though', 'even though', 'despite', 'in spite of', 'whereas', 'albeit'],
+  additivePairs: [['not only', 'but also'], ['not just', 'but also']],
+  targetMarkers: ['at', 'about', 'with', 'of', 'by', 'for', 'over', 'toward', 'towards'],
+  sarcasmMarkers: [
+    'yeah right', 'yeah sure', 'oh great', 'oh joy', 'oh wonderful', 'oh perfect', 'just my luck',
+    'just what i needed', 'thanks for nothing', 'big deal', 'what a surprise', 'real mature'
+  ],
+  collocations: [
+    'machine learning', 'artificial intelligence', 'climate change', 'social media', 'ice cream',
+    'high school', 'real estate', 'health care', 'public transport', 'human rights', 'video game',
+    'credit card', 'mental health', 'global warming', 'best friend', 'comfort zone', 'deep learning',
+    'natural language', 'open source', 'science fiction', 'birthday party', 'first love'
+  ],
+  entities: {
+    gazetteer: {
+      PERSON: [
+        'shakespeare', 'einstein', 'beethoven', 'mozart', 'picasso', 'napoleon', 'cleopatra',
+        'darwin', 'newton', 'gandhi', 'lincoln'
+      ],
+      PLACE: [
+        'new york', 'los angeles', 'san francisco', 'london', 'paris', 'berlin', 'madrid', 'rome',
+        'tokyo', 'beijing', 'moscow', 'sydney', 'chicago', 'boston', 'verona', 'venice', 'europe',
+        'asia', 'africa', 'america', 'australia', 'england', 'france', 'germany', 'spain', 'italy',
+        'china', 'japan', 'india', 'canada', 'mexico', 'brazil', 'russia', 'united states',
+        'united kingdom', 'new zealand', 'hong kong'
+      ],
+      ORG: [
+        'google', 'microsoft', 'apple', 'amazon', 'netflix', 'nasa', 'unesco', 'nato', 'united nations',
+        'european union', 'red cross', 'bbc', 'fbi', 'ibm'
+      ],
+      DATE: [
+        'january', 'february', 'march', 'april', 'june', 'july', 'august', 'september', 'october',
+        'november', 'december', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday',
+        'sunday', 'christmas', 'easter', 'new year', "new year's eve", 'thanksgiving', 'halloween'
+      ]
+    },
+    titles: ['mr', 'mrs', 'ms', 'miss', 'dr', 'prof', 'professor', 'sir', 'lady', 'lord', 'king', 'queen', 'prince', 'princess', 'saint', 'uncle', 'aunt'],
+    organizationWords: [
+      'inc', 'corp', 'corporation', 'company', 'ltd', 'llc', 'group', 'university', 'college', 'institute',
+      'foundation', 'association', 'bank', 'agency', 'ministry', 'department', 'council', 'club', 'party'
+    ],
+    placeWords: [
+      'city', 'county', 'state', 'island', 'islands', 'lake', 'river', 'mount', 'mountains', 'valley',
+      'bay', 'beach', 'park', 'street', 'avenue', 'road', 'square', 'bridge', 'station', 'airport'
+    ],
+    placePrepositions: ['in', 'at', 'from', 'to', 'near', 'into', 'across', 'through', 'visited', 'visit', 'toward', 'towards'],
+    nameConnectors: ['of', 'de', 'la', 'van', 'von', 'da', 'del', 'le', 'the'],
+    capitalizedNouns: false,
+    lowercaseDates: false
+  },
+
+  emotionLexicon: {
+    joy: {
+      happy: 0.8, joy: 0.9, excited: 0.7, wonderful: 0.9, amazing: 0.9, brilliant: 0.9,
+      delighted: 0.9, ecstatic: 1.0, joyful: 0.9, cheerful: 0.7, elated: 1.0, euphoric: 1.0,
+      blissful: 1.0, content: 0.5, pleased: 0.6, satisfied: 0.6, thrilled: 0.9, overjoyed: 1.0,
+      gleeful: 0.7, merry: 0.7, upbeat: 0.6, optimistic: 0.6, positive: 0.5, bright: 0.5,
+      fantastic: 0.9, great: 0.7, excellent: 0.9, perfect: 0.9, beautiful: 0.7, love: 0.9,
+      adore: 0.9, celebrate: 0.7, triumph: 0.9, victory: 0.9, success: 0.7, achievement: 0.7,
+      accomplishment: 0.7, pride: 0.7, confident: 0.6, hope: 0.6, hopeful: 0.6, inspiring: 0.7,
+      motivated: 0.6, energetic: 0.6, vibrant: 0.6, alive: 0.5,
+      // Idioms
+      'over the moon': 1.0, 'on cloud nine': 1.0, 'walking on air': 0.9, 'on top of the world': 1.0,
+      'tickled pink': 0.7
+    },
+    sadness: {
+      sad: 0.8, depressed: 0.8, gloomy: 0.6, melancholy: 0.8, disappointed: 0.6, sorrowful: 0.9,
+      grief: 1.0, heartbroken: 1.0, devastated: 1.0, dejected: 0.7, despondent: 0.9,
+      downhearted: 0.7, miserable: 0.9, unhappy: 0.6, blue: 0.6, down: 0.6, low: 0.6, morose: 0.8,
+      mournful: 0.9, woeful: 0.9, tearful: 0.6, crying: 0.8, weeping: 0.8, sobbing: 0.9,
+      lonely: 0.7, isolated: 0.6, abandoned: 0.8, lost: 0.6, hopeless: 0.9, helpless: 0.7,
+      despair: 1.0, anguish: 1.0, pain: 0.7, hurt: 0.7, suffering: 0.7, regret: 0.7, remorse: 0.7,
+      guilt: 0.7, shame: 0.7, burden: 0.5, heavy: 0.5, dark: 0.5,
+      // Idioms
+      'down in the dumps': 0.7, 'heavy heart': 0.7, 'broken heart': 1.0, 'feeling blue': 0.6
+    },
+    anger: {
+      angry: 0.8, furious: 1.0, rage: 1.0, hostile: 0.7, irritated: 0.6, annoyed: 0.6,
+      outraged: 0.9, mad: 0.8, livid: 1.0, enraged: 1.0, irate: 1.0, incensed: 0.9, wrathful: 1.0,
+      fuming: 0.9, aggravated: 0.6, frustrated: 0.6, exasperated: 0.7, indignant: 0.7,
+      resentful: 0.7, bitter: 0.6, hatred: 0.9, hate: 0.9, loathe: 0.9, despise: 0.9,
+      offended: 0.6, insulted: 0.7, provoked: 0.6, triggered: 0.6, agitated: 0.6, upset: 0.6,
+      pissed: 0.7, ticked: 0.6, steamed: 0.7, boiling: 0.7, seething: 1.0, explosive: 0.8,
+      // Idioms
+      'fed up': 0.7, 'sick and tired': 0.7, 'up in arms': 0.7, 'lost my temper': 0.9, 'blew up': 0.7
+    },
+    fear: {
+      afraid: 0.8, terrified: 1.0, anxious: 0.6, worried: 0.6, nervous: 0.6, scared: 0.8,
+      frightened: 0.9, fearful: 0.8, panicked: 0.9, horrified: 1.0, petrified: 1.0, trembling: 0.7,
+      shaking: 0.7, paranoid: 0.7, concerned: 0.6, uneasy: 0.6, apprehensive: 0.6, dreadful: 0.7,
+      ominous: 0.7, threatening: 0.7, dangerous: 0.7, risky: 0.5, uncertain: 0.5, insecure: 0.5,
+      vulnerable: 0.5, stressed: 0.6, tense: 0.6, overwhelmed: 0.6, panic: 0.9, terror: 1.0,
+      horror: 1.0, nightmare: 0.9, phobia: 0.7, anxiety: 0.6, stress: 0.6, pressure: 0.5,
+      burden: 0.4, threat: 0.7,
+      // Idioms
+      'scared stiff': 0.9, 'on edge': 0.6, 'cold feet': 0.5, 'butterflies in my stomach': 0.5
+    },
+    surprise: {
+      surprised: 0.7, shocked: 0.9, astonished: 0.9, amazed: 0.8, stunned: 0.9, startled: 0.7,
+      bewildered: 0.5, perplexed: 0.5, confused: 0.5, puzzled: 0.5, baffled: 0.5, mystified: 0.5,
+      unexpected: 0.7, sudden: 0.5, abrupt: 0.5, unforeseen: 0.7, remarkable: 0.5,
+      extraordinary: 0.7, incredible: 0.8, unbelievable: 0.8, astounding: 1.0, 'mind-blowing': 1.0,
+      wow: 0.7, whoa: 0.7, gasped: 0.8, speechless: 0.8, thunderstruck: 1.0, flabbergasted: 1.0,
+      dumbfounded: 1.0,
+      // Idioms
+      'taken aback': 0.7, 'caught off guard': 0.7, 'out of the blue': 0.7, 'jaw dropped': 0.9
+    },
+    anticipation: {
+      excited: 0.8, eager: 0.8, hopeful: 0.6, optimistic: 0.6, expecting: 0.6, anticipating: 0.7,
+      'looking forward': 0.7, awaiting: 0.7, prepared: 0.6, ready: 0.6, planning: 0.6, future: 0.4,
+      tomorrow: 0.4, soon: 0.4, upcoming: 0.6, approaching: 0.6, imminent: 0.6, pending: 0.4,
+      prospect: 0.4, possibility: 0.4, potential: 0.4, opportunity: 0.6, chance: 0.4, maybe: 0.4,
+      curious: 0.6, interested: 0.6, intrigued: 0.6, wondering: 0.4, expectant: 0.7,
+      // Idioms
+      "can't wait": 0.9, 'cannot wait': 0.9, 'counting down': 0.7
+    },
+    trust: {
+      trust: 0.8, trusted: 0.8, trusting: 0.7, trustworthy: 0.8, reliable: 0.6, dependable: 0.6,
+      loyal: 0.8, loyalty: 0.8, faithful: 0.8, faith: 0.7, devoted: 0.8, honest: 0.6, sincere: 0.6,
+      supportive: 0.6, supported: 0.6, respect: 0.7, respected: 0.7, admire: 0.7, rely: 0.6,
+      secure: 0.5, safe: 0.5, confident: 0.5, believe: 0.5,
+      // Idioms
+      'count on': 0.7, 'believe in': 0.8, 'in good hands': 0.8
+    },
+    disgust: {
+      disgust: 0.9, disgusted: 0.9, disgusting: 0.9, revolted: 0.9, revolting: 0.9, repulsed: 0.9,
+      repulsive: 0.9, repugnant: 0.9, loathsome: 0.9, vile: 0.9, appalled: 0.8, sickening: 0.8,
+      nauseating: 0.8, nauseated: 0.7, gross: 0.7, nasty: 0.7, filthy: 0.7, foul: 0.7, yuck: 0.7,
+      distaste: 0.5,
+      // Idioms
+      'grossed out': 0.8, 'sick to my stomach': 0.8
+    }
+  },
+
+  clitics: { prefixes: [], suffixes: ["'s"] },
+
+  categoryKeywords: {
+    emotion: [
+      'happiness', 'sadness', 'anger', 'fear', 'surprise', 'disgust', 'joy', 'love',
+      'excitement', 'nervousness', 'anxiety', 'peace', 'stress', 'worry', 'confidence',
+      'hope', 'disappointment', 'frustration', 'contentment', 'loneliness', 'gratitude',
+      'emotion', 'emotional', 'feeling', 'mood', 'happy', 'sad', 'angry', 'hate', 'excited',
+      'nervous', 'calm', 'stressed', 'peaceful', 'worried', 'confident', 'anxious', 'hopeful',
+      'disappointed'
+    ],
+    time: [
+      'morning', 'afternoon', 'evening', 'night', 'yesterday', 'today', 'tomorrow',
+      'moment', 'instant', 'period', 'duration', 'schedule', 'deadline', 'appointment',
+      'meeting', 'event', 'occasion', 'anniversary', 'birthday', 'holiday', 'vacation',
+      'time', 'day', 'now', 'before', 'after', 'during', 'while', 'hour', 'minute', 'second',
+      'week', 'month', 'year', 'decade', 'century', 'future', 'past', 'present', 'recently',
+      'soon', 'later', 'early', 'late', 'weekend', 'season', 'summer', 'winter', 'spring', 'autumn'
+    ],
+    people: [
+      'relationship', 'friendship', 'partnership', 'marriage', 'romance', 'dating',
+      'conversation', 'communication', 'interaction', 'connection', 'bond', 'trust',
+      'support', 'care', 'love', 'respect', 'understanding', 'empathy', 'kindness',
+      'person', 'people', 'friend', 'family', 'someone', 'everyone', 'nobody', 'mother',
+      'father', 'parent', 'child', 'children', 'son', 'daughter', 'brother', 'sister',
+      'colleague', 'teammate', 'neighbor', 'stranger', 'community', 'group', 'individual',
+      'human', 'man', 'men', 'woman', 'women', 'boy', 'girl', 'adult', 'baby', 'elder',
+      'wife', 'husband', 'team', 'crowd', 'guest', 'doctor', 'nurse'
+    ],
+    places: [
+      'location', 'destination', 'journey', 'travel', 'exploration', 'adventure',
+      'environment', 'atmosphere', 'scenery', 'landscape', 'architecture', 'design',
+      'space', 'area', 'region', 'territory', 'boundary', 'distance', 'proximity',
+      'place', 'home', 'house', 'school', 'work', 'office', 'city', 'town', 'country',
+      'world', 'room', 'kitchen', 'bedroom', 'bathroom', 'garden', 'park', 'street', 'road',
+      'building', 'store', 'shop', 'restaurant', 'hospital', 'church', 'library', 'museum',
+      'beach', 'mountain', 'forest', 'lake', 'river', 'sea', 'ocean', 'island', 'village',
+      'university', 'college', 'station', 'airport', 'hotel', 'field', 'valley'
+    ],
+    actions: [
+      'activity', 'behavior', 'performance', 'execution', 'implementation', 'practice',
+      'exercise', 'training', 'skill', 'ability', 'talent', 'expertise', 'experience',
+      'effort', 'attempt', 'try', 'struggle', 'fight', 'compete', 'collaborate',
+      'did', 'doing', 'done', 'run', 'walk', 'think', 'create', 'build', 'make', 'write',
+      'read', 'speak', 'listen', 'see', 'watch', 'look', 'come', 'move', 'stop', 'start',
+      'finish', 'begin', 'end', 'work', 'play', 'learn', 'teach', 'help', 'give', 'take',
+      'bring', 'send', 'receive', 'buy', 'sell', 'eat', 'drink', 'sleep', 'wake', 'know',
+      'say', 'tell', 'ask', 'call', 'meet', 'leave', 'stay', 'wait', 'cook', 'dance', 'sing',
+      'swim', 'drive', 'climb', 'jump', 'fly'
+    ],
+    abstract: [
+      'concept', 'principle', 'theory', 'hypothesis', 'assumption', 'belief', 'opinion',
+      'perspective', 'viewpoint', 'attitude', 'approach', 'method', 'strategy', 'plan',
+      'goal', 'objective', 'purpose', 'meaning', 'significance', 'importance', 'value',
+      'idea', 'thought', 'dream', 'philosophy', 'solution', 'problem', 'challenge',
+      'opportunity', 'success', 'failure', 'progress', 'change', 'growth', 'development',
+      'improvement', 'achievement', 'memory', 'knowledge', 'wisdom', 'truth', 'justice',
+      'freedom', 'creativity', 'innovation', 'inspiration', 'motivation', 'determination',
+      'reason', 'question', 'answer', 'story', 'life', 'death'
+    ],
+    objects: [
+      'device', 'equipment', 'instrument', 'machine', 'appliance', 'gadget', 'technology',
+      'material', 'substance', 'product', 'creation', 'invention', 'design', 'structure',
+      'system', 'component', 'element', 'feature', 'characteristic', 'property',
+      'thing', 'object', 'item', 'tool', 'car', 'bike', 'phone', 'computer', 'laptop', 'book',
+      'paper', 'pen', 'table', 'chair', 'bed', 'door', 'window', 'light', 'food', 'water',
+      'money', 'clothes', 'shoes', 'bag', 'camera', 'music', 'movie', 'game', 'toy', 'gift',
+      'key', 'lock', 'box', 'bottle', 'cup', 'plate', 'spoon', 'fork', 'knife', 'letter',
+      'picture', 'photo', 'ticket', 'coffee', 'tea', 'bread', 'flower', 'tree', 'snow', 'rain'
+    ]
+  },
+
+  categorySuffixes: {
+    abstract: ['ness', 'ity', 'ism', 'ship', 'hood', 'dom'],
+    people: ['er', 'or', 'ian', 'ist']
+  },
+
+  partOfSpeechSuffixes: {
+    verb: ['ing', 'ed', 'ize', 'ise', 'ify'],
+    adj: ['ful', 'ous', 'ive', 'able', 'ible', 'less', 'ish', 'ical'],
+    adv: ['ly']
+  },
+
+  referenceFrequencies: [
+    [6.5, [
+      'know', 'like', 'just', 'get', 'good', 'think', 'new', 'time', 'people', 'make', 'want',
+      'see', 'say', 'really', 'right', 'back'
+    ]],
+    [6, [
+      'day', 'way', 'love', 'need', 'year', 'years', 'work', 'life', 'thing', 'things', 'man',
+      'world', 'great', 'little', 'better', 'best', 'long', 'feel', 'come', 'take', 'look',
+      'never', 'always', 'lot', 'sure', 'home', 'still', 'old', 'big', 'help', 'find', 'give',
+      'tell', 'call', 'try', 'use', 'start', 'night', 'place', 'part', 'bad', 'hard', 'end',
+      'play', 'high', 'game', 'money', 'school', 'family', 'friend', 'friends', 'house',
+      'again', 'also', 'even', 'only', 'there', 'here', 'now', 'other', 'another', 'something',
+      'nothing', 'everything', 'went', 'got', 'came', 'thought', 'told', 'felt', 'put', 'set'
+    ]],
+    [5.5, [
+      'city', 'week', 'today', 'morning', 'hand', 'head', 'kind', 'point', 'hope', 'happy',
+      'nice', 'real', 'free', 'full', 'change', 'story', 'music', 'book', 'idea', 'country',
+      'woman', 'women', 'men', 'child', 'children', 'car', 'water', 'food', 'mind', 'fact',
+      'problem', 'name', 'team', 'group', 'question', 'business', 'company', 'person', 'job',
+      'body', 'face', 'side', 'power', 'war', 'heart', 'eyes', 'word', 'words', 'open', 'read',
+      'write', 'run', 'walk', 'talk', 'live', 'believe', 'understand', 'learn', 'remember',
+      'move', 'watch', 'turn', 'stop', 'leave', 'stay', 'buy', 'pay', 'eat', 'sleep', 'party',
+      'town', 'room', 'door', 'phone', 'picture', 'office', 'government', 'news', 'case',
+      'system', 'program', 'law', 'public', 'health', 'mother', 'father', 'wife', 'husband',
+      'son', 'daughter', 'brother', 'sister', 'kids', 'girl', 'boy', 'baby', 'dog', 'movie',
+      'song', 'film', 'art', 'light', 'air', 'fire', 'sun', 'street', 'road', 'class', 'social',
+      'human', 'moment', 'reason', 'death', 'experience', 'matter'
+    ]],
+    [5, [
+      'future', 'history', 'nature', 'market', 'church', 'club', 'earth', 'sea', 'river', 'tree',
+      'fear', 'anger', 'joy', 'peace', 'truth', 'beauty', 'feeling', 'feelings', 'dream',
+      'dreams', 'memory', 'garden', 'window', 'table', 'chair', 'bed', 'paper', 'letter',
+      'computer', 'technology', 'science', 'data', 'information', 'research', 'energy', 'space',
+      'travel', 'trip', 'journey', 'rain', 'snow', 'coffee', 'tea', 'bread', 'hospital', 'doctor',
+      'teacher', 'student', 'students', 'career', 'success', 'failure', 'goal', 'plan', 'choice',
+      'decision', 'situation', 'relationship', 'conversation', 'meeting', 'event', 'birthday',
+      'holiday', 'weekend', 'summer', 'winter', 'spring', 'season', 'evening', 'afternoon',
+      'yesterday', 'tomorrow', 'mountain', 'ocean', 'island', 'beach', 'forest', 'lake',
+      'village', 'neighbor', 'stranger', 'community'
+    ]],
+    [4.5, [
+      'network', 'learning', 'machine', 'neural', 'climate', 'sadness', 'happiness', 'anxiety',
+      'courage', 'wisdom', 'freedom', 'justice', 'silence', 'darkness', 'loneliness', 'gratitude',
+      'kindness', 'creativity', 'curiosity', 'emotion', 'emotions', 'adventure', 'landscape',
+      'horizon', 'wilderness', 'meadow', 'valley', 'harbor', 'lantern', 'candle', 'blanket',
+      'umbrella', 'guitar', 'violin', 'poem', 'poetry', 'novel', 'philosophy', 'theory',
+      'principle', 'strategy', 'innovation', 'inspiration', 'motivation', 'determination',
+      'ambition', 'nostalgia', 'melancholy'
+    ]],
+    [4, [
+      'extraordinary', 'solitude', 'tranquility', 'resilience', 'perseverance', 'labyrinth'
+    ]]
+  ],
+
+  complexity: {
+    // Most common 1000 English words (simplified list)
+    commonWords: [
+      'the', 'a', 'to', 'and', 'of', 'in', 'i', 'you', 'it', 'have', 'be', 'on', 'for', 'do', 'say',
+      'this', 'they', 'is', 'an', 'at', 'but', 'we', 'his', 'from', 'that', 'not', 'by', 'she', 'or',
+      'as', 'what', 'go', 'their', 'can', 'who', 'get', 'if', 'would', 'her', 'all', 'my', 'make',
+      'about', 'know', 'will', 'as', 'up', 'one', 'time', 'has', 'been', 'there', 'year', 'so',
+      'think', 'when', 'which', 'them', 'some', 'me', 'people', 'take', 'out', 'into', 'just', 'see',
+      'him', 'your', 'come', 'could', 'now', 'than', 'like', 'other', 'how', 'then', 'its', 'our',
+      'two', 'more', 'these', 'want', 'way', 'look', 'first', 'also', 'new', 'because', 'day', 'more',
+      'use', 'no', 'man', 'find', 'here', 'thing', 'give', 'many', 'well', 'only', 'those', 'tell',
+      'very', 'her', 'even', 'back', 'any', 'good', 'woman', 'through', 'us', 'life', 'child', 'work',
+      'down', 'may', 'after', 'should', 'call', 'world', 'over', 'school', 'still', 'try', 'in', 'as',
+      'last', 'ask', 'need', 'too', 'feel', 'three', 'when', 'state', 'never', 'become', 'between',
+      'high', 'really', 'something', 'most', 'another', 'much', 'family', 'own', 'out', 'leave'
+    ],
+    // Complex/sophisticated words
+    complexWords: [
+      'sophisticated', 'implementation', 'consideration', 'fundamental', 'comprehensive', 'significance',
+      'extraordinary', 'revolutionary', 'unprecedented', 'phenomenal', 'magnificent', 'consequently',
+      'nevertheless', 'furthermore', 'elaborate', 'intricate', 'meticulous', 'substantial', 'considerable',
+      'remarkable', 'exceptional', 'outstanding', 'distinguished', 'prominent', 'inevitable', 'essential',
+      'critical', 'crucial', 'significant', 'substantial', 'extensive', 'comprehensive', 'thorough',
+      'elaborate', 'sophisticated', 'advanced', 'complex', 'intricate', 'detailed', 'specific',
+      'particular', 'individual', 'unique', 'distinct', 'separate', 'independent', 'autonomous',
+      'contemporary', 'modern', 'current', 'recent', 'latest', 'updated', 'revised', 'modified',
+      'alternative', 'optional', 'additional', 'supplementary', 'complementary', 'corresponding',
+      'equivalent', 'similar', 'comparable', 'analogous', 'parallel', 'related', 'associated',
+      'connected', 'linked', 'attached', 'combined', 'integrated', 'unified', 'consolidated'
+    ],
+    subordinators: [
+      'because', 'since', 'although', 'while', 'whereas', 'if', 'unless', 'until',
+      'before', 'after', 'when', 'where', 'which', 'that', 'who', 'whom'
+    ],
+    contrastMarkers: [
+      'but', 'however', 'although', 'despite', 'nevertheless', 'yet', 'still',
+      'on the other hand', 'at the same time', 'mixed feelings', 'torn between'
+    ],
+    emotionWords: [
+      'happy', 'sad', 'angry', 'fear', 'joy', 'love', 'hate', 'excited', 'nervous',
+      'calm', 'stressed', 'peaceful', 'worried', 'confident', 'anxious', 'hopeful',
+      'disappointed', 'frustrated', 'content', 'lonely', 'grateful', 'proud',
+      'embarrassed', 'ashamed', 'guilty', 'relieved', 'surprised', 'shocked',
+      'amazed', 'confused', 'curious', 'interested', 'bored', 'tired', 'energetic'
+    ],
+    complexEmotionWords: [
+      'melancholy', 'euphoric', 'despondent', 'elated', 'apprehensive', 'contemplative',
+      'nostalgic', 'bittersweet', 'ambivalent', 'conflicted', 'overwhelmed', 'underwhelmed',
+      'disillusioned', 'enlightened', 'empowered', 'vulnerable', 'resilient', 'determined'
+    ],
+    intensifiers: [
+      'extremely', 'incredibly', 'absolutely', 'completely', 'utterly', 'deeply',
+      'profoundly', 'intensely', 'overwhelmingly', 'exceptionally', 'remarkably'
+    ],
+    abstractIndicators: [
+      'concept', 'idea', 'theory', 'principle', 'philosophy', 'belief', 'thought', 'notion',
+      'understanding', 'knowledge', 'wisdom', 'meaning', 'purpose', 'significance', 'importance',
+      'value', 'quality', 'characteristic', 'nature', 'essence', 'reality', 'truth', 'fact',
+      'assumption', 'hypothesis', 'conclusion', 'inference', 'implication', 'consequence'
+    ],
+    technicalIndicators: [
+      'system', 'process', 'method', 'approach', 'technique', 'procedure', 'mechanism',
+      'function', 'operation', 'performance', 'efficiency', 'optimization', 'analysis',
+      'evaluation', 'assessment', 'measurement', 'calculation', 'computation', 'algorithm',
+      'structure', 'framework', 'architecture', 'design', 'implementation', 'development'
+    ],
+    abstractSuffixes: ['ness', 'ity', 'ism'],
+    technicalSuffixes: ['tion', 'sion', 'ment'],
+    actionSuffixes: ['ing', 'ed', 'en'],
+    descriptiveSuffixes: ['ly', 'ful', 'less', 'ous', 'ive', 'able']
+  }
+};
@@ -0,0 +1,278 @@
+import type { LanguagePack } from '../../types';
+
+export const SPANISH: LanguagePack = {
+  code: 'es',
+  name: 'Español',
+
+  profileText: `
+    La mañana estaba tranquila y la ciudad todavía dormía cuando ella bajó hasta el río.
+    Había estado pensando en lo que dijo su padre, que las cosas que amamos son las cosas
+    que más miedo nos da perder. No era la primera vez que lo escuchaba, pero esta vez le
+    pareció verdad. Habría otros días y otras oportunidades, y sabía que debía estar
+    agradecida por lo que tenía. Cuando la luz llegó sobre el agua, sonrió y volvió a casa.
+    Muchas personas piensan que la felicidad es algo que se encuentra, aunque se parece más
+    a una costumbre que hay que practicar cada día con la gente que nos rodea.
+  `,
+
+  stopwords: [
+    'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'y', 'o', 'pero', 'en', 'a', 'de',
+    'del', 'al', 'con', 'por', 'para', 'sin', 'sobre', 'entre', 'es', 'son', 'era', 'eran',
+    'fue', 'ser', 'estar', 'está', 'están', 'estaba', 'ha', 'han', 'había', 'hay', 'haber',
+    'que', 'qué', 'quien', 'quién', 'cual', 'cuál', 'cuando', 'donde', 'dónde', 'como',
+    'cómo', 'porque', 'si', 'sí', 'ya', 'muy', 'más', 'menos', 'tan', 'tanto', 'mucho',
+    'este', 'esta', 'estos', 'estas', 'ese', 'esa', 'esos', 'esas', 'aquel', 'aquella',
+    'yo', 'tú', 'él', 'ella', 'ello', 'nosotros', 'vosotros', 'ellos', 'ellas', 'usted',
+    'me', 'te', 'se', 'nos', 'os', 'le', 'les', 'lo', 'mi', 'mis', 'tu', 'tus', 'su', 'sus',
+    'nuestro', 'nuestra', 'todo', 'toda', 'todos', 'todas', 'algo', 'otro', 'otra', 'otros',
+    'también', 'aunque', 'pues', 'así', 'sólo', 'solo', 'cada', 'hasta', 'desde',
+    'soy', 'eres', 'somos', 'sois', 'sea', 'sean', 'sido', 'siendo', 'será', 'serán', 'sería',
+    'fueron', 'fui', 'estoy', 'estás', 'estamos', 'estáis', 'estaban', 'estado', 'estuvo', 'esté',
+    'he', 'has', 'hemos', 'habéis', 'habían', 'hubo', 'habrá', 'haya', 'tener', 'tengo', 'tiene',
+    'tienen', 'tenía', 'voy', 'va', 'vamos', 'van', 'iba', 'viene', 'vienen', 'e', 'u', 'sino',
+    'mientras', 'luego', 'además', 'hacia', 'contra', 'según', 'durante', 'tras',
+    'mí', 'ti', 'aquí', 'allí', 'ahí', 'esto', 'eso', 'aquello', 'aquellos', 'aquellas',
+    'nuestros', 'nuestras', 'vuestro', 'vuestra'
+  ],
+
+  negations: ['no', 'nunca', 'jamás', 'nada', 'nadie', 'ninguno', 'ninguna', 'ni', 'tampoco', 'sin'],
+  negationSuffixes: [],
+
+  intensifiers: {
+    muy: 1.5, muchísimo: 2.0, extremadamente: 2.0, increíblemente: 1.8, absolutamente: 1.7,
+    completamente: 1.6, totalmente: 1.5, realmente: 1.3, bastante: 1.2, demasiado: 1.4,
+    algo: 0.8, poco: 0.6, apenas: 0.4, sumamente: 1.9, especialmente: 1.4
+  },
+
+  adversatives: ['pero', 'sin embargo', 'no obstante', 'sino'],
+  concessives: ['aunque', 'a pesar de', 'pese a', 'si bien'],
+  additivePairs: [['no solo', 'sino también'], ['no sólo', 'sino también'], ['no solamente', 'sino también']],
+  targetMarkers: ['con', 'de', 'del', 'por', 'sobre', 'hacia', 'ante'],
+  sarcasmMarkers: [
+    'sí claro', 'ya claro', 'cómo no', 'gracias por nada', 'justo lo que necesitaba', 'menuda suerte',
+    'lo que faltaba', 'qué sorpresa'
+  ],
+  collocations: [
+    'aprendizaje automático', 'inteligencia artificial', 'cambio climático', 'redes sociales',
+    'medio ambiente', 'derechos humanos', 'salud mental', 'mejor amigo', 'mejor amiga', 'fin de semana'
+  ],
+  entities: {
+    gazetteer: {
+      PERSON: ['cervantes', 'picasso', 'goya', 'bolívar', 'frida kahlo', 'gabriel garcía márquez'],
+      PLACE: [
+        'madrid', 'barcelona', 'sevilla', 'valencia', 'buenos aires', 'ciudad de méxico', 'bogotá', 'lima',
+        'santiago', 'españa', 'méxico', 'argentina', 'colombia', 'chile', 'perú', 'europa', 'américa',
+        'estados unidos', 'francia', 'alemania', 'italia'
+      ],
+      ORG: ['naciones unidas', 'unión europea', 'cruz roja', 'google', 'microsoft', 'onu'],
+      DATE: [
+        'enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre',
+        'noviembre', 'diciembre', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado', 'domingo',
+        'navidad', 'semana santa', 'año nuevo'
+      ]
+    },
+    titles: ['señor', 'señora', 'señorita', 'sr', 'sra', 'don', 'doña', 'doctor', 'doctora', 'dr', 'dra', 'profesor', 'profesora', 'rey', 'reina', 'san', 'santa'],
+    organizationWords: ['universidad', 'empresa', 'compañía', 'banco', 'fundación', 'asociación', 'instituto', 'ministerio', 'partido', 'club'],
+    placeWords: ['ciudad', 'río', 'lago', 'monte', 'sierra', 'isla', 'playa', 'calle', 'avenida', 'plaza', 'parque', 'puente', 'estación'],
+    placePrepositions: ['en', 'desde', 'hacia', 'a'],
+    nameConnectors: ['de', 'del', 'la', 'los', 'las', 'y'],
+    capitalizedNouns: false,
+    lowercaseDates: true
+  },
+
+  emotionLexicon: {
+    joy: {
+      feliz: 0.8, felices: 0.8, alegre: 0.8, alegres: 0.8, alegría: 0.9, contento: 0.6,
+      contenta: 0.6, contentos: 0.6, encantado: 0.9, encantada: 0.9, maravilloso: 0.9,
+      maravillosa: 0.9, increíble: 0.8, genial: 0.8, fantástico: 0.9, fantástica: 0.9,
+      estupendo: 0.8, perfecto: 0.8, perfecta: 0.8, hermoso: 0.8, hermosa: 0.8, bonito: 0.6,
+      bonita: 0.6, amor: 0.9, amo: 0.8, quiero: 0.8, adoro: 0.9, celebrar: 0.8, éxito: 0.8,
+      victoria: 0.8, orgullo: 0.8, orgulloso: 0.8, orgullosa: 0.8, esperanza: 0.6, optimista: 0.6,
+      entusiasmado: 0.8, entusiasmada: 0.8, dicha: 1.0, felicidad: 0.9,
+      // Idioms
+      'en las nubes': 1.0, 'de buen humor': 0.6, 'como unas castañuelas': 1.0
+    },
+    sadness: {
+      triste: 0.8, tristes: 0.8, tristeza: 0.8, deprimido: 0.9, deprimida: 0.9, melancolía: 0.8,
+      decepcionado: 0.6, decepcionada: 0.6, dolor: 0.8, pena: 0.6, llorar: 0.8, lloro: 0.8,
+      llorando: 0.8, lágrimas: 0.8, solo: 0.6, sola: 0.6, soledad: 0.8, abandonado: 0.8,
+      abandonada: 0.8, perdido: 0.6, perdida: 0.6, desesperanza: 1.0, angustia: 1.0,
+      sufrimiento: 0.9, sufrir: 0.8, culpa: 0.8, vergüenza: 0.8, arrepentido: 0.8, luto: 1.0,
+      duelo: 1.0, infeliz: 0.6,
+      // Idioms
+      'de bajón': 0.6, 'corazón roto': 1.0, 'el alma en pena': 0.9
+    },
+    anger: {
+      enojado: 0.8, enojada: 0.8, enfadado: 0.8, enfadada: 0.8, furioso: 1.0, furiosa: 1.0,
+      rabia: 1.0, ira: 1.0, odio: 1.0, odiar: 0.9, molesto: 0.6, molesta: 0.6, irritado: 0.6,
+      irritada: 0.6, indignado: 0.9, indignada: 0.9, frustrado: 0.6, frustrada: 0.6, resentido: 0.8,
+      amargo: 0.8, harto: 0.6, harta: 0.6, cabreado: 0.9,
+      // Idioms
+      'hasta las narices': 0.9, 'de mal humor': 0.6, 'fuera de sí': 1.0
+    },
+    fear: {
+      miedo: 0.8, asustado: 0.8, asustada: 0.8, aterrado: 1.0, aterrada: 1.0, ansioso: 0.8,
+      ansiosa: 0.8, ansiedad: 0.8, preocupado: 0.6, preocupada: 0.6, nervioso: 0.6, nerviosa: 0.6,
+      pánico: 1.0, terror: 1.0, horror: 1.0, temor: 0.8, peligro: 0.8, peligroso: 0.8,
+      inseguro: 0.6, insegura: 0.6, estrés: 0.6, estresado: 0.6, amenaza: 0.8, pesadilla: 0.9,
+      // Idioms
+      'los pelos de punta': 1.0, 'el alma en vilo': 0.9
+    },
+    surprise: {
+      sorprendido: 0.7, sorprendida: 0.7, sorpresa: 0.7, asombrado: 0.9, asombrada: 0.9,
+      asombro: 0.7, impactado: 0.9, impactada: 0.9, inesperado: 0.7, inesperada: 0.7,
+      repentino: 0.5, increíble: 0.7, extraordinario: 0.7, confundido: 0.5, confundida: 0.5,
+      desconcertado: 0.5, atónito: 0.9, atónita: 0.9, guau: 0.7,
+      // Idioms
+      'con la boca abierta': 0.9, 'sin palabras': 0.9
+    },
+    anticipation: {
+      ansioso: 0.6, impaciente: 0.9, esperando: 0.6, espero: 0.6, listo: 0.6, lista: 0.6,
+      preparado: 0.6, preparada: 0.6, futuro: 0.4, mañana: 0.4, pronto: 0.4, próximo: 0.6,
+      próxima: 0.6, posibilidad: 0.4, oportunidad: 0.4, quizás: 0.4, quizá: 0.4, curioso: 0.6,
+      curiosa: 0.6, interesado: 0.6, interesada: 0.6, plan: 0.6, planes: 0.6,
+      // Idioms
+      'tengo ganas': 0.9, 'con ganas de': 0.7
+    },
+    trust: {
+      confianza: 0.8, confío: 0.8, confiar: 0.7, fiel: 0.8, leal: 0.8, lealtad: 0.8, honesto: 0.6,
+      honesta: 0.6, sincero: 0.6, sincera: 0.6, fiable: 0.6, apoyo: 0.6, respeto: 0.7, admiro: 0.7,
+      // Idioms
+      'cuento contigo': 0.8
+    },
+    disgust: {
+      asco: 0.9, asqueroso: 0.9, asquerosa: 0.9, asqueado: 0.9, asqueada: 0.9, repugnante: 0.9,
+      repugnancia: 0.9, nauseabundo: 0.8, desagradable: 0.6,
+      // Idioms
+      'me da asco': 0.9
+    }
+  },
+
+  clitics: { prefixes: [], suffixes: [] },
+
+  categoryKeywords: {
+    emotion: [
+      'felicidad', 'tristeza', 'ira', 'miedo', 'sorpresa', 'asco', 'alegría', 'amor', 'emoción',
+      'sentimiento', 'ansiedad', 'paz', 'estrés', 'esperanza', 'gratitud', 'soledad', 'odio'
+    ],
+    time: [
+      'mañana', 'tarde', 'noche', 'día', 'días', 'ayer', 'hoy', 'momento', 'hora', 'horas',
+      'semana', 'mes', 'año', 'años', 'futuro', 'pasado', 'presente', 'tiempo', 'cumpleaños',
+      'vacaciones', 'reunión', 'siempre', 'entonces', 'ahora'
+    ],
+    people: [
+      'persona', 'personas', 'gente', 'amigo', 'amiga', 'amigos', 'familia', 'madre', 'padre',
+      'padres', 'hijo', 'hija', 'hijos', 'hermano', 'hermana', 'niño', 'niña', 'hombre', 'mujer',
+      'vecino', 'compañero', 'compañera', 'pareja', 'relación', 'amistad', 'confianza'
+    ],
+    places: [
+      'casa', 'hogar', 'escuela', 'trabajo', 'oficina', 'ciudad', 'pueblo', 'país', 'mundo',
+      'habitación', 'cocina', 'jardín', 'parque', 'calle', 'camino', 'edificio', 'tienda',
+      'hospital', 'iglesia', 'playa', 'montaña', 'bosque', 'lago', 'río', 'mar', 'viaje', 'lugar'
+    ],
+    actions: [
+      'hacer', 'correr', 'caminar', 'pensar', 'crear', 'construir', 'escribir', 'leer', 'hablar',
+      'escuchar', 'mirar', 'ver', 'ir', 'venir', 'trabajar', 'jugar', 'aprender', 'enseñar',
+      'ayudar', 'dar', 'tomar', 'comer', 'beber', 'dormir', 'luchar', 'intentar', 'esfuerzo'
+    ],
+    abstract: [
+      'idea', 'concepto', 'pensamiento', 'sueño', 'creencia', 'filosofía', 'teoría', 'principio',
+      'valor', 'sentido', 'propósito', 'meta', 'objetivo', 'plan', 'estrategia', 'solución',
+      'problema', 'cambio', 'verdad', 'justicia', 'libertad', 'conocimiento', 'sabiduría', 'memoria'
+    ],
+    objects: [
+      'cosa', 'objeto', 'herramienta', 'coche', 'teléfono', 'ordenador', 'computadora', 'libro',
+      'papel', 'mesa', 'silla', 'cama', 'puerta', 'ventana', 'luz', 'comida', 'agua', 'dinero',
+      'ropa', 'música', 'película', 'juego', 'regalo', 'llave', 'caja', 'botella', 'máquina'
+    ]
+  },
+
+  categorySuffixes: {
+    abstract: ['dad', 'ción', 'sión', 'ismo', 'eza', 'encia', 'ancia'],
+    people: ['ista', 'ero', 'era', 'dor', 'dora']
+  },
+
+  partOfSpeechSuffixes: {
+    verb: ['ando', 'iendo', 'ar', 'er', 'ir'],
+    adj: ['oso', 'osa', 'ble', 'ivo', 'iva'],
+    adv: ['mente']
+  },
+
+  referenceFrequencies: [
+    [6.5, [
+      'ser', 'haber', 'estar', 'tener', 'hacer', 'poder', 'decir', 'ir', 'ver', 'dar', 'saber',
+      'querer', 'bien', 'todo', 'año', 'vez', 'día', 'tiempo'
+    ]],
+    [6, [
+      'vida', 'cosa', 'casa', 'mundo', 'hombre', 'mujer', 'gente', 'persona', 'amigo', 'amigos',
+      'familia', 'trabajo', 'parte', 'lugar', 'momento', 'noche', 'mañana', 'tarde', 'país',
+      'ciudad', 'forma', 'caso', 'hijo', 'hija', 'padre', 'madre', 'amor', 'nuevo', 'mejor',
+      'gran', 'grande', 'bueno'
+    ]],
+    [5.5, [
+      'agua', 'historia', 'semana', 'hora', 'horas', 'problema', 'idea', 'verdad', 'guerra',
+      'libro', 'música', 'escuela', 'nombre', 'calle', 'mano', 'cabeza', 'corazón', 'ojos',
+      'palabra', 'palabras', 'dinero', 'coche', 'comida', 'puerta', 'ventana', 'pueblo', 'niño',
+      'niña', 'hermano', 'hermana', 'esperanza', 'miedo', 'alegría', 'tristeza', 'felicidad',
+      'paz'
+    ]],
+    [5, [
+      'jardín', 'bosque', 'montaña', 'playa', 'río', 'mar', 'lago', 'viaje', 'sueño', 'sueños',
+      'memoria', 'libertad', 'justicia', 'belleza', 'soledad', 'silencio', 'cambio', 'futuro',
+      'pasado', 'presente', 'naturaleza', 'ciencia', 'tecnología'
+    ]],
+    [4.5, [
+      'nostalgia', 'melancolía', 'ternura', 'gratitud', 'ansiedad', 'creatividad', 'sabiduría',
+      'aventura', 'paisaje', 'horizonte', 'poesía', 'filosofía'
+    ]]
+  ],
+
+  complexity: {
+    commonWords: [
+      'el', 'la', 'de', 'que', 'y', 'a', 'en', 'un', 'ser', 'se', 'no', 'haber', 'por', 'con',
+      'su', 'para', 'como', 'estar', 'tener', 'le', 'lo', 'todo', 'pero', 'más', 'hacer', 'o',
+      'poder', 'decir', 'este', 'ir', 'otro', 'ese', 'si', 'me', 'ya', 'ver', 'porque', 'dar',
+      'cuando', 'él', 'muy', 'sin', 'vez', 'mucho', 'saber', 'qué', 'sobre', 'mi', 'alguno',
+      'mismo', 'yo', 'también', 'hasta', 'año', 'dos', 'querer', 'entre', 'así', 'primero',
+      'desde', 'grande', 'eso', 'ni', 'nos', 'llegar', 'pasar', 'tiempo', 'ella', 'sí', 'día',
+      'uno', 'bien', 'poco', 'deber', 'entonces', 'poner', 'cosa', 'tanto', 'hombre', 'parecer'
+    ],
+    complexWords: [
+      'sofisticado', 'fundamental', 'exhaustivo', 'extraordinario', 'revolucionario',
+      'consecuentemente', 'no obstante', 'asimismo', 'meticuloso', 'considerable', 'inevitable',
+      'esencial', 'crucial', 'significativo', 'complejo', 'contemporáneo', 'alternativo'
+    ],
+    subordinators: [
+      'porque', 'aunque', 'mientras', 'si', 'cuando', 'donde', 'que', 'quien', 'cual',
+      'hasta', 'antes', 'después', 'pues', 'como'
+    ],
+    contrastMarkers: [
+      'pero', 'sin embargo', 'aunque', 'a pesar de', 'no obstante', 'aun así', 'todavía',
+      'por otro lado', 'al mismo tiempo', 'sentimientos encontrados'
+    ],
+    emotionWords: [
+      'feliz', 'triste', 'enojado', 'miedo', 'alegría', 'amor', 'odio', 'nervioso', 'tranquilo',
+      'preocupado', 'ansioso', 'decepcionado', 'frustrado', 'contento', 'solo', 'agradecido',
+      'orgulloso', 'avergonzado', 'sorprendido', 'confundido', 'curioso', 'aburrido', 'cansado'
+    ],
+    complexEmotionWords: [
+      'melancólico', 'eufórico', 'nostálgico', 'agridulce', 'ambivalente', 'abrumado',
+      'desilusionado', 'vulnerable', 'resiliente', 'decidido'
+    ],
+    intensifiers: [
+      'extremadamente', 'increíblemente', 'absolutamente', 'completamente', 'profundamente',
+      'intensamente', 'sumamente', 'muchísimo'
+    ],
+    abstractIndicators: [
+      'concepto', 'idea', 'teoría', 'principio', 'filosofía', 'creencia', 'pensamiento',
+      'conocimiento', 'sabiduría', 'significado', 'propósito', 'valor', 'verdad', 'realidad'
+    ],
+    technicalIndicators: [
+      'sistema', 'proceso', 'método', 'técnica', 'procedimiento', 'mecanismo', 'función',
+      'análisis', 'evaluación', 'estructura', 'algoritmo', 'diseño', 'desarrollo'
+    ],
+    abstractSuffixes: ['dad', 'ismo', 'eza'],
+    technicalSuffixes: ['ción', 'sión', 'miento'],
+    actionSuffixes: ['ando', 'iendo', 'ado', 'ido'],
+    descriptiveSuffixes: ['mente', 'oso', 'osa', 'ble', 'ivo', 'iva']
+  }
+};
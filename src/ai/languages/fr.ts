@@ -0,0 +1,276 @@
+import type { LanguagePack } from '../../types';
+
+export const FRENCH: LanguagePack = {
+  code: 'fr',
+  name: 'Français',
+
+  profileText: `
+    Le matin était calme et la ville dormait encore quand elle est descendue vers la rivière.
+    Elle pensait à ce que son père avait dit, que les choses que nous aimons sont celles que
+    nous avons le plus peur de perdre. Ce n'était pas la première fois qu'elle l'entendait,
+    mais cette fois cela lui semblait vrai. Il y aurait d'autres jours et d'autres chances,
+    et elle savait qu'elle devait être reconnaissante pour ce qu'elle avait. Quand la lumière
+    est arrivée sur l'eau, elle a souri et elle est rentrée chez elle. Beaucoup de gens pensent
+    que le bonheur est quelque chose que l'on trouve, alors qu'il ressemble plutôt à une
+    habitude qu'il faut pratiquer chaque jour avec les personnes qui nous entourent.
+  `,
+
+  stopwords: [
+    'le', 'la', 'les', 'un', 'une', 'des', 'du', 'de', 'et', 'ou', 'mais', 'donc', 'car', 'ni',
+    'en', 'à', 'au', 'aux', 'dans', 'sur', 'sous', 'avec', 'sans', 'pour', 'par', 'chez',
+    'est', 'sont', 'était', 'étaient', 'être', 'été', 'avoir', 'ai', 'as', 'avait', 'ont',
+    'que', 'qui', 'quoi', 'dont', 'où', 'quand', 'comme', 'si', 'ce', 'cet', 'cette', 'ces',
+    'je', 'tu', 'il', 'elle', 'on', 'nous', 'vous', 'ils', 'elles', 'me', 'te', 'se', 'lui',
+    'leur', 'leurs', 'mon', 'ma', 'mes', 'ton', 'ta', 'tes', 'son', 'sa', 'ses', 'notre',
+    'votre', 'nos', 'vos', 'y', 'ne', 'pas', 'plus', 'très', 'tout', 'tous', 'toute',
+    'toutes', 'aussi', 'bien', 'encore', 'alors', 'cela', 'ça', 'celle', 'celui', 'même',
+    'suis', 'es', 'sommes', 'êtes', 'étais', 'étions', 'sera', 'seront', 'serait', 'soit', 'fut',
+    'a', 'avons', 'avez', 'avais', 'avaient', 'aura', 'auront', 'aurait', 'eu', 'vais', 'vas',
+    'va', 'allons', 'vont', 'vient', 'viens', 'parce', 'puis', 'lorsque', 'puisque', 'tandis',
+    'pendant', 'depuis', 'vers', 'entre', 'avant', 'après', 'contre', 'selon', 'moi', 'toi',
+    'eux', 'ceci', 'ceux', 'celles', 'ici', 'là', 'quel', 'quelle', 'quels', 'quelles', 'chaque'
+  ],
+
+  negations: ['ne', "n'", 'pas', 'jamais', 'rien', 'personne', 'aucun', 'aucune', 'ni', 'sans', 'guère', 'non'],
+  negationSuffixes: [],
+
+  intensifiers: {
+    très: 1.5, extrêmement: 2.0, incroyablement: 1.8, absolument: 1.7, complètement: 1.6,
+    totalement: 1.5, vraiment: 1.3, assez: 1.2, trop: 1.4, plutôt: 1.1,
+    légèrement: 0.6, peu: 0.6, profondément: 1.8, particulièrement: 1.4
+  },
+
+  adversatives: ['mais', 'cependant', 'pourtant', 'toutefois', 'néanmoins'],
+  concessives: ['bien que', "bien qu'", 'quoique', "quoiqu'", 'malgré', 'même si'],
+  additivePairs: [['non seulement', 'mais aussi'], ['non seulement', 'mais également']],
+  targetMarkers: ['de', "d'", 'du', 'des', 'contre', 'pour', 'par', 'envers', 'sur'],
+  sarcasmMarkers: [
+    'mais bien sûr', 'tu parles', 'merci du cadeau', 'la belle affaire', 'comme par hasard',
+    "c'est du joli", 'quelle surprise'
+  ],
+  collocations: [
+    'apprentissage automatique', 'intelligence artificielle', 'réseaux sociaux', 'changement climatique',
+    "droits de l'homme", 'santé mentale', 'meilleur ami', 'meilleure amie', 'fin de semaine', 'pomme de terre'
+  ],
+  entities: {
+    gazetteer: {
+      PERSON: ['molière', 'victor hugo', 'napoléon', 'voltaire', 'rousseau', 'balzac'],
+      PLACE: [
+        'paris', 'lyon', 'marseille', 'bordeaux', 'toulouse', 'nice', 'bruxelles', 'genève', 'montréal',
+        'québec', 'france', 'belgique', 'suisse', 'canada', 'europe', 'afrique', 'espagne', 'allemagne',
+        'italie', 'états-unis', 'royaume-uni'
+      ],
+      ORG: ['nations unies', 'union européenne', 'croix-rouge', 'sncf', 'onu', 'google', 'microsoft'],
+      DATE: [
+        'janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre',
+        'novembre', 'décembre', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi', 'dimanche',
+        'noël', 'pâques', 'nouvel an'
+      ]
+    },
+    titles: ['monsieur', 'madame', 'mademoiselle', 'm', 'mme', 'mlle', 'docteur', 'dr', 'professeur', 'roi', 'reine', 'saint', 'sainte'],
+    organizationWords: ['université', 'entreprise', 'société', 'banque', 'fondation', 'association', 'institut', 'ministère', 'parti', 'club'],
+    placeWords: ['tour', 'château', 'musée', 'ville', 'fleuve', 'rivière', 'lac', 'mont', 'île', 'plage', 'rue', 'avenue', 'boulevard', 'place', 'parc', 'pont', 'gare'],
+    placePrepositions: ['à', 'en', 'depuis', 'vers'],
+    nameConnectors: ['de', 'du', 'des', 'la', 'le', "d'", 'et'],
+    capitalizedNouns: false,
+    lowercaseDates: true
+  },
+
+  emotionLexicon: {
+    joy: {
+      heureux: 0.8, heureuse: 0.8, heureuses: 0.8, joie: 0.9, joyeux: 0.8, joyeuse: 0.8,
+      content: 0.6, contente: 0.6, ravi: 0.9, ravie: 0.9, merveilleux: 0.9, merveilleuse: 0.9,
+      génial: 0.8, géniale: 0.8, fantastique: 0.9, parfait: 0.8, parfaite: 0.8, beau: 0.8,
+      belle: 0.8, magnifique: 0.8, amour: 0.9, aime: 0.8, aimer: 0.8, adore: 0.9, célébrer: 0.8,
+      succès: 0.8, victoire: 0.8, fierté: 0.8, fier: 0.8, fière: 0.8, espoir: 0.6, optimiste: 0.6,
+      enthousiaste: 0.8, bonheur: 0.9, sourire: 0.6, souri: 0.6,
+      // Idioms
+      'aux anges': 1.0, 'sur un petit nuage': 1.0, 'de bonne humeur': 0.6
+    },
+    sadness: {
+      triste: 0.8, tristes: 0.8, tristesse: 0.8, déprimé: 0.9, déprimée: 0.9, mélancolie: 0.8,
+      déçu: 0.6, déçue: 0.6, douleur: 0.8, peine: 0.6, chagrin: 1.0, pleurer: 0.8, pleure: 0.8,
+      larmes: 0.8, seul: 0.6, seule: 0.6, solitude: 0.8, abandonné: 0.8, abandonnée: 0.8,
+      perdu: 0.6, perdue: 0.6, désespoir: 1.0, angoisse: 1.0, souffrance: 0.9, souffrir: 0.8,
+      regret: 0.8, culpabilité: 0.8, honte: 0.8, deuil: 1.0, malheureux: 0.8, malheureuse: 0.8,
+      // Idioms
+      'le cafard': 0.6, 'cœur brisé': 1.0, 'le moral à zéro': 0.9
+    },
+    anger: {
+      colère: 0.8, fâché: 0.8, fâchée: 0.8, furieux: 1.0, furieuse: 1.0, rage: 1.0, haine: 1.0,
+      déteste: 0.9, détester: 0.9, énervé: 0.6, énervée: 0.6, irrité: 0.6, irritée: 0.6,
+      indigné: 0.9, indignée: 0.9, frustré: 0.6, frustrée: 0.6, rancune: 0.8, amer: 0.8, amère: 0.8,
+      agacé: 0.6, agacée: 0.6, marre: 0.6,
+      // Idioms
+      'hors de moi': 1.0, 'hors de lui': 1.0, 'de mauvaise humeur': 0.6, 'ras le bol': 0.6
+    },
+    fear: {
+      peur: 0.8, effrayé: 0.8, effrayée: 0.8, terrifié: 1.0, terrifiée: 1.0, anxieux: 0.8,
+      anxieuse: 0.8, anxiété: 0.8, inquiet: 0.6, inquiète: 0.6, inquiétude: 0.6, nerveux: 0.6,
+      nerveuse: 0.6, panique: 1.0, terreur: 1.0, horreur: 1.0, crainte: 0.8, danger: 0.8,
+      dangereux: 0.8, menace: 0.8, cauchemar: 0.9, stress: 0.6, stressé: 0.6, stressée: 0.6,
+      // Idioms
+      'la trouille': 0.9, 'la chair de poule': 0.6
+    },
+    surprise: {
+      surpris: 0.7, surprise: 0.7, étonné: 0.7, étonnée: 0.7, étonnement: 0.7, stupéfait: 0.9,
+      stupéfaite: 0.9, choqué: 0.9, choquée: 0.9, inattendu: 0.7, inattendue: 0.7, soudain: 0.5,
+      soudaine: 0.5, incroyable: 0.7, extraordinaire: 0.7, confus: 0.5, confuse: 0.5, perplexe: 0.5,
+      abasourdi: 0.9, abasourdie: 0.9,
+      // Idioms
+      'bouche bée': 0.9, 'tombé des nues': 0.9
+    },
+    anticipation: {
+      impatient: 0.9, impatiente: 0.9, attendre: 0.6, attends: 0.6, espère: 0.6, espérer: 0.6,
+      prêt: 0.6, prête: 0.6, préparé: 0.6, préparée: 0.6, avenir: 0.4, futur: 0.4, demain: 0.4,
+      bientôt: 0.4, prochain: 0.6, prochaine: 0.6, possibilité: 0.4, occasion: 0.4, chance: 0.4,
+      'peut-être': 0.4, curieux: 0.6, curieuse: 0.6, intéressé: 0.6, intéressée: 0.6, projet: 0.6,
+      projets: 0.6,
+      // Idioms
+      'ai hâte': 0.9, 'avoir hâte': 0.9
+    },
+    trust: {
+      confiance: 0.8, fidèle: 0.8, loyal: 0.8, loyale: 0.8, loyauté: 0.8, honnête: 0.6,
+      sincère: 0.6, fiable: 0.6, soutien: 0.6, respect: 0.7, admire: 0.7,
+      // Idioms
+      'compter sur': 0.7
+    },
+    disgust: {
+      dégoût: 0.9, dégoûté: 0.9, dégoûtée: 0.9, dégoûtant: 0.9, dégoûtante: 0.9, répugnant: 0.9,
+      répugnante: 0.9, immonde: 0.9, écœurant: 0.8, écœuré: 0.8, beurk: 0.7,
+      // Idioms
+      'envie de vomir': 0.8
+    }
+  },
+
+  // l'amour → amour, qu'elle → elle
+  clitics: {
+    prefixes: ["l'", "d'", "j'", "m'", "t'", "s'", "n'", "c'", "qu'", "jusqu'", "lorsqu'", "puisqu'"],
+    suffixes: []
+  },
+
+  categoryKeywords: {
+    emotion: [
+      'bonheur', 'tristesse', 'colère', 'peur', 'surprise', 'dégoût', 'joie', 'amour', 'émotion',
+      'sentiment', 'anxiété', 'paix', 'stress', 'espoir', 'gratitude', 'solitude', 'haine'
+    ],
+    time: [
+      'matin', 'après-midi', 'soir', 'nuit', 'jour', 'jours', 'hier', "aujourd'hui", 'demain',
+      'moment', 'heure', 'heures', 'semaine', 'mois', 'an', 'année', 'années', 'avenir', 'passé',
+      'présent', 'temps', 'anniversaire', 'vacances', 'réunion', 'toujours', 'maintenant'
+    ],
+    people: [
+      'personne', 'personnes', 'gens', 'ami', 'amie', 'amis', 'famille', 'mère', 'père',
+      'parents', 'fils', 'fille', 'enfant', 'enfants', 'frère', 'sœur', 'homme', 'femme',
+      'voisin', 'voisine', 'collègue', 'couple', 'relation', 'amitié', 'confiance'
+    ],
+    places: [
+      'maison', 'foyer', 'école', 'travail', 'bureau', 'ville', 'village', 'pays', 'monde',
+      'chambre', 'cuisine', 'jardin', 'parc', 'rue', 'route', 'chemin', 'bâtiment', 'magasin',
+      'hôpital', 'église', 'plage', 'montagne', 'forêt', 'lac', 'rivière', 'mer', 'voyage', 'lieu'
+    ],
+    actions: [
+      'faire', 'courir', 'marcher', 'penser', 'créer', 'construire', 'écrire', 'lire', 'parler',
+      'écouter', 'regarder', 'voir', 'aller', 'venir', 'travailler', 'jouer', 'apprendre',
+      'enseigner', 'aider', 'donner', 'prendre', 'manger', 'boire', 'dormir', 'lutter', 'effort'
+    ],
+    abstract: [
+      'idée', 'concept', 'pensée', 'rêve', 'croyance', 'philosophie', 'théorie', 'principe',
+      'valeur', 'sens', 'but', 'objectif', 'plan', 'stratégie', 'solution', 'problème',
+      'changement', 'vérité', 'justice', 'liberté', 'connaissance', 'sagesse', 'mémoire', 'habitude'
+    ],
+    objects: [
+      'chose', 'objet', 'outil', 'voiture', 'téléphone', 'ordinateur', 'livre', 'papier',
+      'table', 'chaise', 'lit', 'porte', 'fenêtre', 'lumière', 'nourriture', 'eau', 'argent',
+      'vêtements', 'musique', 'film', 'jeu', 'cadeau', 'clé', 'boîte', 'bouteille', 'machine'
+    ]
+  },
+
+  categorySuffixes: {
+    abstract: ['té', 'tion', 'sion', 'isme', 'ence', 'ance', 'esse'],
+    people: ['eur', 'euse', 'iste', 'ien', 'ienne']
+  },
+
+  partOfSpeechSuffixes: {
+    verb: ['ant', 'er', 'ir'],
+    adj: ['eux', 'euse', 'ible', 'able', 'if', 'ive'],
+    adv: ['ment']
+  },
+
+  referenceFrequencies: [
+    [6.5, [
+      'être', 'avoir', 'faire', 'dire', 'aller', 'voir', 'savoir', 'pouvoir', 'vouloir', 'venir',
+      'bien', 'tout', 'temps', 'jour', 'an', 'ans', 'fois'
+    ]],
+    [6, [
+      'vie', 'chose', 'maison', 'monde', 'homme', 'femme', 'gens', 'personne', 'ami', 'amis',
+      'famille', 'travail', 'partie', 'lieu', 'moment', 'nuit', 'matin', 'soir', 'pays', 'ville',
+      'enfant', 'fils', 'fille', 'père', 'mère', 'amour', 'nouveau', 'meilleur', 'grand', 'bon'
+    ]],
+    [5.5, [
+      'eau', 'histoire', 'semaine', 'heure', 'heures', 'problème', 'idée', 'vérité', 'guerre',
+      'livre', 'musique', 'école', 'nom', 'rue', 'main', 'tête', 'cœur', 'yeux', 'mot', 'mots',
+      'argent', 'voiture', 'porte', 'fenêtre', 'village', 'frère', 'sœur', 'espoir', 'peur',
+      'joie', 'tristesse', 'bonheur', 'paix'
+    ]],
+    [5, [
+      'jardin', 'forêt', 'montagne', 'plage', 'rivière', 'mer', 'lac', 'voyage', 'rêve', 'rêves',
+      'mémoire', 'liberté', 'justice', 'beauté', 'solitude', 'silence', 'changement', 'avenir',
+      'passé', 'présent', 'nature', 'science', 'technologie'
+    ]],
+    [4.5, [
+      'nostalgie', 'mélancolie', 'tendresse', 'gratitude', 'angoisse', 'créativité', 'sagesse',
+      'aventure', 'paysage', 'horizon', 'poésie', 'philosophie'
+    ]]
+  ],
+
+  complexity: {
+    commonWords: [
+      'le', 'de', 'un', 'être', 'et', 'à', 'il', 'avoir', 'ne', 'je', 'son', 'que', 'se', 'qui',
+      'ce', 'dans', 'en', 'du', 'elle', 'au', 'pour', 'pas', 'vous', 'par', 'sur', 'faire',
+      'plus', 'dire', 'me', 'on', 'mon', 'lui', 'nous', 'comme', 'mais', 'pouvoir', 'avec',
+      'tout', 'y', 'aller', 'voir', 'en', 'bien', 'où', 'sans', 'tu', 'ou', 'leur', 'homme',
+      'si', 'deux', 'mari', 'moi', 'vouloir', 'te', 'femme', 'venir', 'quand', 'grand', 'celui',
+      'notre', 'devoir', 'là', 'jour', 'prendre', 'même', 'votre', 'rien', 'petit', 'encore',
+      'aussi', 'quelque', 'dont', 'tout', 'mer', 'trouver', 'donner', 'temps', 'ça', 'peu'
+    ],
+    complexWords: [
+      'sophistiqué', 'fondamental', 'exhaustif', 'extraordinaire', 'révolutionnaire',
+      'néanmoins', 'toutefois', 'méticuleux', 'considérable', 'inévitable', 'essentiel',
+      'crucial', 'significatif', 'complexe', 'contemporain', 'alternatif'
+    ],
+    subordinators: [
+      'parce', 'puisque', 'bien', 'lorsque', 'quand', 'si', 'que', 'qui', 'dont', 'où',
+      'avant', 'après', 'tandis', 'comme', 'lequel', 'laquelle'
+    ],
+    contrastMarkers: [
+      'mais', 'cependant', 'pourtant', 'bien que', 'malgré', 'néanmoins', 'toutefois',
+      'encore', "d'un autre côté", 'en même temps', 'sentiments mitigés'
+    ],
+    emotionWords: [
+      'heureux', 'triste', 'fâché', 'peur', 'joie', 'amour', 'haine', 'nerveux', 'calme',
+      'inquiet', 'anxieux', 'déçu', 'frustré', 'content', 'seul', 'reconnaissant', 'fier',
+      'honteux', 'surpris', 'confus', 'curieux', 'ennuyé', 'fatigué'
+    ],
+    complexEmotionWords: [
+      'mélancolique', 'euphorique', 'nostalgique', 'doux-amer', 'ambivalent', 'submergé',
+      'désabusé', 'vulnérable', 'résilient', 'déterminé'
+    ],
+    intensifiers: [
+      'extrêmement', 'incroyablement', 'absolument', 'complètement', 'profondément',
+      'intensément', 'terriblement'
+    ],
+    abstractIndicators: [
+      'concept', 'idée', 'théorie', 'principe', 'philosophie', 'croyance', 'pensée',
+      'connaissance', 'sagesse', 'signification', 'but', 'valeur', 'vérité', 'réalité'
+    ],
+    technicalIndicators: [
+      'système', 'processus', 'méthode', 'technique', 'procédure', 'mécanisme', 'fonction',
+      'analyse', 'évaluation', 'structure', 'algorithme', 'conception', 'développement'
+    ],
+    abstractSuffixes: ['té', 'isme', 'esse'],
+    technicalSuffixes: ['tion', 'sion', 'ment'],
+    actionSuffixes: ['ant', 'é', 'ée'],
+    descriptiveSuffixes: ['ment', 'eux', 'euse', 'able', 'ible', 'if', 'ive']
+  }
+};
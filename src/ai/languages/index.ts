@@ -0,0 +1,45 @@
+import type { LanguageCode, LanguagePack } from '../../types';
+import { ENGLISH } from './en';
+import { SPANISH } from './es';
+import { FRENCH } from './fr';
+import { GERMAN } from './de';
+
+export const LANGUAGE_PACKS: Record<LanguageCode, LanguagePack> = {
+  en: ENGLISH,
+  es: SPANISH,
+  fr: FRENCH,
+  de: GERMAN
+};
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+// Bump when a pack's word lists change; cached analyses are keyed to it
+export const LEXICON_VERSION = 9;
+
+export function getLanguagePack(language: LanguageCode = DEFAULT_LANGUAGE): LanguagePack {
+  return LANGUAGE_PACKS[language] ?? LANGUAGE_PACKS[DEFAULT_LANGUAGE];
+}
+
+// Split elided articles/pronouns ("l'amour", "n'aime") and possessives
+// ("juliet's") off a normalized token
+export function splitClitics(word: string, pack: LanguagePack): { word: string; prefix: string | null } {
+  let prefix: string | null = null;
+  let stem = word;
+
+  for (const candidate of pack.clitics.prefixes) {
+    if (stem.startsWith(candidate) && stem.length > candidate.length) {
+      prefix = candidate;
+      stem = stem.slice(candidate.length);
+      break;
+    }
+  }
+
+  for (const suffix of pack.clitics.suffixes) {
+    if (stem.endsWith(suffix) && stem.length > suffix.length) {
+      stem = stem.slice(0, -suffix.length);
+      break;
+    }
+  }
+
+  return { word: stem, prefix };
+}
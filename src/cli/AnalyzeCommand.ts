@@ -0,0 +1,337 @@
+import { TextAnalyzer } from '../ai/TextAnalyzer';
+import { serializeAnalysisResult } from '../core/Serialization';
+import { LANGUAGE_PACKS } from '../ai/languages';
+import { EnsembleSentimentBackend, LexiconSentimentBackend } from '../ai/SentimentBackends';
+import { TfjsSentimentBackend } from '../ai/TfjsSentimentBackend';
+import type {
+  AnalysisResult,
+  AnalyzeOptions,
+  LanguageCode,
+  ModelFileReader,
+  NeuralEchoError,
+  ScalingType
+} from '../types';
+import { SCALING_THRESHOLDS } from '../types';
+
+export type OutputFormat = 'json' | 'ndjson' | 'summary';
+export type SentimentMode = 'lexicon' | 'model' | 'ensemble';
+
+export interface AnalyzeCommandOptions {
+  inputs: string[]; // Files, directories or '-' for stdin
+  format: OutputFormat;
+  useCache: boolean;
+  strategy?: ScalingType;
+  language?: LanguageCode;
+  sentiment: SentimentMode;
+  model?: string; // Sentiment model directory, for the model and ensemble modes
+  output?: string; // A file for one input, a directory for several
+  verbose: boolean;
+  help: boolean;
+}
+
+export interface CliDocument {
+  source: string; // Path as given (or "-")
+  name: string; // Output name without extension, relative to the output directory
+  text: string;
+}
+
+export interface AnalysisRecord {
+  paragraph?: number;
+  start?: number;
+  result: AnalysisResult;
+}
+
+export interface DocumentAnalysis {
+  document: CliDocument;
+  records: AnalysisRecord[];
+}
+
+export interface CliFailure {
+  source: string;
+  message: string;
+}
+
+export interface AnalyzeReport {
+  analyses: DocumentAnalysis[];
+  failures: CliFailure[];
+}
+
+export const OUTPUT_EXTENSIONS: Record<OutputFormat, string> = {
+  json: '.json',
+  ndjson: '.ndjson',
+  summary: '.txt'
+};
+
+export const USAGE = `Usage: neural-echo analyze <file|directory|->... [options]
+
+Analyzes text files (or stdin with "-") and prints the analysis.
+Directories are searched recursively for .txt and .md files.
+
+Options:
+  -f, --format <json|ndjson|summary>  Output format (default: summary)
+                                      ndjson writes one line per paragraph
+  -o, --output <path>                 Write to a file (one input) or directory (several)
+  -s, --strategy <type>               Force a scaling strategy, e.g. medium_standard
+  -l, --language <${Object.keys(LANGUAGE_PACKS).join('|')}>          Skip language detection
+      --sentiment <lexicon|model|ensemble>
+                                      Sentiment scorer (default: lexicon); ensemble
+                                      averages the lexicon and the model
+      --model <dir>                   TensorFlow.js sentiment model directory
+                                      (docs/SENTIMENT_MODEL_FORMAT.md)
+      --no-cache                      Always re-analyze
+  -v, --verbose                       Show analyzer logs on stderr
+  -h, --help                          Show this help
+
+Exit codes: 0 success, 1 analysis or read error, 2 invalid arguments`;
+
+const FORMATS: OutputFormat[] = ['json', 'ndjson', 'summary'];
+const SENTIMENT_MODES: SentimentMode[] = ['lexicon', 'model', 'ensemble'];
+const STRATEGIES = Object.values(SCALING_THRESHOLDS).map(threshold => threshold.strategy as ScalingType);
+
+export function createUsageError(message: string): NeuralEchoError {
+  const error = new Error(message) as NeuralEchoError;
+  error.code = 'CLI_USAGE_INVALID';
+  error.component = 'NeuralEchoCLI';
+  error.recoverable = false;
+  return error;
+}
+
+export function isUsageError(error: unknown): error is NeuralEchoError {
+  return error instanceof Error && (error as NeuralEchoError).code === 'CLI_USAGE_INVALID';
+}
+
+// argv without the node/script prefix, e.g. ['analyze', 'draft.md', '--format', 'json']
+export function parseAnalyzeArgs(argv: string[]): AnalyzeCommandOptions {
+  const options: AnalyzeCommandOptions = {
+    inputs: [],
+    format: 'summary',
+    useCache: true,
+    sentiment: 'lexicon',
+    verbose: false,
+    help: false
+  };
+
+  const [command, ...rest] = argv;
+  if (command === undefined || command === '-h' || command === '--help') {
+    return { ...options, help: true };
+  }
+  if (command !== 'analyze') {
+    throw createUsageError(`Unknown command "${command}"`);
+  }
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+
+    if (arg === '-' || !arg.startsWith('-')) {
+      options.inputs.push(arg);
+      continue;
+    }
+
+    // --name=value and --name value are both accepted
+    const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined];
+    const value = (): string => {
+      const next = inlineValue ?? rest[++i];
+      if (next === undefined) {
+        throw createUsageError(`Missing value for ${flag}`);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case '-f':
+      case '--format': {
+        const format = value();
+        if (!FORMATS.includes(format as OutputFormat)) {
+          throw createUsageError(`Unknown format "${format}" (expected ${FORMATS.join(', ')})`);
+        }
+        options.format = format as OutputFormat;
+        break;
+      }
+      case '-o':
+      case '--output':
+        options.output = value();
+        break;
+      case '-s':
+      case '--strategy': {
+        const strategy = value();
+        if (!STRATEGIES.includes(strategy as ScalingType)) {
+          throw createUsageError(`Unknown strategy "${strategy}" (expected one of ${STRATEGIES.join(', ')})`);
+        }
+        options.strategy = strategy as ScalingType;
+        break;
+      }
+      case '-l':
+      case '--language': {
+        const language = value();
+        if (!(language in LANGUAGE_PACKS)) {
+          throw createUsageError(`Unsupported language "${language}"`);
+        }
+        options.language = language as LanguageCode;
+        break;
+      }
+      case '--sentiment': {
+        const mode = value();
+        if (!SENTIMENT_MODES.includes(mode as SentimentMode)) {
+          throw createUsageError(`Unknown sentiment mode "${mode}" (expected ${SENTIMENT_MODES.join(', ')})`);
+        }
+        options.sentiment = mode as SentimentMode;
+        break;
+      }
+      case '--model':
+        options.model = value();
+        break;
+      case '--no-cache':
+        options.useCache = false;
+        break;
+      case '-v':
+      case '--verbose':
+        options.verbose = true;
+        break;
+      case '-h':
+      case '--help':
+        options.help = true;
+        break;
+      default:
+        throw createUsageError(`Unknown option "${flag}"`);
+    }
+  }
+
+  if (!options.help && options.inputs.length === 0) {
+    throw createUsageError('No input given; pass a file, a directory or "-" for stdin');
+  }
+  if (options.sentiment !== 'lexicon' && !options.model) {
+    throw createUsageError(`--sentiment ${options.sentiment} needs a --model directory`);
+  }
+
+  return options;
+}
+
+/**
+ * AnalyzeCommand - Headless analysis for the neural-echo CLI
+ * Runs TextAnalyzer over loaded documents and renders the results; reading
+ * and writing files is left to the Node entry point.
+ */
+export class AnalyzeCommand {
+  private analyzer: TextAnalyzer;
+
+  constructor(analyzer: TextAnalyzer = new TextAnalyzer()) {
+    this.analyzer = analyzer;
+  }
+
+  // Set up the sentiment backend; the model is read through readFile and
+  // loaded before any document so that a broken model fails once, up front
+  async configureSentiment(options: AnalyzeCommandOptions, readFile: ModelFileReader): Promise<void> {
+    if (options.sentiment === 'lexicon' || !options.model) {
+      this.analyzer.setSentimentBackend(null);
+      return;
+    }
+
+    const model = new TfjsSentimentBackend({ modelDir: options.model, readFile }, this.analyzer.getTokenizer());
+    await model.load();
+    this.analyzer.setSentimentBackend(options.sentiment === 'model'
+      ? model
+      : new EnsembleSentimentBackend([
+          { backend: new LexiconSentimentBackend(), weight: 1 },
+          { backend: model, weight: 1 }
+        ]));
+  }
+
+  async run(documents: CliDocument[], options: AnalyzeCommandOptions): Promise<AnalyzeReport> {
+    const report: AnalyzeReport = { analyses: [], failures: [] };
+    const analyzeOptions: AnalyzeOptions = {
+      useCache: options.useCache,
+      strategy: options.strategy,
+      language: options.language
+    };
+
+    // One document at a time keeps memory flat for large batches
+    for (const document of documents) {
+      try {
+        const records = options.format === 'ndjson'
+          ? await this.analyzeParagraphs(document.text, analyzeOptions)
+          : [{ result: await this.analyzer.analyze(document.text, analyzeOptions) }];
+        report.analyses.push({ document, records });
+      } catch (error) {
+        report.failures.push({
+          source: document.source,
+          message: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return report;
+  }
+
+  // Output for a single document, as written to its own file
+  render(analysis: DocumentAnalysis, format: OutputFormat): string {
+    const { document, records } = analysis;
+
+    switch (format) {
+      case 'json':
+        return `${JSON.stringify(serializeAnalysisResult(records[0].result), null, 2)}\n`;
+      case 'ndjson':
+        return records
+          .map(record => `${JSON.stringify({
+            source: document.source,
+            paragraph: record.paragraph,
+            start: record.start,
+            result: serializeAnalysisResult(record.result)
+          })}\n`)
+          .join('');
+      case 'summary':
+        return this.summarize(document.source, records[0].result);
+    }
+  }
+
+  // Output for all documents on stdout
+  renderAll(analyses: DocumentAnalysis[], format: OutputFormat): string {
+    if (format === 'json' && analyses.length !== 1) {
+      const entries = analyses.map(({ document, records }) => ({
+        source: document.source,
+        result: serializeAnalysisResult(records[0].result)
+      }));
+      return `${JSON.stringify(entries, null, 2)}\n`;
+    }
+
+    return analyses
+      .map(analysis => this.render(analysis, format))
+      .join(format === 'summary' ? '\n' : '');
+  }
+
+  private async analyzeParagraphs(text: string, options: AnalyzeOptions): Promise<AnalysisRecord[]> {
+    const paragraphs = this.analyzer.getIncrementalAnalyzer().splitIntoSegments(text);
+    const records: AnalysisRecord[] = [];
+
+    for (let i = 0; i < paragraphs.length; i++) {
+      records.push({
+        paragraph: i,
+        start: paragraphs[i].start,
+        result: await this.analyzer.analyze(paragraphs[i].text, options)
+      });
+    }
+
+    return records;
+  }
+
+  private summarize(source: string, result: AnalysisResult): string {
+    const { sentiment, complexity, scalingStrategy, language } = result;
+    const topConcepts = [...result.concepts]
+      .sort((a, b) => b.relevance - a.relevance)
+      .slice(0, 8)
+      .map(concept => concept.forms[0]?.form ?? concept.word);
+
+    return [
+      `📄 ${source === '-' ? 'stdin' : source}`,
+      `  Words:       ${result.words.length}`,
+      `  Language:    ${language.language} (confidence ${language.confidence.toFixed(2)})`,
+      `  Emotion:     ${sentiment.dominant.emotion} (score ${sentiment.dominant.score.toFixed(2)}, confidence ${sentiment.dominant.confidence.toFixed(2)})`,
+      `  Valence:     ${sentiment.valence.toFixed(2)}   Arousal: ${sentiment.arousal.toFixed(2)}   Intensity: ${sentiment.intensity.toFixed(2)}`,
+      `  Complexity:  ${complexity.overallComplexity.toFixed(2)}`,
+      `  Strategy:    ${scalingStrategy.type} (${scalingStrategy.nodeCount} nodes, ${scalingStrategy.particleCount} particles)`,
+      `  Concepts:    ${topConcepts.length > 0 ? topConcepts.join(', ') : '—'}`,
+      ''
+    ].join('\n');
+  }
+}
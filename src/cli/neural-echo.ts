@@ -0,0 +1,174 @@
+#!/usr/bin/env -S npx tsx
+// Neural Echo CLI - headless text analysis under Node
+//   neural-echo analyze drafts/ --format json --output reports/
+
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  AnalyzeCommand,
+  OUTPUT_EXTENSIONS,
+  USAGE,
+  isUsageError,
+  parseAnalyzeArgs
+} from './AnalyzeCommand';
+import type { AnalyzeCommandOptions, AnalyzeReport, CliDocument, CliFailure } from './AnalyzeCommand';
+
+const TEXT_EXTENSIONS = new Set(['.txt', '.text', '.md', '.markdown']);
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function listTextFiles(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listTextFiles(fullPath));
+    } else if (entry.isFile() && TEXT_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+async function readModelFile(directory: string, file: string): Promise<ArrayBuffer> {
+  const bytes = await readFile(path.join(directory, file));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+function stripExtension(file: string): string {
+  return file.slice(0, file.length - path.extname(file).length);
+}
+
+interface LoadedInputs {
+  documents: CliDocument[];
+  failures: CliFailure[];
+  batch: boolean; // Several inputs or a directory: --output names a directory
+}
+
+// Expand inputs into documents; unreadable inputs become failures
+async function loadDocuments(inputs: string[]): Promise<LoadedInputs> {
+  const documents: CliDocument[] = [];
+  const failures: CliFailure[] = [];
+  let batch = inputs.length > 1;
+
+  for (const input of inputs) {
+    try {
+      if (input === '-') {
+        documents.push({ source: '-', name: 'stdin', text: await readStdin() });
+        continue;
+      }
+
+      if ((await stat(input)).isDirectory()) {
+        batch = true;
+        // Keep the directory layout so same-named files do not collide
+        for (const file of await listTextFiles(input)) {
+          documents.push({
+            source: file,
+            name: stripExtension(path.relative(input, file)),
+            text: await readFile(file, 'utf8')
+          });
+        }
+      } else {
+        documents.push({
+          source: input,
+          name: stripExtension(path.basename(input)),
+          text: await readFile(input, 'utf8')
+        });
+      }
+    } catch (error) {
+      failures.push({ source: input, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { documents, failures, batch };
+}
+
+// Analyzer logs would corrupt JSON on stdout: drop them, or send them to stderr
+function routeAnalyzerLogs(verbose: boolean): void {
+  const log = verbose ? (...args: unknown[]) => console.error(...args) : () => {};
+  console.log = log;
+  console.info = log;
+}
+
+async function writeOutputs(
+  command: AnalyzeCommand,
+  report: AnalyzeReport,
+  options: AnalyzeCommandOptions,
+  batch: boolean
+): Promise<void> {
+  if (!options.output) {
+    process.stdout.write(command.renderAll(report.analyses, options.format));
+    return;
+  }
+
+  if (!batch) {
+    await mkdir(path.dirname(options.output), { recursive: true });
+    await writeFile(options.output, command.renderAll(report.analyses, options.format));
+    return;
+  }
+
+  for (const analysis of report.analyses) {
+    const target = path.join(options.output, `${analysis.document.name}${OUTPUT_EXTENSIONS[options.format]}`);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, command.render(analysis, options.format));
+  }
+  process.stderr.write(`💾 Wrote ${report.analyses.length} file(s) to ${options.output}\n`);
+}
+
+async function main(argv: string[]): Promise<number> {
+  let options: AnalyzeCommandOptions;
+  try {
+    options = parseAnalyzeArgs(argv);
+  } catch (error) {
+    if (isUsageError(error)) {
+      process.stderr.write(`neural-echo: ${error.message}\n\n${USAGE}\n`);
+      return 2;
+    }
+    throw error;
+  }
+
+  if (options.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  routeAnalyzerLogs(options.verbose);
+
+  const command = new AnalyzeCommand();
+  try {
+    await command.configureSentiment(options, file => readModelFile(options.model ?? '.', file));
+  } catch (error) {
+    process.stderr.write(`❌ ${options.model}: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+
+  const loaded = await loadDocuments(options.inputs);
+  const report = await command.run(loaded.documents, options);
+  const failures = [...loaded.failures, ...report.failures];
+  await writeOutputs(command, report, options, loaded.batch);
+
+  failures.forEach(failure => {
+    process.stderr.write(`❌ ${failure.source}: ${failure.message}\n`);
+  });
+
+  return failures.length > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    process.stderr.write(`💥 ${error instanceof Error ? error.stack ?? error.message : String(error)}\n`);
+    process.exitCode = 1;
+  }
+);
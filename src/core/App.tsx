@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { TextAnalyzer } from '../ai/TextAnalyzer';
+import { AnalysisWorkerClient } from '../ai/AnalysisWorkerClient';
+import { isAnalysisAbortError } from '../ai/AnalysisCancellation';
 import { NeuralRenderer } from '../rendering/NeuralRenderer';
 import type {
   AnalysisResult,
@@ -8,6 +9,9 @@ import type {
 } from '../types';
 import './App.css';
 
+// Pasting this many new words streams the analysis so nodes appear progressively
+const STREAMING_WORD_DELTA = 2000;
+
 interface AppState {
   isInitialized: boolean;
   isAnalyzing: boolean;
@@ -20,8 +24,10 @@ interface AppState {
 
 export function App() {
   const canvasContainerRef = useRef<HTMLDivElement>(null);
-  const textAnalyzer = useRef<TextAnalyzer | null>(null);
+  const textAnalyzer = useRef<AnalysisWorkerClient | null>(null);
   const neuralRenderer = useRef<NeuralRenderer | null>(null);
+  const analysisController = useRef<AbortController | null>(null);
+  const lastAnalyzedWordCount = useRef(0);
   const [state, setState] = useState<AppState>({
     isInitialized: false,
     isAnalyzing: false,
@@ -56,9 +62,9 @@ export function App() {
     console.log('🚀 Initializing Neural Echo...');
     
     try {
-      // Initialize text analyzer
-      textAnalyzer.current = new TextAnalyzer();
-      console.log('✅ Text analyzer initialized');
+      // Initialize text analyzer (runs in a worker when available)
+      textAnalyzer.current = new AnalysisWorkerClient();
+      console.log('✅ Text analyzer initialized', textAnalyzer.current.isUsingWorker() ? 'in worker' : 'on main thread');
 
       // Initialize neural renderer
       if (canvasContainerRef.current) {
@@ -93,17 +99,25 @@ export function App() {
   };
 
   const cleanup = (): void => {
+    analysisController.current?.abort();
+    analysisController.current = null;
     if (neuralRenderer.current) {
       neuralRenderer.current.dispose();
     }
     if (textAnalyzer.current) {
-      textAnalyzer.current.clearCache();
+      textAnalyzer.current.dispose();
+      textAnalyzer.current = null;
     }
   };
 
   const handleTextChange = useCallback(async (text: string): Promise<void> => {
     if (!textAnalyzer.current || !neuralRenderer.current) return;
 
+    // Supersede the previous request so its result can never reach the renderer
+    analysisController.current?.abort();
+    const controller = new AbortController();
+    analysisController.current = controller;
+
     setState(prev => ({
       ...prev,
       currentText: text,
@@ -115,6 +129,7 @@ export function App() {
       if (text.trim().length === 0) {
         // Clear visualization for empty text
         neuralRenderer.current.clearScene();
+        lastAnalyzedWordCount.current = 0;
         setState(prev => ({
           ...prev,
           isAnalyzing: false,
@@ -125,8 +140,24 @@ export function App() {
 
       console.log(`🧠 Analyzing text: "${text.substring(0, 50)}${text.length > 50 ? '...' : ''}"`);
       
-      // Analyze text with debouncing for real-time input
-      const analysisResult = await textAnalyzer.current.analyzeDebounced(text, 500);
+      const wordCount = text.trim().split(/\s+/).length;
+      const streaming = wordCount - lastAnalyzedWordCount.current > STREAMING_WORD_DELTA;
+
+      // Large pastes stream snapshots into the scene; typing re-analyzes only edited paragraphs
+      const analysisResult = streaming
+        ? await textAnalyzer.current.streamDebounced(text, 500, snapshot => {
+            if (!controller.signal.aborted) {
+              neuralRenderer.current?.applySnapshot(snapshot);
+            }
+          }, { signal: controller.signal })
+        : await textAnalyzer.current.analyzeDebounced(text, 500, {
+            signal: controller.signal,
+            incremental: true
+          });
+
+      // Drop stale results that finished after newer input arrived
+      if (controller.signal.aborted || !neuralRenderer.current) return;
+      lastAnalyzedWordCount.current = analysisResult.words.length;
       
       console.log('📊 Analysis complete:', {
         wordCount: analysisResult.words.length,
@@ -136,19 +167,21 @@ export function App() {
         dominantEmotion: analysisResult.sentiment.dominant.emotion
       });
 
-      // Generate and render neural visualization from analysis result
-      console.log('🎨 Generating neural network visualization...');
-      const visualization = neuralRenderer.current.generateVisualization(analysisResult);
-      
-      if (visualization) {
-        console.log('✅ Visualization rendered successfully:', {
-          actualNodes: visualization.nodes.length,
-          connections: visualization.connections.length,
-          compressionRatio: visualization.scalingInfo.compressionRatio.toFixed(3),
-          processingTime: `${visualization.scalingInfo.processingTime}ms`
-        });
-      } else {
-        console.warn('⚠️ Failed to generate visualization');
+      // Streamed results are already on screen; otherwise build the visualization now
+      if (!streaming) {
+        console.log('🎨 Generating neural network visualization...');
+        const visualization = neuralRenderer.current.generateVisualization(analysisResult);
+        
+        if (visualization) {
+          console.log('✅ Visualization rendered successfully:', {
+            actualNodes: visualization.nodes.length,
+            connections: visualization.connections.length,
+            compressionRatio: visualization.scalingInfo.compressionRatio.toFixed(3),
+            processingTime: `${visualization.scalingInfo.processingTime}ms`
+          });
+        } else {
+          console.warn('⚠️ Failed to generate visualization');
+        }
       }
 
       setState(prev => ({
@@ -158,6 +191,9 @@ export function App() {
       }));
 
     } catch (error) {
+      // Superseded requests are expected while typing; the newest one owns the state
+      if (isAnalysisAbortError(error) || controller.signal.aborted) return;
+
       console.error('💥 Text analysis failed:', error);
       setState(prev => ({
         ...prev,
@@ -287,7 +323,7 @@ export function App() {
                 <div className="concepts-info">
                   Total: {state.analysisResult.concepts.length}
                   <br />
-                  Top: {state.analysisResult.concepts.slice(0, 3).map(c => c.word).join(', ')}
+                  Top: {state.analysisResult.concepts.slice(0, 3).map(c => c.forms[0]?.form ?? c.word).join(', ')}
                   <br />
                   Emojis: {state.analysisResult.emojis.length}
                 </div>
@@ -0,0 +1,591 @@
+import * as THREE from 'three';
+import type {
+  AnalysisResult,
+  AnalysisResultDocument,
+  AnalysisSnapshot,
+  Connection,
+  NeuralEchoError,
+  Node,
+  ParticleData,
+  ScaledVisualization,
+  SchemaMigration,
+  SerializedAnalysisResult,
+  SerializedAnalysisSnapshot,
+  SerializedColor,
+  SerializedKind,
+  SerializedVector3,
+  SerializedVisualization,
+  VisualizationDocument
+} from '../types';
+
+/**
+ * Serialization - Versioned interchange format for analyses and scenes
+ * Documents are plain JSON wrapped in a { schema, version, kind, payload }
+ * envelope. Loading validates the payload and runs migrations from older
+ * schema versions first. The format is described in docs/SERIALIZATION_FORMAT.md.
+ */
+
+export const SCHEMA_NAME = 'neural-echo';
+export const SCHEMA_VERSION = 14;
+
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  // Version 0 is the bare worker payload used before the envelope existed;
+  // results from then may predate language detection and analyzer plugins
+  {
+    from: 0,
+    migrate: (payload, kind) => kind === 'analysis-result'
+      ? {
+          language: { language: 'en', confidence: 0, scores: { en: 0, es: 0, fr: 0, de: 0 } },
+          extensions: {},
+          ...payload
+        }
+      : payload
+  },
+  // Version 1 results predate multi-word emotion phrases
+  {
+    from: 1,
+    migrate: (payload, kind) => kind === 'analysis-result' && isObject(payload.sentiment)
+      ? { ...payload, sentiment: { phrases: [], ...payload.sentiment } }
+      : payload
+  },
+  // Version 2 results predate trust, disgust and the dyads built from them
+  {
+    from: 2,
+    migrate: (payload, kind) => kind === 'analysis-result' && isObject(payload.sentiment)
+      ? {
+          ...payload,
+          sentiment: {
+            dyads: {
+              love: 0, submission: 0, awe: 0, disapproval: 0,
+              remorse: 0, contempt: 0, aggressiveness: 0, optimism: 0
+            },
+            ...payload.sentiment,
+            scores: { trust: 0, disgust: 0, ...(payload.sentiment.scores as Record<string, unknown>) }
+          }
+        }
+      : payload
+  },
+  // Version 3 results predate the emotion timeline
+  {
+    from: 3,
+    migrate: (payload, kind) => kind === 'analysis-result' && isObject(payload.sentiment)
+      ? {
+          ...payload,
+          sentiment: { timeline: { sentences: [], paragraphs: [], turningPoints: [] }, ...payload.sentiment }
+        }
+      : payload
+  },
+  // Version 4 concepts predate emotion profiles, which stay optional
+  {
+    from: 4,
+    migrate: payload => payload
+  },
+  // Version 5 results predate sarcasm detection
+  {
+    from: 5,
+    migrate: (payload, kind) => kind === 'analysis-result' && isObject(payload.sentiment)
+      ? { ...payload, sentiment: { sarcasmProbability: 0, ...payload.sentiment } }
+      : payload
+  },
+  // Version 6 results predate the evidence trail; their confidence was the
+  // score gap alone
+  {
+    from: 6,
+    migrate: (payload, kind) => {
+      if (kind !== 'analysis-result' || !isObject(payload.sentiment)) return payload;
+
+      const dominant = isObject(payload.sentiment.dominant) ? payload.sentiment.dominant : {};
+      return {
+        ...payload,
+        sentiment: {
+          confidence: {
+            separation: dominant.confidence,
+            coverage: 1,
+            agreement: 1,
+            negation: 1,
+            sarcasm: 1,
+            interval: [dominant.score, dominant.score]
+          },
+          evidence: [],
+          ...payload.sentiment
+        }
+      };
+    }
+  },
+  // Version 7 concepts predate lemmatization: each was a single surface form
+  {
+    from: 7,
+    migrate: (payload, kind) => mapConcepts(payload, kind, concept => isObject(concept)
+      ? { forms: [{ form: concept.word, frequency: concept.frequency, positions: concept.position }], ...concept }
+      : concept)
+  },
+  // Version 8 concepts predate named entities, which stay optional
+  {
+    from: 8,
+    migrate: payload => payload
+  },
+  // Version 9 concepts predate category confidence; their categories came
+  // from substring matches and are trusted no further
+  {
+    from: 9,
+    migrate: (payload, kind) => mapConcepts(payload, kind, concept => isObject(concept)
+      ? { categoryConfidence: 0, ...concept }
+      : concept)
+  },
+  // Version 10 concepts predate TextRank centrality, and results their key
+  // sentences
+  {
+    from: 10,
+    migrate: (payload, kind) => {
+      const migrated = mapConcepts(payload, kind, concept => isObject(concept)
+        ? { centrality: 0, ...concept }
+        : concept);
+      return kind === 'analysis-result' ? { keySentences: [], ...migrated } : migrated;
+    }
+  },
+  // Version 11 concepts were named by their lemma, which stays their word;
+  // renaming them would break the graph's node keys and connections
+  {
+    from: 11,
+    migrate: (payload, kind) => mapConcepts(payload, kind, concept => isObject(concept)
+      ? { lemma: concept.word, ...concept }
+      : concept)
+  },
+  // Version 12 emotional edges started at the bare emotion name, which
+  // matched any concept of that name
+  {
+    from: 12,
+    migrate: (payload, kind) => {
+      const graph = isObject(payload.semanticGraph) ? payload.semanticGraph : null;
+      if (kind !== 'analysis-result' || !graph) return payload;
+
+      return {
+        ...payload,
+        semanticGraph: {
+          ...graph,
+          edges: mapArray(graph.edges, entry => Array.isArray(entry) && isObject(entry[1]) &&
+            entry[1].relationship === 'emotional' && String(entry[0]).startsWith('emotion:')
+            ? [entry[0], { ...entry[1], source: `emotion:${entry[1].source}` }]
+            : entry)
+        }
+      };
+    }
+  },
+  // Version 13 concept nodes repeated their concept's word as a label
+  {
+    from: 13,
+    migrate: (payload, kind) => kind === 'visualization'
+      ? {
+          ...payload,
+          nodes: mapArray(payload.nodes, node => {
+            if (!isObject(node) || !isObject(node.data)) return node;
+            const data = { ...node.data };
+            delete data.label;
+            return { ...node, data };
+          })
+        }
+      : payload
+  }
+];
+
+export interface DeserializeOptions {
+  migrations?: SchemaMigration[];
+}
+
+// Analysis results
+
+export function serializeAnalysisResult(result: AnalysisResult): AnalysisResultDocument {
+  return envelope('analysis-result', {
+    ...result,
+    semanticGraph: {
+      nodes: Array.from(result.semanticGraph.nodes.entries()),
+      edges: Array.from(result.semanticGraph.edges.entries()),
+      clusters: result.semanticGraph.clusters
+    }
+  });
+}
+
+export function deserializeAnalysisResult(input: unknown, options: DeserializeOptions = {}): AnalysisResult {
+  const payload = readPayload<SerializedAnalysisResult>(input, 'analysis-result', validateAnalysisResult, options);
+
+  return {
+    ...payload,
+    semanticGraph: {
+      nodes: new Map(payload.semanticGraph.nodes),
+      edges: new Map(payload.semanticGraph.edges),
+      clusters: payload.semanticGraph.clusters
+    }
+  };
+}
+
+export function serializeSnapshot(snapshot: AnalysisSnapshot): SerializedAnalysisSnapshot {
+  return { ...snapshot, result: serializeAnalysisResult(snapshot.result) };
+}
+
+export function deserializeSnapshot(wire: SerializedAnalysisSnapshot, options: DeserializeOptions = {}): AnalysisSnapshot {
+  return { ...wire, result: deserializeAnalysisResult(wire.result, options) };
+}
+
+// Visualizations
+
+export function serializeVisualization(visualization: ScaledVisualization): VisualizationDocument {
+  return envelope('visualization', {
+    nodes: visualization.nodes.map(node => ({
+      ...node,
+      connections: [...node.connections],
+      position: toVector(node.position),
+      color: toColor(node.color)
+    })),
+    connections: visualization.connections.map(connection => ({
+      ...connection,
+      color: toColor(connection.color)
+    })),
+    particles: visualization.particles.map(particle => ({
+      ...particle,
+      position: toVector(particle.position),
+      velocity: toVector(particle.velocity),
+      color: toColor(particle.color)
+    })),
+    scalingInfo: { ...visualization.scalingInfo },
+    performanceProfile: { ...visualization.performanceProfile }
+  });
+}
+
+export function deserializeVisualization(input: unknown, options: DeserializeOptions = {}): ScaledVisualization {
+  const payload = readPayload<SerializedVisualization>(input, 'visualization', validateVisualization, options);
+
+  return {
+    nodes: payload.nodes.map((node): Node => ({
+      ...node,
+      position: new THREE.Vector3(...node.position),
+      color: new THREE.Color(...node.color)
+    })),
+    connections: payload.connections.map((connection): Connection => ({
+      ...connection,
+      color: new THREE.Color(...connection.color)
+    })),
+    particles: payload.particles.map((particle): ParticleData => ({
+      ...particle,
+      position: new THREE.Vector3(...particle.position),
+      velocity: new THREE.Vector3(...particle.velocity),
+      color: new THREE.Color(...particle.color)
+    })),
+    scalingInfo: payload.scalingInfo,
+    performanceProfile: payload.performanceProfile
+  };
+}
+
+// Envelope and migrations
+
+function envelope<TKind extends SerializedKind, TPayload>(kind: TKind, payload: TPayload) {
+  return { schema: SCHEMA_NAME, version: SCHEMA_VERSION, kind, payload } as const;
+}
+
+// Parse, migrate to the current version, then validate
+function readPayload<TPayload>(
+  input: unknown,
+  kind: SerializedKind,
+  validate: Check,
+  options: DeserializeOptions
+): TPayload {
+  let document: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      document = JSON.parse(input);
+    } catch (error) {
+      throw createSerializationError(`Invalid ${kind} document: not valid JSON (${error})`);
+    }
+  }
+
+  if (!isObject(document)) {
+    throw createSerializationError(`Invalid ${kind} document: expected an object`);
+  }
+
+  let version: number;
+  let payload: Record<string, unknown>;
+
+  if ('schema' in document) {
+    if (document.schema !== SCHEMA_NAME) {
+      throw createSerializationError(`Invalid ${kind} document: unknown schema "${String(document.schema)}"`);
+    }
+    if (document.kind !== kind) {
+      throw createSerializationError(`Invalid ${kind} document: contains a ${String(document.kind)}`);
+    }
+    if (!Number.isInteger(document.version) || (document.version as number) < 0) {
+      throw createSerializationError(`Invalid ${kind} document: version must be a non-negative integer`);
+    }
+    if (!isObject(document.payload)) {
+      throw createSerializationError(`Invalid ${kind} document: payload must be an object`);
+    }
+    version = document.version as number;
+    payload = document.payload;
+  } else {
+    // No envelope: a version 0 payload
+    version = 0;
+    payload = document;
+  }
+
+  if (version > SCHEMA_VERSION) {
+    throw createSerializationError(
+      `Invalid ${kind} document: schema version ${version} is newer than the supported version ${SCHEMA_VERSION}`
+    );
+  }
+
+  const migrations = options.migrations ?? SCHEMA_MIGRATIONS;
+  while (version < SCHEMA_VERSION) {
+    const migration = migrations.find(candidate => candidate.from === version);
+    if (!migration) {
+      throw createSerializationError(`Invalid ${kind} document: no migration from schema version ${version}`);
+    }
+    payload = migration.migrate(payload, kind);
+    version++;
+  }
+
+  validate(payload, 'payload');
+  return payload as unknown as TPayload;
+}
+
+function toVector(vector: THREE.Vector3): SerializedVector3 {
+  return [vector.x, vector.y, vector.z];
+}
+
+function toColor(color: THREE.Color): SerializedColor {
+  return [color.r, color.g, color.b];
+}
+
+function createSerializationError(message: string): NeuralEchoError {
+  const error = new Error(message) as NeuralEchoError;
+  error.code = 'SERIALIZATION_INVALID';
+  error.component = 'Serialization';
+  error.recoverable = false;
+  return error;
+}
+
+// Runtime validation
+// Structure is checked strictly; enum-like strings (emotions, categories,
+// node types) only need to be strings so newer vocabularies still load.
+
+type Check = (value: unknown, path: string) => void;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mapArray(value: unknown, map: (item: unknown) => unknown): unknown {
+  return Array.isArray(value) ? value.map(map) : value;
+}
+
+// Apply a migration to every concept of a payload: the result's concept list,
+// graph nodes and cluster centroids, and the concepts behind visualization nodes
+function mapConcepts(payload: Record<string, unknown>, kind: SerializedKind, map: (concept: unknown) => unknown): Record<string, unknown> {
+  if (kind === 'visualization') {
+    return {
+      ...payload,
+      nodes: mapArray(payload.nodes, node => isObject(node) && isObject(node.data)
+        ? { ...node, data: { ...node.data, concept: map(node.data.concept) } }
+        : node)
+    };
+  }
+  if (kind !== 'analysis-result') return payload;
+
+  const graph = isObject(payload.semanticGraph) ? payload.semanticGraph : null;
+  return {
+    ...payload,
+    concepts: mapArray(payload.concepts, map),
+    ...(graph && {
+      semanticGraph: {
+        ...graph,
+        nodes: mapArray(graph.nodes, entry => Array.isArray(entry) && isObject(entry[1])
+          ? [entry[0], { ...entry[1], concept: map(entry[1].concept) }]
+          : entry),
+        clusters: mapArray(graph.clusters, cluster => isObject(cluster)
+          ? { ...cluster, centroid: map(cluster.centroid) }
+          : cluster)
+      }
+    })
+  };
+}
+
+function invalid(path: string, expected: string): never {
+  throw createSerializationError(`Invalid document: ${path} must be ${expected}`);
+}
+
+const number: Check = (value, path) => {
+  if (typeof value !== 'number') invalid(path, 'a number');
+};
+
+const string: Check = (value, path) => {
+  if (typeof value !== 'string') invalid(path, 'a string');
+};
+
+const boolean: Check = (value, path) => {
+  if (typeof value !== 'boolean') invalid(path, 'a boolean');
+};
+
+const object: Check = (value, path) => {
+  if (!isObject(value)) invalid(path, 'an object');
+};
+
+const optional = (check: Check): Check => (value, path) => {
+  if (value !== undefined) check(value, path);
+};
+
+const arrayOf = (item: Check): Check => (value, path) => {
+  if (!Array.isArray(value)) invalid(path, 'an array');
+  value.forEach((entry, index) => item(entry, `${path}[${index}]`));
+};
+
+const recordOf = (item: Check): Check => (value, path) => {
+  object(value, path);
+  Object.entries(value as Record<string, unknown>).forEach(([key, entry]) => item(entry, `${path}.${key}`));
+};
+
+const shape = (fields: Record<string, Check>): Check => (value, path) => {
+  object(value, path);
+  Object.entries(fields).forEach(([key, check]) => check((value as Record<string, unknown>)[key], `${path}.${key}`));
+};
+
+const entry = (value: Check): Check => (pair, path) => {
+  if (!Array.isArray(pair) || pair.length !== 2) invalid(path, 'a [key, value] pair');
+  string(pair[0], `${path}[0]`);
+  value(pair[1], `${path}[1]`);
+};
+
+const tuple3: Check = (value, path) => {
+  if (!Array.isArray(value) || value.length !== 3 || value.some(component => typeof component !== 'number')) {
+    invalid(path, 'a [number, number, number] tuple');
+  }
+};
+
+const concept = shape({
+  word: string,
+  lemma: string,
+  category: string,
+  categoryConfidence: number,
+  relevance: number,
+  centrality: number,
+  frequency: number,
+  position: arrayOf(number),
+  forms: arrayOf(shape({ form: string, frequency: number, positions: arrayOf(number) })),
+  connections: arrayOf(string),
+  entity: optional(string),
+  emotionProfile: optional(recordOf(number))
+});
+
+const timelinePoint = shape({
+  index: number,
+  start: number,
+  end: number,
+  scores: recordOf(number),
+  dominant: shape({ emotion: string, score: number, confidence: number }),
+  valence: number,
+  arousal: number,
+  arc: number
+});
+
+const validateAnalysisResult: Check = shape({
+  words: arrayOf(string),
+  sentiment: shape({
+    scores: recordOf(number),
+    dominant: shape({ emotion: string, score: number, confidence: number }),
+    intensity: number,
+    valence: number,
+    arousal: number,
+    phrases: arrayOf(shape({ phrase: string, emotion: string, start: number, end: number })),
+    dyads: recordOf(number),
+    timeline: shape({
+      sentences: arrayOf(timelinePoint),
+      paragraphs: arrayOf(timelinePoint),
+      turningPoints: arrayOf(shape({ sentence: number, position: number, direction: string, from: number, to: number }))
+    }),
+    sarcasmProbability: number,
+    confidence: shape({
+      separation: number,
+      coverage: number,
+      agreement: number,
+      negation: number,
+      sarcasm: number,
+      interval: arrayOf(number)
+    }),
+    evidence: arrayOf(shape({
+      kind: string,
+      text: string,
+      start: number,
+      end: number,
+      scores: recordOf(number),
+      modifiers: arrayOf(shape({ kind: string, factor: number }))
+    }))
+  }),
+  concepts: arrayOf(concept),
+  semanticGraph: shape({
+    nodes: arrayOf(entry(shape({ id: string, concept, importance: number, connections: arrayOf(string) }))),
+    edges: arrayOf(entry(shape({ id: string, source: string, target: string, weight: number, relationship: string }))),
+    clusters: arrayOf(shape({ id: string, concepts: arrayOf(string), centroid: concept, coherence: number }))
+  }),
+  keySentences: arrayOf(shape({ index: number, start: number, end: number, text: string, score: number })),
+  complexity: recordOf(number),
+  scalingStrategy: shape({
+    type: string,
+    multiplier: number,
+    nodeCount: number,
+    particleCount: number,
+    compressionLevel: number
+  }),
+  emojis: arrayOf(shape({ emoji: string, position: number, emotion: string, intensity: number })),
+  emojiInfluence: number,
+  language: shape({ language: string, confidence: number, scores: recordOf(number) }),
+  extensions: object,
+  timestamp: number
+});
+
+const validateVisualization: Check = shape({
+  nodes: arrayOf(shape({
+    id: string,
+    position: tuple3,
+    activation: number,
+    targetActivation: number,
+    color: tuple3,
+    size: number,
+    type: string,
+    connections: arrayOf(string),
+    synthetic: boolean,
+    lifetime: number,
+    importance: number,
+    data: shape({
+      word: string,
+      source: optional(string),
+      concept: optional(concept),
+      emotion: optional(string),
+      relevance: number,
+      layer: number
+    })
+  })),
+  connections: arrayOf(shape({
+    id: string,
+    source: string,
+    target: string,
+    weight: number,
+    type: string,
+    active: boolean,
+    flow: number,
+    color: tuple3
+  })),
+  particles: arrayOf(shape({
+    position: tuple3,
+    velocity: tuple3,
+    color: tuple3,
+    life: number,
+    maxLife: number,
+    size: number,
+    behavior: string,
+    sourceNode: optional(string)
+  })),
+  scalingInfo: shape({
+    originalWordCount: number,
+    finalNodeCount: number,
+    compressionRatio: number,
+    strategy: string,
+    processingTime: number
+  }),
+  performanceProfile: object
+});
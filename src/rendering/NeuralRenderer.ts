@@ -4,6 +4,7 @@ import { NodeSystem } from './NodeSystem';
 import type {
   PerformanceMetrics,
   AnalysisResult,
+  AnalysisSnapshot,
   ScaledVisualization
 } from '../types';
 
@@ -424,6 +425,18 @@ export class NeuralRenderer {
     return this.nodeSystem.generateVisualization(analysisResult);
   }
 
+  /**
+   * Grow the visualization from a streaming analysis snapshot
+   */
+  applySnapshot(snapshot: AnalysisSnapshot): ScaledVisualization | null {
+    if (!this.nodeSystem) {
+      console.warn('NodeSystem not initialized');
+      return null;
+    }
+
+    return this.nodeSystem.applySnapshot(snapshot);
+  }
+
   addNode(node: THREE.Object3D): void {
     this.nodeGroup.add(node);
   }
@@ -1,11 +1,16 @@
 import * as THREE from 'three';
+import type { AnalyzerRegistry } from '../ai/AnalyzerRegistry';
+import { createAnalyzerRegistry } from '../ai/AnalyzerPlugins';
+import { ConceptExtractor } from '../ai/ConceptExtractor';
 import type {
   AnalysisResult,
+  AnalysisSnapshot,
   Node,
   NodeData,
   NodeType,
   Connection,
   Concept,
+  EmotionPhraseMatch,
   EmotionScores,
   ConceptCategory,
   NodeDistribution,
@@ -32,9 +37,21 @@ export class NodeSystem {
   
   // Animation
   private clock: THREE.Clock = new THREE.Clock();
+  private static readonly GROWTH_DURATION = 0.6; // Seconds for a new node to reach full size
   
-  constructor(nodeGroup: THREE.Group, connectionGroup: THREE.Group) {
+  // Streaming: snapshots of the active stream update the scene in place
+  private activeStreamId: string | null = null;
+  
+  // Node hooks of analyzer plugins
+  private analyzerRegistry: AnalyzerRegistry;
+  
+  constructor(
+    nodeGroup: THREE.Group,
+    connectionGroup: THREE.Group,
+    analyzerRegistry: AnalyzerRegistry = createAnalyzerRegistry()
+  ) {
     this.nodeGroup = nodeGroup;
+    this.analyzerRegistry = analyzerRegistry;
     this.connectionGroup = connectionGroup;
     this.initializeMaterials();
     this.initializeGeometries();
@@ -114,6 +131,7 @@ export class NodeSystem {
 
     // Clear existing visualization
     this.clearVisualization();
+    this.activeStreamId = null;
 
     // Generate nodes from concepts and emotions
     const nodes = this.generateNodes(analysisResult);
@@ -128,7 +146,82 @@ export class NodeSystem {
     // Position nodes using intelligent distribution
     this.distributeNodes(nodes, analysisResult.scalingStrategy.nodeCount);
     
-    const visualization: ScaledVisualization = {
+    const visualization = this.createVisualizationInfo(analysisResult, nodes, connections);
+
+    console.log('✅ Visualization generated:', {
+      nodes: nodes.length,
+      connections: connections.length,
+      strategy: analysisResult.scalingStrategy.type
+    });
+
+    return visualization;
+  }
+
+  /**
+   * Grow the visualization from a streaming analysis snapshot.
+   * Snapshots of the same stream keep matching nodes (and their animation
+   * state), add new ones that grow in, and drop nodes that fell out.
+   */
+  applySnapshot(snapshot: AnalysisSnapshot): ScaledVisualization {
+    const analysisResult = snapshot.result;
+
+    if (snapshot.streamId !== this.activeStreamId) {
+      this.clearVisualization();
+      this.activeStreamId = snapshot.streamId;
+    }
+
+    // Match generated nodes against the ones already on screen
+    const existingByKey = new Map<string, Node>();
+    this.nodes.forEach(node => existingByKey.set(this.getNodeKey(node), node));
+
+    const addedNodes: Node[] = [];
+    const nodes = this.generateNodes(analysisResult).map(generated => {
+      const key = this.getNodeKey(generated);
+      const existing = existingByKey.get(key);
+
+      if (!existing) {
+        addedNodes.push(generated);
+        return generated;
+      }
+
+      existingByKey.delete(key);
+      existing.targetActivation = generated.targetActivation;
+      existing.color = generated.color;
+      existing.size = generated.size;
+      existing.importance = generated.importance;
+      existing.data = generated.data;
+
+      const mesh = this.nodeObjects.get(existing.id);
+      if (mesh) {
+        (mesh.material as THREE.MeshPhongMaterial).color.copy(existing.color);
+      }
+      return existing;
+    });
+
+    existingByKey.forEach(node => this.removeNode(node.id));
+
+    // Existing meshes glide to their new layout positions in animateNode
+    this.distributeNodes(nodes, analysisResult.scalingStrategy.nodeCount, false);
+    this.createNodeObjects(addedNodes);
+
+    this.clearConnections();
+    const connections = this.generateConnections(analysisResult, nodes);
+    this.createConnectionObjects(connections);
+
+    console.log(`🌱 Snapshot ${snapshot.sequence} applied (${Math.round(snapshot.progress * 100)}%):`, {
+      nodes: nodes.length,
+      added: addedNodes.length
+    });
+
+    return this.createVisualizationInfo(analysisResult, nodes, connections);
+  }
+
+  private createVisualizationInfo(
+    analysisResult: AnalysisResult,
+    nodes: Node[],
+    connections: Connection[]
+  ): ScaledVisualization {
+    return {
       nodes,
       connections,
       particles: [], // TODO: Implement particle system
@@ -145,24 +238,29 @@ export class NodeSystem {
         gpuLoad: this.estimateGPULoad(nodes.length)
       }
     };
+  }
 
-    console.log('✅ Visualization generated:', {
-      nodes: nodes.length,
-      connections: connections.length,
-      strategy: analysisResult.scalingStrategy.type
-    });
-
-    return visualization;
+  // Stable identity of a node across snapshots of one stream
+  private getNodeKey(node: Node): string {
+    return node.data.source
+      ? `${node.data.source}:${node.data.word}`
+      : `${node.type}:${node.data.word}`;
   }
 
   private generateNodes(analysisResult: AnalysisResult): Node[] {
     const nodes: Node[] = [];
     const targetNodeCount = analysisResult.scalingStrategy.nodeCount;
     const distribution = this.calculateNodeDistribution(targetNodeCount);
+    const phrases = analysisResult.sentiment.phrases;
+
+    // Words that only occur inside emotion phrases are shown by the phrase node
+    const concepts = analysisResult.concepts.filter(concept => !this.isPhraseFragment(concept, phrases));
     
-    // Generate primary nodes from top concepts
-    const primaryConcepts = analysisResult.concepts
-      .sort((a, b) => b.relevance - a.relevance)
+    // Generate primary nodes from the most central concepts
+    const importanceOf = (concept: Concept) =>
+      analysisResult.semanticGraph.nodes.get(concept.word)?.importance ?? concept.centrality;
+    const primaryConcepts = concepts
+      .sort((a, b) => importanceOf(b) - importanceOf(a) || b.relevance - a.relevance)
       .slice(0, distribution.primary);
     
     primaryConcepts.forEach((concept, index) => {
@@ -174,8 +272,11 @@ export class NodeSystem {
       nodes.push(this.createEmotionNode(analysisResult.sentiment, 0.9));
     }
 
+    // One node per distinct emotion phrase ("over the moon")
+    nodes.push(...this.generatePhraseNodes(phrases));
+
     // Generate secondary nodes from remaining concepts
-    const secondaryConcepts = analysisResult.concepts
+    const secondaryConcepts = concepts
       .slice(distribution.primary)
       .slice(0, distribution.secondary);
     
@@ -183,6 +284,9 @@ export class NodeSystem {
       nodes.push(this.createNodeFromConcept(concept, 'concept', 0.7 - (index / secondaryConcepts.length) * 0.2));
     });
 
+    // Generate nodes contributed by analyzer plugins
+    nodes.push(...this.generatePluginNodes(analysisResult, targetNodeCount - nodes.length));
+
     // Generate synthetic nodes to reach target count
     const remainingCount = targetNodeCount - nodes.length;
     if (remainingCount > 0) {
@@ -241,6 +345,81 @@ export class NodeSystem {
     };
   }
 
+  private generatePhraseNodes(phrases: EmotionPhraseMatch[]): Node[] {
+    const counts = new Map<string, { match: EmotionPhraseMatch; count: number }>();
+    phrases.forEach(match => {
+      const entry = counts.get(match.phrase);
+      if (entry) {
+        entry.count++;
+      } else {
+        counts.set(match.phrase, { match, count: 1 });
+      }
+    });
+
+    return Array.from(counts.values()).map(({ match, count }) => {
+      const importance = Math.min(0.9, 0.6 + count * 0.1);
+
+      return {
+        id: `phrase_${match.phrase.replace(/\s+/g, '_')}_${Math.random().toString(36).substr(2, 9)}`,
+        position: new THREE.Vector3(0, 0, 0),
+        activation: Math.random() * 0.5 + 0.3,
+        targetActivation: importance,
+        color: this.getColorForEmotion(match.emotion),
+        size: this.getSizeForImportance(importance),
+        type: 'emotion',
+        connections: [],
+        synthetic: false,
+        lifetime: 0,
+        importance,
+        data: {
+          word: match.phrase,
+          emotion: match.emotion,
+          relevance: importance,
+          layer: 0
+        }
+      };
+    });
+  }
+
+  private isPhraseFragment(concept: Concept, phrases: EmotionPhraseMatch[]): boolean {
+    return phrases.length > 0 && concept.position.length > 0 && concept.position.every(position =>
+      phrases.some(match => position >= match.start && position < match.end)
+    );
+  }
+
+  private generatePluginNodes(analysisResult: AnalysisResult, budget: number): Node[] {
+    if (budget <= 0) return [];
+
+    return this.analyzerRegistry
+      .createNodeSpecs(analysisResult)
+      .sort((a, b) => b.importance - a.importance)
+      .slice(0, budget)
+      .map(spec => {
+        const importance = Math.max(0, Math.min(1, spec.importance));
+        const relevance = spec.relevance ?? importance;
+
+        return {
+          id: `${spec.source}_${spec.word}_${Math.random().toString(36).substr(2, 9)}`,
+          position: new THREE.Vector3(0, 0, 0),
+          activation: Math.random() * 0.5 + 0.3,
+          targetActivation: relevance,
+          color: new THREE.Color(spec.color ?? 0x4ecdc4),
+          size: this.getSizeForImportance(importance),
+          type: spec.type ?? 'concept',
+          connections: [],
+          synthetic: false,
+          lifetime: 0,
+          importance,
+          data: {
+            word: spec.word,
+            source: spec.source,
+            relevance,
+            layer: spec.layer ?? 1
+          }
+        };
+      });
+  }
+
   private generateSyntheticNodes(count: number, analysisResult: AnalysisResult): Node[] {
     const syntheticNodes: Node[] = [];
     
@@ -275,8 +454,8 @@ export class NodeSystem {
     
     // Create connections based on semantic graph
     analysisResult.semanticGraph.edges.forEach((edge) => {
-      const sourceNode = nodes.find(n => n.data.word === edge.source);
-      const targetNode = nodes.find(n => n.data.word === edge.target);
+      const sourceNode = this.findEdgeEndpoint(nodes, edge.source);
+      const targetNode = this.findEdgeEndpoint(nodes, edge.target);
       
       if (sourceNode && targetNode) {
         const connectionId = `conn_${sourceNode.id}_${targetNode.id}`;
@@ -297,6 +476,16 @@ export class NodeSystem {
     return connections;
   }
 
+  // Edge endpoints are concept words, or "emotion:joy" for the emotion node
+  private findEdgeEndpoint(nodes: Node[], endpoint: string): Node | undefined {
+    const prefix = ConceptExtractor.EMOTION_ENDPOINT_PREFIX;
+    if (endpoint.startsWith(prefix)) {
+      const emotion = endpoint.slice(prefix.length);
+      return nodes.find(node => node.type === 'emotion' && node.data.word === emotion && node.data.emotion === emotion);
+    }
+    return nodes.find(node => node.data.concept?.word === endpoint);
+  }
+
   private createNodeObjects(nodes: Node[]): void {
     nodes.forEach(node => {
       const geometry = this.getGeometryForNodeType(node.type);
@@ -319,6 +508,7 @@ export class NodeSystem {
         }
       };
       
+      this.nodes.set(node.id, node);
       this.nodeObjects.set(node.id, mesh);
       this.nodeGroup.add(mesh);
     });
@@ -349,13 +539,14 @@ export class NodeSystem {
           connection: connection
         };
         
+        this.connections.set(connection.id, connection);
         this.connectionObjects.set(connection.id, line);
         this.connectionGroup.add(line);
       }
     });
   }
 
-  private distributeNodes(nodes: Node[], targetCount: number): void {
+  private distributeNodes(nodes: Node[], targetCount: number, snapMeshes = true): void {
     // Spherical distribution with layered organization
     const radius = Math.max(10, targetCount / 10); // Scale radius with node count
     
@@ -377,7 +568,7 @@ export class NodeSystem {
       
       // Update mesh position if it exists
       const mesh = this.nodeObjects.get(node.id);
-      if (mesh) {
+      if (mesh && snapMeshes) {
         mesh.position.copy(node.position);
       }
     });
@@ -387,13 +578,19 @@ export class NodeSystem {
     // Smooth activation interpolation
     node.activation = THREE.MathUtils.lerp(node.activation, node.targetActivation, deltaTime * 2);
     
-    // Pulsing effect based on activation
+    // Pulsing effect based on activation; new nodes grow in from nothing
     const pulse = 1 + Math.sin(node.lifetime * 3) * 0.1 * node.activation;
-    mesh.scale.setScalar(node.size * pulse);
+    const growth = Math.min(1, node.lifetime / NodeSystem.GROWTH_DURATION);
+    mesh.scale.setScalar(node.size * pulse * growth);
+    
+    // Glide towards the layout position (it moves as streamed snapshots arrive)
+    const glide = Math.min(1, deltaTime * 3);
+    mesh.position.x = THREE.MathUtils.lerp(mesh.position.x, node.position.x, glide);
+    mesh.position.z = THREE.MathUtils.lerp(mesh.position.z, node.position.z, glide);
     
     // Gentle floating animation
     const floatOffset = Math.sin(node.lifetime * 1.5 + node.position.x) * 0.2;
-    mesh.position.y = node.position.y + floatOffset;
+    mesh.position.y = THREE.MathUtils.lerp(mesh.position.y, node.position.y + floatOffset, glide);
     
     // Update material opacity based on activation
     const material = mesh.material as THREE.MeshPhongMaterial;
@@ -425,7 +622,9 @@ export class NodeSystem {
       anger: 0xe74c3c,
       fear: 0x8e44ad,
       surprise: 0xe67e22,
-      anticipation: 0x2ecc71
+      anticipation: 0x2ecc71,
+      trust: 0x1abc9c,
+      disgust: 0x7f8c3c
     };
     
     return new THREE.Color(emotionColors[emotion]);
@@ -491,6 +690,28 @@ export class NodeSystem {
     return Math.min(nodeCount / 1000, 0.8); // Max 80% load
   }
 
+  private removeNode(nodeId: string): void {
+    const mesh = this.nodeObjects.get(nodeId);
+    if (mesh) {
+      this.nodeGroup.remove(mesh);
+      (mesh.material as THREE.Material).dispose();
+    }
+
+    this.nodes.delete(nodeId);
+    this.nodeObjects.delete(nodeId);
+  }
+
+  private clearConnections(): void {
+    this.connectionObjects.forEach(line => {
+      this.connectionGroup.remove(line);
+      line.geometry.dispose();
+      (line.material as THREE.Material).dispose();
+    });
+
+    this.connections.clear();
+    this.connectionObjects.clear();
+  }
+
   /**
    * Clear all visualization objects
    */
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { AnalysisCache } from '../ai/AnalysisCache';
+import { IndexedDBCacheStore } from '../ai/IndexedDBCacheStore';
+import { TextAnalyzer } from '../ai/TextAnalyzer';
+import { createAnalyzerRegistry } from '../ai/AnalyzerPlugins';
+import type { AnalysisResult } from '../types';
+
+const result = (timestamp: number) => ({ timestamp }) as AnalysisResult;
+
+describe('AnalysisCache', () => {
+  let factory: IDBFactory;
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+  });
+
+  it('should derive SHA-256 keys from the text and forced language', async () => {
+    const cache = new AnalysisCache({ store: null });
+    const key = await cache.createKey('Hello world');
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(await cache.createKey('Hello world')).toBe(key);
+    expect(await cache.createKey('Hello world', 'es')).not.toBe(key);
+    expect(await cache.createKey('Hello world', undefined, true)).not.toBe(key);
+  });
+
+  it('should evict the least recently used entry from memory', async () => {
+    const cache = new AnalysisCache({ store: null, memoryLimit: 2 });
+    await cache.set('a', result(1));
+    await cache.set('b', result(2));
+    await cache.get('a'); // "b" is now the least recently used
+    await cache.set('c', result(3));
+
+    expect(await cache.get('b')).toBeUndefined();
+    expect((await cache.get('a'))?.timestamp).toBe(1);
+    expect(cache.getStats()).toMatchObject({ size: 2, hits: 2, misses: 1, memoryHits: 2 });
+  });
+
+  it('should serve entries persisted by an earlier session', async () => {
+    const first = new AnalysisCache({ version: '1', store: new IndexedDBCacheStore(factory) });
+    await first.set('key', result(42));
+
+    const second = new AnalysisCache({ version: '1', store: new IndexedDBCacheStore(factory) });
+    expect((await second.get('key'))?.timestamp).toBe(42);
+    expect(second.getStats()).toMatchObject({ persistentHits: 1, size: 1 });
+
+    // Promoted into memory for the next lookup
+    await second.get('key');
+    expect(second.getStats().memoryHits).toBe(1);
+  });
+
+  it('should drop entries written under another version', async () => {
+    const store = new IndexedDBCacheStore(factory);
+    await new AnalysisCache({ version: '1', store }).set('key', result(1));
+
+    const upgraded = new AnalysisCache({ version: '2', store });
+    expect(await upgraded.get('key')).toBeUndefined();
+    expect(upgraded.getStats()).toMatchObject({ staleEntries: 1, misses: 1 });
+    expect(await store.count()).toBe(0);
+  });
+
+  it('should keep the persistent layer within its limit', async () => {
+    const store = new IndexedDBCacheStore(factory);
+    const cache = new AnalysisCache({ store, persistentLimit: 3 });
+
+    for (let i = 0; i < 5; i++) {
+      await cache.set(`key${i}`, result(i));
+    }
+
+    expect(await store.count()).toBe(3);
+    expect(await store.get('key0')).toBeUndefined();
+    expect((await store.get('key4'))?.result.timestamp).toBe(4);
+  });
+
+  it('should share persisted analyses between TextAnalyzer instances', async () => {
+    const text = 'Persistent caches make reloads feel instant.';
+    const first = new TextAnalyzer(
+      createAnalyzerRegistry(),
+      new AnalysisCache({ store: new IndexedDBCacheStore(factory) })
+    );
+    const original = await first.analyze(text);
+
+    const second = new TextAnalyzer(
+      createAnalyzerRegistry(),
+      new AnalysisCache({ store: new IndexedDBCacheStore(factory) })
+    );
+    const restored = await second.analyze(text);
+
+    expect(restored.timestamp).toBe(original.timestamp);
+    expect(restored.semanticGraph.nodes.size).toBe(original.semanticGraph.nodes.size);
+    expect(second.getCacheStats()).toMatchObject({ persistentHits: 1, misses: 0 });
+
+    await second.clearCache();
+    expect(await new IndexedDBCacheStore(factory).count()).toBe(0);
+  });
+});
@@ -0,0 +1,269 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { AnalysisWorkerClient } from '../ai/AnalysisWorkerClient';
+import { TextAnalyzer } from '../ai/TextAnalyzer';
+import { AnalysisCache } from '../ai/AnalysisCache';
+import { isAnalysisAbortError } from '../ai/AnalysisCancellation';
+import { serializeAnalysisResult, serializeSnapshot } from '../core/Serialization';
+import type {
+  AnalysisResultDocument,
+  AnalysisSnapshot,
+  AnalysisWorkerRequest,
+  AnalysisWorkerResponse,
+  SerializedAnalysisSnapshot
+} from '../types';
+
+// Records what the client posts; tests answer for the worker
+class StubWorker {
+  static instances: StubWorker[] = [];
+
+  onmessage: ((event: MessageEvent<AnalysisWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  posted: AnalysisWorkerRequest[] = [];
+  terminated = false;
+
+  constructor() {
+    StubWorker.instances.push(this);
+  }
+
+  postMessage(request: AnalysisWorkerRequest): void {
+    this.posted.push(request);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  respond(response: AnalysisWorkerResponse): void {
+    this.onmessage?.({ data: response } as MessageEvent<AnalysisWorkerResponse>);
+  }
+
+  fail(message: string): void {
+    this.onerror?.({ message } as ErrorEvent);
+  }
+
+  lastId(): number {
+    return this.posted[this.posted.length - 1].id;
+  }
+}
+
+const errorOf = (promise: Promise<unknown>): Promise<Error> =>
+  promise.then(() => { throw new Error('Expected a rejection'); }, error => error as Error);
+
+// Let the client's async bodies reach their postMessage calls
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const analyzer = () => new TextAnalyzer(undefined, new AnalysisCache({ store: null }));
+
+describe('AnalysisWorkerClient', () => {
+  let hope: AnalysisResultDocument;
+  let fear: AnalysisResultDocument;
+  let snapshots: SerializedAnalysisSnapshot[];
+  let client: AnalysisWorkerClient;
+  let worker: StubWorker;
+
+  beforeAll(async () => {
+    hope = serializeAnalysisResult(await analyzer().analyze('Hope returned in the spring.', { useCache: false }));
+    fear = serializeAnalysisResult(await analyzer().analyze('Fear crept through the night.', { useCache: false }));
+
+    snapshots = [];
+    const text = 'Romeo waited. Juliet smiled. The night was warm. Morning came too soon.';
+    for await (const snapshot of analyzer().analyzeStream(text, { sentencesPerChunk: 2 })) {
+      snapshots.push(serializeSnapshot(snapshot));
+    }
+  });
+
+  beforeEach(() => {
+    StubWorker.instances = [];
+    vi.stubGlobal('Worker', StubWorker);
+    client = new AnalysisWorkerClient();
+    worker = StubWorker.instances[0];
+  });
+
+  afterEach(() => {
+    client.dispose();
+    vi.unstubAllGlobals();
+  });
+
+  it('should match responses to requests by id', async () => {
+    const first = client.analyze('Hope returned in the spring.');
+    const second = client.analyze('Fear crept through the night.');
+    await settle();
+
+    const [hopeId, fearId] = worker.posted.map(request => request.id);
+    expect(worker.posted.map(request => request.type)).toEqual(['analyze', 'analyze']);
+    expect(hopeId).not.toBe(fearId);
+
+    // Answered out of order
+    worker.respond({ type: 'result', id: fearId, result: fear });
+    worker.respond({ type: 'result', id: hopeId, result: hope });
+
+    expect((await first).words).toEqual(hope.payload.words);
+    expect((await second).words).toEqual(fear.payload.words);
+  });
+
+  it('should cancel the worker run when the signal fires', async () => {
+    const controller = new AbortController();
+    const pending = client.analyze('Hope returned in the spring.', { signal: controller.signal });
+    await settle();
+
+    const id = worker.lastId();
+    controller.abort();
+
+    expect(isAnalysisAbortError(await errorOf(pending))).toBe(true);
+    expect(worker.posted[worker.posted.length - 1]).toEqual({ type: 'cancel', id });
+
+    // A late result for the cancelled request is ignored
+    worker.respond({ type: 'result', id, result: hope });
+  });
+
+  it('should reject with an abort error when the worker reports one', async () => {
+    const pending = client.analyze('Hope returned in the spring.');
+    await settle();
+
+    worker.respond({ type: 'aborted', id: worker.lastId() });
+    expect(isAnalysisAbortError(await errorOf(pending))).toBe(true);
+  });
+
+  it('should reject with the message of an error response', async () => {
+    const pending = client.analyze('Hope returned in the spring.');
+    await settle();
+
+    worker.respond({ type: 'error', id: worker.lastId(), message: 'Text analysis failed' });
+    expect((await errorOf(pending)).message).toBe('Text analysis failed');
+  });
+
+  it('should fall back to the main thread when the worker fails', async () => {
+    const pending = client.analyze('Hope returned in the spring.');
+    await settle();
+
+    worker.fail('script error');
+    expect((await errorOf(pending)).message).toBe('Analysis worker failed: script error');
+    expect(worker.terminated).toBe(true);
+    expect(client.isUsingWorker()).toBe(false);
+
+    const result = await client.analyze('Hope returned in the spring.', { useCache: false });
+    expect(result.words).toEqual(hope.payload.words);
+    expect(worker.posted).toHaveLength(1);
+  });
+
+  it('should stream snapshots and stop listening once the last one arrives', async () => {
+    const received: AnalysisSnapshot[] = [];
+    const done = (async () => {
+      for await (const snapshot of client.analyzeStream('Romeo waited.', { sentencesPerChunk: 2 })) {
+        received.push(snapshot);
+      }
+    })();
+    await settle();
+
+    const id = worker.lastId();
+    expect(worker.posted[0]).toMatchObject({ type: 'analyzeStream', id, sentencesPerChunk: 2 });
+    snapshots.forEach(snapshot => worker.respond({ type: 'snapshot', id, snapshot }));
+    await done;
+
+    expect(received.map(snapshot => snapshot.sequence)).toEqual(snapshots.map(snapshot => snapshot.sequence));
+    expect(received[received.length - 1].done).toBe(true);
+    expect(worker.posted).toHaveLength(1); // Finished streams need no cancel
+
+    // Responses for a finished stream reach nobody
+    const pending = client.analyze('Hope returned in the spring.');
+    await settle();
+    worker.respond({ type: 'snapshot', id, snapshot: snapshots[0] });
+    worker.respond({ type: 'result', id: worker.lastId(), result: hope });
+    expect((await pending).words).toEqual(hope.payload.words);
+  });
+
+  it('should cancel a stream the consumer leaves early', async () => {
+    const done = (async () => {
+      for await (const snapshot of client.analyzeStream('Romeo waited.')) {
+        if (snapshot.sequence === 0) break;
+      }
+    })();
+    await settle();
+
+    const id = worker.lastId();
+    worker.respond({ type: 'snapshot', id, snapshot: snapshots[0] });
+    await done;
+
+    expect(worker.posted[worker.posted.length - 1]).toEqual({ type: 'cancel', id });
+  });
+
+  it('should reject pending requests and new streams once disposed', async () => {
+    const pending = client.analyze('Hope returned in the spring.');
+    await settle();
+
+    client.dispose();
+    expect((await errorOf(pending)).message).toBe('Analysis worker disposed');
+    expect(worker.terminated).toBe(true);
+
+    const stream = client.analyzeStream('Romeo waited.');
+    expect((await errorOf(stream.next())).message).toBe('Analysis worker disposed');
+    expect((await errorOf(client.analyze('Hope returned.'))).message).toBe('Analysis worker disposed');
+    expect(worker.posted).toHaveLength(1);
+  });
+});
+
+describe('AnalysisWorker', () => {
+  interface WorkerScope {
+    onmessage: ((event: MessageEvent<AnalysisWorkerRequest>) => void) | null;
+    postMessage(message: AnalysisWorkerResponse): void;
+  }
+
+  const scope: WorkerScope = { onmessage: null, postMessage: () => {} };
+  let client: AnalysisWorkerClient;
+
+  // The worker script answers the client's stub worker as a real worker would
+  beforeAll(async () => {
+    vi.stubGlobal('self', scope);
+    await import('../ai/AnalysisWorker');
+    vi.unstubAllGlobals();
+  });
+
+  beforeEach(() => {
+    StubWorker.instances = [];
+    vi.stubGlobal('Worker', StubWorker);
+    client = new AnalysisWorkerClient();
+
+    const worker = StubWorker.instances[0];
+    worker.postMessage = request => {
+      worker.posted.push(request);
+      scope.onmessage!({ data: request } as MessageEvent<AnalysisWorkerRequest>);
+    };
+    scope.postMessage = response => worker.respond(response);
+  });
+
+  afterEach(() => {
+    client.dispose();
+    vi.unstubAllGlobals();
+  });
+
+  it('should analyze and stream through the message protocol', async () => {
+    const text = 'Hope returned in the spring.';
+    const result = await client.analyze(text, { useCache: false });
+    expect(result.words).toEqual((await analyzer().analyze(text, { useCache: false })).words);
+
+    const received: AnalysisSnapshot[] = [];
+    for await (const snapshot of client.analyzeStream('Romeo waited. Juliet smiled. The night was warm.', { sentencesPerChunk: 1 })) {
+      received.push(snapshot);
+    }
+    expect(received.map(snapshot => snapshot.done)).toEqual([false, false, true]);
+    expect(received[2].result.semanticGraph.nodes).toBeInstanceOf(Map);
+
+    await expect(client.clearCache()).resolves.toBeUndefined();
+  });
+
+  it('should answer a cancelled analysis with an aborted response', async () => {
+    const controller = new AbortController();
+    const responses: AnalysisWorkerResponse[] = [];
+    const deliver = scope.postMessage;
+    scope.postMessage = response => {
+      responses.push(response);
+      deliver(response);
+    };
+
+    const pending = client.analyze('Fear crept through the night.', { useCache: false, signal: controller.signal });
+    controller.abort();
+
+    expect(isAnalysisAbortError(await errorOf(pending))).toBe(true);
+    await vi.waitFor(() => expect(responses.map(response => response.type)).toContain('aborted'));
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AnalyzeCommand, parseAnalyzeArgs } from '../cli/AnalyzeCommand';
+import type { CliDocument } from '../cli/AnalyzeCommand';
+import { TextAnalyzer } from '../ai/TextAnalyzer';
+import { SCHEMA_VERSION } from '../core/Serialization';
+import type { NeuralEchoError } from '../types';
+
+const document = (text: string, source = 'draft.md'): CliDocument => ({ source, name: 'draft', text });
+
+describe('parseAnalyzeArgs', () => {
+  it('should parse inputs and options', () => {
+    const options = parseAnalyzeArgs([
+      'analyze', 'drafts/', '-', '--format=ndjson', '--no-cache', '-s', 'medium_max', '-l', 'fr', '-o', 'out'
+    ]);
+
+    expect(options).toMatchObject({
+      inputs: ['drafts/', '-'],
+      format: 'ndjson',
+      useCache: false,
+      strategy: 'medium_max',
+      language: 'fr',
+      output: 'out'
+    });
+  });
+
+  it('should reject invalid arguments with a usage error', () => {
+    const usageError = (argv: string[]) => {
+      try {
+        parseAnalyzeArgs(argv);
+      } catch (error) {
+        return (error as NeuralEchoError).code;
+      }
+      return null;
+    };
+
+    expect(usageError(['render', 'a.txt'])).toBe('CLI_USAGE_INVALID');
+    expect(usageError(['analyze'])).toBe('CLI_USAGE_INVALID');
+    expect(usageError(['analyze', 'a.txt', '--format', 'xml'])).toBe('CLI_USAGE_INVALID');
+    expect(usageError(['analyze', 'a.txt', '--strategy', 'huge'])).toBe('CLI_USAGE_INVALID');
+    expect(usageError(['analyze', 'a.txt', '--output'])).toBe('CLI_USAGE_INVALID');
+    expect(usageError(['analyze', 'a.txt', '--sentiment', 'neural'])).toBe('CLI_USAGE_INVALID');
+    expect(usageError(['analyze', 'a.txt', '--sentiment', 'ensemble'])).toBe('CLI_USAGE_INVALID');
+    expect(parseAnalyzeArgs(['analyze', 'a.txt', '--sentiment=model', '--model', 'models/sentiment']))
+      .toMatchObject({ sentiment: 'model', model: 'models/sentiment' });
+    expect(parseAnalyzeArgs(['--help']).help).toBe(true);
+  });
+});
+
+describe('AnalyzeCommand', () => {
+  let analyzer: TextAnalyzer;
+  let command: AnalyzeCommand;
+
+  beforeEach(() => {
+    analyzer = new TextAnalyzer();
+    command = new AnalyzeCommand(analyzer);
+  });
+
+  it('should render parseable JSON with the forced strategy', async () => {
+    const options = parseAnalyzeArgs(['analyze', 'draft.md', '-f', 'json', '--strategy', 'epic_standard']);
+    const report = await command.run([document('What a wonderful, happy morning.')], options);
+    const parsed = JSON.parse(command.renderAll(report.analyses, 'json'));
+
+    expect(report.failures).toEqual([]);
+    expect(parsed.version).toBe(SCHEMA_VERSION);
+    expect(parsed.payload.scalingStrategy.type).toBe('epic_standard');
+    expect(parsed.payload.words).toContain('wonderful');
+    expect(Array.isArray(parsed.payload.semanticGraph.nodes)).toBe(true);
+  });
+
+  it('should write one NDJSON line per paragraph', async () => {
+    const options = parseAnalyzeArgs(['analyze', 'draft.md', '-f', 'ndjson']);
+    const text = 'The first paragraph is joyful.\n\nThe second one is full of fear.';
+    const report = await command.run([document(text)], options);
+    const lines = command.renderAll(report.analyses, 'ndjson').trim().split('\n').map(line => JSON.parse(line));
+
+    expect(lines).toHaveLength(2);
+    expect(lines.map(line => line.paragraph)).toEqual([0, 1]);
+    expect(lines[1].start).toBe(text.indexOf('The second'));
+    expect(lines[1].result.payload.words).toContain('fear');
+  });
+
+  it('should report failing documents and keep going', async () => {
+    const analyze = analyzer.analyze.bind(analyzer);
+    vi.spyOn(analyzer, 'analyze').mockImplementation((text, options) =>
+      text.includes('broken') ? Promise.reject(new Error('Text analysis failed: broken')) : analyze(text, options)
+    );
+
+    const options = parseAnalyzeArgs(['analyze', 'a.md', 'b.md']);
+    const report = await command.run([document('A broken draft.', 'a.md'), document('A fine draft.', 'b.md')], options);
+
+    expect(report.failures).toEqual([{ source: 'a.md', message: 'Text analysis failed: broken' }]);
+    expect(report.analyses.map(analysis => analysis.document.source)).toEqual(['b.md']);
+    expect(command.renderAll(report.analyses, 'summary')).toContain('📄 b.md');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AnalyzerRegistry } from '../ai/AnalyzerRegistry';
+import type { AnalyzerPlugin, AnalyzerPluginContext, NeuralEchoError } from '../types';
+
+const baseContext: Omit<AnalyzerPluginContext, 'outputs'> = {
+  text: 'The API uses OAuth tokens',
+  words: ['The', 'API', 'uses', 'OAuth', 'tokens'],
+  language: 'en',
+  sentiment: {
+    scores: { joy: 0, sadness: 0, anger: 0, fear: 0, surprise: 0, anticipation: 0, trust: 0, disgust: 0 },
+    dominant: { emotion: 'joy', score: 0, confidence: 0 },
+    intensity: 0,
+    valence: 0,
+    arousal: 0,
+    phrases: [],
+    dyads: {
+      love: 0, submission: 0, awe: 0, disapproval: 0,
+      remorse: 0, contempt: 0, aggressiveness: 0, optimism: 0
+    },
+    timeline: { sentences: [], paragraphs: [], turningPoints: [] },
+    sarcasmProbability: 0,
+    confidence: { separation: 1, coverage: 1, agreement: 1, negation: 1, sarcasm: 1, interval: [0, 1] },
+    evidence: []
+  },
+  concepts: [],
+  complexity: {
+    overallComplexity: 0,
+    vocabularyDiversity: 0,
+    sentenceComplexity: 0,
+    conceptDensity: 0,
+    emotionalComplexity: 0
+  }
+};
+
+const plugin = (name: string, dependencies: string[] = [], analyze?: AnalyzerPlugin['analyze']): AnalyzerPlugin => ({
+  name,
+  dependencies,
+  analyze: analyze ?? (() => name)
+});
+
+describe('AnalyzerRegistry', () => {
+  let registry: AnalyzerRegistry;
+
+  beforeEach(() => {
+    registry = new AnalyzerRegistry();
+  });
+
+  it('should run plugins in dependency order regardless of registration order', () => {
+    registry
+      .register(plugin('summary', ['jargon', 'acronyms']))
+      .register(plugin('jargon', ['acronyms']))
+      .register(plugin('acronyms'));
+
+    expect(registry.getExecutionOrder().map(p => p.name)).toEqual(['acronyms', 'jargon', 'summary']);
+  });
+
+  it('should give plugins the outputs of the plugins that ran before them', () => {
+    registry
+      .register(plugin('acronyms', [], ({ words }) => words.filter(word => /^[A-Z]{2,}$/.test(word))))
+      .register(plugin('acronymCount', ['acronyms'], ({ outputs }) => (outputs.acronyms as string[]).length));
+
+    const outputs = registry.run(baseContext);
+
+    expect(outputs).toEqual({ acronyms: ['API'], acronymCount: 1 });
+  });
+
+  it('should reject duplicate names, unknown dependencies and cycles', () => {
+    registry.register(plugin('jargon'));
+    expect(() => registry.register(plugin('jargon'))).toThrow(/already registered/);
+
+    registry.register(plugin('orphan', ['missing']));
+    expect(() => registry.getExecutionOrder()).toThrow(/unknown plugin "missing"/);
+
+    registry.unregister('orphan');
+    registry.register(plugin('a', ['b'])).register(plugin('b', ['a']));
+
+    try {
+      registry.getExecutionOrder();
+      expect.fail('cycle should be rejected');
+    } catch (error) {
+      expect((error as NeuralEchoError).code).toBe('ANALYZER_PLUGIN_INVALID');
+      expect((error as Error).message).toMatch(/cycle/);
+    }
+  });
+
+  it('should leave out a failing plugin and its dependants', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    registry
+      .register(plugin('broken', [], () => { throw new Error('boom'); }))
+      .register(plugin('dependant', ['broken']))
+      .register(plugin('independent'));
+
+    expect(registry.run(baseContext)).toEqual({ independent: 'independent' });
+
+    consoleError.mockRestore();
+    consoleWarn.mockRestore();
+  });
+});
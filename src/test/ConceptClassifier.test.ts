@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { ConceptClassifier } from '../ai/ConceptClassifier';
+import { ConceptExtractor } from '../ai/ConceptExtractor';
+import { TextAnalyzer } from '../ai/TextAnalyzer';
+import { AnalysisCache } from '../ai/AnalysisCache';
+import { StaticWordEmbeddings } from '../ai/WordEmbeddings';
+import { CONCEPT_CATEGORY_FIXTURES } from './fixtures/conceptCategories';
+import type { NeuralEchoError } from '../types';
+
+describe('ConceptClassifier', () => {
+  it('should label the fixture set with at least 85% accuracy', () => {
+    const classifier = new ConceptClassifier();
+    const misses = CONCEPT_CATEGORY_FIXTURES.filter(([language, word, category]) =>
+      classifier.classify(word, language).category !== category
+    );
+
+    const accuracy = 1 - misses.length / CONCEPT_CATEGORY_FIXTURES.length;
+    expect(accuracy, `missed: ${misses.map(([language, word]) => `${language}:${word}`).join(', ')}`)
+      .toBeGreaterThanOrEqual(0.85);
+  });
+
+  it('should only match whole words', () => {
+    const classifier = new ConceptClassifier();
+
+    expect(classifier.classify('window').category).toBe('objects');   // not "do"
+    expect(classifier.classify('random').category).not.toBe('actions');
+    expect(classifier.classify('know').category).not.toBe('time');     // not "now"
+    expect(classifier.classify('snow').category).not.toBe('time');
+    expect(classifier.classify('network').category).not.toBe('places'); // not "work"
+  });
+
+  it('should be surer of listed words than of guesses', () => {
+    const classifier = new ConceptClassifier();
+    const confidence = (word: string) => classifier.classify(word).confidence;
+
+    expect(classifier.classify('friends')).toMatchObject({ category: 'people', source: 'stem' });
+    expect(classifier.classify('darkness')).toMatchObject({ category: 'abstract', source: 'suffix' });
+    expect(classifier.classify('quickly')).toMatchObject({ category: 'actions', source: 'part-of-speech' });
+    expect(classifier.classify('pebble')).toMatchObject({ category: 'objects', source: 'default' });
+
+    expect(confidence('friend')).toBeGreaterThan(confidence('friends'));
+    expect(confidence('friends')).toBeGreaterThan(confidence('darkness'));
+    expect(confidence('darkness')).toBeGreaterThan(confidence('quickly'));
+    expect(confidence('quickly')).toBeGreaterThan(confidence('pebble'));
+    // Listed under emotion and people
+    expect(confidence('love')).toBeLessThan(confidence('friend'));
+  });
+
+  it('should fall back on the nearest category in word embeddings', () => {
+    const classifier = new ConceptClassifier();
+    const embeddings = StaticWordEmbeddings.fromText('toy', [
+      '4 3',
+      'car 1 0 0',
+      'phone 0.9 0.1 0',
+      'happiness 0 1 0',
+      'blorft 0.1 0.9 0.1'
+    ].join('\n'));
+
+    expect(classifier.classify('blorft').category).toBe('objects');
+
+    classifier.setEmbeddings(embeddings);
+    const assignment = classifier.classify('blorft');
+    expect(assignment).toMatchObject({ category: 'emotion', source: 'embedding' });
+    expect(assignment.confidence).toBeGreaterThan(0.2);
+    expect(assignment.confidence).toBeLessThan(classifier.classify('quickly').confidence + 0.1);
+    expect(classifier.classify('blorft', 'fr').source).toBe('default');
+  });
+
+  it('should reject malformed embeddings', () => {
+    const error = (() => {
+      try {
+        StaticWordEmbeddings.fromText('bad', 'car 1 0\nphone 1');
+      } catch (caught) {
+        return caught as NeuralEchoError;
+      }
+      throw new Error('expected an error');
+    })();
+
+    expect(error.code).toBe('EMBEDDINGS_INVALID');
+    expect(error.message).toContain('"phone" has 1 dimensions, expected 2');
+  });
+});
+
+describe('concept category confidence', () => {
+  it('should store the confidence of every assignment on the concept', () => {
+    const concepts = new ConceptExtractor().extract('My friends met Juliet by the window, and my friends liked Juliet.');
+    const byWord = new Map(concepts.map(concept => [concept.word, concept]));
+
+    expect(byWord.get('friends')).toMatchObject({ lemma: 'friend', category: 'people', categoryConfidence: 0.85 });
+    expect(byWord.get('window')).toMatchObject({ category: 'objects', categoryConfidence: 0.95 });
+    expect(byWord.get('juliet')).toMatchObject({ category: 'people', entity: 'PERSON', categoryConfidence: 1 });
+  });
+
+  it('should key cached analyses to the embeddings in use', async () => {
+    const cache = new AnalysisCache({ store: null });
+    const analyzer = new TextAnalyzer(undefined, cache);
+    const before = cache.getVersion();
+
+    analyzer.setWordEmbeddings(new StaticWordEmbeddings('glove-test', { car: [1, 0] }));
+    expect(cache.getVersion()).not.toBe(before);
+    expect(cache.getVersion()).toContain('glove-test');
+
+    analyzer.setWordEmbeddings(null);
+    expect(cache.getVersion()).toBe(before);
+  });
+});
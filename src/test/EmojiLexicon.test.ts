@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { lookupEmoji, lookupEmoticon, normalizeEmoji } from '../ai/EmojiLexicon';
+
+describe('EmojiLexicon', () => {
+  it('should strip skin tones and variation selectors', () => {
+    expect(normalizeEmoji('👍🏿')).toBe('👍');
+    expect(normalizeEmoji('❤️')).toBe('❤');
+    expect(lookupEmoji('❤️')).toEqual(lookupEmoji('❤'));
+  });
+
+  it('should fall back from ZWJ sequences to their base emoji', () => {
+    expect(lookupEmoji('🤦🏾‍♂️')).toEqual(lookupEmoji('🤦'));
+    expect(lookupEmoji('😮‍💨')).toEqual(lookupEmoji('😮'));
+    expect(lookupEmoji('❤️‍🔥')).toEqual({ emotion: 'joy', intensity: 0.9 });
+  });
+
+  it('should have no reading for neutral pictographs', () => {
+    expect(lookupEmoji('🚗')).toBeNull();
+    expect(lookupEmoji('🇫🇷')).toBeNull();
+    expect(lookupEmoticon(':)')).toEqual({ emotion: 'joy', intensity: 0.6 });
+    expect(lookupEmoticon(':x')).toBeNull();
+  });
+});
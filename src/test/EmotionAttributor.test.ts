@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TextAnalyzer } from '../ai/TextAnalyzer';
+import { AnalysisCache } from '../ai/AnalysisCache';
+import { createAnalyzerRegistry } from '../ai/AnalyzerPlugins';
+import type { AnalysisResult, LanguageCode } from '../types';
+
+describe('EmotionAttributor', () => {
+  let textAnalyzer: TextAnalyzer;
+  const analyze = (text: string, language: LanguageCode = 'en') =>
+    textAnalyzer.analyze(text, { useCache: false, language });
+  // Concepts are keyed by lemma ("honestli"); look them up by what the text says
+  const profileOf = (result: AnalysisResult, word: string) =>
+    result.concepts.find(concept => concept.forms.some(({ form }) => form === word))?.emotionProfile;
+
+  beforeEach(() => {
+    textAnalyzer = new TextAnalyzer(createAnalyzerRegistry(), new AnalysisCache({ store: null }));
+  });
+
+  it('should attribute an emotion to the concept it is about', async () => {
+    const result = await analyze('I am angry at my boss, and the traffic downtown was slow.');
+
+    expect(profileOf(result, 'boss')).toEqual({ anger: expect.closeTo(0.8, 5) });
+    expect(profileOf(result, 'traffic')).toBeUndefined();
+    expect(profileOf(result, 'angry')).toBeUndefined();
+  });
+
+  it('should fall back to the sentence when the clause has no concepts', async () => {
+    const result = await analyze('The storm, honestly, scared us.');
+
+    const storm = profileOf(result, 'storm')?.fear ?? 0;
+    const honestly = profileOf(result, 'honestly')?.fear ?? 0;
+
+    expect(storm).toBeGreaterThan(0);
+    expect(storm + honestly).toBeCloseTo(0.8, 5);
+  });
+
+  it('should follow target markers in other languages', async () => {
+    expect(profileOf(await analyze("J'ai peur de l'orage.", 'fr'), 'orage')?.fear).toBeCloseTo(0.8, 5);
+    expect(profileOf(await analyze('Tengo miedo de la tormenta.', 'es'), 'tormenta')?.fear).toBeGreaterThan(0);
+  });
+
+  it('should add emotional edges from an emotion to its targets', async () => {
+    const { semanticGraph } = await analyze('I am angry at my boss.');
+
+    expect(semanticGraph.edges.get('emotion:anger-boss')).toMatchObject({
+      source: 'emotion:anger',
+      target: 'boss',
+      relationship: 'emotional'
+    });
+  });
+
+  it('should give the same profiles when paragraphs are analyzed incrementally', async () => {
+    const paragraphs = [
+      'Juliet was happy about the wedding.',
+      'Romeo was afraid of the duel. The duel made everyone angry.',
+      'Juliet felt sad about Romeo.'
+    ];
+    const text = paragraphs.join('\n\n');
+    const profiles = (result: AnalysisResult) => result.concepts.map(concept => [concept.word, concept.emotionProfile]);
+
+    const full = await textAnalyzer.analyze(text, { useCache: false });
+    const incremental = await textAnalyzer.analyze(text, { useCache: false, incremental: true });
+    expect(profiles(incremental)).toEqual(profiles(full));
+
+    // Editing a paragraph removes its share again
+    const edited = await textAnalyzer.analyze([paragraphs[0], 'Romeo went home.', paragraphs[2]].join('\n\n'), {
+      useCache: false,
+      incremental: true
+    });
+    expect(profileOf(edited, 'duel')).toBeUndefined();
+    expect(profileOf(edited, 'wedding')?.joy).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { LEXICON_FORMAT, mergeLexicons, parseLexicon } from '../ai/EmotionLexicon';
+import { SentimentAnalyzer } from '../ai/SentimentAnalyzer';
+import { TextAnalyzer } from '../ai/TextAnalyzer';
+import { AnalysisCache } from '../ai/AnalysisCache';
+import { createAnalyzerRegistry } from '../ai/AnalyzerPlugins';
+import type { NeuralEchoError } from '../types';
+
+const TSV = [
+  '# Team overrides',
+  'stoked\tjoy:0.9,anticipation:0.4\tadj',
+  'Over  The Moon\tjoy:1',
+  'blue\t-'
+].join('\n');
+
+const errorOf = (fn: () => unknown): NeuralEchoError => {
+  try {
+    fn();
+  } catch (error) {
+    return error as NeuralEchoError;
+  }
+  throw new Error('Expected an error');
+};
+
+describe('EmotionLexicon', () => {
+  it('should grade built-in entries and weight mixed words', () => {
+    const analyzer = new SentimentAnalyzer();
+    const joy = (text: string) => analyzer.tally(text).sums.joy;
+
+    expect(joy('I am ecstatic.')).toBeGreaterThan(joy('I am content.'));
+
+    const excited = analyzer.tally('I am excited.');
+    expect(excited.emotionalWords).toBe(1);
+    expect(excited.sums.joy).toBeGreaterThan(0);
+    expect(excited.sums.anticipation).toBeGreaterThan(0);
+  });
+
+  it('should read the same entries from TSV and JSON', () => {
+    const fromTsv = parseLexicon(TSV);
+    const fromJson = parseLexicon(JSON.stringify({
+      format: LEXICON_FORMAT,
+      version: 1,
+      language: 'en',
+      entries: [
+        { term: 'stoked', emotions: { joy: 0.9, anticipation: 0.4 }, pos: ['adj'] },
+        { term: 'over the moon', emotions: { joy: 1 } },
+        { term: 'blue', remove: true }
+      ]
+    }), { language: 'en' });
+
+    expect(fromTsv).toEqual(fromJson);
+    expect(fromTsv[1].term).toBe('over the moon');
+  });
+
+  it('should reject invalid sources with the offending location', () => {
+    const invalid = (source: string) => errorOf(() => parseLexicon(source));
+
+    expect(invalid('calm\tserenity:0.5')).toMatchObject({ code: 'LEXICON_INVALID' });
+    expect(invalid('calm\tserenity:0.5').message).toContain('line 1 has an unknown emotion "serenity"');
+    expect(invalid('# header\ncalm\tjoy:1.5').message).toContain('line 2 intensity for joy');
+    expect(invalid('calm\tjoy').message).toContain('malformed emotion');
+    expect(invalid('calm\tjoy:0.5\tadjective').message).toContain('unknown part of speech "adjective"');
+    expect(invalid('calm\tjoy:0.5\nCalm\tjoy:0.4').message).toContain('line 2 repeats the term "calm"');
+    expect(invalid('{"format": "other", "version": 1, "entries": []}').message).toContain('format must be');
+    expect(invalid(`{"format": "${LEXICON_FORMAT}", "version": 1, "entries": [{"term": "calm"}]}`).message)
+      .toContain('entries[0] ("calm") needs at least one emotion');
+    expect(errorOf(() => parseLexicon({ format: LEXICON_FORMAT, version: 1, language: 'fr', entries: [] }, { language: 'en' })).message)
+      .toContain('written for "fr"');
+  });
+
+  it('should merge overrides term by term', () => {
+    const base = parseLexicon('calm\tjoy:0.3\nblue\tsadness:0.6\nsad\tsadness:0.8');
+    const merged = mergeLexicons(base, parseLexicon(TSV), parseLexicon('calm\tjoy:0.4,anticipation:0.2'));
+
+    expect(merged.map(entry => entry.term)).toEqual(['calm', 'sad', 'stoked', 'over the moon']);
+    expect(merged[0].emotions).toEqual({ joy: 0.4, anticipation: 0.2 });
+  });
+
+  it('should load overrides into the analyzers and keep the lexicon on errors', async () => {
+    const textAnalyzer = new TextAnalyzer(createAnalyzerRegistry(), new AnalysisCache({ store: null }));
+    const sentimentAnalyzer = textAnalyzer.getSentimentAnalyzer();
+    const version = textAnalyzer.getAnalysisCache().getVersion();
+
+    textAnalyzer.loadLexicon('en', TSV);
+    expect(sentimentAnalyzer.tally('I feel stoked.').sums.joy).toBeCloseTo(0.9, 5);
+    expect(sentimentAnalyzer.tally('I feel blue.').emotionalWords).toBe(0);
+    expect(sentimentAnalyzer.tally('I feel happy.').sums.joy).toBeCloseTo(0.8, 5);
+    expect(textAnalyzer.getAnalysisCache().getVersion()).not.toBe(version);
+
+    expect(() => textAnalyzer.loadLexicon('en', 'stoked\tjoy:2')).toThrow();
+    expect(sentimentAnalyzer.tally('I feel stoked.').sums.joy).toBeCloseTo(0.9, 5);
+
+    textAnalyzer.loadLexicon('en', 'stoked\tjoy:0.5', { replace: true });
+    expect(sentimentAnalyzer.tally('I feel happy.').emotionalWords).toBe(0);
+
+    textAnalyzer.resetLexicon();
+    expect(sentimentAnalyzer.tally('I feel happy.').sums.joy).toBeCloseTo(0.8, 5);
+    expect(textAnalyzer.getAnalysisCache().getVersion()).toBe(version);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { EntityRecognizer } from '../ai/EntityRecognizer';
+import { ConceptExtractor } from '../ai/ConceptExtractor';
+import { TextAnalyzer } from '../ai/TextAnalyzer';
+import { AnalysisCache } from '../ai/AnalysisCache';
+import { Tokenizer } from '../ai/Tokenizer';
+import type { LanguageCode } from '../types';
+
+describe('EntityRecognizer', () => {
+  const tokenizer = new Tokenizer();
+  const recognizer = new EntityRecognizer(tokenizer);
+  const chunk = (text: string, language: LanguageCode = 'en') =>
+    recognizer.chunk(text, tokenizer.tokenize(text).tokens, language).map(unit => [unit.word, unit.entity]);
+
+  it('should keep names whole and type them', () => {
+    expect(chunk('I moved to New York City and met Sherlock Holmes at Baker Street.')).toEqual([
+      ['new york city', 'PLACE'],
+      ['sherlock holmes', 'PERSON'],
+      ['baker street', 'PLACE']
+    ]);
+    expect(chunk('She works for the Bank of England, near Dr. Watson.')).toEqual([
+      ['bank of england', 'ORG'],
+      ['watson', 'PERSON']
+    ]);
+  });
+
+  it('should find dates and listed collocations', () => {
+    expect(chunk('We met on June 5, 2024 to talk about climate change.')).toEqual([
+      ['june 5 2024', 'DATE'],
+      ['climate change', undefined]
+    ]);
+    expect(chunk('Nos vimos el 3 de mayo en Buenos Aires.', 'es')).toEqual([['mayo', 'DATE'], ['buenos aires', 'PLACE']]);
+    expect(chunk('They married on Monday, 5 March 2021.')).toEqual([
+      ['monday', 'DATE'],
+      ['5 march 2021', 'DATE']
+    ]);
+  });
+
+  it('should not take a capital at the start of a sentence for a name', () => {
+    expect(chunk('Running is hard. Yesterday Juliet left. I LOVE THIS.')).toEqual([['juliet', 'PERSON']]);
+    expect(chunk('Paris is lovely.')).toEqual([['paris', 'PLACE']]);
+  });
+
+  it('should take a lone capital at the start of a sentence for a name used as one elsewhere', () => {
+    expect(chunk('Romeo loved Juliet. Juliet loved Romeo.')).toEqual([
+      ['romeo', 'PERSON'],
+      ['juliet', 'PERSON'],
+      ['juliet', 'PERSON'],
+      ['romeo', 'PERSON']
+    ]);
+    // Evidence stays within a paragraph, since paragraphs may be analyzed alone
+    expect(chunk('Romeo waited.\n\nShe loved Romeo.')).toEqual([['romeo', 'PERSON']]);
+  });
+
+  it('should only trust titles and the gazetteer where every noun is capitalized', () => {
+    expect(chunk('Die Liebe von Herr Müller in Berlin.', 'de')).toEqual([['müller', 'PERSON'], ['berlin', 'PLACE']]);
+  });
+});
+
+describe('multi-word concepts', () => {
+  it('should make concepts of names and map entity types to categories', () => {
+    const concepts = new ConceptExtractor().extract('I flew to New York on Friday. New York was loud, and Juliet loved it.');
+    const byWord = new Map(concepts.map(concept => [concept.word, concept]));
+
+    expect(byWord.get('new york')).toMatchObject({ entity: 'PLACE', category: 'places', frequency: 2 });
+    expect(byWord.get('friday')).toMatchObject({ entity: 'DATE', category: 'time' });
+    expect(byWord.get('juliet')).toMatchObject({ entity: 'PERSON', category: 'people' });
+    expect(byWord.has('new')).toBe(false);
+    expect(byWord.has('york')).toBe(false);
+  });
+
+  it('should promote word pairs that mostly occur together', () => {
+    const text = 'The neural network was trained. A neural network learns, and every neural network needs data. The network is neural.';
+    const concepts = new ConceptExtractor().extract(text);
+    const pair = concepts.find(concept => concept.word === 'neural network')!;
+    const network = concepts.find(concept => concept.word === 'network')!;
+
+    expect(pair.frequency).toBe(3);
+    expect(pair.position.map(position => text.slice(position, position + 14))).toEqual(Array(3).fill('neural network'));
+    expect(network.frequency).toBe(1);
+    expect(network.position).toEqual([text.lastIndexOf('network')]);
+  });
+
+  it('should agree with a full analysis when paragraphs are analyzed one at a time', async () => {
+    const analyzer = new TextAnalyzer(undefined, new AnalysisCache({ store: null }));
+    const text = [
+      'The neural network met Sherlock Holmes in New York.',
+      'Every neural network needs data. Sherlock Holmes was angry at the neural network.',
+      'On June 5, 2024 the network rested.'
+    ].join('\n\n');
+    const summary = (concepts: { word: string; frequency: number; position: number[]; entity?: string }[]) =>
+      concepts.map(({ word, frequency, position, entity }) => [word, frequency, position, entity]);
+
+    const full = await analyzer.analyze(text, { useCache: false });
+    const incremental = await analyzer.analyze(text, { useCache: false, incremental: true });
+
+    expect(summary(incremental.concepts)).toEqual(summary(full.concepts));
+    expect(full.concepts.find(concept => concept.word === 'sherlock holmes')?.emotionProfile?.anger).toBeGreaterThan(0);
+  });
+});
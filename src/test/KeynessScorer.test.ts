@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { KeynessScorer } from '../ai/KeynessScorer';
+import { ConceptExtractor } from '../ai/ConceptExtractor';
+import { TextAnalyzer } from '../ai/TextAnalyzer';
+import { AnalysisCache } from '../ai/AnalysisCache';
+import type { NeuralEchoError } from '../types';
+
+describe('KeynessScorer', () => {
+  const keyness = new KeynessScorer();
+
+  it('should look words up in the reference frequencies', () => {
+    expect(keyness.referenceRate('time')).toBeGreaterThan(keyness.referenceRate('garden'));
+    expect(keyness.referenceRate('garden')).toBeGreaterThan(keyness.referenceRate('pebble'));
+    expect(keyness.referenceRate('pebble')).toBeCloseTo(1e-6, 12); // Unlisted words are rare
+    expect(keyness.referenceRate('gardens')).toBe(keyness.referenceRate('garden'));
+    expect(keyness.referenceRate('climate change')).toBe(keyness.referenceRate('climate'));
+    expect(keyness.referenceRate('liebe', 'de')).toBeGreaterThan(keyness.referenceRate('sehnsucht', 'de'));
+  });
+
+  it('should score rare and repeated words as key, and overused common ones below zero', () => {
+    const rate = (word: string) => keyness.referenceRate(word);
+
+    expect(keyness.score(1, 100, rate('pebble'))).toBeGreaterThan(keyness.score(1, 100, rate('time')));
+    expect(keyness.score(3, 100, rate('garden'))).toBeGreaterThan(keyness.score(1, 100, rate('extraordinary')));
+    expect(keyness.score(1, 1_000_000, rate('time'))).toBeLessThan(0);
+    expect(keyness.score(0, 100, rate('time'))).toBe(0);
+  });
+});
+
+describe('concept relevance', () => {
+  const filler = 'It was as it was, and so it is. '.repeat(6); // Stopwords only: no concepts of its own
+
+  it('should rank a repeated key term above a long word used once', () => {
+    const text = `The garden was quiet. ${filler}An extraordinary bird sang in the garden, and the garden listened.`;
+    const concepts = new ConceptExtractor().extract(text);
+    const relevance = (word: string) => concepts.find(concept => concept.word === word)?.relevance ?? 0;
+
+    expect(concepts[0].word).toBe('garden');
+    expect(relevance('garden')).toBe(1);
+    expect(relevance('garden')).toBeGreaterThan(relevance('extraordinary'));
+    expect(relevance('extraordinary')).toBeGreaterThan(0);
+  });
+
+  it('should weight position by where the word itself first appears', () => {
+    // "rot" hides inside the opening "carrot"; it and "pebble" both first appear at the end
+    const text = `Carrot soup again. ${filler}Then the rot set in, and a pebble fell.`;
+    const concepts = new ConceptExtractor().extract(text);
+    const [rot, pebble] = ['rot', 'pebble'].map(word => concepts.find(concept => concept.word === word)!);
+
+    expect(rot.category).toBe(pebble.category);
+    expect(rot.relevance).toBe(pebble.relevance);
+  });
+
+  it('should keep only concepts above the configured threshold', async () => {
+    const text = `The garden was quiet. ${filler}An extraordinary bird sang in the garden, and the garden listened.`;
+    const cache = new AnalysisCache({ store: null });
+    const analyzer = new TextAnalyzer(undefined, cache);
+    const strict = new TextAnalyzer(undefined, new AnalysisCache({ store: null }), { conceptExtractionThreshold: 0.5 });
+
+    const all = await analyzer.analyze(text, { useCache: false });
+    const kept = await strict.analyze(text, { useCache: false });
+    expect(kept.concepts.length).toBeGreaterThan(0);
+    expect(kept.concepts.length).toBeLessThan(all.concepts.length);
+    expect(kept.concepts.every(concept => concept.relevance > 0.5)).toBe(true);
+
+    const version = cache.getVersion();
+    analyzer.configure({ conceptExtractionThreshold: 0.5 });
+    expect(cache.getVersion()).not.toBe(version);
+
+    let error: NeuralEchoError | undefined;
+    try {
+      analyzer.configure({ conceptExtractionThreshold: 1.5 });
+    } catch (caught) {
+      error = caught as NeuralEchoError;
+    }
+    expect(error?.code).toBe('AI_CONFIG_INVALID');
+  });
+
+  it('should score paragraphs analyzed one at a time like the whole text', async () => {
+    const analyzer = new TextAnalyzer(undefined, new AnalysisCache({ store: null }));
+    const text = [
+      `A pebble lay by the garden gate. ${filler}`,
+      `The lantern burned all night. ${filler}`,
+      'In the end the pebble and the lantern were all that was left of the garden.'
+    ].join('\n\n');
+    const summary = (concepts: { word: string; relevance: number }[]) => concepts.map(({ word, relevance }) => [word, relevance]);
+
+    const full = await analyzer.analyze(text, { useCache: false });
+    const incremental = await analyzer.analyze(text, { useCache: false, incremental: true });
+
+    expect(summary(incremental.concepts)).toEqual(summary(full.concepts));
+  });
+});
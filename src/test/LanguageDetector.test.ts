@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LanguageDetector } from '../ai/LanguageDetector';
+import { TextAnalyzer } from '../ai/TextAnalyzer';
+import { ConceptExtractor } from '../ai/ConceptExtractor';
+import type { LanguageCode } from '../types';
+
+describe('LanguageDetector', () => {
+  let detector: LanguageDetector;
+
+  beforeEach(() => {
+    detector = new LanguageDetector();
+  });
+
+  it('should detect each supported language', () => {
+    expect(detector.detect('I am so happy today, the weather is wonderful and my friends are coming over.').language).toBe('en');
+    expect(detector.detect('Estoy muy feliz hoy, el tiempo es maravilloso y mis amigos vienen a casa.').language).toBe('es');
+    expect(detector.detect("Je suis très heureux aujourd'hui, il fait beau et mes amis viennent à la maison.").language).toBe('fr');
+    expect(detector.detect('Ich bin heute sehr glücklich, das Wetter ist wunderbar und meine Freunde kommen vorbei.').language).toBe('de');
+  });
+
+  it('should stay with English for short or ambiguous text', () => {
+    expect(detector.detect('Hi!')).toMatchObject({ language: 'en', confidence: 0 });
+    expect(detector.detect('Cat dog run jump sit stay good bad.').language).toBe('en');
+  });
+});
+
+describe('TextAnalyzer multilingual analysis', () => {
+  let analyzer: TextAnalyzer;
+
+  beforeEach(() => {
+    analyzer = new TextAnalyzer();
+  });
+
+  it('should analyze non-English text with the matching lexicon', async () => {
+    const result = await analyzer.analyze('Me siento muy triste y sola esta noche, lloro por mi familia.');
+
+    expect(result.language.language).toBe('es');
+    expect(result.sentiment.dominant.emotion).toBe('sadness');
+    expect(result.concepts.find(concept => concept.word === 'familia')?.category).toBe('people');
+    expect(result.concepts.some(concept => concept.word === 'esta')).toBe(false);
+  });
+
+  it('should handle French elision when matching emotions', async () => {
+    const result = await analyzer.analyze("J'ai peur de l'avenir et de l'angoisse qui revient chaque nuit.");
+
+    expect(result.language.language).toBe('fr');
+    expect(result.sentiment.scores.fear).toBeGreaterThan(0);
+  });
+
+  it('should use a forced language instead of detecting one', async () => {
+    const result = await analyzer.analyze('Ich bin glücklich', { language: 'de' });
+
+    expect(result.language).toMatchObject({ language: 'de', confidence: 1 });
+    expect(result.sentiment.dominant.emotion).toBe('joy');
+  });
+});
+
+describe('ConceptExtractor stopwords', () => {
+  const extractor = new ConceptExtractor();
+  const formsOf = (text: string, language: LanguageCode) =>
+    extractor.extract(text, language).flatMap(concept => concept.forms.map(form => form.form));
+
+  it('should leave out Spanish auxiliaries and conjunctions', () => {
+    const forms = formsOf('Estoy cansado porque mi hermano viene tarde, tengo sueño y hemos perdido el tren.', 'es');
+
+    expect(forms).toContain('hermano');
+    ['estoy', 'viene', 'tengo', 'hemos'].forEach(word => expect(forms).not.toContain(word));
+  });
+
+  it('should leave out French auxiliaries and conjunctions', () => {
+    const forms = formsOf('Je suis fatigué parce que mon frère vient tard, nous avons raté le train puis la soirée.', 'fr');
+
+    expect(forms).toContain('frère');
+    ['suis', 'parce', 'vient', 'avons', 'puis'].forEach(word => expect(forms).not.toContain(word));
+  });
+
+  it('should leave out German auxiliaries and conjunctions', () => {
+    const forms = formsOf('Ich bin müde, weil mein Bruder spät kommt, denn wir haben den Zug verpasst und können nicht schlafen.', 'de');
+
+    expect(forms).toContain('bruder');
+    ['weil', 'denn', 'können'].forEach(word => expect(forms).not.toContain(word));
+  });
+});
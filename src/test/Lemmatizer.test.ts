@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { Lemmatizer } from '../ai/Lemmatizer';
+import { porterStem } from '../ai/PorterStemmer';
+import { ConceptExtractor } from '../ai/ConceptExtractor';
+import { Tokenizer } from '../ai/Tokenizer';
+
+describe('Lemmatizer', () => {
+  it('should stem English with the Porter algorithm', () => {
+    const stems: [string, string][] = [
+      ['caresses', 'caress'], ['ponies', 'poni'], ['agreed', 'agre'], ['hopping', 'hop'], ['filing', 'file'],
+      ['relational', 'relat'], ['generalization', 'gener'], ['hopeful', 'hope'], ['adjustment', 'adjust'],
+      ['adoption', 'adopt'], ['falling', 'fall'], ['happiness', 'happi']
+    ];
+    stems.forEach(([word, stem]) => expect(porterStem(word)).toBe(stem));
+    expect(porterStem('café')).toBe('café');
+  });
+
+  it('should fold plurals in the other languages', () => {
+    const lemmatizer = new Lemmatizer();
+
+    expect(lemmatizer.lemmatize('familias', 'es')).toBe('familia');
+    expect(lemmatizer.lemmatize('canciones', 'es')).toBe(lemmatizer.lemmatize('cancion', 'es'));
+    expect(lemmatizer.lemmatize('chevaux', 'fr')).toBe('cheval');
+    expect(lemmatizer.lemmatize('amours', 'fr')).toBe('amour');
+    expect(lemmatizer.lemmatize('freundinnen', 'de')).toBe('freundin');
+    expect(lemmatizer.lemmatize('tage', 'de')).toBe('tage');
+  });
+
+  it('should let a language use its own stemmer', () => {
+    const lemmatizer = new Lemmatizer();
+    expect(lemmatizer.lemmatize('running')).toBe('run');
+
+    lemmatizer.register('en', word => word);
+    expect(lemmatizer.lemmatize('running')).toBe('running');
+    expect(lemmatizer.lemmatize('familias', 'es')).toBe('familia');
+  });
+
+  it('should make one concept of a word and its inflections', () => {
+    const extractor = new ConceptExtractor(new Tokenizer());
+    const text = 'Running is hard. She runs daily, and she runs fast because running clears her head. I run too.';
+    const concepts = extractor.extract(text);
+
+    const run = concepts.find(concept => concept.lemma === 'run')!;
+    expect(concepts.filter(concept => ['running', 'runs', 'run'].includes(concept.word))).toEqual([run]);
+    expect(run.word).toBe('running'); // The commonest form, ties in alphabetical order
+    expect(run.frequency).toBe(5);
+    expect(run.forms.map(({ form, frequency }) => [form, frequency])).toEqual([['running', 2], ['runs', 2], ['run', 1]]);
+    expect(run.forms.find(({ form }) => form === 'run')!.positions).toEqual([text.indexOf('run too')]);
+    expect(run.position).toEqual(run.forms.flatMap(({ positions }) => positions).sort((a, b) => a - b));
+    expect(run.position.map(position => text.slice(position, position + 3).toLowerCase())).toEqual(Array(5).fill('run'));
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import * as THREE from 'three';
 import { NodeSystem } from '../rendering/NodeSystem';
+import { AnalyzerRegistry } from '../ai/AnalyzerRegistry';
 import type { AnalysisResult, Concept, EmotionScores } from '../types';
 
 // Mock analysis result for testing
@@ -13,7 +14,9 @@ const mockAnalysisResult: AnalysisResult = {
       anger: 0.2,
       fear: 0.4,
       surprise: 0.1,
-      anticipation: 0.6
+      anticipation: 0.6,
+      trust: 0.5,
+      disgust: 0.1
     },
     dominant: {
       emotion: 'sadness',
@@ -22,31 +25,58 @@ const mockAnalysisResult: AnalysisResult = {
     },
     intensity: 0.7,
     valence: -0.3,
-    arousal: 0.6
+    arousal: 0.6,
+    phrases: [],
+    dyads: {
+      love: 0.3,
+      submission: 0.4,
+      awe: 0.1,
+      disapproval: 0.1,
+      remorse: 0.1,
+      contempt: 0.1,
+      aggressiveness: 0.2,
+      optimism: 0.3
+    },
+    timeline: { sentences: [], paragraphs: [], turningPoints: [] },
+    sarcasmProbability: 0,
+    confidence: { separation: 1, coverage: 1, agreement: 1, negation: 1, sarcasm: 1, interval: [0, 1] },
+    evidence: []
   },
   concepts: [
     {
       word: 'love',
+      lemma: 'love',
       category: 'emotion',
+      categoryConfidence: 0.95,
       relevance: 0.9,
+      centrality: 1,
       frequency: 3,
       position: [0, 5, 10],
+      forms: [{ form: 'love', frequency: 3, positions: [0, 5, 10] }],
       connections: ['romeo', 'juliet']
     },
     {
       word: 'romeo',
+      lemma: 'romeo',
       category: 'people',
+      categoryConfidence: 0.95,
       relevance: 0.8,
+      centrality: 0.9,
       frequency: 2,
       position: [0, 15],
+      forms: [{ form: 'romeo', frequency: 2, positions: [0, 15] }],
       connections: ['love', 'juliet']
     },
     {
       word: 'juliet',
+      lemma: 'juliet',
       category: 'people',
+      categoryConfidence: 0.95,
       relevance: 0.8,
+      centrality: 0.9,
       frequency: 2,
       position: [1, 20],
+      forms: [{ form: 'juliet', frequency: 2, positions: [1, 20] }],
       connections: ['love', 'romeo']
     }
   ],
@@ -56,10 +86,14 @@ const mockAnalysisResult: AnalysisResult = {
         id: 'love',
         concept: {
           word: 'love',
+          lemma: 'love',
           category: 'emotion',
+          categoryConfidence: 0.95,
           relevance: 0.9,
+          centrality: 1,
           frequency: 3,
           position: [0, 5, 10],
+          forms: [{ form: 'love', frequency: 3, positions: [0, 5, 10] }],
           connections: ['romeo', 'juliet']
         },
         importance: 0.9,
@@ -77,6 +111,7 @@ const mockAnalysisResult: AnalysisResult = {
     ]),
     clusters: []
   },
+  keySentences: [],
   complexity: {
     overallComplexity: 0.6,
     vocabularyDiversity: 0.7,
@@ -93,6 +128,8 @@ const mockAnalysisResult: AnalysisResult = {
   },
   emojis: [],
   emojiInfluence: 0,
+  language: { language: 'en', confidence: 1, scores: { en: 1, es: 0, fr: 0, de: 0 } },
+  extensions: {},
   timestamp: Date.now()
 };
 
@@ -138,6 +175,37 @@ describe('NodeSystem', () => {
       expect(conceptNodes.length).toBeGreaterThan(0);
     });
 
+    it('should name concept nodes by their commonest surface form', () => {
+      const visualization = nodeSystem.generateVisualization({
+        ...mockAnalysisResult,
+        concepts: [{
+          ...mockAnalysisResult.concepts[0],
+          word: 'running',
+          lemma: 'run',
+          forms: [
+            { form: 'running', frequency: 2, positions: [0, 10] },
+            { form: 'run', frequency: 1, positions: [5] }
+          ]
+        }]
+      });
+      const conceptNodes = visualization.nodes.filter(node => node.data.concept);
+
+      expect(conceptNodes.map(node => node.data.word)).toEqual(['running']);
+    });
+
+    it('should make the most central concepts the primary nodes', () => {
+      const [love, romeo] = mockAnalysisResult.concepts;
+      const visualization = nodeSystem.generateVisualization({
+        ...mockAnalysisResult,
+        concepts: [{ ...love, centrality: 0.2 }, { ...romeo, centrality: 1 }],
+        semanticGraph: { nodes: new Map(), edges: new Map(), clusters: [] }
+      });
+      const conceptNodes = visualization.nodes.filter(node => node.type === 'concept' && !node.synthetic);
+
+      expect(conceptNodes.map(node => node.data.word)).toEqual(['romeo', 'love']);
+      expect(conceptNodes[0].importance).toBeGreaterThan(conceptNodes[1].importance);
+    });
+
     it('should create emotion nodes when sentiment is strong', () => {
       const visualization = nodeSystem.generateVisualization(mockAnalysisResult);
       
@@ -167,6 +235,21 @@ describe('NodeSystem', () => {
         expect(connection.weight).toBeGreaterThan(0);
       });
     });
+    it('should wire emotional edges to the emotion node rather than a concept of the same name', () => {
+      const [love, romeo] = mockAnalysisResult.concepts;
+      const sadness = { ...love, word: 'sadness', lemma: 'sad', forms: [{ form: 'sadness', frequency: 3, positions: [0, 5, 10] }] };
+      const edge = { id: 'emotion:sadness-romeo', source: 'emotion:sadness', target: 'romeo', weight: 0.8, relationship: 'emotional' as const };
+      const visualization = nodeSystem.generateVisualization({
+        ...mockAnalysisResult,
+        concepts: [sadness, romeo],
+        semanticGraph: { nodes: new Map(), edges: new Map([[edge.id, edge]]), clusters: [] }
+      });
+      const nodesById = new Map(visualization.nodes.map(node => [node.id, node]));
+
+      expect(visualization.connections).toHaveLength(1);
+      expect(nodesById.get(visualization.connections[0].source)).toMatchObject({ type: 'emotion', data: { emotion: 'sadness' } });
+      expect(nodesById.get(visualization.connections[0].target)!.data.word).toBe('romeo');
+    });
   });
 
   describe('node properties', () => {
@@ -305,6 +388,97 @@ describe('NodeSystem', () => {
     });
   });
 
+  describe('streaming snapshots', () => {
+    const snapshot = (sequence: number, result: AnalysisResult, streamId = 'stream_a') => ({
+      streamId,
+      sequence,
+      progress: (sequence + 1) / 2,
+      done: sequence === 1,
+      result
+    });
+
+    it('should keep existing nodes when a snapshot of the same stream arrives', () => {
+      const first = nodeSystem.applySnapshot(snapshot(0, mockAnalysisResult));
+      const loveNode = first.nodes.find(node => node.data.word === 'love')!;
+
+      const grown: AnalysisResult = {
+        ...mockAnalysisResult,
+        scalingStrategy: { ...mockAnalysisResult.scalingStrategy, nodeCount: 12 }
+      };
+      const second = nodeSystem.applySnapshot(snapshot(1, grown));
+
+      expect(second.nodes.length).toBeGreaterThan(first.nodes.length);
+      expect(second.nodes.find(node => node.data.word === 'love')!.id).toBe(loveNode.id);
+      expect(nodeGroup.children.length).toBe(second.nodes.length);
+    });
+
+    it('should rebuild the scene for a new stream', () => {
+      const first = nodeSystem.applySnapshot(snapshot(0, mockAnalysisResult));
+      const second = nodeSystem.applySnapshot(snapshot(0, mockAnalysisResult, 'stream_b'));
+
+      const firstIds = new Set(first.nodes.map(node => node.id));
+      expect(second.nodes.some(node => firstIds.has(node.id))).toBe(false);
+      expect(nodeGroup.children.length).toBe(second.nodes.length);
+    });
+
+    it('should grow new nodes in from zero scale', () => {
+      const visualization = nodeSystem.applySnapshot(snapshot(0, mockAnalysisResult));
+      nodeSystem.update(0.016);
+
+      const mesh = nodeGroup.children[0] as THREE.Mesh;
+      expect(mesh.scale.x).toBeLessThan(visualization.nodes[0].size);
+    });
+  });
+
+  describe('analyzer plugin nodes', () => {
+    it('should turn plugin output into nodes through the registry hook', () => {
+      const registry = new AnalyzerRegistry().register({
+        name: 'jargon',
+        analyze: () => ['synergy'],
+        createNodes: (terms: string[]) => terms.map(word => ({ word, importance: 0.8, color: 0xff00ff }))
+      });
+      const pluginNodeSystem = new NodeSystem(nodeGroup, connectionGroup, registry);
+
+      const visualization = pluginNodeSystem.generateVisualization({
+        ...mockAnalysisResult,
+        extensions: { jargon: ['synergy'] }
+      });
+      const jargonNode = visualization.nodes.find(node => node.data.source === 'jargon');
+
+      expect(jargonNode).toBeDefined();
+      expect(jargonNode!.data.word).toBe('synergy');
+      expect(jargonNode!.color.getHex()).toBe(0xff00ff);
+      expect(visualization.nodes.length).toBeLessThanOrEqual(mockAnalysisResult.scalingStrategy.nodeCount);
+    });
+  });
+
+  describe('emotion phrases', () => {
+    it('should create one node per phrase instead of its fragments', () => {
+      const visualization = nodeSystem.generateVisualization({
+        ...mockAnalysisResult,
+        concepts: [
+          ...mockAnalysisResult.concepts,
+          {
+            word: 'moon', lemma: 'moon', category: 'objects', categoryConfidence: 0.2, relevance: 0.95, centrality: 0.5, frequency: 2, position: [30, 60],
+            forms: [{ form: 'moon', frequency: 2, positions: [30, 60] }], connections: []
+          }
+        ],
+        sentiment: {
+          ...mockAnalysisResult.sentiment,
+          phrases: [
+            { phrase: 'over the moon', emotion: 'joy', start: 21, end: 34 },
+            { phrase: 'over the moon', emotion: 'joy', start: 51, end: 64 }
+          ]
+        }
+      });
+      const words = visualization.nodes.map(node => node.data.word);
+
+      expect(words.filter(word => word === 'over the moon')).toHaveLength(1);
+      expect(words).not.toContain('moon');
+      expect(visualization.nodes.find(node => node.data.word === 'over the moon')!.type).toBe('emotion');
+    });
+  });
+
   describe('cleanup', () => {
     it('should clear all nodes and connections', () => {
       nodeSystem.generateVisualization(mockAnalysisResult);
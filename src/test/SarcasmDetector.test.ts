@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { SarcasmDetector } from '../ai/SarcasmDetector';
+import type { SarcasmContext } from '../types';
+
+const context = (text: string, overrides: Partial<SarcasmContext> = {}): SarcasmContext => ({
+  text,
+  words: text.toLowerCase().match(/[\p{L}']+/gu) ?? [],
+  positive: 0,
+  negative: 0,
+  positiveSpans: [],
+  emojis: [],
+  negativeEmojis: 0,
+  ...overrides
+});
+
+describe('SarcasmDetector', () => {
+  const detector = new SarcasmDetector();
+
+  it('should find no sarcasm without cues', () => {
+    expect(detector.score(context('What a great day!', { positive: 0.7, positiveSpans: [[7, 12]] }))).toBe(0);
+  });
+
+  it('should score single cues by strength', () => {
+    const marker = detector.score(context('Yeah right, that went well.'));
+    const eyeRoll = detector.score(context('Another meeting 🙄', { emojis: ['🙄'] }));
+    const quoted = detector.score(context('Thanks for the "wonderful" advice.', { positive: 0.9, positiveSpans: [[16, 25]] }));
+    const dots = detector.score(context('Wonderful...', { positive: 0.9, positiveSpans: [[0, 9]] }));
+
+    expect(marker).toBeGreaterThan(0.5);
+    expect(eyeRoll).toBeGreaterThan(0.5);
+    expect(quoted).toBeCloseTo(0.5, 5);
+    expect(dots).toBeLessThan(0.5);
+  });
+
+  it('should only count clashes when there is something positive to undercut', () => {
+    expect(detector.score(context('Sad news 😢', { negative: 0.8, negativeEmojis: 1, emojis: ['😢'] }))).toBe(0);
+    expect(detector.score(context('Lovely news 😢', { positive: 0.8, negativeEmojis: 1, emojis: ['😢'] }))).toBeCloseTo(0.4, 5);
+  });
+
+  it('should combine cues so that several weak ones add up', () => {
+    const single = detector.score(context('Oh great, another Monday', { positive: 0.7 }));
+    const combined = detector.score(context('Oh great, another Monday 🙄', { positive: 0.7, emojis: ['🙄'], negativeEmojis: 1 }));
+
+    expect(combined).toBeGreaterThan(single);
+    expect(combined).toBeLessThan(1);
+  });
+
+  it('should use the markers of the language pack', () => {
+    expect(detector.score(context('Na toll, wieder Montag.'), 'de')).toBeGreaterThan(0.5);
+    expect(detector.score(context('Na toll, wieder Montag.'), 'en')).toBe(0);
+  });
+});
@@ -0,0 +1,315 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SentimentAnalyzer } from '../ai/SentimentAnalyzer';
+import type { EmotionScores } from '../types';
+
+describe('SentimentAnalyzer', () => {
+  let analyzer: SentimentAnalyzer;
+  const sums = (text: string, language: 'en' | 'es' | 'fr' | 'de' = 'en'): EmotionScores =>
+    analyzer.tally(text, language).sums;
+
+  beforeEach(() => {
+    analyzer = new SentimentAnalyzer();
+  });
+
+  describe('negation scope', () => {
+    // Tricky sentences with the joy sum each one should produce
+    const corpus: [string, number][] = [
+      ['I am happy.', 0.8],
+      ['I am not happy.', -0.4],
+      ["It isn't over. I am happy.", 0.8],              // Does not leak into the next sentence
+      ["I'm not tired, I'm happy.", 0.8],                // Ends at the clause break
+      ['I am not happy or thrilled.', -0.85]            // Covers the rest of the clause
+    ];
+
+    it.each(corpus)('%s', (text, joy) => {
+      expect(sums(text).joy).toBeCloseTo(joy, 5);
+    });
+
+    it('should count negative concord as a single negation', () => {
+      expect(sums('No estoy nada feliz.', 'es').joy).toBeCloseTo(-0.4, 5);
+      expect(sums("Je ne suis pas heureux, mais je n'ai pas peur.", 'fr').fear).toBeCloseTo(-0.6, 5);
+      expect(sums("Je ne travaille pas demain, je suis heureux.", 'fr').joy).toBeCloseTo(0.8, 5);
+    });
+  });
+
+  describe('intensifiers', () => {
+    it('should stack adjacent intensifiers', () => {
+      const plain = sums('I am happy.').joy;
+      const very = sums('I am very happy.').joy;
+      const reallyVery = sums('I am really very happy.').joy;
+
+      expect(very).toBeCloseTo(plain * 1.5, 5);
+      expect(reallyVery).toBeCloseTo(plain * 1.5 * 1.3, 5);
+    });
+
+    it('should decay with distance and stop at clause breaks', () => {
+      const adjacent = sums('She felt extremely happy.').joy;
+      const distant = sums('She felt extremely and truly happy.').joy;
+
+      expect(distant).toBeLessThan(adjacent);
+      expect(distant).toBeGreaterThan(0.8);
+      expect(sums('She felt extremely, well, happy.').joy).toBeCloseTo(0.8, 5);
+      expect(sums('Extremely long days make me happy.').joy).toBeCloseTo(0.8, 5);
+    });
+
+    it('should dampen with downtoners', () => {
+      expect(sums('I am slightly worried.').fear).toBeCloseTo(0.6 * 0.6, 5);
+    });
+  });
+
+  describe('contrast', () => {
+    it('should weaken the clause before "but" and strengthen the one after', () => {
+      const scores = sums('The food was wonderful but the service made me angry.');
+
+      expect(scores.joy).toBeCloseTo(0.45, 5);
+      expect(scores.anger).toBeCloseTo(1.2, 5);
+    });
+
+    it('should weaken the previous sentence for a sentence-initial "However"', () => {
+      const scores = sums('The trip was wonderful. However, I was sad.');
+
+      expect(scores.joy).toBeCloseTo(0.45, 5);
+      expect(scores.sadness).toBeCloseTo(1.2, 5);
+      expect(analyzer.analyze('The trip was wonderful. However, I was sad.').dominant.emotion).toBe('sadness');
+    });
+
+    it('should not reach across paragraphs', () => {
+      expect(sums('The trip was wonderful.\n\nHowever, I was sad.').joy).toBeCloseTo(0.9, 5);
+    });
+
+    it('should weaken a concessive clause', () => {
+      const scores = sums('Although I was scared, I was happy.');
+
+      expect(scores.fear).toBeCloseTo(0.4, 5);
+      expect(scores.joy).toBeCloseTo(0.8, 5);
+      expect(sums('I was happy even though I was scared.').fear).toBeCloseTo(0.4, 5);
+    });
+
+    it('should end negation at the contrast', () => {
+      const scores = sums("I'm not sad but happy.");
+
+      expect(scores.sadness).toBeCloseTo(-0.2, 5);
+      expect(scores.joy).toBeCloseTo(1.2, 5);
+    });
+
+    it('should keep both halves of "not only ... but also" at full weight', () => {
+      expect(sums('She was not only happy but also thrilled.').joy).toBeCloseTo(0.8 + 0.9, 5);
+      expect(sums('Ella estaba no solo feliz sino también contenta.', 'es').joy).toBeCloseTo(0.8 + 0.6, 5);
+    });
+
+    it('should recognize multi-word markers in other languages', () => {
+      // "sin" is a Spanish negation, but "sin embargo" is a contrast
+      const scores = sums('Estaba feliz, sin embargo estoy triste.', 'es');
+
+      expect(scores.joy).toBeCloseTo(0.4, 5);
+      expect(scores.sadness).toBeCloseTo(1.2, 5);
+    });
+  });
+
+  describe('phrases', () => {
+    it('should match multi-word entries as one emotional word', () => {
+      const text = "I'm looking forward to it, but I'm fed up with waiting.";
+      const tally = analyzer.tally(text);
+
+      expect(tally.emotionalWords).toBe(2);
+      expect(tally.phrases.map(match => [match.phrase, match.emotion, text.slice(match.start, match.end)])).toEqual([
+        ['looking forward', 'anticipation', 'looking forward'],
+        ['fed up', 'anger', 'fed up']
+      ]);
+    });
+
+    it('should prefer the longest entry and respect valence shifters', () => {
+      expect(analyzer.tally('We were so over the moon!').phrases).toHaveLength(1);
+      expect(sums('I am not over the moon.').joy).toBeCloseTo(-0.5, 5);
+      expect(sums("I can't wait.").anticipation).toBeCloseTo(0.9, 5);
+      expect(analyzer.tally('Estoy hasta las narices.', 'es').phrases[0].emotion).toBe('anger');
+    });
+  });
+
+  describe('trust and disgust', () => {
+    it('should score trust and disgust in every language', () => {
+      expect(sums('She is loyal and honest.').trust).toBeCloseTo(0.8 + 0.6, 5);
+      expect(sums('The food was disgusting.').disgust).toBeCloseTo(0.9, 5);
+      expect(sums('The food was disgusting.').anger).toBe(0);
+      expect(sums('Me da asco.', 'es').disgust).toBeGreaterThan(0);
+      expect(sums("J'ai confiance en toi.", 'fr').trust).toBeGreaterThan(0);
+      expect(sums('Ich bin angewidert.', 'de').disgust).toBeGreaterThan(0);
+    });
+
+    it('should map trust and disgust emojis', () => {
+      const emojis = analyzer.extractEmojiData('Deal 🤝 but the coffee 🤮');
+
+      expect(emojis.map(emoji => emoji.emotion)).toEqual(['trust', 'disgust']);
+    });
+
+    it('should move valence with trust and disgust', () => {
+      expect(analyzer.analyze('I trust them.').valence).toBeGreaterThan(0);
+      expect(analyzer.analyze('That is revolting.').valence).toBeLessThan(0);
+    });
+
+    it('should report dyads as the weaker emotion of each pair', () => {
+      const { scores, dyads } = analyzer.analyze('I love and trust her, and I am disgusted and angry at them.');
+
+      expect(dyads.love).toBeCloseTo(Math.min(scores.joy, scores.trust), 5);
+      expect(dyads.love).toBeGreaterThan(0);
+      expect(dyads.contempt).toBeCloseTo(Math.min(scores.disgust, scores.anger), 5);
+      expect(dyads.contempt).toBeGreaterThan(0);
+      expect(dyads.awe).toBe(0);
+    });
+  });
+
+  describe('emojis', () => {
+    const read = (text: string) =>
+      analyzer.extractEmojiData(text).map(emoji => [emoji.emoji, emoji.position, emoji.emotion]);
+
+    it('should read whole graphemes, including the newer emoji blocks', () => {
+      expect(read('🥰🤯🫨')).toEqual([['🥰', 0, 'joy'], ['🤯', 2, 'surprise'], ['🫨', 4, 'fear']]);
+      expect(read('Thanks 🙏🏽 and ❤️‍🔥!')).toEqual([['🙏🏽', 7, 'trust'], ['❤️‍🔥', 16, 'joy']]);
+      expect(read('Facepalm 🤦🏻‍♀️')).toEqual([['🤦🏻‍♀️', 9, 'disgust']]);
+    });
+
+    it('should skip emoji with no emotional reading', () => {
+      const emojis = analyzer.extractEmojiData('Road trip 🚗🇫🇷📎');
+
+      expect(emojis).toEqual([]);
+      expect(analyzer.calculateEmojiInfluence(emojis)).toBe(0);
+    });
+
+    it('should read standalone ASCII emoticons', () => {
+      const text = "Great :) but sad :'( and mad >:( at http://example.com at 10:30 <3";
+
+      expect(read(text)).toEqual([
+        [':)', text.indexOf(':)'), 'joy'],
+        [":'(", text.indexOf(":'("), 'sadness'],
+        ['>:(', text.indexOf('>:('), 'anger'],
+        ['<3', text.indexOf('<3'), 'joy']
+      ]);
+    });
+  });
+
+  describe('sarcasm', () => {
+    it('should turn a sarcastic positive reading around', () => {
+      const result = analyzer.analyze('Oh great, another Monday 🙄');
+
+      expect(result.sarcasmProbability).toBeGreaterThan(0.5);
+      expect(result.scores.disgust).toBeGreaterThan(result.scores.joy);
+      expect(result.valence).toBeLessThan(0);
+    });
+
+    it('should leave sincere sentences alone', () => {
+      const result = analyzer.analyze('What a great day! I am so happy.');
+
+      expect(result.sarcasmProbability).toBe(0);
+      expect(result.scores.disgust).toBe(0);
+      expect(result.valence).toBeGreaterThan(0);
+    });
+
+    it('should only doubt the reading below the threshold', () => {
+      const sincere = analyzer.analyze('I am so happy.');
+      const doubtful = analyzer.analyze('I am so happy...');
+
+      expect(doubtful.sarcasmProbability).toBeGreaterThan(0);
+      expect(doubtful.scores).toEqual(sincere.scores);
+      expect(doubtful.dominant.confidence).toBeLessThan(sincere.dominant.confidence);
+    });
+
+    it('should count emoji after the sentence end and weight by emotional words', () => {
+      const tally = analyzer.tally('Perfect. 🙄 The rest of the trip made me happy and excited.');
+
+      expect(tally.sentences[0].sums.disgust).toBeGreaterThan(0);
+      expect(tally.sentences[1].sums.disgust).toBe(0);
+      expect(tally.sarcasm / tally.emotionalWords).toBeLessThan(0.5);
+    });
+
+    it('should use the markers of each language', () => {
+      expect(analyzer.analyze('Na toll, das ist toll.', 0, 'de').scores.disgust).toBeGreaterThan(0);
+      expect(sums('Tu parles, quel bonheur.', 'fr').disgust).toBeGreaterThan(0);
+    });
+  });
+
+  describe('confidence and evidence', () => {
+    it('should lose confidence when one emotion word is lost in a long text', () => {
+      const short = analyzer.analyze('I am happy.');
+      const long = analyzer.analyze(`I am happy. ${'The report lists the figures for the quarter. '.repeat(40)}`);
+
+      expect(short.confidence.coverage).toBe(1);
+      expect(long.confidence.coverage).toBeLessThan(0.1);
+      expect(long.dominant.confidence).toBeLessThan(0.1);
+      expect(short.dominant.confidence).toBeGreaterThan(long.dominant.confidence);
+    });
+
+    it('should weigh agreement and negation', () => {
+      const agreeing = analyzer.analyze('I am happy and delighted.');
+      const mixed = analyzer.analyze('I am happy and sad.');
+      const negated = analyzer.analyze('I am not sad. I am happy.');
+
+      expect(agreeing.confidence.agreement).toBe(1);
+      expect(mixed.confidence.agreement).toBeLessThan(1);
+      expect(negated.confidence.negation).toBeCloseTo(0.75, 5);
+      expect(agreeing.dominant.confidence).toBeGreaterThan(mixed.dominant.confidence);
+    });
+
+    it('should give an interval that narrows with consistent evidence', () => {
+      const single = analyzer.analyze('I am happy.');
+      const consistent = analyzer.analyze('I am happy. We are happy. They are happy.');
+      const { interval } = consistent.confidence;
+
+      expect(single.confidence.interval).toEqual([0, 1]);
+      expect(interval[0]).toBeLessThanOrEqual(consistent.dominant.score);
+      expect(interval[1]).toBeGreaterThanOrEqual(consistent.dominant.score);
+      expect(interval[1] - interval[0]).toBeLessThan(0.01);
+    });
+
+    it('should list every contributing word, phrase and emoji with its modifiers', () => {
+      const text = 'I am not very happy, but I am looking forward to it 🎉';
+      const { evidence } = analyzer.analyze(text);
+
+      expect(evidence.map(item => [item.kind, item.text])).toEqual([
+        ['word', 'happy'],
+        ['phrase', 'looking forward'],
+        ['emoji', '🎉']
+      ]);
+      evidence.forEach(item => expect(text.slice(item.start, item.end)).toBe(item.text));
+      expect(evidence[0].modifiers.map(modifier => modifier.kind)).toEqual(['intensifier', 'negation', 'contrast']);
+      expect(evidence[0].scores.joy).toBeLessThan(0);
+      expect(evidence[1].modifiers).toEqual([{ kind: 'emphasis', factor: 1.5 }]);
+    });
+  });
+
+  describe('timeline', () => {
+    const story = 'I was sad and lonely. The rain kept falling.\n\nThen she called. I was so happy!';
+
+    it('should score every sentence with its span', () => {
+      const { sentences } = analyzer.analyze(story).timeline;
+
+      expect(sentences.map(point => story.slice(point.start, point.end))).toEqual([
+        'I was sad and lonely.', 'The rain kept falling.', 'Then she called.', 'I was so happy!'
+      ]);
+      expect(sentences.map(point => point.dominant.emotion)).toEqual(['sadness', 'joy', 'joy', 'joy']);
+      expect(sentences[0].valence).toBeLessThan(0);
+      expect(sentences[1].valence).toBe(0);
+      expect(sentences[3].valence).toBeGreaterThan(0);
+      expect(sentences[1].arc).toBeCloseTo((sentences[0].valence + sentences[2].valence) / 3, 5);
+    });
+
+    it('should group sentences into paragraphs', () => {
+      const { paragraphs } = analyzer.analyze(story).timeline;
+
+      expect(paragraphs.map(point => [point.index, story.slice(point.start, point.end)])).toEqual([
+        [0, 'I was sad and lonely. The rain kept falling.'],
+        [1, 'Then she called. I was so happy!']
+      ]);
+      expect(paragraphs[0].dominant.emotion).toBe('sadness');
+      expect(paragraphs[1].dominant.emotion).toBe('joy');
+    });
+
+    it('should report valence sign changes across neutral sentences', () => {
+      const { turningPoints } = analyzer.analyze(story + ' But then I lost it all and felt miserable.').timeline;
+
+      expect(turningPoints.map(turn => [turn.sentence, turn.direction])).toEqual([[3, 'rise'], [4, 'fall']]);
+      expect(turningPoints[0].position).toBe(story.indexOf('I was so happy'));
+      expect(turningPoints[0].from).toBeLessThan(0);
+      expect(analyzer.analyze('I am happy. I am glad.').timeline.turningPoints).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import * as tf from '@tensorflow/tfjs';
+import { EnsembleSentimentBackend, LexiconSentimentBackend } from '../ai/SentimentBackends';
+import { SENTIMENT_MODEL_FORMAT, TfjsSentimentBackend } from '../ai/TfjsSentimentBackend';
+import { TextAnalyzer } from '../ai/TextAnalyzer';
+import { AnalysisCache } from '../ai/AnalysisCache';
+import { createAnalyzerRegistry } from '../ai/AnalyzerPlugins';
+import type { EmotionScores, NeuralEchoError, SentimentBackend, SentimentBackendInput } from '../types';
+
+const VOCABULARY = ['<pad>', '<unk>', 'monday', 'again'];
+const encoder = new TextEncoder();
+
+// A model that ignores its input: sigmoid(bias) gives joy 0.9, sadness 0.1
+async function saveTestModel(): Promise<Map<string, ArrayBuffer>> {
+  await tf.setBackend('cpu');
+  const model = tf.sequential();
+  model.add(tf.layers.embedding({ inputDim: VOCABULARY.length, outputDim: 2, inputLength: 4 }));
+  model.add(tf.layers.globalAveragePooling1d());
+  model.add(tf.layers.dense({ units: 2, activation: 'sigmoid' }));
+  const logit = (p: number) => Math.log(p / (1 - p));
+  model.setWeights([tf.zeros([VOCABULARY.length, 2]), tf.zeros([2, 2]), tf.tensor1d([logit(0.9), logit(0.1)])]);
+
+  const files = new Map<string, ArrayBuffer>();
+  await model.save(tf.io.withSaveHandler(async artifacts => {
+    files.set('model.json', encoder.encode(JSON.stringify({
+      format: 'layers-model',
+      modelTopology: artifacts.modelTopology,
+      weightsManifest: [{ paths: ['weights.bin'], weights: artifacts.weightSpecs }]
+    })).buffer as ArrayBuffer);
+    files.set('weights.bin', artifacts.weightData as ArrayBuffer);
+    return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' } };
+  }));
+  files.set('metadata.json', encoder.encode(JSON.stringify({
+    format: SENTIMENT_MODEL_FORMAT,
+    version: 1,
+    emotions: ['joy', 'sadness'],
+    vocabulary: VOCABULARY,
+    sequenceLength: 4
+  })).buffer as ArrayBuffer);
+  return files;
+}
+
+const fixed = (name: string, scores: Partial<EmotionScores>): SentimentBackend => ({
+  name,
+  score: async (input: SentimentBackendInput) => ({ ...input.lexicon.scores, ...scores })
+});
+
+describe('SentimentBackends', () => {
+  let files: Map<string, ArrayBuffer>;
+  let textAnalyzer: TextAnalyzer;
+  const reader = (source: Map<string, ArrayBuffer>) => async (file: string) => {
+    const data = source.get(file);
+    if (!data) throw new Error(`${file} not found`);
+    return data;
+  };
+
+  beforeAll(async () => {
+    files = await saveTestModel();
+  });
+
+  beforeEach(() => {
+    textAnalyzer = new TextAnalyzer(createAnalyzerRegistry(), new AnalysisCache({ store: null }));
+  });
+
+  it('should blend the members of an ensemble by weight', async () => {
+    const lexicon = textAnalyzer.getSentimentAnalyzer().analyze('I am happy.');
+    const input = { text: 'I am happy.', language: 'en' as const, lexicon };
+    const ensemble = new EnsembleSentimentBackend([
+      { backend: new LexiconSentimentBackend(), weight: 3 },
+      { backend: fixed('sad', { joy: 0, sadness: 1 }), weight: 1 }
+    ]);
+
+    const scores = await ensemble.score(input);
+    expect(scores.joy).toBeCloseTo(lexicon.scores.joy * 0.75, 5);
+    expect(scores.sadness).toBeCloseTo(0.25, 5);
+    expect(ensemble.name).toBe('ensemble(lexicon*3,sad*1)');
+    expect(() => new EnsembleSentimentBackend([])).toThrow();
+  });
+
+  it('should score with a tfjs model loaded on the CPU backend', async () => {
+    const backend = new TfjsSentimentBackend({ modelDir: 'models/test/', readFile: reader(files) });
+    const lexicon = textAnalyzer.getSentimentAnalyzer().analyze('Monday again.');
+    const scores = await backend.score({ text: 'Monday again.', language: 'en', lexicon });
+
+    expect(tf.getBackend()).toBe('cpu');
+    expect(backend.name).toBe('tfjs(models/test)');
+    expect(scores.joy).toBeCloseTo(0.9, 5);
+    expect(scores.sadness).toBeCloseTo(0.1, 5);
+    expect(scores.anger).toBe(0);
+  });
+
+  it('should reject broken model directories and allow a retry', async () => {
+    const broken = new Map(files);
+    broken.set('metadata.json', encoder.encode(JSON.stringify({
+      format: SENTIMENT_MODEL_FORMAT, version: 1, emotions: ['joy'], vocabulary: VOCABULARY, sequenceLength: 4
+    })).buffer as ArrayBuffer);
+
+    const loadError = async (source: Map<string, ArrayBuffer>) => {
+      try {
+        await new TfjsSentimentBackend({ modelDir: 'models/test', readFile: reader(source) }).load();
+      } catch (error) {
+        return error as NeuralEchoError;
+      }
+      throw new Error('Expected an error');
+    };
+
+    expect(await loadError(broken)).toMatchObject({ code: 'SENTIMENT_BACKEND_INVALID' });
+    expect((await loadError(broken)).message).toContain('2 outputs for 1 emotions');
+    expect((await loadError(new Map())).message).toContain('Cannot read metadata.json');
+
+    const retried = new Map<string, ArrayBuffer>();
+    const backend = new TfjsSentimentBackend({ modelDir: 'models/test', readFile: reader(retried) });
+    await expect(backend.load()).rejects.toThrow();
+    files.forEach((data, file) => retried.set(file, data));
+    await expect(backend.load()).resolves.toBeUndefined();
+  });
+
+  it('should replace the scores of an analysis and keep the tally-based parts', async () => {
+    const text = 'I am happy. I am happy again.';
+    const lexicon = await textAnalyzer.analyze(text);
+    const version = textAnalyzer.getAnalysisCache().getVersion();
+
+    textAnalyzer.setSentimentBackend(fixed('angry', { joy: 0, anger: 0.9 }));
+    const scored = await textAnalyzer.analyze(text);
+
+    expect(textAnalyzer.getAnalysisCache().getVersion()).not.toBe(version);
+    expect(scored.sentiment.dominant.emotion).toBe('anger');
+    expect(scored.sentiment.valence).toBeLessThan(0);
+    expect(scored.sentiment.timeline).toEqual(lexicon.sentiment.timeline);
+    expect(scored.sentiment.evidence).toEqual(lexicon.sentiment.evidence);
+
+    textAnalyzer.setSentimentBackend(null);
+    expect(textAnalyzer.getAnalysisCache().getVersion()).toBe(version);
+    expect((await textAnalyzer.analyze(text)).sentiment.dominant.emotion).toBe('joy');
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import {
+  SCHEMA_MIGRATIONS,
+  SCHEMA_VERSION,
+  deserializeAnalysisResult,
+  deserializeVisualization,
+  serializeAnalysisResult,
+  serializeVisualization
+} from '../core/Serialization';
+import { TextAnalyzer } from '../ai/TextAnalyzer';
+import type { AnalysisResult, NeuralEchoError, ScaledVisualization } from '../types';
+
+const errorOf = (run: () => unknown): NeuralEchoError => {
+  try {
+    run();
+  } catch (error) {
+    return error as NeuralEchoError;
+  }
+  throw new Error('Expected an error');
+};
+
+const visualization = (): ScaledVisualization => ({
+  nodes: [{
+    id: 'node_love',
+    position: new THREE.Vector3(1.5, -2, 3.25),
+    activation: 0.8,
+    targetActivation: 1,
+    color: new THREE.Color(0.9, 0.2, 0.4),
+    size: 1.2,
+    type: 'concept',
+    connections: ['node_hope'],
+    synthetic: false,
+    lifetime: 0,
+    importance: 0.7,
+    data: { word: 'love', relevance: 0.9, layer: 0 }
+  }],
+  connections: [{
+    id: 'node_love-node_hope',
+    source: 'node_love',
+    target: 'node_hope',
+    weight: 0.5,
+    type: 'semantic',
+    active: true,
+    flow: 0,
+    color: new THREE.Color(0.3, 0.3, 1)
+  }],
+  particles: [{
+    position: new THREE.Vector3(0, 1, 0),
+    velocity: new THREE.Vector3(0.1, 0, -0.1),
+    color: new THREE.Color(1, 1, 1),
+    life: 1,
+    maxLife: 3,
+    size: 0.1,
+    behavior: 'orbit',
+    sourceNode: 'node_love'
+  }],
+  scalingInfo: {
+    originalWordCount: 12,
+    finalNodeCount: 1,
+    compressionRatio: 0.5,
+    strategy: 'micro_boost',
+    processingTime: 4
+  },
+  performanceProfile: { expectedFPS: 60, memoryUsage: 50, gpuLoad: 0.2 } as ScaledVisualization['performanceProfile']
+});
+
+describe('Serialization', () => {
+  let result: AnalysisResult;
+
+  const analyze = async () => {
+    result ??= await new TextAnalyzer().analyze('Love and hope grow in the quiet garden. Love endures.');
+    return result;
+  };
+
+  it('should round-trip an analysis result through JSON', async () => {
+    const original = await analyze();
+    const json = JSON.stringify(serializeAnalysisResult(original));
+    const restored = deserializeAnalysisResult(json);
+
+    expect(JSON.parse(json)).toMatchObject({ schema: 'neural-echo', version: SCHEMA_VERSION, kind: 'analysis-result' });
+    expect(restored.semanticGraph.nodes).toBeInstanceOf(Map);
+    expect(restored).toEqual(original);
+  });
+
+  it('should round-trip a visualization with THREE vectors and colors', () => {
+    const original = visualization();
+    const restored = deserializeVisualization(JSON.stringify(serializeVisualization(original)));
+
+    expect(restored.nodes[0].position).toBeInstanceOf(THREE.Vector3);
+    expect(restored.nodes[0].color).toBeInstanceOf(THREE.Color);
+    expect(restored.particles[0].velocity.equals(original.particles[0].velocity)).toBe(true);
+    expect(restored).toEqual(original);
+
+    // Version 13 concept nodes carried a label
+    const legacy = JSON.parse(JSON.stringify(serializeVisualization(original)));
+    legacy.version = 13;
+    legacy.payload.nodes[0].data.label = 'love';
+    expect(deserializeVisualization(legacy)).toEqual(original);
+  });
+
+  it('should reject malformed payloads with the offending path', async () => {
+    const document = serializeAnalysisResult(await analyze());
+    const broken = JSON.parse(JSON.stringify(document));
+    broken.payload.sentiment.valence = 'high';
+
+    const error = errorOf(() => deserializeAnalysisResult(broken));
+    expect(error.code).toBe('SERIALIZATION_INVALID');
+    expect(error.message).toContain('payload.sentiment.valence must be a number');
+
+    expect(errorOf(() => deserializeAnalysisResult('{not json')).code).toBe('SERIALIZATION_INVALID');
+    expect(errorOf(() => deserializeVisualization(document)).message).toContain('contains a analysis-result');
+    expect(errorOf(() => deserializeAnalysisResult({ ...document, version: SCHEMA_VERSION + 1 })).message)
+      .toContain('newer than the supported version');
+  });
+
+  it('should migrate bare version 0 payloads', async () => {
+    const { payload } = serializeAnalysisResult(await analyze());
+    const legacy: Record<string, unknown> = { ...payload };
+    const sentiment: Record<string, unknown> = { ...payload.sentiment };
+    delete sentiment.phrases;
+    delete sentiment.dyads;
+    delete sentiment.timeline;
+    delete sentiment.sarcasmProbability;
+    delete sentiment.confidence;
+    delete sentiment.evidence;
+    legacy.sentiment = sentiment;
+    legacy.concepts = payload.concepts.map(concept => {
+      const unlemmatized: Record<string, unknown> = { ...concept };
+      delete unlemmatized.forms;
+      delete unlemmatized.categoryConfidence;
+      delete unlemmatized.centrality;
+      delete unlemmatized.lemma;
+      return unlemmatized;
+    });
+    delete legacy.language;
+    delete legacy.extensions;
+    delete legacy.keySentences;
+    legacy.semanticGraph = {
+      ...payload.semanticGraph,
+      edges: payload.semanticGraph.edges.map(([id, edge]) => [
+        id,
+        edge.relationship === 'emotional' ? { ...edge, source: edge.source.replace('emotion:', '') } : edge
+      ])
+    };
+
+    const restored = deserializeAnalysisResult(legacy);
+    expect(restored.language.language).toBe('en');
+    expect(restored.extensions).toEqual({});
+    expect(restored.sentiment.phrases).toEqual([]);
+    expect(restored.sentiment.dyads.love).toBe(0);
+    expect(restored.sentiment.timeline.turningPoints).toEqual([]);
+    expect(restored.sentiment.sarcasmProbability).toBe(0);
+    expect(restored.sentiment.evidence).toEqual([]);
+    expect(restored.sentiment.confidence.separation).toBe(restored.sentiment.dominant.confidence);
+    expect(restored.concepts[0].forms).toEqual([
+      { form: restored.concepts[0].word, frequency: restored.concepts[0].frequency, positions: restored.concepts[0].position }
+    ]);
+    expect(restored.concepts[0].categoryConfidence).toBe(0);
+    expect(restored.concepts[0].centrality).toBe(0);
+    expect(restored.concepts[0].lemma).toBe(restored.concepts[0].word);
+    expect(restored.keySentences).toEqual([]);
+    expect(Array.from(restored.semanticGraph.edges.values())).toEqual(Array.from((await analyze()).semanticGraph.edges.values()));
+  });
+
+  it('should run caller-supplied migrations in order', async () => {
+    const { payload } = serializeAnalysisResult(await analyze());
+    const legacy = { ...payload, words: (payload.words as string[]).join(' ') };
+
+    const restored = deserializeAnalysisResult(
+      { schema: 'neural-echo', version: 0, kind: 'analysis-result', payload: legacy },
+      {
+        migrations: [
+          { from: 0, migrate: old => ({ ...old, words: String(old.words).split(' ') }) },
+          ...SCHEMA_MIGRATIONS.filter(migration => migration.from > 0)
+        ]
+      }
+    );
+    expect(restored.words).toEqual(payload.words);
+
+    expect(errorOf(() => deserializeAnalysisResult(legacy, { migrations: [] })).message)
+      .toContain('no migration from schema version 0');
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { TextAnalyzer } from '../ai/TextAnalyzer';
-import type { AnalysisResult } from '../types';
+import { isAnalysisAbortError } from '../ai/AnalysisCancellation';
+import type { AnalysisResult, AnalysisSnapshot } from '../types';
 
 describe('TextAnalyzer', () => {
   let textAnalyzer: TextAnalyzer;
@@ -21,7 +22,7 @@ describe('TextAnalyzer', () => {
       const result = await textAnalyzer.analyze(text);
 
       expect(result).toBeDefined();
-      expect(result.words).toEqual(['Hello', 'world!', 'This', 'is', 'a', 'happy', 'day.']);
+      expect(result.words).toEqual(['hello', 'world', 'this', 'is', 'a', 'happy', 'day']);
       expect(result.sentiment).toBeDefined();
       expect(result.concepts).toBeDefined();
       expect(result.complexity).toBeDefined();
@@ -252,6 +253,16 @@ describe('TextAnalyzer', () => {
       // Performance improvement not always measurable in test environment
     });
 
+    it('should keep incremental results apart from full analyses', async () => {
+      const text = 'Romeo walked through Verona.\n\nJuliet waited on the balcony for Romeo.';
+
+      const incremental = await textAnalyzer.analyze(text, { incremental: true });
+      const full = await textAnalyzer.analyze(text);
+      expect(full).not.toBe(incremental);
+      expect(await textAnalyzer.analyze(text, { incremental: true })).toBe(incremental);
+      expect(await textAnalyzer.analyze(text)).toBe(full);
+    });
+
     it('should work with debounced analysis', async () => {
       const text = 'Debounced analysis test with unique content.';
       
@@ -261,6 +272,182 @@ describe('TextAnalyzer', () => {
     });
   });
 
+  describe('cancellation', () => {
+    it('should reject with an abort error when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const error = await textAnalyzer.analyze('Aborted before it started.', { signal: controller.signal })
+        .catch(e => e);
+      expect(isAnalysisAbortError(error)).toBe(true);
+    });
+
+    it('should abort an analysis that is already running', async () => {
+      const controller = new AbortController();
+      const pending = textAnalyzer.analyze('Aborted while running.', { signal: controller.signal });
+      controller.abort();
+
+      const error = await pending.catch(e => e);
+      expect(isAnalysisAbortError(error)).toBe(true);
+    });
+
+    it('should reject superseded debounced calls and resolve the latest one', async () => {
+      const first = textAnalyzer.analyzeDebounced('First draft', 20);
+      const second = textAnalyzer.analyzeDebounced('Second draft', 20);
+      const latest = textAnalyzer.analyzeDebounced('Final draft text', 20);
+
+      const [firstError, secondError] = await Promise.all([first.catch(e => e), second.catch(e => e)]);
+      expect(isAnalysisAbortError(firstError)).toBe(true);
+      expect(isAnalysisAbortError(secondError)).toBe(true);
+
+      const result = await latest;
+      expect(result.words).toEqual(['final', 'draft', 'text']);
+    });
+
+    it('should honour an external signal on debounced calls', async () => {
+      const controller = new AbortController();
+      const pending = textAnalyzer.analyzeDebounced('Cancelled by the caller', 20, { signal: controller.signal });
+      controller.abort();
+
+      const error = await pending.catch(e => e);
+      expect(isAnalysisAbortError(error)).toBe(true);
+    });
+
+    it('should not cache aborted analyses', async () => {
+      const controller = new AbortController();
+      const pending = textAnalyzer.analyze('Never cached text.', { signal: controller.signal });
+      controller.abort();
+      await pending.catch(() => undefined);
+
+      expect(textAnalyzer.getCacheStats().size).toBe(0);
+    });
+  });
+
+  describe('incremental analysis', () => {
+    const paragraphs = [
+      'Romeo walked through Verona at night, thinking about Juliet.',
+      'The families fought again in the market square. Everyone was angry.',
+      'Juliet waited on the balcony, hopeful and afraid of the morning.'
+    ];
+
+    it('should match a full analysis of single-paragraph text', async () => {
+      const text = 'Romeo loves Juliet. Juliet loves Romeo in beautiful Verona.';
+      const full = await textAnalyzer.analyze(text, { useCache: false });
+      const incremental = await textAnalyzer.analyze(text, { useCache: false, incremental: true });
+
+      expect(incremental.words).toEqual(full.words);
+      expect(incremental.sentiment.scores).toEqual(full.sentiment.scores);
+      expect(incremental.complexity).toEqual(full.complexity);
+      expect(incremental.concepts.map(c => [c.word, c.frequency, c.position]))
+        .toEqual(full.concepts.map(c => [c.word, c.frequency, c.position]));
+    });
+
+    it('should rebase the emotion timeline of each paragraph', async () => {
+      const text = paragraphs.join('\n\n');
+      const full = await textAnalyzer.analyze(text, { useCache: false });
+      const incremental = await textAnalyzer.analyze(text, { useCache: false, incremental: true });
+
+      let streamed: AnalysisSnapshot | undefined;
+      for await (const snapshot of new TextAnalyzer().analyzeStream(text, { sentencesPerChunk: 1 })) {
+        streamed = snapshot;
+      }
+
+      expect(full.sentiment.timeline.paragraphs).toHaveLength(3);
+      expect(incremental.sentiment.timeline).toEqual(full.sentiment.timeline);
+      expect(streamed?.result.sentiment.timeline).toEqual(full.sentiment.timeline);
+    });
+
+    it('should only recompute the edited paragraph', async () => {
+      await textAnalyzer.analyze(paragraphs.join('\n\n'), { useCache: false, incremental: true });
+
+      const edited = [paragraphs[0], paragraphs[1] + ' Nobody was happy.', paragraphs[2]].join('\n\n');
+      await textAnalyzer.analyze(edited, { useCache: false, incremental: true });
+
+      expect(textAnalyzer.getIncrementalAnalyzer().getLastUpdateStats()).toEqual({
+        reused: 2,
+        recomputed: 1,
+        removed: 1
+      });
+    });
+
+    it('should agree with a fresh incremental analysis after edits', async () => {
+      const edited = [paragraphs[0], 'A new paragraph about love.', paragraphs[2]].join('\n\n');
+
+      await textAnalyzer.analyze(paragraphs.join('\n\n'), { useCache: false, incremental: true });
+      const updated = await textAnalyzer.analyze(edited, { useCache: false, incremental: true });
+
+      const fresh = await new TextAnalyzer().analyze(edited, { useCache: false, incremental: true });
+
+      expect(updated.words).toEqual(fresh.words);
+      expect(updated.sentiment.scores).toEqual(fresh.sentiment.scores);
+      expect(updated.sentiment.timeline).toEqual(fresh.sentiment.timeline);
+      expect(updated.complexity.overallComplexity).toBeCloseTo(fresh.complexity.overallComplexity, 10);
+      expect(updated.concepts.map(c => [c.word, c.frequency, c.position]))
+        .toEqual(fresh.concepts.map(c => [c.word, c.frequency, c.position]));
+    });
+  });
+
+  describe('streaming analysis', () => {
+    const longText = Array.from({ length: 12 }, (_, i) =>
+      `Sentence ${i} tells how Romeo felt hopeful about Juliet.`
+    ).join(' ');
+
+    it('should yield progressive snapshots that share a stream id', async () => {
+      const snapshots: AnalysisSnapshot[] = [];
+      for await (const snapshot of textAnalyzer.analyzeStream(longText, { sentencesPerChunk: 4 })) {
+        snapshots.push(snapshot);
+      }
+
+      expect(snapshots).toHaveLength(3);
+      expect(new Set(snapshots.map(s => s.streamId)).size).toBe(1);
+      expect(snapshots.map(s => s.sequence)).toEqual([0, 1, 2]);
+      expect(snapshots[0].progress).toBeLessThan(snapshots[1].progress);
+      expect(snapshots[2].progress).toBe(1);
+      expect(snapshots.map(s => s.done)).toEqual([false, false, true]);
+      expect(snapshots[0].result.words.length).toBeLessThan(snapshots[2].result.words.length);
+    });
+
+    it('should finish with the same words and concepts as a full analysis', async () => {
+      let last: AnalysisSnapshot | undefined;
+      for await (const snapshot of textAnalyzer.analyzeStream(longText, { sentencesPerChunk: 5 })) {
+        last = snapshot;
+      }
+
+      const full = await new TextAnalyzer().analyze(longText);
+      expect(last!.result.words).toEqual(full.words);
+      expect(last!.result.concepts.map(c => [c.word, c.frequency]))
+        .toEqual(full.concepts.map(c => [c.word, c.frequency]));
+    });
+
+    it('should not cache the last snapshot as the full analysis', async () => {
+      let last: AnalysisSnapshot | undefined;
+      for await (const snapshot of textAnalyzer.analyzeStream(longText, { sentencesPerChunk: 5 })) {
+        last = snapshot;
+      }
+
+      expect(textAnalyzer.getCacheStats().size).toBe(0);
+      expect(await textAnalyzer.analyze(longText)).not.toBe(last!.result);
+    });
+
+    it('should stop with an abort error when the signal fires', async () => {
+      const controller = new AbortController();
+      const received: AnalysisSnapshot[] = [];
+
+      const error = await (async () => {
+        for await (const snapshot of textAnalyzer.analyzeStream(longText, {
+          sentencesPerChunk: 2,
+          signal: controller.signal
+        })) {
+          received.push(snapshot);
+          controller.abort();
+        }
+      })().catch(e => e);
+
+      expect(received).toHaveLength(1);
+      expect(isAnalysisAbortError(error)).toBe(true);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle malformed input gracefully', async () => {
       const malformedInputs = [
@@ -291,6 +478,32 @@ describe('TextAnalyzer', () => {
     });
   });
 
+  describe('analyzer plugins', () => {
+    const jargonDetector = {
+      name: 'jargon',
+      analyze: ({ words }: { words: string[] }) =>
+        words.filter(word => ['synergy', 'leverage'].includes(word))
+    };
+
+    it('should put plugin outputs into result extensions', async () => {
+      textAnalyzer.registerAnalyzer(jargonDetector);
+      const result = await textAnalyzer.analyze('We leverage synergy to grow.');
+
+      expect(result.extensions.jargon).toEqual(['leverage', 'synergy']);
+    });
+
+    it('should not serve cached results computed before a plugin was registered', async () => {
+      const text = 'Synergy everywhere';
+      const before = await textAnalyzer.analyze(text);
+      expect(before.extensions).toEqual({});
+
+      textAnalyzer.registerAnalyzer(jargonDetector);
+      const after = await textAnalyzer.analyze(text);
+
+      expect(after.extensions.jargon).toEqual(['synergy']);
+    });
+  });
+
   describe('performance requirements', () => {
     it('should complete analysis within performance targets', async () => {
       const mediumText = Array(500).fill('performance').join(' ');
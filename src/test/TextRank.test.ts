@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { TextRank } from '../ai/TextRank';
+import { ConceptExtractor } from '../ai/ConceptExtractor';
+import { TextAnalyzer } from '../ai/TextAnalyzer';
+import { AnalysisCache } from '../ai/AnalysisCache';
+import type { WeightedGraph } from '../types';
+
+const graphOf = (edges: [string, string, number][], isolated: string[] = []): WeightedGraph => {
+  const graph: WeightedGraph = new Map(isolated.map(node => [node, new Map()]));
+  edges.forEach(([a, b, weight]) => {
+    [[a, b], [b, a]].forEach(([from, to]) => {
+      if (!graph.has(from)) graph.set(from, new Map());
+      graph.get(from)!.set(to, weight);
+    });
+  });
+  return graph;
+};
+
+const GARDEN = [
+  'The garden behind the house was full of roses.',
+  'Bees hummed over the roses in the garden.',
+  'My grandmother planted the garden and the roses long ago.',
+  'The weather report promised rain on Tuesday.',
+  'A lantern hung by the gate of the garden.'
+].join(' ');
+
+describe('TextRank', () => {
+  const textRank = new TextRank();
+
+  it('should rank the hub of a star above its leaves', () => {
+    const scores = textRank.rank(graphOf([['hub', 'a', 1], ['hub', 'b', 1], ['hub', 'c', 1], ['a', 'b', 1]], ['alone']));
+    const total = Array.from(scores.values()).reduce((sum, score) => sum + score, 0);
+
+    expect(total).toBeCloseTo(1, 6);
+    expect(scores.get('hub')).toBeGreaterThan(scores.get('a')!);
+    expect(scores.get('a')).toBeGreaterThan(scores.get('c')!);
+    expect(scores.get('c')).toBeGreaterThan(scores.get('alone')!);
+    expect(scores.get('a')).toBeCloseTo(scores.get('b')!, 12);
+  });
+
+  it('should follow edge weights', () => {
+    const scores = textRank.rank(graphOf([['hub', 'heavy', 5], ['hub', 'light', 1]]));
+    expect(scores.get('heavy')).toBeGreaterThan(scores.get('light')!);
+  });
+
+  it('should give the same scores however the graph was built', () => {
+    const edges: [string, string, number][] = [['rose', 'garden', 3], ['garden', 'gate', 1], ['bee', 'rose', 2], ['gate', 'bee', 1]];
+    const forward = textRank.rank(graphOf(edges));
+    const backward = textRank.rank(graphOf([...edges].reverse()));
+
+    expect(Array.from(backward).sort()).toEqual(Array.from(forward).sort());
+    expect(textRank.rank(new Map()).size).toBe(0);
+  });
+});
+
+describe('concept centrality', () => {
+  it('should score concepts by their place in the co-occurrence graph', () => {
+    const extractor = new ConceptExtractor();
+    const concepts = extractor.extract(GARDEN);
+    const byWord = new Map(concepts.map(concept => [concept.word, concept]));
+
+    expect(Math.max(...concepts.map(concept => concept.centrality))).toBe(1);
+    expect(byWord.get('garden')!.centrality).toBeGreaterThan(byWord.get('lantern')!.centrality);
+    expect(byWord.get('roses')!.centrality).toBeGreaterThan(byWord.get('gate')!.centrality);
+
+    // Words used once are connected too, the closest neighbours first
+    expect(byWord.get('lantern')!.connections).toContain('hung');
+    const gardenConnections = byWord.get('garden')!.connections;
+    expect(gardenConnections).toContain('roses');
+    expect(gardenConnections.indexOf('roses')).toBeLessThan(gardenConnections.indexOf('behind'));
+
+    const graph = extractor.buildSemanticGraph(concepts);
+    concepts.forEach(concept => {
+      expect(graph.nodes.get(concept.word)!.importance).toBe(concept.centrality);
+    });
+  });
+
+  it('should rank the sentences that share the central concepts first', async () => {
+    const analyzer = new TextAnalyzer(undefined, new AnalysisCache({ store: null }));
+    const full = await analyzer.analyze(GARDEN, { useCache: false });
+    const [first, ...rest] = full.keySentences;
+
+    expect(first).toMatchObject({ index: 0, score: 1, text: 'The garden behind the house was full of roses.' });
+    expect(GARDEN.slice(first.start, first.end)).toBe(first.text);
+    expect(rest.every(sentence => sentence.score <= 1)).toBe(true);
+    expect(full.keySentences[full.keySentences.length - 1].text).toContain('weather');
+
+    const incremental = await analyzer.analyze(GARDEN, { useCache: false, incremental: true });
+    expect(incremental.keySentences).toEqual(full.keySentences);
+  });
+});
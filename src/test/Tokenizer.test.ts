@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Tokenizer } from '../ai/Tokenizer';
+import { TextAnalyzer } from '../ai/TextAnalyzer';
+
+describe('Tokenizer', () => {
+  let tokenizer: Tokenizer;
+
+  beforeEach(() => {
+    tokenizer = new Tokenizer();
+  });
+
+  it('should keep accented letters and contractions whole', () => {
+    expect(tokenizer.words('Café naïve résumé. Don’t stop, it\'s fine!'))
+      .toEqual(['café', 'naïve', 'résumé', "don't", 'stop', "it's", 'fine']);
+  });
+
+  it('should report character spans into the original text', () => {
+    const text = '  Hello, wonderful world 🎉 again';
+    const { tokens } = tokenizer.tokenize(text);
+
+    tokens.forEach(token => {
+      expect(text.slice(token.start, token.end)).toBe(token.text);
+    });
+    expect(tokens.map(token => token.index)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should assign sentence and paragraph indices', () => {
+    const text = 'First sentence here. Second one!\n\nNew paragraph starts.';
+    const { tokens, sentences, paragraphCount } = tokenizer.tokenize(text);
+
+    expect(sentences).toHaveLength(3);
+    expect(paragraphCount).toBe(2);
+    expect(sentences.map(sentence => sentence.paragraph)).toEqual([0, 0, 1]);
+    expect(tokens.find(token => token.text === 'Second')!.sentence).toBe(1);
+    expect(tokens.find(token => token.text === 'paragraph')!.paragraph).toBe(1);
+
+    const second = sentences[1];
+    expect(text.slice(second.start, second.end)).toBe('Second one!');
+    expect(tokens.slice(second.tokenStart, second.tokenEnd).map(token => token.normalized))
+      .toEqual(['second', 'one']);
+  });
+
+  it('should keep emoji sequences, flags and skin tones in one grapheme', () => {
+    const text = 'Hi 👩‍👩‍👧 🇫🇷 👍🏽!';
+
+    expect(tokenizer.graphemes(text, /\p{Extended_Pictographic}|\p{RI}/u)).toEqual([
+      { text: '👩‍👩‍👧', start: 3 },
+      { text: '🇫🇷', start: 12 },
+      { text: '👍🏽', start: 17 }
+    ]);
+    expect(tokenizer.graphemes('a👍🏽').map(grapheme => grapheme.text)).toEqual(['a', '👍🏽']);
+    expect(tokenizer.graphemes('plain prose', /\p{Extended_Pictographic}/u)).toEqual([]);
+  });
+
+  it('should handle empty and whitespace-only text', () => {
+    expect(tokenizer.tokenize('').tokens).toEqual([]);
+    expect(tokenizer.tokenize('   \n\n  ').sentences).toEqual([]);
+  });
+
+  it('should put concept and emoji positions in the same coordinate system', async () => {
+    const text = 'The café was lovely 😊 and the café staff smiled 😊';
+    const result = await new TextAnalyzer().analyze(text);
+
+    const cafe = result.concepts.find(concept => concept.word === 'café')!;
+    expect(cafe.frequency).toBe(2);
+    cafe.position.forEach(position => {
+      expect(text.slice(position, position + 4)).toBe('café');
+    });
+    result.emojis.forEach(emoji => {
+      expect(text.slice(emoji.position, emoji.position + emoji.emoji.length)).toBe(emoji.emoji);
+    });
+  });
+});
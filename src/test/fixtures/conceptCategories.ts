@@ -0,0 +1,116 @@
+import type { ConceptCategory, LanguageCode } from '../../types';
+
+// Hand-labelled concept words, for the classifier's accuracy test. Most are
+// not in any category list as written: inflections, derivations and the
+// words the old substring patterns got wrong ("window" is no action).
+export const CONCEPT_CATEGORY_FIXTURES: [LanguageCode, string, ConceptCategory][] = [
+  // Substring traps
+  ['en', 'window', 'objects'],
+  ['en', 'know', 'actions'],
+  ['en', 'snow', 'objects'],
+  ['en', 'network', 'objects'],
+  ['en', 'sadly', 'emotion'],
+  ['en', 'daisy', 'objects'],
+  ['en', 'manager', 'people'],
+  ['en', 'keyboard', 'objects'],
+
+  // Listed words and their inflections
+  ['en', 'happiness', 'emotion'],
+  ['en', 'fears', 'emotion'],
+  ['en', 'worried', 'emotion'],
+  ['en', 'feelings', 'emotion'],
+  ['en', 'moods', 'emotion'],
+  ['en', 'furious', 'emotion'],
+  ['en', 'delighted', 'emotion'],
+  ['en', 'mornings', 'time'],
+  ['en', 'yesterday', 'time'],
+  ['en', 'weeks', 'time'],
+  ['en', 'hours', 'time'],
+  ['en', 'birthdays', 'time'],
+  ['en', 'friends', 'people'],
+  ['en', 'mothers', 'people'],
+  ['en', 'children', 'people'],
+  ['en', 'neighbors', 'people'],
+  ['en', 'colleagues', 'people'],
+  ['en', 'cities', 'places'],
+  ['en', 'kitchens', 'places'],
+  ['en', 'rivers', 'places'],
+  ['en', 'mountains', 'places'],
+  ['en', 'streets', 'places'],
+  ['en', 'running', 'actions'],
+  ['en', 'walked', 'actions'],
+  ['en', 'thinking', 'actions'],
+  ['en', 'bought', 'actions'],
+  ['en', 'teaching', 'actions'],
+  ['en', 'helps', 'actions'],
+  ['en', 'ideas', 'abstract'],
+  ['en', 'theories', 'abstract'],
+  ['en', 'dreams', 'abstract'],
+  ['en', 'problems', 'abstract'],
+  ['en', 'freedom', 'abstract'],
+  ['en', 'cars', 'objects'],
+  ['en', 'phones', 'objects'],
+  ['en', 'books', 'objects'],
+  ['en', 'bottles', 'objects'],
+  ['en', 'chairs', 'objects'],
+
+  // Suffixes and parts of speech
+  ['en', 'darkness', 'abstract'],
+  ['en', 'curiosity', 'abstract'],
+  ['en', 'realism', 'abstract'],
+  ['en', 'leadership', 'abstract'],
+  ['en', 'childhood', 'abstract'],
+  ['en', 'kingdom', 'abstract'],
+  ['en', 'singer', 'people'],
+  ['en', 'sailor', 'people'],
+  ['en', 'librarian', 'people'],
+  ['en', 'scientist', 'people'],
+  ['en', 'painting', 'actions'],
+  ['en', 'organize', 'actions'],
+  ['en', 'simplify', 'actions'],
+  ['en', 'quickly', 'actions'],
+  ['en', 'curious', 'abstract'],
+  ['en', 'creative', 'abstract'],
+  ['en', 'reliable', 'abstract'],
+  ['en', 'endless', 'abstract'],
+  ['en', 'magical', 'abstract'],
+
+  // Nothing to go on but the default
+  ['en', 'pebble', 'objects'],
+  ['en', 'umbrella', 'objects'],
+  ['en', 'guitar', 'objects'],
+  ['en', 'candle', 'objects'],
+  ['en', 'blanket', 'objects'],
+
+  ['es', 'felicidad', 'emotion'],
+  ['es', 'amigos', 'people'],
+  ['es', 'ciudades', 'places'],
+  ['es', 'libertad', 'abstract'],
+  ['es', 'cantante', 'people'],
+  ['es', 'escritora', 'people'],
+  ['es', 'bailando', 'actions'],
+  ['es', 'rápidamente', 'actions'],
+  ['es', 'ventanas', 'objects'],
+  ['es', 'semanas', 'time'],
+
+  ['fr', 'bonheur', 'emotion'],
+  ['fr', 'amis', 'people'],
+  ['fr', 'chanteuse', 'people'],
+  ['fr', 'liberté', 'abstract'],
+  ['fr', 'marcher', 'actions'],
+  ['fr', 'lentement', 'actions'],
+  ['fr', 'heureux', 'emotion'],
+  ['fr', 'livres', 'objects'],
+  ['fr', 'villes', 'places'],
+
+  ['de', 'freude', 'emotion'],
+  ['de', 'freunde', 'people'],
+  ['de', 'freiheit', 'abstract'],
+  ['de', 'zeitung', 'objects'],
+  ['de', 'lehrerin', 'people'],
+  ['de', 'studieren', 'actions'],
+  ['de', 'häuser', 'places'],
+  ['de', 'gärten', 'places'],
+  ['de', 'wochen', 'time'],
+  ['de', 'bücher', 'objects']
+];
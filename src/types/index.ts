@@ -6,19 +6,124 @@ export interface AnalysisResult {
   sentiment: SentimentAnalysis;
   concepts: Concept[];
   semanticGraph: SemanticGraph;
+  keySentences: KeySentence[]; // The most central sentences, most central first
   complexity: ComplexityAnalysis;
   scalingStrategy: ScalingStrategy;
   emojis: EmojiData[];
   emojiInfluence: number;
+  language: LanguageDetection;
+  extensions: Record<string, unknown>; // Outputs of registered analyzer plugins, by name
   timestamp: number;
 }
 
+// Analyzer plugin interfaces
+export interface AnalyzerPluginContext {
+  text: string;
+  words: string[];
+  language: LanguageCode;
+  sentiment: SentimentAnalysis;
+  concepts: Concept[];
+  complexity: ComplexityAnalysis;
+  outputs: Record<string, unknown>; // Outputs of plugins that already ran
+}
+
+export interface AnalyzerPlugin<TOutput = unknown> {
+  name: string;
+  dependencies?: string[]; // Other plugin names; core stages are always available
+  analyze(context: AnalyzerPluginContext): TOutput;
+  // Optional NodeSystem hook: turn this plugin's output into nodes
+  createNodes?(output: TOutput, result: AnalysisResult): PluginNodeSpec[];
+}
+
+export interface PluginNodeSpec {
+  word: string;
+  importance: number;  // 0-1
+  relevance?: number;  // 0-1, defaults to importance
+  type?: NodeType;
+  color?: number;
+  layer?: number;
+}
+
+export interface AnalyzeOptions {
+  useCache?: boolean;
+  signal?: AbortSignal;
+  incremental?: boolean; // Reuse per-paragraph results from the previous call
+  language?: LanguageCode; // Skip detection and analyze with this language pack
+  strategy?: ScalingType; // Force a scaling tier instead of picking one by word count
+}
+
+export interface StreamOptions {
+  sentencesPerChunk?: number;
+  signal?: AbortSignal;
+  language?: LanguageCode;
+}
+
+// Progressive result emitted while a long text is being analyzed
+export interface AnalysisSnapshot {
+  streamId: string;   // Same for every snapshot of one stream
+  sequence: number;
+  progress: number;   // 0-1 fraction of the text processed
+  done: boolean;
+  result: AnalysisResult;
+}
+
 export interface SentimentAnalysis {
   scores: EmotionScores;
   dominant: DominantEmotion;
   intensity: number;
   valence: number;  // -1 to +1
   arousal: number;  // 0 to 1
+  phrases: EmotionPhraseMatch[]; // Multi-word lexicon entries found in the text
+  dyads: DyadScores;
+  timeline: EmotionTimeline;
+  sarcasmProbability: number; // 0 to 1: share of the emotional words that read as sarcastic
+  confidence: SentimentConfidence;
+  evidence: EmotionMention[];   // Every word, phrase and emoji that moved the scores, in text order
+}
+
+// What dominant.confidence is made of; it is the product of the factors
+export interface SentimentConfidence {
+  separation: number;         // Gap between the top two emotions, relative to the top one
+  coverage: number;           // Emotional words (and emoji) for the length of the text
+  agreement: number;          // Share of the emotional mass on the dominant emotion's side
+  negation: number;           // Negated readings are ambiguous: "not happy" is not "sad"
+  sarcasm: number;            // 1 - sarcasmProbability
+  interval: [number, number]; // ~95% interval for dominant.score
+}
+
+// How the emotion develops through the text, sentence by sentence and
+// paragraph by paragraph
+export interface EmotionTimeline {
+  sentences: EmotionTimelinePoint[];
+  paragraphs: EmotionTimelinePoint[];
+  turningPoints: EmotionTurningPoint[]; // Valence sign changes between sentences
+}
+
+export interface EmotionTimelinePoint {
+  index: number;         // Sentence or paragraph number
+  start: number;         // Character offset of the first character
+  end: number;           // Character offset just past the last character
+  scores: EmotionScores;
+  dominant: DominantEmotion;
+  valence: number;       // -1 to +1
+  arousal: number;       // 0 to 1
+  arc: number;           // Valence smoothed over the neighbouring points
+}
+
+export interface EmotionTurningPoint {
+  sentence: number;      // First sentence on the new side
+  position: number;      // Character offset where that sentence starts
+  direction: 'rise' | 'fall'; // rise: negative to positive
+  from: number;          // Valence of the last emotional sentence before
+  to: number;
+}
+
+// A multi-word lexicon entry ("over the moon") matched as one unit
+export interface EmotionPhraseMatch {
+  phrase: string;        // Lexicon form, words joined by single spaces
+  emotion: keyof EmotionScores;
+  start: number;         // Character offset of the first word
+  end: number;           // Character offset just past the last word
 }
 
 export interface EmotionScores {
@@ -28,6 +133,21 @@ export interface EmotionScores {
   fear: number;
   surprise: number;
   anticipation: number;
+  trust: number;
+  disgust: number;
+}
+
+// Plutchik's primary dyads: blends of two adjacent emotions on the wheel,
+// scored as the weaker of the pair
+export interface DyadScores {
+  love: number;            // joy + trust
+  submission: number;      // trust + fear
+  awe: number;             // fear + surprise
+  disapproval: number;     // surprise + sadness
+  remorse: number;         // sadness + disgust
+  contempt: number;        // disgust + anger
+  aggressiveness: number;  // anger + anticipation
+  optimism: number;        // anticipation + joy
 }
 
 export interface DominantEmotion {
@@ -37,16 +157,67 @@ export interface DominantEmotion {
 }
 
 export interface Concept {
-  word: string;
+  word: string;          // The commonest surface form ("running")
+  lemma: string;         // What the forms are grouped by: their stem ("run"), or the whole name or phrase
   category: ConceptCategory;
+  categoryConfidence: number; // 0-1: how sure the classifier is of the category
   relevance: number;     // 0-1 normalized score
+  centrality: number;    // 0-1 TextRank score in the co-occurrence graph
   frequency: number;
-  position: number[];    // Positions in text
+  position: number[];    // Character offsets (UTF-16) of each occurrence
+  forms: ConceptForm[];  // Surface forms of the lemma, most frequent first
   connections: string[]; // Related concepts
+  entity?: EntityType;   // Set for named entities ("new york" is a PLACE)
+  emotionProfile?: Partial<EmotionScores>; // What the concept makes the writer feel, 0-1
+}
+
+// One spelling of a concept as it appears in the text ("running" for "run")
+export interface ConceptForm {
+  form: string;
+  frequency: number;
+  positions: number[];
+}
+
+// Named entity types; each maps onto a ConceptCategory
+export type EntityType = 'PERSON' | 'PLACE' | 'ORG' | 'DATE';
+
+// A run of tokens counted as one concept word: a single word, a name
+// ("new york") or a collocation ("machine learning")
+export interface ConceptUnit {
+  word: string;          // Normalized words joined by single spaces
+  first: number;         // Index of the first token
+  last: number;          // Index of the last token
+  start: number;         // Character offset of the first token
+  entity?: EntityType;
 }
 
 export type ConceptCategory = 'emotion' | 'time' | 'people' | 'places' | 'actions' | 'abstract' | 'objects';
 
+// A category and how it was reached; see ConceptClassifier
+export interface CategoryAssignment {
+  category: ConceptCategory;
+  confidence: number;    // 0-1
+  source: 'entity' | 'lexicon' | 'emotion-lexicon' | 'stem' | 'suffix' | 'part-of-speech' | 'embedding' | 'default';
+}
+
+// Word vectors for the classifier's last resort: the nearest category centroid
+export interface WordEmbeddings {
+  readonly name: string; // Part of the analysis cache version
+  vector(word: string, language: LanguageCode): ArrayLike<number> | null;
+}
+
+// A sentence ranked by TextRank over the concepts it shares with the others
+export interface KeySentence {
+  index: number;         // Sentence number, as in the emotion timeline
+  start: number;         // Character offset of the first character
+  end: number;           // Character offset just past the last character
+  text: string;
+  score: number;         // 0-1, relative to the most central sentence
+}
+
+// Weighted, undirected: every edge is listed under both of its ends
+export type WeightedGraph = Map<string, Map<string, number>>;
+
 export interface SemanticGraph {
   nodes: Map<string, ConceptNode>;
   edges: Map<string, SemanticEdge>;
@@ -56,13 +227,13 @@ export interface SemanticGraph {
 export interface ConceptNode {
   id: string;
   concept: Concept;
-  importance: number;
+  importance: number;    // The concept's centrality
   connections: string[];
 }
 
 export interface SemanticEdge {
   id: string;
-  source: string;
+  source: string;        // A concept word, or "emotion:joy" on emotional edges
   target: string;
   weight: number;
   relationship: RelationshipType;
@@ -87,11 +258,335 @@ export interface ComplexityAnalysis {
 
 export interface EmojiData {
   emoji: string;
-  position: number;
+  position: number;      // Character offset (UTF-16), same coordinates as Concept.position
   emotion: keyof EmotionScores;
   intensity: number;
 }
 
+// Language interfaces
+export type LanguageCode = 'en' | 'es' | 'fr' | 'de';
+
+export interface LanguageDetection {
+  language: LanguageCode;
+  confidence: number;                             // 0-1
+  scores: Record<LanguageCode, number>;           // Profile similarity per language
+}
+
+// Everything language-specific the analyzers look up
+export interface LanguagePack {
+  code: LanguageCode;
+  name: string;
+  profileText: string;                            // Representative prose for the n-gram profile
+  stopwords: string[];
+  negations: string[];
+  negationSuffixes: string[];                     // e.g. "n't"
+  intensifiers: Record<string, number>;           // word -> multiplier
+  adversatives: string[];                         // "but": the preceding clause counts less (may be phrases)
+  concessives: string[];                          // "although": the clause it opens counts less
+  additivePairs: [string, string][];              // "not only" ... "but also": neither negates nor contrasts
+  targetMarkers: string[];                        // "angry at": what follows is what the emotion is about
+  sarcasmMarkers: string[];                       // "yeah right": set phrases that signal sarcasm
+  collocations: string[];                         // "machine learning": terms kept whole as one concept
+  entities: {
+    gazetteer: Record<EntityType, string[]>;      // Known names, lowercase; may be phrases ("new york")
+    titles: string[];                             // "dr": the name that follows is a PERSON
+    organizationWords: string[];                  // "university", "inc": a name containing one is an ORG
+    placeWords: string[];                         // "lake", "street": a name containing one is a PLACE
+    placePrepositions: string[];                  // "in": an unknown name right after one is a PLACE
+    nameConnectors: string[];                     // "of", "de": may join capitalized words inside a name
+    capitalizedNouns: boolean;                    // Every noun is capitalized (German), so capitals mark no name
+    lowercaseDates: boolean;                      // Months and weekdays are written in lowercase (es, fr)
+  };
+  // term -> intensity 0-1; terms may be phrases ("fed up") or appear under several emotions
+  emotionLexicon: Record<keyof EmotionScores, Record<string, number>>;
+  clitics: { prefixes: string[]; suffixes: string[] }; // Stripped before concept lookup
+  categoryKeywords: Record<ConceptCategory, string[]>;
+  categorySuffixes: Partial<Record<ConceptCategory, string[]>>; // "ness": abstract, "er": people
+  partOfSpeechSuffixes: Partial<Record<PartOfSpeech, string[]>>; // "ly": adverb; see ConceptClassifier
+  referenceFrequencies: [number, string[]][];     // Zipf bands of a reference corpus; see KeynessScorer
+  complexity: {
+    commonWords: string[];
+    complexWords: string[];
+    subordinators: string[];
+    contrastMarkers: string[];                    // Signal mixed feelings (may be phrases)
+    emotionWords: string[];
+    complexEmotionWords: string[];
+    intensifiers: string[];
+    abstractIndicators: string[];
+    technicalIndicators: string[];
+    abstractSuffixes: string[];
+    technicalSuffixes: string[];
+    actionSuffixes: string[];
+    descriptiveSuffixes: string[];
+  };
+}
+
+// Maps an inflected word to the key its forms are grouped under
+export type Stemmer = (word: string) => string;
+
+// Sentiment backend interfaces
+// A backend only replaces the emotion scores; the lexicon tally still
+// supplies the timeline, evidence and emotion attribution
+export interface SentimentBackendInput {
+  text: string;
+  language: LanguageCode;
+  lexicon: SentimentAnalysis; // The lexicon analysis of the same text
+}
+
+export interface SentimentBackend {
+  readonly name: string; // Part of the analysis cache version
+  score(input: SentimentBackendInput): Promise<EmotionScores>;
+}
+
+// Metadata shipped next to a tfjs model; see docs/SENTIMENT_MODEL_FORMAT.md
+export interface SentimentModelMetadata {
+  format: 'neural-echo-sentiment-model';
+  version: number;
+  emotions: (keyof EmotionScores)[]; // One sigmoid output per emotion, in this order
+  vocabulary: string[];              // Token id = index; 0 pads, 1 is unknown
+  sequenceLength: number;
+}
+
+// Reads a file of a model directory by its relative name
+export type ModelFileReader = (file: string) => Promise<ArrayBuffer>;
+
+// Emotion lexicon interfaces
+// Graded entries in the external lexicon format; see docs/LEXICON_FORMAT.md
+export type PartOfSpeech = 'noun' | 'verb' | 'adj' | 'adv' | 'interj';
+export type LexiconFormat = 'json' | 'tsv';
+
+export interface EmotionLexiconEntry {
+  term: string;                       // Word or phrase, normalized like tokens
+  emotions: Partial<EmotionScores>;   // Emotion -> intensity 0-1; several for mixed words
+  pos?: PartOfSpeech[];               // Metadata only: stored, not used in matching or scoring
+  remove?: boolean;                   // Overrides only: drop the term from the base lexicon
+}
+
+export interface EmotionLexiconDocument {
+  format: 'neural-echo-lexicon';
+  version: number;
+  language?: LanguageCode;
+  entries: EmotionLexiconEntry[];
+}
+
+// Tokenizer interfaces
+export interface Token {
+  text: string;          // Surface form as it appears in the text
+  normalized: string;    // NFC, lowercased, typographic apostrophes unified
+  start: number;         // Character offset (UTF-16) of the first character
+  end: number;           // Character offset just past the last character
+  index: number;         // Position among the word tokens
+  sentence: number;
+  paragraph: number;
+}
+
+export interface SentenceSpan {
+  index: number;
+  paragraph: number;
+  start: number;
+  end: number;
+  tokenStart: number;    // First token of the sentence
+  tokenEnd: number;      // One past the last token
+}
+
+export interface TokenizedText {
+  text: string;
+  tokens: Token[];
+  sentences: SentenceSpan[];
+  paragraphCount: number;
+}
+
+// Incremental analysis interfaces
+// Mergeable partial results: each analyzer tallies a paragraph on its own,
+// and tallies are added/subtracted as paragraphs change.
+export interface EmotionTally {
+  sums: EmotionScores;     // Raw, unnormalized emotion scores
+  emotionalWords: number;
+  phrases: EmotionPhraseMatch[]; // Segment-local offsets; not merged
+  sentences: SentenceTally[];    // Segment-local offsets; not merged
+  mentions: EmotionMention[];    // Segment-local offsets; not merged
+  sarcasm: number;               // Sentence sarcasm probabilities weighted by their emotional words
+  totalWords: number;
+  negatedWords: number;
+  squares: EmotionScores;        // Sums of squared mention scores, for the spread of each emotion
+}
+
+// What SarcasmDetector sees of one sentence
+export interface SarcasmContext {
+  text: string;                       // Up to the next sentence's first word, so trailing emoji belong to it
+  words: string[];                    // Normalized tokens
+  positive: number;                   // Emotion mass by polarity, valence shifters applied
+  negative: number;
+  positiveSpans: [number, number][];  // Positive lexicon hits, as offsets into text
+  emojis: string[];
+  negativeEmojis: number;
+}
+
+// One scored lexicon hit or emoji, with the valence shifters already applied
+export interface EmotionMention {
+  kind: 'word' | 'phrase' | 'emoji';
+  text: string;
+  start: number;
+  end: number;
+  scores: Partial<EmotionScores>; // May be negative when negated
+  modifiers: SentimentModifier[];
+}
+
+// A valence shifter applied to a mention; factor is the weight it
+// multiplied in, or the probability for sarcasm
+export interface SentimentModifier {
+  kind: 'negation' | 'intensifier' | 'contrast' | 'emphasis' | 'concession' | 'sarcasm';
+  factor: number;
+}
+
+// Concept word, as counted before lemmatization -> emotion mass attributed to it; mergeable like tallies
+export type EmotionTargetTally = Map<string, EmotionScores>;
+
+export interface SentenceTally {
+  paragraph: number;
+  start: number;
+  end: number;
+  sums: EmotionScores;
+  emotionalWords: number;
+}
+
+export interface ConceptStatistics {
+  totalWords: number;
+  wordCounts: Map<string, number>;
+  wordPositions: Map<string, number[]>;                // Segment-local character offsets (of bigrams too)
+  cooccurrences: Map<string, Map<string, number>>;     // word -> neighbour -> count
+  entities: Map<string, Map<EntityType, number>>;      // word -> entity type -> occurrences read as it
+  bigrams: Map<string, number>;                        // "machine learning" -> adjacent occurrences
+  firstIndices: Map<string, number>;                   // Segment-local token index of each word's first use
+}
+
+export interface ComplexityTally {
+  totalWords: number;
+  wordCounts: Map<string, number>;
+  sentenceCount: number;
+  sentenceComplexitySum: number;
+  conceptCounts: { abstract: number; technical: number; action: number; descriptive: number };
+  emotionCounts: { simple: number; complex: number; intensifiers: number };
+  nuanceIndicators: Map<string, number>; // indicator -> segments containing it
+}
+
+export interface SegmentTally {
+  text: string;
+  words: string[];
+  emojis: EmojiData[];     // Segment-local positions
+  emotions: EmotionTally;
+  targets: EmotionTargetTally;
+  concepts: ConceptStatistics;
+  complexity: ComplexityTally;
+}
+
+// Serialization interfaces
+// Versioned interchange format shared by exports, sharing and the analysis
+// worker; see docs/SERIALIZATION_FORMAT.md. Maps become entry arrays and
+// THREE vectors/colors become number tuples so documents survive JSON.
+export type SerializedKind = 'analysis-result' | 'visualization';
+
+export interface SerializedDocument<TKind extends SerializedKind, TPayload> {
+  schema: 'neural-echo';
+  version: number;
+  kind: TKind;
+  payload: TPayload;
+}
+
+export interface SerializedSemanticGraph {
+  nodes: [string, ConceptNode][];
+  edges: [string, SemanticEdge][];
+  clusters: ConceptCluster[];
+}
+
+export interface SerializedAnalysisResult extends Omit<AnalysisResult, 'semanticGraph'> {
+  semanticGraph: SerializedSemanticGraph;
+}
+
+export type SerializedVector3 = [number, number, number];
+export type SerializedColor = [number, number, number]; // Linear r, g, b
+
+export interface SerializedNode extends Omit<Node, 'position' | 'color'> {
+  position: SerializedVector3;
+  color: SerializedColor;
+}
+
+export interface SerializedConnection extends Omit<Connection, 'color'> {
+  color: SerializedColor;
+}
+
+export interface SerializedParticle extends Omit<ParticleData, 'position' | 'velocity' | 'color'> {
+  position: SerializedVector3;
+  velocity: SerializedVector3;
+  color: SerializedColor;
+}
+
+export interface SerializedVisualization {
+  nodes: SerializedNode[];
+  connections: SerializedConnection[];
+  particles: SerializedParticle[];
+  scalingInfo: ScalingInfo;
+  performanceProfile: PerformanceProfile;
+}
+
+export type AnalysisResultDocument = SerializedDocument<'analysis-result', SerializedAnalysisResult>;
+export type VisualizationDocument = SerializedDocument<'visualization', SerializedVisualization>;
+
+// Upgrades a payload written under `from` to version `from + 1`
+export interface SchemaMigration {
+  from: number;
+  migrate: (payload: Record<string, unknown>, kind: SerializedKind) => Record<string, unknown>;
+}
+
+// Worker protocol interfaces
+export interface SerializedAnalysisSnapshot extends Omit<AnalysisSnapshot, 'result'> {
+  result: AnalysisResultDocument;
+}
+
+export type AnalysisWorkerRequest =
+  | { type: 'analyze'; id: number; text: string; useCache: boolean; incremental: boolean; language?: LanguageCode }
+  | { type: 'analyzeStream'; id: number; text: string; sentencesPerChunk?: number; language?: LanguageCode }
+  | { type: 'cancel'; id: number }
+  | { type: 'clearCache'; id: number };
+
+export type AnalysisWorkerResponse =
+  | { type: 'result'; id: number; result: AnalysisResultDocument }
+  | { type: 'snapshot'; id: number; snapshot: SerializedAnalysisSnapshot }
+  | { type: 'aborted'; id: number }
+  | { type: 'cleared'; id: number }
+  | { type: 'error'; id: number; message: string };
+
+// Analysis cache interfaces
+export interface AnalysisCacheEntry {
+  key: string;
+  version: string; // Analyzer/lexicon/plugin version the result was computed with
+  result: AnalysisResult;
+  createdAt: number;
+  lastAccess: number;
+}
+
+// Persistent layer behind the in-memory LRU (IndexedDB in the browser)
+export interface AnalysisCacheStore {
+  get(key: string): Promise<AnalysisCacheEntry | undefined>;
+  set(entry: AnalysisCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  count(): Promise<number>;
+  prune(maxEntries: number): Promise<number>; // Drops least recently used entries, returns how many
+}
+
+export interface AnalysisCacheStats {
+  size: number; // Entries in the memory layer
+  oldestEntry: number;
+  newestEntry: number;
+  hits: number;
+  misses: number;
+  memoryHits: number;
+  persistentHits: number;
+  staleEntries: number; // Dropped because their version no longer matches
+  hitRate: number;
+}
+
 // Scaling system interfaces
 export interface ScalingStrategy {
   type: ScalingType;
@@ -165,6 +660,7 @@ export type NodeType = 'emotion' | 'concept' | 'synthetic' | 'temporal' | 'socia
 
 export interface NodeData {
   word: string;
+  source?: string;       // Analyzer plugin that contributed the node
   concept?: Concept;
   emotion?: keyof EmotionScores;
   relevance: number;
@@ -368,6 +864,14 @@ export type ErrorCode =
   | 'MEMORY_LIMIT_EXCEEDED'
   | 'GPU_MEMORY_LIMIT_EXCEEDED'
   | 'TEXT_ANALYSIS_FAILED'
+  | 'TEXT_ANALYSIS_ABORTED'
+  | 'ANALYZER_PLUGIN_INVALID'
+  | 'CLI_USAGE_INVALID'
+  | 'SERIALIZATION_INVALID'
+  | 'LEXICON_INVALID'
+  | 'SENTIMENT_BACKEND_INVALID'
+  | 'EMBEDDINGS_INVALID'
+  | 'AI_CONFIG_INVALID'
   | 'SCALING_CALCULATION_FAILED'
   | 'RENDERING_PIPELINE_FAILED';
 